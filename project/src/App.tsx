@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import Layout from './components/layout/Layout';
 import BackofficeLayout from './components/layout/BackofficeLayout';
+import PortalLayout from './components/layout/PortalLayout';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import Tenants from './pages/Tenants';
@@ -12,15 +13,22 @@ import Reports from './pages/Reports';
 import Notifications from './pages/Notifications';
 import Settings from './pages/Settings';
 import Properties from './pages/Properties';
+import Billing from './pages/Billing';
 import BackofficeDashboard from './pages/backoffice/Dashboard';
 import BackofficeUsers from './pages/backoffice/Users';
 import BackofficeNotifications from './pages/backoffice/Notifications';
 import BackofficeProperties from './pages/backoffice/Properties';
 import BackofficeSubscriptionPlans from './pages/backoffice/SubscriptionPlans';
 import BackofficeSubscriptions from './pages/backoffice/Subscriptions';
+import BackofficeInvoices from './pages/backoffice/Invoices';
+import PortalHome from './pages/portal/Home';
+import PortalPayments from './pages/portal/Payments';
+import PortalMaintenance from './pages/portal/Maintenance';
 import { PropertyProvider, useProperty } from './contexts/PropertyContext';
 import { BackofficeProvider, useBackoffice } from './contexts/BackofficeContext';
 import { NotificationProvider } from './contexts/NotificationContext';
+import { TenantPortalProvider } from './contexts/TenantPortalContext';
+import { SubscriptionProvider } from './contexts/SubscriptionContext';
 import BackofficeSwitch from './components/ui/BackofficeSwitch';
 import { supabase } from './lib/supabase';
 
@@ -29,11 +37,13 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
   const location = useLocation();
   const { selectedProperty } = useProperty();
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const [isTenant, setIsTenant] = useState(false);
 
   useEffect(() => {
     const checkAuth = async () => {
       const { data: { session } } = await supabase.auth.getSession();
       setIsAuthenticated(!!session);
+      setIsTenant(session?.user.user_metadata?.role === 'tenant');
       
       if (!session) {
         // Save the intended destination
@@ -63,8 +73,13 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     return null;
   }
 
-  // Only redirect to properties if we're not already there and no property is selected
-  if (!selectedProperty && location.pathname !== '/properties') {
+  // Tenants have no properties of their own; they use the portal instead
+  if (isTenant) {
+    return <Navigate to="/portal" replace />;
+  }
+
+  // Only redirect to properties if no property is selected and the page needs one
+  if (!selectedProperty && !['/properties', '/billing'].includes(location.pathname)) {
     return <Navigate to="/properties" replace />;
   }
 
@@ -89,6 +104,7 @@ const AppContent: React.FC = () => {
     reports: 'Laporan Keuangan',
     notifications: 'Notifikasi',
     settings: 'Pengaturan',
+    billing: 'Langganan',
     properties: 'Properti'
   };
 
@@ -176,6 +192,14 @@ const AppContent: React.FC = () => {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/billing" 
+          element={
+            <ProtectedRoute>
+              <Billing />
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/properties" 
           element={
@@ -189,6 +213,47 @@ const AppContent: React.FC = () => {
   );
 };
 
+// Tenant accounts only need a session; RLS limits them to their own records
+const PortalRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const navigate = useNavigate();
+  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      setIsAuthenticated(!!session);
+
+      if (!session) {
+        navigate('/login', { state: { from: '/portal', tenant: true } });
+      }
+    };
+
+    checkAuth();
+  }, [navigate]);
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return <>{children}</>;
+};
+
+const PortalContent: React.FC = () => {
+  return (
+    <PortalRoute>
+      <TenantPortalProvider>
+        <PortalLayout>
+          <Routes>
+            <Route path="/" element={<PortalHome />} />
+            <Route path="/payments" element={<PortalPayments />} />
+            <Route path="/maintenance" element={<PortalMaintenance />} />
+          </Routes>
+        </PortalLayout>
+      </TenantPortalProvider>
+    </PortalRoute>
+  );
+};
+
 const BackofficeContent: React.FC = () => {
   return (
     <BackofficeLayout>
@@ -199,6 +264,7 @@ const BackofficeContent: React.FC = () => {
         <Route path="/properties" element={<BackofficeProperties />} />
         <Route path="/subscriptions" element={<BackofficeSubscriptions />} />
         <Route path="/subscription-plans" element={<BackofficeSubscriptionPlans />} />
+        <Route path="/invoices" element={<BackofficeInvoices />} />
         <Route path="/settings" element={<div>Backoffice Settings</div>} />
       </Routes>
     </BackofficeLayout>
@@ -210,14 +276,17 @@ function App() {
     <Router>
       <BackofficeProvider>
         <PropertyProvider>
-          <NotificationProvider>
-            <Routes>
-              <Route path="/login" element={<Login />} />
-              <Route path="/backoffice/*" element={<BackofficeContent />} />
-              <Route path="/*" element={<AppContent />} />
-            </Routes>
-            <BackofficeSwitch />
-          </NotificationProvider>
+          <SubscriptionProvider>
+            <NotificationProvider>
+              <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route path="/backoffice/*" element={<BackofficeContent />} />
+                <Route path="/portal/*" element={<PortalContent />} />
+                <Route path="/*" element={<AppContent />} />
+              </Routes>
+              <BackofficeSwitch />
+            </NotificationProvider>
+          </SubscriptionProvider>
         </PropertyProvider>
       </BackofficeProvider>
     </Router>
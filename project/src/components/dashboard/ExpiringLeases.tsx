@@ -0,0 +1,71 @@
+import React from 'react';
+import { Room, Tenant } from '../../types';
+import Card, { CardHeader, CardContent } from '../ui/Card';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import { formatDate, getTenantStatusColor, translateTenantStatus } from '../../utils/formatters';
+import { LEASE_EXPIRY_WINDOW_DAYS, describeLeaseDaysRemaining, getExpiringLeases, getLeaseDaysRemaining } from '../../utils/leases';
+import { RefreshCw } from 'lucide-react';
+
+interface ExpiringLeasesProps {
+  tenants: Tenant[];
+  rooms: Room[];
+  onRenewClick: (tenant: Tenant) => void;
+}
+
+const ExpiringLeases: React.FC<ExpiringLeasesProps> = ({ tenants, rooms, onRenewClick }) => {
+  const expiringLeases = getExpiringLeases(tenants);
+
+  // Get room number from room id
+  const getRoomNumber = (roomId: string | null): string => {
+    const room = rooms.find(r => r.id === roomId);
+    return room ? room.number : '-';
+  };
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-800">Sewa Segera Berakhir</h2>
+        <span className="text-sm text-gray-500">{LEASE_EXPIRY_WINDOW_DAYS} Hari ke Depan</span>
+      </CardHeader>
+      <CardContent className="p-0">
+        {expiringLeases.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">Tidak ada masa sewa yang akan berakhir.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {expiringLeases.map((tenant) => {
+              const daysRemaining = getLeaseDaysRemaining(tenant.end_date);
+
+              return (
+                <div key={tenant.id} className="px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{tenant.name}</p>
+                    <p className="text-sm text-gray-500">Kamar {getRoomNumber(tenant.room_id)}</p>
+                    <p className={`text-sm ${daysRemaining < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {formatDate(tenant.end_date)} · {describeLeaseDaysRemaining(daysRemaining)}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    <Badge className={getTenantStatusColor(tenant.status)}>
+                      {translateTenantStatus(tenant.status)}
+                    </Badge>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      icon={<RefreshCw size={14} />}
+                      onClick={() => onRenewClick(tenant)}
+                    >
+                      Perpanjang
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExpiringLeases;
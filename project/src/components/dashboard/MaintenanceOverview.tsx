@@ -3,18 +3,21 @@ import { MaintenanceRequest, Room } from '../../types';
 import Card, { CardHeader, CardContent, CardFooter } from '../ui/Card';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
-import { formatDate, getMaintenancePriorityColor, getMaintenanceStatusColor } from '../../utils/formatters';
+import { formatCurrency, formatDate, getMaintenancePriorityColor, getMaintenanceStatusColor } from '../../utils/formatters';
 import { ChevronRight } from 'lucide-react';
 
 interface MaintenanceOverviewProps {
   maintenanceRequests: MaintenanceRequest[];
   rooms: Room[];
+  // Cost of the work completed this month
+  monthlyCost: number;
   onViewAllClick: () => void;
 }
 
 const MaintenanceOverview: React.FC<MaintenanceOverviewProps> = ({ 
   maintenanceRequests, 
   rooms, 
+  monthlyCost,
   onViewAllClick 
 }) => {
   // Get room number from room id
@@ -27,7 +30,7 @@ const MaintenanceOverview: React.FC<MaintenanceOverviewProps> = ({
     <Card className="h-full">
       <CardHeader className="flex justify-between items-center">
         <h2 className="text-lg font-semibold text-gray-800">Permintaan Pemeliharaan</h2>
-        <span className="text-sm text-gray-500">Masalah Terbaru</span>
+        <span className="text-sm text-gray-500">Biaya bulan ini: {formatCurrency(monthlyCost)}</span>
       </CardHeader>
       <CardContent className="p-0">
         <div className="divide-y divide-gray-100">
@@ -36,7 +39,7 @@ const MaintenanceOverview: React.FC<MaintenanceOverviewProps> = ({
               <div className="flex justify-between items-start mb-2">
                 <div>
                   <h3 className="font-medium">{request.title}</h3>
-                  <p className="text-sm text-gray-500">Kamar {getRoomNumber(request.roomId)}</p>
+                  <p className="text-sm text-gray-500">Kamar {getRoomNumber(request.room_id)}</p>
                 </div>
                 <Badge className={getMaintenancePriorityColor(request.priority)}>
                   {request.priority === 'high' ? 'Tinggi' : request.priority === 'medium' ? 'Sedang' : 'Rendah'}
@@ -48,7 +51,10 @@ const MaintenanceOverview: React.FC<MaintenanceOverviewProps> = ({
                   {request.status === 'pending' ? 'Menunggu' : 
                    request.status === 'in-progress' ? 'Dalam Proses' : 'Selesai'}
                 </Badge>
-                <span className="text-xs text-gray-500">{formatDate(request.date)}</span>
+                <span className="text-xs text-gray-500">
+                  {Number(request.total_cost) > 0 && `${formatCurrency(Number(request.total_cost))} · `}
+                  {formatDate(request.date)}
+                </span>
               </div>
             </div>
           ))}
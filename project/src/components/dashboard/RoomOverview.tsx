@@ -1,17 +1,27 @@
 import React from 'react';
-import { Room } from '../../types';
+import { Room, Tenant } from '../../types';
 import Card, { CardHeader, CardContent, CardFooter } from '../ui/Card';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
 import { getRoomStatusColor } from '../../utils/formatters';
+import { describeLeaseDaysRemaining, getExpiringLeases, getLeaseDaysRemaining } from '../../utils/leases';
 import { DoorClosed, ChevronRight } from 'lucide-react';
 
 interface RoomOverviewProps {
   rooms: Room[];
+  tenants?: Tenant[];
   onViewAllClick: () => void;
 }
 
-const RoomOverview: React.FC<RoomOverviewProps> = ({ rooms, onViewAllClick }) => {
+const RoomOverview: React.FC<RoomOverviewProps> = ({ rooms, tenants = [], onViewAllClick }) => {
+  // Rooms whose occupant's lease is ending soon or has ended
+  const expiringLeaseByRoom = getExpiringLeases(tenants).reduce((acc, tenant) => {
+    if (tenant.room_id) {
+      acc[tenant.room_id] = tenant;
+    }
+    return acc;
+  }, {} as Record<string, Tenant>);
+
   // Group rooms by floor
   const roomsByFloor = rooms.reduce((acc, room) => {
     if (!acc[room.floor]) {
@@ -47,6 +57,11 @@ const RoomOverview: React.FC<RoomOverviewProps> = ({ rooms, onViewAllClick }) =>
                       {room.status === 'occupied' ? 'Terisi' : 
                        room.status === 'vacant' ? 'Kosong' : 'Perbaikan'}
                     </Badge>
+                    {expiringLeaseByRoom[room.id] && (
+                      <span className="text-xs text-orange-600 mt-1 text-center">
+                        {describeLeaseDaysRemaining(getLeaseDaysRemaining(expiringLeaseByRoom[room.id].end_date))}
+                      </span>
+                    )}
                   </div>
                 ))}
               </div>
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Payment, Tenant } from '../../types';
+import { Payment, Room, Tenant } from '../../types';
 import Card, { CardHeader, CardContent, CardFooter } from '../ui/Card';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
@@ -9,16 +9,23 @@ import { ChevronRight } from 'lucide-react';
 interface UpcomingPaymentsProps {
   payments: Payment[];
   tenants: Tenant[];
+  rooms: Room[];
   onViewAllClick: () => void;
 }
 
-const UpcomingPayments: React.FC<UpcomingPaymentsProps> = ({ payments, tenants, onViewAllClick }) => {
+const UpcomingPayments: React.FC<UpcomingPaymentsProps> = ({ payments, tenants, rooms, onViewAllClick }) => {
   // Get tenant name from tenant id
   const getTenantName = (tenantId: string): string => {
     const tenant = tenants.find(t => t.id === tenantId);
     return tenant ? tenant.name : 'Unknown';
   };
 
+  // Get room number from room id
+  const getRoomNumber = (roomId: string): string => {
+    const room = rooms.find(r => r.id === roomId);
+    return room ? room.number : 'Unknown';
+  };
+
   return (
     <Card className="h-full">
       <CardHeader className="flex justify-between items-center">
@@ -30,9 +37,9 @@ const UpcomingPayments: React.FC<UpcomingPaymentsProps> = ({ payments, tenants,
           {payments.map((payment) => (
             <div key={payment.id} className="px-6 py-4 flex items-center justify-between">
               <div>
-                <p className="font-medium">{getTenantName(payment.tenantId)}</p>
-                <p className="text-sm text-gray-500">Kamar {payment.roomId}</p>
-                <p className="text-sm text-gray-500">Jatuh Tempo: {formatDate(payment.dueDate)}</p>
+                <p className="font-medium">{getTenantName(payment.tenant_id)}</p>
+                <p className="text-sm text-gray-500">Kamar {getRoomNumber(payment.room_id)}</p>
+                <p className="text-sm text-gray-500">Jatuh Tempo: {formatDate(payment.due_date)}</p>
               </div>
               <div className="text-right">
                 <p className="font-medium">{formatCurrency(payment.amount)}</p>
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { Room, Tenant } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Upload, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { roomService, tenantService } from '../../services/supabase';
+import { useSubscription } from '../../contexts/SubscriptionContext';
+import {
+  ColumnMapping,
+  ImportEntity,
+  ROOM_IMPORT_FIELDS,
+  TENANT_IMPORT_FIELDS,
+  guessColumnMapping,
+  readSpreadsheet,
+  validateRoomRows,
+  validateTenantRows
+} from '../../utils/bulkImport';
+
+interface BulkImportWizardProps {
+  propertyId: string;
+  initialEntity?: ImportEntity;
+  onClose: () => void;
+  onImported: (entity: ImportEntity, count: number) => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: 'upload', label: 'Unggah File' },
+  { key: 'mapping', label: 'Pemetaan Kolom' },
+  { key: 'preview', label: 'Pratinjau' }
+];
+
+const BulkImportWizard: React.FC<BulkImportWizardProps> = ({
+  propertyId,
+  initialEntity = 'rooms',
+  onClose,
+  onImported
+}) => {
+  const { plan } = useSubscription();
+  const [step, setStep] = useState<Step>('upload');
+  const [entity, setEntity] = useState<ImportEntity>(initialEntity);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const roomLimit = plan?.max_rooms_per_property ?? null;
+  const fields = entity === 'rooms' ? ROOM_IMPORT_FIELDS : TENANT_IMPORT_FIELDS;
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setIsLoading(true);
+        const [roomsData, tenantsData] = await Promise.all([
+          roomService.getByPropertyId(propertyId),
+          tenantService.getByPropertyId(propertyId)
+        ]);
+        setRooms(roomsData);
+        setTenants(tenantsData);
+      } catch (err) {
+        console.error('Error loading import data:', err);
+        setError('Gagal memuat data properti. Silakan coba lagi.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadData();
+  }, [propertyId]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError(null);
+      const sheet = await readSpreadsheet(file);
+      if (sheet.length < 2) {
+        setError('File harus berisi baris judul kolom dan minimal satu baris data.');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(sheet[0]);
+      setRows(sheet.slice(1));
+      setMapping(guessColumnMapping(sheet[0], fields));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('File tidak dapat dibaca. Gunakan file CSV atau XLSX.');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleEntityChange = (value: ImportEntity) => {
+    setEntity(value);
+    setStep('upload');
+    setRows([]);
+    setHeaders([]);
+  };
+
+  const roomResults = entity === 'rooms' && step === 'preview'
+    ? validateRoomRows(rows, mapping, propertyId, rooms)
+    : [];
+  const tenantResults = entity === 'tenants' && step === 'preview'
+    ? validateTenantRows(rows, mapping, rooms, tenants)
+    : [];
+  const results = entity === 'rooms' ? roomResults : tenantResults;
+  const validCount = results.filter(result => result.values).length;
+  const invalidCount = results.length - validCount;
+
+  const roomsOverLimit = entity === 'rooms' && roomLimit !== null && rooms.length + validCount > roomLimit;
+  const missingRequired = fields.filter(field => field.required && mapping[field.key] == null);
+
+  const handleImport = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      if (entity === 'rooms') {
+        const created = await roomService.createMany(
+          roomResults.flatMap(result => (result.values ? [result.values] : []))
+        );
+        onImported('rooms', created.length);
+      } else {
+        const created = await tenantService.createMany(
+          propertyId,
+          tenantResults.flatMap(result => (result.values ? [result.values] : []))
+        );
+        onImported('tenants', created.length);
+      }
+    } catch (err) {
+      console.error('Error importing data:', err);
+      setError('Gagal mengimpor data. Tidak ada data yang disimpan, silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const previewFields = fields.slice(0, 4);
+  const cellFor = (row: string[], key: string) => {
+    const index = mapping[key];
+    return index == null ? '' : row[index] ?? '';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Impor {entity === 'rooms' ? 'Kamar' : 'Penyewa'}
+            </h2>
+            <div className="flex gap-2 mt-2 text-sm">
+              {STEPS.map((s, index) => (
+                <span
+                  key={s.key}
+                  className={s.key === step ? 'font-medium text-blue-600' : 'text-gray-400'}
+                >
+                  {index + 1}. {s.label}
+                </span>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+            </div>
+          ) : step === 'upload' ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant={entity === 'rooms' ? 'primary' : 'outline'}
+                  onClick={() => handleEntityChange('rooms')}
+                >
+                  Data Kamar
+                </Button>
+                <Button
+                  variant={entity === 'tenants' ? 'primary' : 'outline'}
+                  onClick={() => handleEntityChange('tenants')}
+                >
+                  Data Penyewa
+                </Button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  File CSV atau XLSX
+                </label>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={handleFileChange}
+                  className="w-full text-sm text-gray-700"
+                />
+              </div>
+
+              <div className="p-3 text-sm text-gray-600 bg-gray-50 rounded-md">
+                <p className="font-medium text-gray-700 mb-1">Kolom yang dikenali</p>
+                <p>
+                  {fields.map(field => `${field.label}${field.required ? '' : ' (opsional)'}`).join(', ')}
+                </p>
+                {entity === 'rooms' ? (
+                  <p className="mt-1">Tipe: single, double, atau deluxe. Fasilitas dipisahkan dengan titik koma.</p>
+                ) : (
+                  <p className="mt-1">Nomor kamar harus merujuk ke kamar kosong yang sudah ada. Tanggal: YYYY-MM-DD atau DD/MM/YYYY.</p>
+                )}
+                {entity === 'rooms' && roomLimit !== null && (
+                  <p className="mt-1">
+                    Paket Anda mengizinkan {roomLimit} kamar per properti; saat ini terdapat {rooms.length} kamar.
+                  </p>
+                )}
+              </div>
+            </div>
+          ) : step === 'mapping' ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Pilih kolom pada <span className="font-medium">{fileName}</span> untuk setiap data ({rows.length} baris).
+              </p>
+              {fields.map(field => (
+                <div key={field.key} className="grid grid-cols-2 gap-3 items-center">
+                  <label className="text-sm font-medium text-gray-700">
+                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setMapping(prev => ({
+                      ...prev,
+                      [field.key]: e.target.value === '' ? null : Number(e.target.value)
+                    }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Tidak diimpor</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Kolom ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-100 text-green-800">{validCount} siap diimpor</Badge>
+                {invalidCount > 0 && (
+                  <Badge className="bg-red-100 text-red-800">{invalidCount} baris bermasalah</Badge>
+                )}
+              </div>
+
+              {roomsOverLimit && (
+                <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+                  Impor ini melebihi batas {roomLimit} kamar per properti pada paket Anda
+                  ({rooms.length} kamar sudah ada). Kurangi jumlah baris atau tingkatkan paket.
+                </div>
+              )}
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Baris</th>
+                      {previewFields.map(field => (
+                        <th key={field.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {field.label}
+                        </th>
+                      ))}
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hasil</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {results.map((result, index) => (
+                      <tr key={result.rowNumber} className={result.errors.length > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-4 py-2 text-sm text-gray-500">{result.rowNumber}</td>
+                        {previewFields.map(field => (
+                          <td key={field.key} className="px-4 py-2 text-sm text-gray-900">
+                            {cellFor(rows[index], field.key)}
+                          </td>
+                        ))}
+                        <td className="px-4 py-2 text-sm">
+                          {result.errors.length > 0 ? (
+                            <div className="flex items-start gap-1 text-red-600">
+                              <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                              <span>{result.errors.join('; ')}</span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-1 text-green-600">
+                              <CheckCircle size={14} />
+                              <span>Siap</span>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {invalidCount > 0 && validCount > 0 && (
+                <p className="text-xs text-gray-500">
+                  Baris bermasalah akan dilewati. Perbaiki file lalu unggah ulang untuk mengimpornya.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+          {step === 'upload' && (
+            <Button variant="outline" className="w-full" onClick={onClose}>
+              Batal
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" className="w-full" icon={<Upload size={16} />} onClick={() => setStep('upload')}>
+                Ganti File
+              </Button>
+              <Button
+                className="w-full"
+                onClick={() => setStep('preview')}
+                disabled={missingRequired.length > 0}
+              >
+                Pratinjau
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" className="w-full" onClick={() => setStep('mapping')} disabled={isSubmitting}>
+                Kembali
+              </Button>
+              <Button
+                variant="success"
+                className="w-full"
+                onClick={handleImport}
+                disabled={isSubmitting || validCount === 0 || roomsOverLimit}
+              >
+                {isSubmitting ? 'Mengimpor...' : `Impor ${validCount} ${entity === 'rooms' ? 'Kamar' : 'Penyewa'}`}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkImportWizard;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Users, Building2, Bell, LayoutDashboard, Settings, LogOut, CreditCard } from 'lucide-react';
+import { Users, Building2, Bell, LayoutDashboard, Settings, LogOut, CreditCard, FileText } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 
 interface BackofficeLayoutProps {
@@ -17,6 +17,7 @@ const BackofficeLayout: React.FC<BackofficeLayoutProps> = ({ children }) => {
     { id: 'properties', label: 'Properties', icon: <Building2 size={20} />, path: '/backoffice/properties' },
     { id: 'notifications', label: 'Notifications', icon: <Bell size={20} />, path: '/backoffice/notifications' },
     { id: 'subscription-plans', label: 'Subscription Plans', icon: <CreditCard size={20} />, path: '/backoffice/subscription-plans' },
+    { id: 'invoices', label: 'Invoices', icon: <FileText size={20} />, path: '/backoffice/invoices' },
     { id: 'settings', label: 'Settings', icon: <Settings size={20} />, path: '/backoffice/settings' }
   ];
 
@@ -3,6 +3,7 @@ import Sidebar from './Sidebar';
 import Header from './Header';
 import MobileNav from './MobileNav';
 import MobileMenu from './MobileMenu';
+import ReadOnlyBanner from '../subscription/ReadOnlyBanner';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -46,7 +47,10 @@ const Layout: React.FC<LayoutProps> = ({ children, title, activeItem, onNavigate
 
       {/* Main content */}
       <main className="lg:ml-64 pt-16 pb-20 lg:pb-8 min-h-screen">
-        <div className="p-6">{children}</div>
+        <div className="p-6">
+          <ReadOnlyBanner onNavigate={onNavigate} />
+          {children}
+        </div>
       </main>
 
       {/* Mobile navigation */}
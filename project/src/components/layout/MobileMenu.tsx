@@ -1,6 +1,7 @@
 import React from 'react';
-import { X, Home, Users, DoorClosed, CreditCard, ClipboardList, BarChart, Settings, Bell, LogOut } from 'lucide-react';
+import { X, Home, Users, DoorClosed, CreditCard, ClipboardList, BarChart, Settings, Bell, Wallet, LogOut } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
 import { useNavigate } from 'react-router-dom';
 
 interface MobileMenuProps {
@@ -10,6 +11,7 @@ interface MobileMenuProps {
 }
 
 const MobileMenu: React.FC<MobileMenuProps> = ({ activeItem, onItemClick, onClose }) => {
+  const { hasPermission } = useProperty();
   const navigate = useNavigate();
   const menuItems = [
     { id: 'dashboard', label: 'Beranda', icon: <Home size={20} /> },
@@ -19,8 +21,9 @@ const MobileMenu: React.FC<MobileMenuProps> = ({ activeItem, onItemClick, onClos
     { id: 'maintenance', label: 'Pemeliharaan', icon: <ClipboardList size={20} /> },
     { id: 'reports', label: 'Laporan', icon: <BarChart size={20} /> },
     { id: 'notifications', label: 'Notifikasi', icon: <Bell size={20} /> },
+    { id: 'billing', label: 'Langganan', icon: <Wallet size={20} /> },
     { id: 'settings', label: 'Pengaturan', icon: <Settings size={20} /> }
-  ];
+  ].filter(item => item.id !== 'reports' || hasPermission('view_reports'));
 
   const handleLogout = async () => {
     try {
@@ -0,0 +1,104 @@
+import React from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { Home, CreditCard, ClipboardList, LogOut, Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useTenantPortal } from '../../contexts/TenantPortalContext';
+
+interface PortalLayoutProps {
+  children: React.ReactNode;
+}
+
+const PortalLayout: React.FC<PortalLayoutProps> = ({ children }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { tenancy, isLoading, error } = useTenantPortal();
+
+  const menuItems = [
+    { id: 'home', label: 'Beranda', icon: <Home size={20} />, path: '/portal' },
+    { id: 'payments', label: 'Pembayaran', icon: <CreditCard size={20} />, path: '/portal/payments' },
+    { id: 'maintenance', label: 'Pemeliharaan', icon: <ClipboardList size={20} />, path: '/portal/maintenance' }
+  ];
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate('/login');
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex flex-col items-center justify-center py-24">
+          <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+          <p className="mt-2 text-gray-600">Memuat data sewa...</p>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      );
+    }
+
+    if (!tenancy) {
+      return (
+        <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-600">
+          Akun Anda belum terhubung dengan data penyewa. Pastikan pengelola kost mencatat email yang sama
+          dengan email akun ini, lalu masuk kembali.
+        </div>
+      );
+    }
+
+    return children;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-4 h-16 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-blue-600">KostManager</h1>
+            {tenancy?.property && (
+              <p className="text-xs text-gray-500">{tenancy.property.name}</p>
+            )}
+          </div>
+          <button
+            onClick={handleLogout}
+            className="flex items-center px-3 py-2 text-sm text-gray-600 hover:bg-gray-50 hover:text-gray-900 rounded-lg"
+          >
+            <LogOut size={18} className="mr-2" />
+            Keluar
+          </button>
+        </div>
+        <nav className="max-w-5xl mx-auto px-4 flex gap-2">
+          {menuItems.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => navigate(item.path)}
+              className={`flex items-center px-4 py-2 text-sm border-b-2 transition-colors ${
+                location.pathname === item.path
+                  ? 'border-blue-600 text-blue-700'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <span className="mr-2">{item.icon}</span>
+              {item.label}
+            </button>
+          ))}
+        </nav>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-4 sm:p-8">
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
+
+export default PortalLayout;
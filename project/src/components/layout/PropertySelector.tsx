@@ -2,6 +2,7 @@ import React from 'react';
 import { useProperty } from '../../contexts/PropertyContext';
 import { Building2, ChevronDown, Loader2 } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { ROLE_LABELS } from '../../utils/permissions';
 
 const PropertySelector: React.FC = () => {
   const { properties, selectedProperty, setSelectedProperty, isLoading, error } = useProperty();
@@ -89,6 +90,9 @@ const PropertySelector: React.FC = () => {
                 }`}
               >
                 {property.name}
+                {property.role && property.role !== 'owner' && (
+                  <span className="ml-2 text-xs text-gray-500">({ROLE_LABELS[property.role]})</span>
+                )}
               </button>
             ))}
             <div className="border-t border-gray-100 mt-1">
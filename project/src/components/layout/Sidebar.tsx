@@ -8,9 +8,11 @@ import {
   BarChart, 
   Settings, 
   Bell, 
+  Wallet, 
   LogOut 
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
 import { useNavigate } from 'react-router-dom';
 
 interface SidebarProps {
@@ -19,6 +21,7 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ activeItem, onItemClick }) => {
+  const { hasPermission } = useProperty();
   const navigate = useNavigate();
   const menuItems = [
     { id: 'dashboard', label: 'Beranda', icon: <Home size={20} /> },
@@ -28,8 +31,9 @@ const Sidebar: React.FC<SidebarProps> = ({ activeItem, onItemClick }) => {
     { id: 'maintenance', label: 'Pemeliharaan', icon: <ClipboardList size={20} /> },
     { id: 'reports', label: 'Laporan', icon: <BarChart size={20} /> },
     { id: 'notifications', label: 'Notifikasi', icon: <Bell size={20} /> },
+    { id: 'billing', label: 'Langganan', icon: <Wallet size={20} /> },
     { id: 'settings', label: 'Pengaturan', icon: <Settings size={20} /> }
-  ];
+  ].filter(item => item.id !== 'reports' || hasPermission('view_reports'));
 
   const handleLogout = async () => {
     try {
@@ -0,0 +1,472 @@
+import React, { useCallback, useState, useEffect } from 'react';
+import { MaintenanceAttachment, MaintenanceCostItem, MaintenanceRequest } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Wrench, User, DoorClosed, Calendar, CheckCircle, Plus, Trash, Loader2, Camera } from 'lucide-react';
+import {
+  formatCurrency,
+  formatDateTime,
+  getMaintenancePriorityColor,
+  getMaintenanceStatusColor,
+  translateMaintenancePriority,
+  translateMaintenanceStatus
+} from '../../utils/formatters';
+import { maintenanceAttachmentService, maintenanceCostService, maintenanceService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+import MaintenanceTimeline from './MaintenanceTimeline';
+
+interface MaintenanceDetailsProps {
+  request: MaintenanceRequest;
+  roomNumber?: string;
+  tenantName?: string | null;
+  onClose: () => void;
+  onRequestUpdated?: (request: MaintenanceRequest) => void;
+}
+
+const COST_KIND_LABELS: Record<MaintenanceCostItem['kind'], string> = {
+  labor: 'Jasa',
+  material: 'Material'
+};
+
+const MaintenanceDetails: React.FC<MaintenanceDetailsProps> = ({
+  request: initialRequest,
+  roomNumber,
+  tenantName,
+  onClose,
+  onRequestUpdated
+}) => {
+  const { hasPermission } = useProperty();
+  const [request, setRequest] = useState<MaintenanceRequest>(initialRequest);
+  const [costItems, setCostItems] = useState<MaintenanceCostItem[]>([]);
+  const [attachments, setAttachments] = useState<MaintenanceAttachment[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showCostForm, setShowCostForm] = useState(false);
+  const [costForm, setCostForm] = useState({
+    kind: 'labor' as MaintenanceCostItem['kind'],
+    description: '',
+    quantity: 1,
+    unit_cost: 0
+  });
+
+  const canDelete = hasPermission('delete_maintenance');
+
+  const loadDetails = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [itemsData, attachmentsData] = await Promise.all([
+        maintenanceCostService.getByRequestId(initialRequest.id),
+        maintenanceAttachmentService.getByRequestId(initialRequest.id)
+      ]);
+      setCostItems(itemsData);
+      setAttachments(attachmentsData);
+      setPhotoUrls(await maintenanceAttachmentService.getUrls(attachmentsData));
+    } catch (err) {
+      console.error('Error loading work order details:', err);
+      setError('Gagal memuat rincian pekerjaan.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [initialRequest.id]);
+
+  useEffect(() => {
+    loadDetails();
+  }, [loadDetails]);
+
+  const refreshRequest = async () => {
+    const [updatedRequest] = await Promise.all([
+      maintenanceService.getById(request.id),
+      loadDetails()
+    ]);
+    setRequest(updatedRequest);
+    onRequestUpdated?.(updatedRequest);
+  };
+
+  const handleCostChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setCostForm(prev => ({
+      ...prev,
+      [name]: name === 'quantity' || name === 'unit_cost' ? parseFloat(value) || 0 : value
+    }));
+  };
+
+  const handleCostSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (costForm.quantity <= 0) {
+      setError('Jumlah harus lebih dari 0.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await maintenanceCostService.create({
+        request_id: request.id,
+        property_id: request.property_id,
+        kind: costForm.kind,
+        description: costForm.description,
+        quantity: costForm.quantity,
+        unit_cost: costForm.unit_cost
+      });
+
+      await refreshRequest();
+      setShowCostForm(false);
+      setCostForm(prev => ({ ...prev, description: '', quantity: 1, unit_cost: 0 }));
+    } catch (err) {
+      console.error('Error saving cost item:', err);
+      setError('Gagal menyimpan biaya. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteCost = async (item: MaintenanceCostItem) => {
+    if (!window.confirm(`Hapus biaya "${item.description}"?`)) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await maintenanceCostService.delete(item.id);
+      await refreshRequest();
+    } catch (err) {
+      console.error('Error deleting cost item:', err);
+      setError('Gagal menghapus biaya.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    try {
+      setIsUploading(true);
+      setError(null);
+      for (const file of files) {
+        await maintenanceAttachmentService.upload(request, file);
+      }
+      await loadDetails();
+    } catch (err) {
+      console.error('Error uploading photo:', err);
+      setError('Gagal mengunggah foto. Silakan coba lagi.');
+    } finally {
+      setIsUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleDeletePhoto = async (attachment: MaintenanceAttachment) => {
+    if (!window.confirm('Hapus foto ini?')) return;
+
+    try {
+      setError(null);
+      await maintenanceAttachmentService.delete(attachment);
+      await loadDetails();
+    } catch (err) {
+      console.error('Error deleting photo:', err);
+      setError('Gagal menghapus foto.');
+    }
+  };
+
+  const laborTotal = costItems
+    .filter(item => item.kind === 'labor')
+    .reduce((sum, item) => sum + Number(item.amount), 0);
+  const materialTotal = costItems
+    .filter(item => item.kind === 'material')
+    .reduce((sum, item) => sum + Number(item.amount), 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Rincian Pekerjaan</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-start justify-between gap-4">
+              <h3 className="text-lg font-medium text-gray-900">{request.title}</h3>
+              <div className="flex flex-col items-end gap-2">
+                <Badge className={getMaintenancePriorityColor(request.priority)}>
+                  Prioritas {translateMaintenancePriority(request.priority)}
+                </Badge>
+                <Badge className={getMaintenanceStatusColor(request.status)}>
+                  {translateMaintenanceStatus(request.status)}
+                </Badge>
+              </div>
+            </div>
+            <p className="text-gray-600 mt-2">{request.description}</p>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-start gap-3">
+              <DoorClosed size={20} className="text-gray-400 mt-1" />
+              <div>
+                <p className="text-sm text-gray-600">Kamar</p>
+                <p className="font-medium text-gray-900">
+                  {request.room_id ? `Kamar ${roomNumber}` : 'Seluruh properti'}{tenantName ? ` · dilaporkan oleh ${tenantName}` : ''}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <User size={20} className="text-gray-400 mt-1" />
+              <div>
+                <p className="text-sm text-gray-600">Dikerjakan Oleh</p>
+                <p className="font-medium text-gray-900">
+                  {request.assignee_name || 'Belum ditugaskan'}
+                  {request.assignee_phone && (
+                    <span className="text-gray-500 font-normal"> · {request.assignee_phone}</span>
+                  )}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <Calendar size={20} className="text-gray-400 mt-1" />
+              <div>
+                <p className="text-sm text-gray-600">Jadwal Pengerjaan</p>
+                <p className="font-medium text-gray-900">
+                  {request.scheduled_at ? formatDateTime(request.scheduled_at) : 'Belum dijadwalkan'}
+                </p>
+              </div>
+            </div>
+
+            {request.completed_at && (
+              <div className="flex items-start gap-3">
+                <CheckCircle size={20} className="text-gray-400 mt-1" />
+                <div>
+                  <p className="text-sm text-gray-600">Selesai Pada</p>
+                  <p className="font-medium text-gray-900">{formatDateTime(request.completed_at)}</p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Cost Lines */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-gray-900">Biaya</h3>
+              {!showCostForm && (
+                <Button size="sm" icon={<Plus size={14} />} onClick={() => setShowCostForm(true)}>
+                  Tambah Biaya
+                </Button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+              </div>
+            ) : costItems.length > 0 ? (
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {costItems.map(item => (
+                  <div key={item.id} className="flex items-start justify-between p-3">
+                    <div className="flex items-start gap-3">
+                      <Wrench size={18} className="text-gray-400 mt-1" />
+                      <div>
+                        <p className="font-medium text-gray-900">{item.description}</p>
+                        <p className="text-sm text-gray-500">
+                          {COST_KIND_LABELS[item.kind]} · {Number(item.quantity)} x {formatCurrency(item.unit_cost)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium text-gray-900 whitespace-nowrap">{formatCurrency(item.amount)}</span>
+                      {canDelete && (
+                        <button
+                          onClick={() => handleDeleteCost(item)}
+                          className="text-gray-400 hover:text-red-600"
+                          disabled={isSubmitting}
+                          title="Hapus biaya"
+                        >
+                          <Trash size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                <div className="p-3 bg-gray-50 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Jasa</span>
+                    <span className="text-gray-900">{formatCurrency(laborTotal)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Material</span>
+                    <span className="text-gray-900">{formatCurrency(materialTotal)}</span>
+                  </div>
+                  <div className="flex justify-between font-medium">
+                    <span className="text-gray-700">Total</span>
+                    <span className="text-gray-900">{formatCurrency(request.total_cost || 0)}</span>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Belum ada biaya yang dicatat.</p>
+            )}
+
+            {showCostForm && (
+              <form onSubmit={handleCostSubmit} className="mt-4 p-4 border border-gray-200 rounded-lg space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Jenis
+                    </label>
+                    <select
+                      name="kind"
+                      value={costForm.kind}
+                      onChange={handleCostChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={isSubmitting}
+                    >
+                      <option value="labor">Jasa</option>
+                      <option value="material">Material</option>
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Keterangan
+                    </label>
+                    <input
+                      type="text"
+                      name="description"
+                      value={costForm.description}
+                      onChange={handleCostChange}
+                      placeholder="Contoh: pipa PVC 1/2 inci"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Jumlah
+                    </label>
+                    <input
+                      type="number"
+                      name="quantity"
+                      value={costForm.quantity}
+                      onChange={handleCostChange}
+                      min="0.01"
+                      step="0.01"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Harga Satuan
+                    </label>
+                    <input
+                      type="number"
+                      name="unit_cost"
+                      value={costForm.unit_cost}
+                      onChange={handleCostChange}
+                      min="0"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowCostForm(false)}
+                    disabled={isSubmitting}
+                  >
+                    Batal
+                  </Button>
+                  <Button type="submit" variant="success" size="sm" disabled={isSubmitting}>
+                    {isSubmitting ? 'Menyimpan...' : 'Simpan Biaya'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+
+          {/* Photos */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-gray-900">Foto</h3>
+              <label className={`inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 ${
+                isUploading ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'
+              }`}>
+                <Camera size={14} />
+                {isUploading ? 'Mengunggah...' : 'Tambah Foto'}
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handlePhotoUpload}
+                  disabled={isUploading}
+                  className="hidden"
+                />
+              </label>
+            </div>
+
+            {attachments.length > 0 ? (
+              <div className="grid grid-cols-3 gap-3">
+                {attachments.map(attachment => (
+                  <div key={attachment.id} className="relative group">
+                    <a href={photoUrls[attachment.storage_path]} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={photoUrls[attachment.storage_path]}
+                        alt={attachment.file_name}
+                        className="w-full h-24 object-cover rounded-md border border-gray-200"
+                      />
+                    </a>
+                    {canDelete && (
+                      <button
+                        onClick={() => handleDeletePhoto(attachment)}
+                        className="absolute top-1 right-1 p-1 bg-white rounded-full shadow text-gray-500 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                        title="Hapus foto"
+                      >
+                        <Trash size={14} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : !isLoading && (
+              <p className="text-sm text-gray-500">Belum ada foto.</p>
+            )}
+          </div>
+
+          <MaintenanceTimeline request={request} />
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg">
+          <Button variant="outline" className="w-full" onClick={onClose}>
+            Tutup
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaintenanceDetails;
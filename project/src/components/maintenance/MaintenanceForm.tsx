@@ -1,20 +1,30 @@
 import React from 'react';
-import { MaintenanceRequest, Room, Tenant } from '../../types';
+import { MaintenanceRequest, Room, Tenant, Vendor } from '../../types';
 import Button from '../ui/Button';
 import { X } from 'lucide-react';
+import { VENDOR_TRADE_LABELS } from '../../utils/vendors';
 
 interface MaintenanceFormProps {
   request?: MaintenanceRequest;
   rooms: Room[];
   tenants: Tenant[];
+  vendors: Vendor[];
   onSubmit: (data: Partial<MaintenanceRequest>) => void;
   onClose: () => void;
 }
 
+// datetime-local inputs work in local time without a zone
+const toDateTimeInput = (value?: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 const MaintenanceForm: React.FC<MaintenanceFormProps> = ({
   request,
   rooms,
   tenants,
+  vendors,
   onSubmit,
   onClose
 }) => {
@@ -25,12 +35,26 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({
     description: request?.description || '',
     date: request?.date || new Date().toISOString().split('T')[0],
     status: request?.status || 'pending',
-    priority: request?.priority || 'medium'
+    priority: request?.priority || 'medium',
+    vendor_id: request?.vendor_id || '',
+    assignee_name: request?.assignee_name || '',
+    assignee_phone: request?.assignee_phone || '',
+    scheduled_at: toDateTimeInput(request?.scheduled_at)
   });
 
+  // Property-wide preventive maintenance has no room
+  const isPropertyWide = !!request && !request.room_id;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    onSubmit({
+      ...formData,
+      room_id: formData.room_id || undefined,
+      vendor_id: formData.vendor_id || null,
+      assignee_name: formData.assignee_name || null,
+      assignee_phone: formData.assignee_phone || null,
+      scheduled_at: formData.scheduled_at ? new Date(formData.scheduled_at).toISOString() : null
+    });
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -40,7 +64,7 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] flex flex-col">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-xl font-semibold text-gray-800">
             {request ? 'Ubah Permintaan Pemeliharaan' : 'Permintaan Pemeliharaan Baru'}
@@ -50,7 +74,7 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Kamar
@@ -60,9 +84,9 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({
               value={formData.room_id}
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              required
+              required={!isPropertyWide}
             >
-              <option value="">Pilih kamar</option>
+              <option value="">{isPropertyWide ? 'Seluruh properti' : 'Pilih kamar'}</option>
               {rooms.map(room => (
                 <option key={room.id} value={room.id}>
                   Kamar {room.number}
@@ -166,6 +190,69 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Vendor
+            </label>
+            <select
+              name="vendor_id"
+              value={formData.vendor_id || ''}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Tanpa vendor / teknisi sendiri</option>
+              {vendors.map(vendor => (
+                <option key={vendor.id} value={vendor.id}>
+                  {vendor.name} ({VENDOR_TRADE_LABELS[vendor.trade]})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* The vendor's name and phone are filled in when it is assigned */}
+          {!formData.vendor_id && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Dikerjakan Oleh
+                </label>
+                <input
+                  type="text"
+                  name="assignee_name"
+                  value={formData.assignee_name || ''}
+                  onChange={handleChange}
+                  placeholder="Nama teknisi"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Telepon
+                </label>
+                <input
+                  type="tel"
+                  name="assignee_phone"
+                  value={formData.assignee_phone || ''}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Jadwal Pengerjaan (Opsional)
+            </label>
+            <input
+              type="datetime-local"
+              name="scheduled_at"
+              value={formData.scheduled_at || ''}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
           <div className="flex justify-end gap-3 mt-6">
             <Button variant="outline" onClick={onClose}>
               Batal
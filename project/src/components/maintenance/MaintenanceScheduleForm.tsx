@@ -0,0 +1,308 @@
+import React from 'react';
+import { MaintenanceSchedule, Room, Vendor } from '../../types';
+import Button from '../ui/Button';
+import { X } from 'lucide-react';
+import { VENDOR_TRADE_LABELS } from '../../utils/vendors';
+import {
+  MAINTENANCE_INTERVAL_OPTIONS,
+  formatMaintenanceInterval,
+  getSchedulableFacilities,
+  getScheduleTemplates
+} from '../../utils/maintenanceSchedules';
+
+interface MaintenanceScheduleFormProps {
+  schedule?: MaintenanceSchedule;
+  rooms: Room[];
+  vendors: Vendor[];
+  onSubmit: (data: Partial<MaintenanceSchedule>) => void;
+  onClose: () => void;
+}
+
+const MaintenanceScheduleForm: React.FC<MaintenanceScheduleFormProps> = ({
+  schedule,
+  rooms,
+  vendors,
+  onSubmit,
+  onClose
+}) => {
+  const [formData, setFormData] = React.useState({
+    room_id: schedule?.room_id || '',
+    facility: schedule?.facility || '',
+    title: schedule?.title || '',
+    description: schedule?.description || '',
+    priority: schedule?.priority || 'medium',
+    interval_months: String(schedule?.interval_months || 3),
+    next_due_date: schedule?.next_due_date || '',
+    lead_days: String(schedule?.lead_days ?? 7),
+    vendor_id: schedule?.vendor_id || '',
+    active: schedule?.active ?? true
+  });
+
+  const room = rooms.find(r => r.id === formData.room_id);
+  const facilities = room ? getSchedulableFacilities(room) : [];
+  const templates = getScheduleTemplates(room).filter(template =>
+    !formData.facility || template.facility === formData.facility
+  );
+
+  const intervalOptions = MAINTENANCE_INTERVAL_OPTIONS.includes(Number(formData.interval_months))
+    ? MAINTENANCE_INTERVAL_OPTIONS
+    : [...MAINTENANCE_INTERVAL_OPTIONS, Number(formData.interval_months)].sort((a, b) => a - b);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      room_id: formData.room_id || null,
+      facility: formData.room_id ? formData.facility : null,
+      title: formData.title,
+      description: formData.description,
+      priority: formData.priority as MaintenanceSchedule['priority'],
+      interval_months: parseInt(formData.interval_months) || 1,
+      next_due_date: formData.next_due_date,
+      lead_days: parseInt(formData.lead_days) || 0,
+      vendor_id: formData.vendor_id || null,
+      active: formData.active
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  // Another room may not have the chosen facility
+  const handleRoomChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextRoom = rooms.find(r => r.id === e.target.value);
+    setFormData(prev => ({
+      ...prev,
+      room_id: e.target.value,
+      facility: nextRoom && getSchedulableFacilities(nextRoom).includes(prev.facility) ? prev.facility : ''
+    }));
+  };
+
+  const handleTemplateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const template = templates.find(t => t.key === e.target.value);
+    if (!template) return;
+
+    setFormData(prev => ({
+      ...prev,
+      facility: template.facility || prev.facility,
+      title: template.title,
+      description: template.description,
+      priority: template.priority,
+      interval_months: String(template.interval_months)
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">
+            {schedule ? 'Ubah Jadwal Pemeliharaan' : 'Jadwal Pemeliharaan Baru'}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Lokasi
+              </label>
+              <select
+                name="room_id"
+                value={formData.room_id}
+                onChange={handleRoomChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Seluruh properti</option>
+                {rooms.map(r => (
+                  <option key={r.id} value={r.id}>
+                    Kamar {r.number}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {formData.room_id && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Fasilitas
+                </label>
+                <select
+                  name="facility"
+                  value={formData.facility}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                >
+                  <option value="">Pilih fasilitas</option>
+                  {facilities.map(facility => (
+                    <option key={facility} value={facility}>{facility}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {formData.room_id && facilities.length === 0 && (
+            <p className="text-sm text-yellow-700 bg-yellow-50 rounded-md p-3">
+              Kamar ini belum memiliki fasilitas. Tambahkan fasilitas di halaman Kamar terlebih dahulu.
+            </p>
+          )}
+
+          {!schedule && templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Template (Opsional)
+              </label>
+              <select
+                value=""
+                onChange={handleTemplateChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Pilih template</option>
+                {templates.map(template => (
+                  <option key={template.key} value={template.key}>
+                    {template.title} ({formatMaintenanceInterval(template.interval_months).toLowerCase()})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Judul
+            </label>
+            <input
+              type="text"
+              name="title"
+              value={formData.title}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Deskripsi
+            </label>
+            <textarea
+              name="description"
+              value={formData.description}
+              onChange={handleChange}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Interval
+              </label>
+              <select
+                name="interval_months"
+                value={formData.interval_months}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {intervalOptions.map(months => (
+                  <option key={months} value={months}>{formatMaintenanceInterval(months)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Prioritas
+              </label>
+              <select
+                name="priority"
+                value={formData.priority}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="low">Rendah</option>
+                <option value="medium">Sedang</option>
+                <option value="high">Tinggi</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Jatuh Tempo Berikutnya
+              </label>
+              <input
+                type="date"
+                name="next_due_date"
+                value={formData.next_due_date}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Buat Permintaan (hari sebelum)
+              </label>
+              <input
+                type="number"
+                name="lead_days"
+                min="0"
+                max="60"
+                value={formData.lead_days}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Vendor
+            </label>
+            <select
+              name="vendor_id"
+              value={formData.vendor_id}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Tanpa vendor</option>
+              {vendors.map(vendor => (
+                <option key={vendor.id} value={vendor.id}>
+                  {vendor.name} ({VENDOR_TRADE_LABELS[vendor.trade]})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.active}
+              onChange={(e) => setFormData(prev => ({ ...prev, active: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Jadwal aktif
+          </label>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <Button variant="outline" onClick={onClose}>
+              Batal
+            </Button>
+            <Button type="submit">
+              {schedule ? 'Simpan Perubahan' : 'Tambah Jadwal'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MaintenanceScheduleForm;
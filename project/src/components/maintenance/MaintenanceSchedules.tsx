@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subMonths
+} from 'date-fns';
+import { id } from 'date-fns/locale';
+import { MaintenanceSchedule, Room, Vendor } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import MaintenanceScheduleForm from './MaintenanceScheduleForm';
+import { Plus, Edit, Trash, ChevronLeft, ChevronRight } from 'lucide-react';
+import { getMaintenancePriorityColor } from '../../utils/formatters';
+import { formatMaintenanceInterval, projectScheduleOccurrences } from '../../utils/maintenanceSchedules';
+import { maintenanceScheduleService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+
+interface MaintenanceSchedulesProps {
+  schedules: MaintenanceSchedule[];
+  rooms: Room[];
+  vendors: Vendor[];
+  onSchedulesChanged: () => Promise<void>;
+}
+
+const WEEKDAYS = ['Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab', 'Min'];
+
+const MaintenanceSchedules: React.FC<MaintenanceSchedulesProps> = ({
+  schedules,
+  rooms,
+  vendors,
+  onSchedulesChanged
+}) => {
+  const { selectedProperty, hasPermission } = useProperty();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [showForm, setShowForm] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<MaintenanceSchedule | undefined>();
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = hasPermission('manage_maintenance_schedules');
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(month, { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 })
+  });
+  const occurrences = projectScheduleOccurrences(
+    schedules,
+    format(days[0], 'yyyy-MM-dd'),
+    format(days[days.length - 1], 'yyyy-MM-dd')
+  );
+
+  const locationOf = (schedule: MaintenanceSchedule) => {
+    if (!schedule.room_id) return 'Seluruh properti';
+    const room = rooms.find(r => r.id === schedule.room_id);
+    return `Kamar ${room?.number ?? '-'} · ${schedule.facility}`;
+  };
+
+  const handleFormSubmit = async (data: Partial<MaintenanceSchedule>) => {
+    if (!selectedProperty?.id) return;
+
+    try {
+      setError(null);
+      if (editingSchedule) {
+        await maintenanceScheduleService.update(editingSchedule.id, data);
+      } else {
+        await maintenanceScheduleService.create({
+          ...data as Omit<MaintenanceSchedule, 'id' | 'created_at' | 'updated_at'>,
+          property_id: selectedProperty.id
+        });
+      }
+      await onSchedulesChanged();
+      setShowForm(false);
+      setEditingSchedule(undefined);
+    } catch (err) {
+      console.error('Error saving maintenance schedule:', err);
+      setError(err instanceof Error && err.message.startsWith('Room does not have facility')
+        ? 'Kamar tidak memiliki fasilitas tersebut.'
+        : 'Gagal menyimpan jadwal. Silakan coba lagi.');
+    }
+  };
+
+  const handleDelete = async (schedule: MaintenanceSchedule) => {
+    if (!window.confirm(`Hapus jadwal "${schedule.title}"? Permintaan yang sudah dibuat tetap tersimpan.`)) return;
+
+    try {
+      setError(null);
+      await maintenanceScheduleService.delete(schedule.id);
+      await onSchedulesChanged();
+    } catch (err) {
+      console.error('Error deleting maintenance schedule:', err);
+      setError('Gagal menghapus jadwal.');
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mx-6 mb-4 p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* Calendar of upcoming tasks */}
+      <div className="px-6 pb-6">
+        <div className="flex items-center justify-between mb-3">
+          <Button
+            variant="outline"
+            size="sm"
+            icon={<ChevronLeft size={16} />}
+            onClick={() => setMonth(current => subMonths(current, 1))}
+          >
+            Sebelumnya
+          </Button>
+          <h3 className="text-base font-semibold text-gray-800">
+            {format(month, 'MMMM yyyy', { locale: id })}
+          </h3>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setMonth(current => addMonths(current, 1))}
+          >
+            <span className="flex items-center gap-1">
+              Berikutnya
+              <ChevronRight size={16} />
+            </span>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-7 border-t border-l border-gray-200 text-sm">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="px-2 py-1 border-r border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-500 text-center">
+              {day}
+            </div>
+          ))}
+          {days.map(day => {
+            const date = format(day, 'yyyy-MM-dd');
+            const tasks = occurrences.filter(o => o.date === date);
+            return (
+              <div
+                key={date}
+                className={`min-h-[5rem] p-1 border-r border-b border-gray-200 ${
+                  isSameMonth(day, month) ? 'bg-white' : 'bg-gray-50 text-gray-400'
+                }`}
+              >
+                <div className={`text-xs mb-1 ${date === today ? 'font-bold text-blue-600' : ''}`}>
+                  {format(day, 'd')}
+                </div>
+                {tasks.slice(0, 3).map(({ schedule }) => (
+                  <div
+                    key={schedule.id}
+                    title={`${schedule.title} — ${locationOf(schedule)}`}
+                    className={`mb-1 px-1 rounded text-xs truncate ${getMaintenancePriorityColor(schedule.priority)}`}
+                  >
+                    {schedule.title}
+                  </div>
+                ))}
+                {tasks.length > 3 && (
+                  <div className="text-xs text-gray-500">+{tasks.length - 3} lainnya</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="px-6 pb-4 flex justify-between items-center">
+        <h3 className="text-base font-semibold text-gray-800">Rencana Pemeliharaan</h3>
+        {canManage && (
+          <Button
+            icon={<Plus size={16} />}
+            onClick={() => {
+              setEditingSchedule(undefined);
+              setShowForm(true);
+            }}
+          >
+            Tambah Jadwal
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pekerjaan</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lokasi</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Interval</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jatuh Tempo</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {schedules.length > 0 ? schedules.map(schedule => (
+              <tr key={schedule.id} className={schedule.active ? '' : 'opacity-60'}>
+                <td className="px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{schedule.title}</span>
+                    {!schedule.active && (
+                      <Badge className="bg-gray-100 text-gray-800">Nonaktif</Badge>
+                    )}
+                  </div>
+                  {schedule.description && (
+                    <p className="text-xs text-gray-500 mt-1">{schedule.description}</p>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{locationOf(schedule)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {formatMaintenanceInterval(schedule.interval_months)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {format(parseISO(schedule.next_due_date), 'd MMM yyyy', { locale: id })}
+                  <p className="text-xs text-gray-500">Dibuat {schedule.lead_days} hari sebelumnya</p>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {vendors.find(v => v.id === schedule.vendor_id)?.name || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right">
+                  {canManage && (
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        icon={<Edit size={14} />}
+                        onClick={() => {
+                          setEditingSchedule(schedule);
+                          setShowForm(true);
+                        }}
+                      >
+                        Ubah
+                      </Button>
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        icon={<Trash size={14} />}
+                        onClick={() => handleDelete(schedule)}
+                      >
+                        Hapus
+                      </Button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  Belum ada jadwal. Buat jadwal servis AC, kuras tandon atau pemeriksaan APAR agar permintaan dibuat otomatis.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <p className="px-6 py-3 text-xs text-gray-500">
+        Permintaan pemeliharaan dibuat otomatis sesuai jumlah hari sebelum jatuh tempo, lalu jadwal berpindah ke tanggal berikutnya.
+      </p>
+
+      {showForm && (
+        <MaintenanceScheduleForm
+          schedule={editingSchedule}
+          rooms={rooms}
+          vendors={vendors}
+          onSubmit={handleFormSubmit}
+          onClose={() => {
+            setShowForm(false);
+            setEditingSchedule(undefined);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceSchedules;
@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { MaintenanceActivity, MaintenanceRequest } from '../../types';
+import Button from '../ui/Button';
+import { Loader2, Camera, MessageSquare, CornerDownRight, X, History } from 'lucide-react';
+import {
+  formatDateTime,
+  translateMaintenancePriority,
+  translateMaintenanceStatus
+} from '../../utils/formatters';
+import { maintenanceActivityService } from '../../services/supabase';
+
+interface MaintenanceTimelineProps {
+  request: MaintenanceRequest;
+}
+
+const actorLabel = (activity: MaintenanceActivity) =>
+  activity.actor_name || (activity.actor_id ? 'Pengguna' : 'Sistem');
+
+const describeChange = (activity: MaintenanceActivity) => {
+  switch (activity.kind) {
+    case 'created':
+      return 'membuat permintaan';
+    case 'status':
+      return `mengubah status dari ${translateMaintenanceStatus(activity.from_value as MaintenanceRequest['status'])} menjadi ${translateMaintenanceStatus(activity.to_value as MaintenanceRequest['status'])}`;
+    case 'priority':
+      return `mengubah prioritas dari ${translateMaintenancePriority(activity.from_value as MaintenanceRequest['priority'])} menjadi ${translateMaintenancePriority(activity.to_value as MaintenanceRequest['priority'])}`;
+    default:
+      return '';
+  }
+};
+
+const MaintenanceTimeline: React.FC<MaintenanceTimelineProps> = ({ request }) => {
+  const [activities, setActivities] = useState<MaintenanceActivity[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [replyTo, setReplyTo] = useState<MaintenanceActivity | null>(null);
+
+  const loadActivities = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await maintenanceActivityService.getByRequestId(request.id);
+      setActivities(data);
+      setPhotoUrls(await maintenanceActivityService.getPhotoUrls(data));
+    } catch (err) {
+      console.error('Error loading maintenance activity:', err);
+      setError('Gagal memuat riwayat.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [request.id]);
+
+  // Status and priority changes made here are logged by the database
+  useEffect(() => {
+    loadActivities();
+  }, [loadActivities, request.status, request.priority]);
+
+  // Replies to a reply stay in the thread of the comment that started it
+  const threadOf = (activity: MaintenanceActivity): string => {
+    const parent = activities.find(a => a.id === activity.parent_id);
+    return parent ? threadOf(parent) : activity.id;
+  };
+
+  const entries = activities.filter(a => !a.parent_id);
+  const repliesOf = (activity: MaintenanceActivity) =>
+    activities.filter(a => a.parent_id && threadOf(a) === activity.id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim() && !photo) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await maintenanceActivityService.comment(request, body, replyTo?.id, photo);
+      setBody('');
+      setPhoto(null);
+      setReplyTo(null);
+      await loadActivities();
+    } catch (err) {
+      console.error('Error posting comment:', err);
+      setError('Gagal mengirim komentar. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderComment = (activity: MaintenanceActivity) => (
+    <div className="flex-1 bg-gray-50 rounded-lg p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900">{actorLabel(activity)}</span>
+        <span className="text-xs text-gray-500">{formatDateTime(activity.created_at)}</span>
+      </div>
+      {activity.body && (
+        <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">{activity.body}</p>
+      )}
+      {activity.photo_path && photoUrls[activity.photo_path] && (
+        <a href={photoUrls[activity.photo_path]} target="_blank" rel="noopener noreferrer">
+          <img
+            src={photoUrls[activity.photo_path]}
+            alt="Foto komentar"
+            className="mt-2 h-32 rounded-md border border-gray-200 object-cover"
+          />
+        </a>
+      )}
+      <button
+        type="button"
+        onClick={() => setReplyTo(activity)}
+        className="mt-2 text-xs font-medium text-blue-600 hover:text-blue-800"
+      >
+        Balas
+      </button>
+    </div>
+  );
+
+  return (
+    <div>
+      <h3 className="font-medium text-gray-900 mb-3">Riwayat &amp; Komentar</h3>
+
+      {error && (
+        <div className="mb-3 p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {isLoading && activities.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(activity => activity.kind === 'comment' ? (
+            <div key={activity.id}>
+              <div className="flex gap-3">
+                <MessageSquare size={18} className="text-gray-400 mt-3 shrink-0" />
+                {renderComment(activity)}
+              </div>
+              {repliesOf(activity).map(reply => (
+                <div key={reply.id} className="flex gap-3 mt-2 ml-8">
+                  <CornerDownRight size={16} className="text-gray-400 mt-3 shrink-0" />
+                  {renderComment(reply)}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div key={activity.id} className="flex gap-3 text-sm">
+              <History size={18} className="text-gray-400 shrink-0" />
+              <p className="text-gray-600">
+                <span className="font-medium text-gray-900">{actorLabel(activity)}</span>{' '}
+                {describeChange(activity)}
+                <span className="block text-xs text-gray-500">{formatDateTime(activity.created_at)}</span>
+              </p>
+            </div>
+          ))}
+          {entries.length === 0 && (
+            <p className="text-sm text-gray-500">Belum ada riwayat.</p>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-4 space-y-2">
+        {replyTo && (
+          <div className="flex items-center justify-between text-xs text-gray-600 bg-blue-50 rounded-md px-3 py-2">
+            <span>Membalas {actorLabel(replyTo)}</span>
+            <button type="button" onClick={() => setReplyTo(null)} className="text-gray-500 hover:text-gray-700">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={2}
+          placeholder="Tulis komentar..."
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={isSubmitting}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <label className={`inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 ${
+            isSubmitting ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'
+          }`}>
+            <Camera size={14} />
+            <span className="truncate max-w-[10rem]">{photo ? photo.name : 'Lampirkan Foto'}</span>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+              disabled={isSubmitting}
+              className="hidden"
+            />
+          </label>
+          <Button type="submit" size="sm" disabled={isSubmitting || (!body.trim() && !photo)}>
+            {isSubmitting ? 'Mengirim...' : replyTo ? 'Kirim Balasan' : 'Kirim Komentar'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MaintenanceTimeline;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { MaintenanceRequest, Vendor } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import VendorForm from './VendorForm';
+import { Plus, Search, Edit, Trash, Phone } from 'lucide-react';
+import { formatCurrency } from '../../utils/formatters';
+import {
+  VENDOR_TRADE_LABELS,
+  calculateVendorPerformance,
+  formatTurnaround,
+  formatVendorRate
+} from '../../utils/vendors';
+import { vendorService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+
+interface VendorDirectoryProps {
+  vendors: Vendor[];
+  requests: MaintenanceRequest[];
+  onVendorsChanged: () => Promise<void>;
+}
+
+const VendorDirectory: React.FC<VendorDirectoryProps> = ({ vendors, requests, onVendorsChanged }) => {
+  const { selectedProperty, hasPermission } = useProperty();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [tradeFilter, setTradeFilter] = useState('all');
+  const [showForm, setShowForm] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | undefined>();
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = hasPermission('manage_vendors');
+  const performance = calculateVendorPerformance(vendors, requests);
+
+  const filteredVendors = vendors.filter(vendor =>
+    (tradeFilter === 'all' || vendor.trade === tradeFilter) &&
+    (vendor.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      vendor.phone?.includes(searchQuery))
+  );
+
+  const handleFormSubmit = async (data: Partial<Vendor>) => {
+    if (!selectedProperty?.id) return;
+
+    try {
+      setError(null);
+      if (editingVendor) {
+        await vendorService.update(editingVendor.id, data);
+      } else {
+        await vendorService.create({
+          ...data as Omit<Vendor, 'id' | 'created_at' | 'updated_at'>,
+          property_id: selectedProperty.id
+        });
+      }
+      await onVendorsChanged();
+      setShowForm(false);
+      setEditingVendor(undefined);
+    } catch (err) {
+      console.error('Error saving vendor:', err);
+      setError('Gagal menyimpan vendor. Silakan coba lagi.');
+    }
+  };
+
+  const handleDelete = async (vendor: Vendor) => {
+    if (!window.confirm(`Hapus ${vendor.name} dari daftar vendor? Riwayat pekerjaannya tetap tersimpan.`)) return;
+
+    try {
+      setError(null);
+      await vendorService.delete(vendor.id);
+      await onVendorsChanged();
+    } catch (err) {
+      console.error('Error deleting vendor:', err);
+      setError('Gagal menghapus vendor.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="px-6 pb-4 flex flex-col sm:flex-row justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant={tradeFilter === 'all' ? 'primary' : 'outline'}
+            size="sm"
+            onClick={() => setTradeFilter('all')}
+          >
+            Semua Keahlian
+          </Button>
+          {Object.entries(VENDOR_TRADE_LABELS).map(([value, label]) => (
+            <Button
+              key={value}
+              variant={tradeFilter === value ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setTradeFilter(value)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <div className="relative w-full sm:w-56">
+            <input
+              type="text"
+              placeholder="Cari vendor..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
+          </div>
+          {canManage && (
+            <Button
+              icon={<Plus size={16} />}
+              onClick={() => {
+                setEditingVendor(undefined);
+                setShowForm(true);
+              }}
+            >
+              Tambah Vendor
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mb-4 p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tarif</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Pekerjaan</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rata-rata Selesai</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total Biaya</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredVendors.length > 0 ? filteredVendors.map(vendor => {
+              const stats = performance[vendor.id];
+              return (
+                <tr key={vendor.id}>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">{vendor.name}</span>
+                      <Badge className="bg-gray-100 text-gray-800">{VENDOR_TRADE_LABELS[vendor.trade]}</Badge>
+                    </div>
+                    {vendor.phone && (
+                      <div className="flex items-center gap-1 text-sm text-gray-500 mt-1">
+                        <Phone size={12} />
+                        {vendor.phone}
+                      </div>
+                    )}
+                    {vendor.notes && (
+                      <p className="text-xs text-gray-500 mt-1">{vendor.notes}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatVendorRate(vendor)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                    {stats.jobs_completed}/{stats.jobs_total}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                    {formatTurnaround(stats.avg_turnaround_hours)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium text-gray-900">
+                    {formatCurrency(stats.total_spend)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    {canManage && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          icon={<Edit size={14} />}
+                          onClick={() => {
+                            setEditingVendor(vendor);
+                            setShowForm(true);
+                          }}
+                        >
+                          Ubah
+                        </Button>
+                        <Button
+                          variant="danger"
+                          size="sm"
+                          icon={<Trash size={14} />}
+                          onClick={() => handleDelete(vendor)}
+                        >
+                          Hapus
+                        </Button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            }) : (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  {vendors.length === 0
+                    ? 'Belum ada vendor. Tambahkan tukang atau teknisi langganan Anda.'
+                    : 'Tidak ada vendor yang sesuai dengan pencarian Anda.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <p className="px-6 py-3 text-xs text-gray-500">
+        Pekerjaan: selesai/total ditugaskan. Rata-rata selesai dihitung dari penugasan sampai pekerjaan selesai.
+      </p>
+
+      {showForm && (
+        <VendorForm
+          vendor={editingVendor}
+          onSubmit={handleFormSubmit}
+          onClose={() => {
+            setShowForm(false);
+            setEditingVendor(undefined);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VendorDirectory;
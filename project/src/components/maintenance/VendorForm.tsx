@@ -0,0 +1,157 @@
+import React from 'react';
+import { Vendor } from '../../types';
+import Button from '../ui/Button';
+import { X } from 'lucide-react';
+import { VENDOR_RATE_UNIT_LABELS, VENDOR_TRADE_LABELS } from '../../utils/vendors';
+
+interface VendorFormProps {
+  vendor?: Vendor;
+  onSubmit: (data: Partial<Vendor>) => void;
+  onClose: () => void;
+}
+
+const VendorForm: React.FC<VendorFormProps> = ({ vendor, onSubmit, onClose }) => {
+  const [formData, setFormData] = React.useState({
+    name: vendor?.name || '',
+    trade: vendor?.trade || 'general',
+    phone: vendor?.phone || '',
+    rate: vendor?.rate != null ? String(vendor.rate) : '',
+    rate_unit: vendor?.rate_unit || 'visit',
+    notes: vendor?.notes || ''
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      name: formData.name,
+      trade: formData.trade as Vendor['trade'],
+      phone: formData.phone || null,
+      rate: formData.rate === '' ? null : parseFloat(formData.rate) || 0,
+      rate_unit: formData.rate_unit as Vendor['rate_unit'],
+      notes: formData.notes || null
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">
+            {vendor ? 'Ubah Vendor' : 'Tambah Vendor'}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Nama
+            </label>
+            <input
+              type="text"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Keahlian
+              </label>
+              <select
+                name="trade"
+                value={formData.trade}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.entries(VENDOR_TRADE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Telepon / WhatsApp
+              </label>
+              <input
+                type="tel"
+                name="phone"
+                value={formData.phone}
+                onChange={handleChange}
+                placeholder="08xxxxxxxxxx"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tarif (Rp)
+              </label>
+              <input
+                type="number"
+                name="rate"
+                min="0"
+                value={formData.rate}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Per
+              </label>
+              <select
+                name="rate_unit"
+                value={formData.rate_unit}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.entries(VENDOR_RATE_UNIT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Catatan
+            </label>
+            <textarea
+              name="notes"
+              value={formData.notes}
+              onChange={handleChange}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Contoh: hanya bisa datang sore hari"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <Button variant="outline" onClick={onClose}>
+              Batal
+            </Button>
+            <Button type="submit">
+              {vendor ? 'Simpan Perubahan' : 'Tambah Vendor'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VendorForm;
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { BankStatementFormat, BankStatementMatch, PaymentMatchCandidate } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Upload } from 'lucide-react';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { matchStatementLines, parseBankStatement } from '../../utils/bankStatements';
+import { bankReconciliationService } from '../../services/supabase';
+
+interface BankStatementImportProps {
+  propertyId: string;
+  bills: Omit<PaymentMatchCandidate, 'score'>[];
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const BANK_FORMATS: { value: BankStatementFormat; label: string }[] = [
+  { value: 'bca', label: 'BCA (KlikBCA)' },
+  { value: 'mandiri', label: 'Mandiri (Livin / MCM)' },
+  { value: 'bri', label: 'BRI (Internet Banking / CMS)' }
+];
+
+const MATCH_STATUS: Record<BankStatementMatch['status'], { label: string; className: string }> = {
+  matched: { label: 'Cocok', className: 'bg-green-100 text-green-800' },
+  ambiguous: { label: 'Perlu Ditinjau', className: 'bg-yellow-100 text-yellow-800' },
+  unmatched: { label: 'Tidak Cocok', className: 'bg-gray-100 text-gray-800' }
+};
+
+const BankStatementImport: React.FC<BankStatementImportProps> = ({
+  propertyId,
+  bills,
+  onClose,
+  onImported
+}) => {
+  const [format, setFormat] = useState<BankStatementFormat>('bca');
+  const [matches, setMatches] = useState<BankStatementMatch[] | null>(null);
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError(null);
+      const lines = parseBankStatement(await file.text(), format);
+      if (lines.length === 0) {
+        setError('Tidak ada transaksi masuk pada file mutasi ini.');
+        return;
+      }
+
+      const result = matchStatementLines(lines, bills);
+      setMatches(result);
+      // Only clear winners start selected; ambiguous lines wait for review
+      setSelections(Object.fromEntries(result.map(match => [
+        match.line.id,
+        match.status === 'matched' ? match.candidates[0].payment.id : ''
+      ])));
+    } catch (err) {
+      console.error('Error reading bank statement:', err);
+      setError('Format file tidak dikenali. Pastikan bank yang dipilih sesuai dengan file mutasi.');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const confirmed = (matches || [])
+    .filter(match => selections[match.line.id])
+    .map(match => ({
+      match,
+      candidate: match.candidates.find(c => c.payment.id === selections[match.line.id]) as PaymentMatchCandidate
+    }));
+
+  const handleConfirm = async () => {
+    const paymentIds = confirmed.map(({ candidate }) => candidate.payment.id);
+    if (new Set(paymentIds).size !== paymentIds.length) {
+      setError('Satu tagihan dipilih untuk lebih dari satu mutasi. Periksa kembali pilihan Anda.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await bankReconciliationService.confirmMatches(
+        propertyId,
+        format,
+        confirmed.map(({ match, candidate }) => ({
+          line: match.line,
+          paymentId: candidate.payment.id,
+          amount: Math.min(match.line.amount, candidate.outstanding)
+        }))
+      );
+      onImported(confirmed.length);
+    } catch (err) {
+      console.error('Error confirming bank statement matches:', err);
+      setError('Gagal mencatat pembayaran. Mutasi yang sama mungkin sudah pernah diimpor.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const countByStatus = (status: BankStatementMatch['status']) =>
+    (matches || []).filter(match => match.status === status).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Impor Mutasi Bank
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {!matches ? (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Bank
+                </label>
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as BankStatementFormat)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {BANK_FORMATS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  File Mutasi (CSV)
+                </label>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileChange}
+                  className="w-full text-sm text-gray-700"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Transaksi masuk dicocokkan dengan tagihan yang belum lunas berdasarkan jumlah, tanggal, serta nama penyewa atau nomor kamar pada keterangan transfer.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge className={MATCH_STATUS.matched.className}>{countByStatus('matched')} cocok</Badge>
+                <Badge className={MATCH_STATUS.ambiguous.className}>{countByStatus('ambiguous')} perlu ditinjau</Badge>
+                <Badge className={MATCH_STATUS.unmatched.className}>{countByStatus('unmatched')} tidak cocok</Badge>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mutasi</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jumlah</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tagihan</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {matches.map(match => (
+                      <tr key={match.line.id} className={match.status === 'ambiguous' ? 'bg-yellow-50' : ''}>
+                        <td className="px-4 py-3">
+                          <div className="text-sm text-gray-900">{formatDate(match.line.date)}</div>
+                          <div className="text-xs text-gray-500 break-words max-w-xs">{match.line.description}</div>
+                          {match.line.reference && (
+                            <div className="text-xs text-gray-400">Ref: {match.line.reference}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {formatCurrency(match.line.amount)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <Badge className={MATCH_STATUS[match.status].className}>
+                            {MATCH_STATUS[match.status].label}
+                          </Badge>
+                        </td>
+                        <td className="px-4 py-3">
+                          {match.candidates.length > 0 ? (
+                            <select
+                              value={selections[match.line.id] || ''}
+                              onChange={(e) => setSelections(prev => ({ ...prev, [match.line.id]: e.target.value }))}
+                              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              disabled={isSubmitting}
+                            >
+                              <option value="">Lewati</option>
+                              {match.candidates.map(candidate => (
+                                <option key={candidate.payment.id} value={candidate.payment.id}>
+                                  {candidate.tenantName} · Kamar {candidate.roomNumber} · {formatDate(candidate.payment.due_date)} · {formatCurrency(candidate.outstanding)} ({candidate.score}%)
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-sm text-gray-500">Tidak ada tagihan yang sesuai</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+          {matches ? (
+            <>
+              <Button
+                variant="outline"
+                className="w-full"
+                icon={<Upload size={16} />}
+                onClick={() => setMatches(null)}
+                disabled={isSubmitting}
+              >
+                Ganti File
+              </Button>
+              <Button
+                variant="success"
+                className="w-full"
+                onClick={handleConfirm}
+                disabled={isSubmitting || confirmed.length === 0}
+              >
+                {isSubmitting ? 'Menyimpan...' : `Konfirmasi ${confirmed.length} Pembayaran`}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" className="w-full" onClick={onClose}>
+              Batal
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BankStatementImport;
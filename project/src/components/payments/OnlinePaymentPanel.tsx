@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { PaymentChannel, PaymentGatewayCharge } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Landmark, QrCode, RefreshCw, Zap } from 'lucide-react';
+import { formatCurrency } from '../../utils/formatters';
+import { paymentGatewayService } from '../../services/supabase';
+
+interface OnlinePaymentPanelProps {
+  paymentId: string;
+  onPaid: () => void | Promise<void>;
+  // Only the property owner may pay test charges without a real payment
+  allowSimulation?: boolean;
+}
+
+const VA_BANKS = [
+  { value: 'bca', label: 'BCA' },
+  { value: 'bni', label: 'BNI' },
+  { value: 'bri', label: 'BRI' },
+  { value: 'permata', label: 'Permata' }
+];
+
+const isOpen = (charge: PaymentGatewayCharge) =>
+  charge.status === 'pending' && (!charge.expires_at || new Date(charge.expires_at) > new Date());
+
+const formatExpiry = (value: string) =>
+  new Date(value).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+
+const OnlinePaymentPanel: React.FC<OnlinePaymentPanelProps> = ({ paymentId, onPaid, allowSimulation = false }) => {
+  const [charge, setCharge] = useState<PaymentGatewayCharge | null>(null);
+  const [channel, setChannel] = useState<PaymentChannel>('virtual_account');
+  const [bank, setBank] = useState('bca');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCharge = async () => {
+      try {
+        const charges = await paymentGatewayService.getByPaymentId(paymentId);
+        setCharge(charges.find(isOpen) ?? null);
+      } catch (err) {
+        console.error('Error loading payment charges:', err);
+      }
+    };
+
+    loadCharge();
+  }, [paymentId]);
+
+  const handleCreateCharge = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setCharge(await paymentGatewayService.createCharge(
+        paymentId,
+        channel,
+        channel === 'virtual_account' ? bank : undefined
+      ));
+    } catch (err) {
+      console.error('Error creating payment charge:', err);
+      setError('Gagal membuat tagihan online. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCheckStatus = async () => {
+    if (!charge) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const charges = await paymentGatewayService.getByPaymentId(paymentId);
+      const current = charges.find(c => c.id === charge.id) ?? null;
+      if (current?.status === 'paid') {
+        setCharge(null);
+        await onPaid();
+      } else {
+        setCharge(current && isOpen(current) ? current : null);
+      }
+    } catch (err) {
+      console.error('Error checking payment charge:', err);
+      setError('Gagal memeriksa status pembayaran.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSimulate = async () => {
+    if (!charge) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await paymentGatewayService.simulatePayment(charge.id);
+      setCharge(null);
+      await onPaid();
+    } catch (err) {
+      console.error('Error simulating payment:', err);
+      setError('Gagal mensimulasikan pembayaran.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+      <h3 className="font-medium text-gray-900">Pembayaran Online</h3>
+
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {charge ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">
+              {charge.channel === 'qris' ? 'QRIS' : `Virtual Account ${String(charge.bank).toUpperCase()}`}
+            </span>
+            {allowSimulation && charge.provider === 'mock' && (
+              <Badge className="bg-yellow-100 text-yellow-800">Mode Uji</Badge>
+            )}
+          </div>
+
+          <div className="bg-gray-50 p-3 rounded-md">
+            <p className="text-sm text-gray-500">
+              {charge.channel === 'qris' ? 'Kode QRIS' : 'Nomor Virtual Account'}
+            </p>
+            <p className="font-mono text-lg text-gray-900 break-all">
+              {charge.channel === 'qris' ? charge.qr_string : charge.va_number}
+            </p>
+            <p className="text-sm text-gray-500 mt-2">
+              Total {formatCurrency(charge.amount)}
+              {charge.expires_at && ` · berlaku hingga ${formatExpiry(charge.expires_at)}`}
+            </p>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Pembayaran tercatat otomatis setelah dikonfirmasi oleh penyedia pembayaran.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            {allowSimulation && charge.provider === 'mock' && (
+              <Button
+                variant="success"
+                size="sm"
+                icon={<Zap size={14} />}
+                onClick={handleSimulate}
+                disabled={isSubmitting}
+              >
+                Simulasikan Pembayaran
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<RefreshCw size={14} />}
+              onClick={handleCheckStatus}
+              disabled={isSubmitting}
+            >
+              Cek Status
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={() => setChannel('virtual_account')}
+              className={`flex items-center justify-center gap-2 px-3 py-2 border rounded-md text-sm ${
+                channel === 'virtual_account' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700'
+              }`}
+              disabled={isSubmitting}
+            >
+              <Landmark size={16} />
+              Virtual Account
+            </button>
+            <button
+              type="button"
+              onClick={() => setChannel('qris')}
+              className={`flex items-center justify-center gap-2 px-3 py-2 border rounded-md text-sm ${
+                channel === 'qris' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700'
+              }`}
+              disabled={isSubmitting}
+            >
+              <QrCode size={16} />
+              QRIS
+            </button>
+          </div>
+
+          {channel === 'virtual_account' && (
+            <select
+              value={bank}
+              onChange={(e) => setBank(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={isSubmitting}
+            >
+              {VA_BANKS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleCreateCharge} disabled={isSubmitting}>
+              {isSubmitting ? 'Memproses...' : 'Buat Tagihan Online'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OnlinePaymentPanel;
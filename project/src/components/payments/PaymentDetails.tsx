@@ -1,26 +1,180 @@
-import React from 'react';
-import { Payment } from '../../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Payment, PaymentFee, PaymentTransaction } from '../../types';
 import Button from '../ui/Button';
 import Badge from '../ui/Badge';
-import { X, Receipt, User, DoorClosed, Calendar, CreditCard, FileText } from 'lucide-react';
-import { formatCurrency, formatDate, getPaymentStatusColor } from '../../utils/formatters';
+import OnlinePaymentPanel from './OnlinePaymentPanel';
+import { X, Receipt, User, DoorClosed, Calendar, CreditCard, FileText, Plus, Trash, Loader2, Printer } from 'lucide-react';
+import {
+  formatCurrency,
+  formatDate,
+  getPaymentStatusColor,
+  translatePaymentMethod,
+  translatePaymentStatus
+} from '../../utils/formatters';
+import { paymentService, paymentFeeService, paymentTransactionService, receiptService } from '../../services/supabase';
+import { generatePaymentReceiptPDF } from '../../utils/receipts';
+import { useProperty } from '../../contexts/PropertyContext';
 
 interface PaymentDetailsProps {
   payment: Payment;
   tenantName?: string;
   roomNumber?: string;
+  openReceiptForm?: boolean;
   onClose: () => void;
+  onPaymentUpdated?: (payment: Payment) => void;
 }
 
 const PaymentDetails: React.FC<PaymentDetailsProps> = ({
-  payment,
+  payment: initialPayment,
   tenantName,
   roomNumber,
-  onClose
+  openReceiptForm = false,
+  onClose,
+  onPaymentUpdated
 }) => {
+  const { selectedProperty, hasPermission } = useProperty();
+  const [payment, setPayment] = useState<Payment>(initialPayment);
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [fees, setFees] = useState<PaymentFee[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showReceiptForm, setShowReceiptForm] = useState(openReceiptForm);
+
+  const amountPaid = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
+  const totalFees = fees.reduce((sum, f) => sum + Number(f.amount), 0);
+  const totalDue = payment.amount + totalFees;
+  const remaining = Math.max(0, totalDue - amountPaid);
+
+  const [receiptForm, setReceiptForm] = useState({
+    amount: Math.max(0, initialPayment.amount + Number(initialPayment.fee_amount || 0) - Number(initialPayment.amount_paid || 0)),
+    date: new Date().toISOString().split('T')[0],
+    payment_method: 'transfer',
+    notes: ''
+  });
+
+  const loadTransactions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [transactionsData, feesData] = await Promise.all([
+        paymentTransactionService.getByPaymentId(initialPayment.id),
+        paymentFeeService.getByPaymentId(initialPayment.id)
+      ]);
+      setTransactions(transactionsData);
+      setFees(feesData);
+    } catch (err) {
+      console.error('Error loading payment transactions:', err);
+      setError('Gagal memuat riwayat pembayaran.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [initialPayment.id]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  const refreshPayment = async () => {
+    const [updatedPayment] = await Promise.all([
+      paymentService.getById(payment.id),
+      loadTransactions()
+    ]);
+    setPayment(updatedPayment);
+    onPaymentUpdated?.(updatedPayment);
+  };
+
+  const handleOpenReceiptForm = () => {
+    setReceiptForm(prev => ({ ...prev, amount: remaining }));
+    setShowReceiptForm(true);
+  };
+
+  const handleReceiptChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setReceiptForm(prev => ({
+      ...prev,
+      [name]: name === 'amount' ? parseFloat(value) || 0 : value
+    }));
+  };
+
+  const handleReceiptSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (receiptForm.amount <= 0) {
+      setError('Jumlah pembayaran harus lebih dari 0.');
+      return;
+    }
+
+    if (receiptForm.amount > remaining) {
+      setError(`Jumlah pembayaran melebihi sisa tagihan (${formatCurrency(remaining)}).`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await paymentTransactionService.create({
+        payment_id: payment.id,
+        property_id: payment.property_id,
+        amount: receiptForm.amount,
+        date: receiptForm.date,
+        payment_method: receiptForm.payment_method,
+        notes: receiptForm.notes || null
+      });
+
+      await refreshPayment();
+      setShowReceiptForm(false);
+      setReceiptForm(prev => ({ ...prev, notes: '' }));
+    } catch (err) {
+      console.error('Error saving payment transaction:', err);
+      setError('Gagal menyimpan pembayaran. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteTransaction = async (transaction: PaymentTransaction) => {
+    if (!confirm('Apakah Anda yakin ingin menghapus penerimaan ini?')) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await paymentTransactionService.delete(transaction.id);
+      await refreshPayment();
+    } catch (err) {
+      console.error('Error deleting payment transaction:', err);
+      setError('Gagal menghapus penerimaan. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePrintReceipt = async (transaction: PaymentTransaction) => {
+    if (!selectedProperty) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const receipt = await receiptService.issue(transaction.id);
+      generatePaymentReceiptPDF({
+        receipt,
+        property: selectedProperty,
+        payment,
+        tenantName: tenantName || '-',
+        roomNumber: roomNumber || '-'
+      });
+    } catch (err) {
+      console.error('Error printing receipt:', err);
+      setError('Gagal mencetak kwitansi. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-xl font-semibold text-gray-800">
             Detail Pembayaran
@@ -30,13 +184,18 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
           </button>
         </div>
 
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
           {/* Payment Status */}
           <div className="flex items-center justify-between">
             <span className="text-gray-600">Status</span>
             <Badge className={getPaymentStatusColor(payment.status)}>
-              {payment.status === 'paid' ? 'Lunas' : 
-               payment.status === 'pending' ? 'Menunggu' : 'Terlambat'}
+              {translatePaymentStatus(payment.status)}
             </Badge>
           </div>
 
@@ -44,9 +203,33 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
           <div className="bg-gray-50 p-4 rounded-lg">
             <div className="flex items-center gap-2 text-gray-600 mb-1">
               <Receipt size={20} />
-              <span>Jumlah</span>
+              <span>Jumlah Tagihan</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalDue)}</p>
+            {fees.length > 0 && (
+              <div className="mt-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Sewa</span>
+                  <span className="text-gray-900">{formatCurrency(payment.amount)}</span>
+                </div>
+                {fees.map(fee => (
+                  <div key={fee.id} className="flex justify-between gap-4">
+                    <span className="text-gray-500">{fee.description || 'Denda keterlambatan'}</span>
+                    <span className="text-red-700 whitespace-nowrap">{formatCurrency(fee.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4 mt-3 text-sm">
+              <div>
+                <p className="text-gray-500">Sudah Dibayar</p>
+                <p className="font-medium text-green-700">{formatCurrency(amountPaid)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Sisa Tagihan</p>
+                <p className="font-medium text-red-700">{formatCurrency(remaining)}</p>
+              </div>
             </div>
-            <p className="text-2xl font-bold text-gray-900">{formatCurrency(payment.amount)}</p>
           </div>
 
           {/* Tenant Info */}
@@ -71,27 +254,10 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
               <Calendar size={20} className="text-gray-400 mt-1" />
               <div>
                 <p className="text-sm text-gray-600">Jatuh Tempo</p>
-                <p className="font-medium text-gray-900">{formatDate(payment.dueDate)}</p>
+                <p className="font-medium text-gray-900">{formatDate(payment.due_date)}</p>
               </div>
             </div>
 
-            {payment.date && (
-              <div className="flex items-start gap-3">
-                <CreditCard size={20} className="text-gray-400 mt-1" />
-                <div>
-                  <p className="text-sm text-gray-600">Tanggal Pembayaran</p>
-                  <p className="font-medium text-gray-900">{formatDate(payment.date)}</p>
-                  {payment.paymentMethod && (
-                    <p className="text-sm text-gray-500">
-                      via {payment.paymentMethod === 'transfer' ? 'Transfer Bank' :
-                           payment.paymentMethod === 'cash' ? 'Tunai' :
-                           payment.paymentMethod === 'card' ? 'Kartu Kredit/Debit' : 'E-Wallet'}
-                    </p>
-                  )}
-                </div>
-              </div>
-            )}
-
             {payment.notes && (
               <div className="flex items-start gap-3">
                 <FileText size={20} className="text-gray-400 mt-1" />
@@ -102,9 +268,162 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
               </div>
             )}
           </div>
+
+          {/* Receipt History */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-gray-900">Riwayat Penerimaan</h3>
+              {remaining > 0 && !showReceiptForm && (
+                <Button size="sm" icon={<Plus size={14} />} onClick={handleOpenReceiptForm}>
+                  Tambah Penerimaan
+                </Button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+              </div>
+            ) : transactions.length > 0 ? (
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {transactions.map(transaction => (
+                  <div key={transaction.id} className="flex items-start justify-between p-3">
+                    <div className="flex items-start gap-3">
+                      <CreditCard size={18} className="text-gray-400 mt-1" />
+                      <div>
+                        <p className="font-medium text-gray-900">{formatCurrency(transaction.amount)}</p>
+                        <p className="text-sm text-gray-500">
+                          {formatDate(transaction.date)} via {translatePaymentMethod(transaction.payment_method)}
+                        </p>
+                        {transaction.notes && (
+                          <p className="text-sm text-gray-600 mt-1">{transaction.notes}</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => handlePrintReceipt(transaction)}
+                        className="text-gray-400 hover:text-blue-600"
+                        disabled={isSubmitting}
+                        title="Cetak kwitansi"
+                      >
+                        <Printer size={16} />
+                      </button>
+                      {hasPermission('delete_records') && (
+                        <button
+                          onClick={() => handleDeleteTransaction(transaction)}
+                          className="text-gray-400 hover:text-red-600"
+                          disabled={isSubmitting}
+                          title="Hapus penerimaan"
+                        >
+                          <Trash size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Belum ada pembayaran yang diterima.</p>
+            )}
+
+            {showReceiptForm && (
+              <form onSubmit={handleReceiptSubmit} className="mt-4 p-4 border border-gray-200 rounded-lg space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Jumlah
+                    </label>
+                    <input
+                      type="number"
+                      name="amount"
+                      value={receiptForm.amount}
+                      onChange={handleReceiptChange}
+                      min="1"
+                      max={remaining}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Tanggal
+                    </label>
+                    <input
+                      type="date"
+                      name="date"
+                      value={receiptForm.date}
+                      onChange={handleReceiptChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Metode Pembayaran
+                  </label>
+                  <select
+                    name="payment_method"
+                    value={receiptForm.payment_method}
+                    onChange={handleReceiptChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                    disabled={isSubmitting}
+                  >
+                    <option value="transfer">Transfer Bank</option>
+                    <option value="cash">Tunai</option>
+                    <option value="card">Kartu Kredit/Debit</option>
+                    <option value="ewallet">E-Wallet</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Catatan
+                  </label>
+                  <textarea
+                    name="notes"
+                    value={receiptForm.notes}
+                    onChange={handleReceiptChange}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Contoh: cicilan pertama"
+                    disabled={isSubmitting}
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowReceiptForm(false)}
+                    disabled={isSubmitting}
+                  >
+                    Batal
+                  </Button>
+                  <Button type="submit" variant="success" size="sm" disabled={isSubmitting}>
+                    {isSubmitting ? 'Menyimpan...' : 'Simpan Penerimaan'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+
+          {!isLoading && remaining > 0 && (
+            <OnlinePaymentPanel
+              paymentId={payment.id}
+              onPaid={refreshPayment}
+              allowSimulation={selectedProperty?.role === 'owner'}
+            />
+          )}
         </div>
 
-        <div className="bg-gray-50 px-6 py-4 rounded-b-lg">
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
           <Button variant="outline" className="w-full" onClick={onClose}>
             Tutup
           </Button>
@@ -114,4 +433,4 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
   );
 };
 
-export default PaymentDetails;
\ No newline at end of file
+export default PaymentDetails;
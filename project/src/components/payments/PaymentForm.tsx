@@ -3,7 +3,6 @@ import { Payment, Tenant, Room } from '../../types';
 import Button from '../ui/Button';
 import { X } from 'lucide-react';
 import { useProperty } from '../../contexts/PropertyContext';
-import { supabase } from '../../lib/supabase';
 
 interface PaymentFormProps {
   payment?: Payment;
@@ -22,31 +21,31 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
 }) => {
   const { selectedProperty } = useProperty();
   const [formData, setFormData] = React.useState<Partial<Payment>>({
-    tenantId: payment?.tenantId || null,
-    roomId: payment?.roomId || null,
+    tenant_id: payment?.tenant_id,
+    room_id: payment?.room_id,
     amount: payment?.amount || 0,
     date: payment?.date || '',
-    dueDate: payment?.dueDate || '',
+    due_date: payment?.due_date || '',
     status: payment?.status || 'pending',
-    paymentMethod: payment?.paymentMethod || '',
+    payment_method: payment?.payment_method || 'transfer',
     notes: payment?.notes || '',
-    property_id: selectedProperty?.id || null
+    property_id: selectedProperty?.id
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // When tenant is selected, set due date from tenant's end_date
   useEffect(() => {
-    if (formData.tenantId) {
-      const tenant = tenants.find(t => t.id === formData.tenantId);
+    if (formData.tenant_id) {
+      const tenant = tenants.find(t => t.id === formData.tenant_id);
       if (tenant) {
         setFormData(prev => ({
           ...prev,
-          dueDate: tenant.end_date
+          due_date: tenant.end_date
         }));
       }
     }
-  }, [formData.tenantId, tenants]);
+  }, [formData.tenant_id, tenants]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -56,7 +55,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       return;
     }
 
-    if (!formData.tenantId) {
+    if (!formData.tenant_id) {
       setError('Please select a tenant');
       return;
     }
@@ -69,8 +68,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         ...formData,
         property_id: selectedProperty.id,
         // Ensure UUID fields are not empty strings
-        tenantId: formData.tenantId || null,
-        roomId: formData.roomId || null
+        tenant_id: formData.tenant_id || undefined,
+        room_id: formData.room_id || undefined
       };
 
       await onSubmit(paymentData);
@@ -87,20 +86,20 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     const { name, value } = e.target;
     if (name === 'amount') {
       setFormData(prev => ({ ...prev, [name]: parseFloat(value) || 0 }));
-    } else if (name === 'tenantId') {
-      // If value is empty string, set both tenantId and roomId to null
+    } else if (name === 'tenant_id') {
+      // If value is empty string, clear both tenant_id and room_id
       if (!value) {
         setFormData(prev => ({ 
           ...prev, 
-          tenantId: null,
-          roomId: null
+          tenant_id: undefined,
+          room_id: undefined
         }));
       } else {
         const tenant = tenants.find(t => t.id === value);
         setFormData(prev => ({ 
           ...prev, 
-          tenantId: value,
-          roomId: tenant?.room_id || null
+          tenant_id: value,
+          room_id: tenant?.room_id || undefined
         }));
       }
     } else {
@@ -108,11 +107,11 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     }
   };
 
-  // Filter active tenants
-  const activeTenants = tenants.filter(tenant => tenant.status === 'active');
+  // Filter active tenants; those waiting to move out may still owe rent
+  const activeTenants = tenants.filter(tenant => tenant.status === 'active' || tenant.status === 'move_out_pending');
 
   // Get room details for selected tenant
-  const selectedTenant = tenants.find(t => t.id === formData.tenantId);
+  const selectedTenant = tenants.find(t => t.id === formData.tenant_id);
   const selectedRoom = rooms.find(r => r.id === selectedTenant?.room_id);
 
   return (
@@ -139,8 +138,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
               Penyewa
             </label>
             <select
-              name="tenantId"
-              value={formData.tenantId || ''}
+              name="tenant_id"
+              value={formData.tenant_id || ''}
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
@@ -189,7 +188,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
             <input
               type="date"
               name="date"
-              value={formData.date}
+              value={formData.date || ''}
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
@@ -204,8 +203,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
             </label>
             <input
               type="date"
-              name="dueDate"
-              value={formData.dueDate}
+              name="due_date"
+              value={formData.due_date}
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50"
               disabled
@@ -220,8 +219,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
               Metode Pembayaran
             </label>
             <select
-              name="paymentMethod"
-              value={formData.paymentMethod}
+              name="payment_method"
+              value={formData.payment_method || 'transfer'}
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
@@ -239,7 +238,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
             </label>
             <textarea
               name="notes"
-              value={formData.notes}
+              value={formData.notes || ''}
               onChange={handleChange}
               rows={3}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
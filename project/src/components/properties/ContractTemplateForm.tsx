@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { Property } from '../../types';
+import Button from '../ui/Button';
+import { X, Loader2 } from 'lucide-react';
+import { contractTemplateService } from '../../services/supabase';
+import {
+  CONTRACT_PLACEHOLDERS,
+  DEFAULT_CONTRACT_BODY,
+  DEFAULT_CONTRACT_TITLE,
+  DEFAULT_HOUSE_RULES
+} from '../../utils/contracts';
+
+interface ContractTemplateFormProps {
+  property: Property;
+  onClose: () => void;
+}
+
+const ContractTemplateForm: React.FC<ContractTemplateFormProps> = ({ property, onClose }) => {
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    title: DEFAULT_CONTRACT_TITLE,
+    body: DEFAULT_CONTRACT_BODY,
+    house_rules: DEFAULT_HOUSE_RULES
+  });
+
+  useEffect(() => {
+    const loadTemplate = async () => {
+      try {
+        const template = await contractTemplateService.getByPropertyId(property.id);
+        if (template) {
+          setFormData({
+            title: template.title,
+            body: template.body,
+            house_rules: template.house_rules || ''
+          });
+        }
+      } catch (err) {
+        console.error('Error loading contract template:', err);
+        setError('Gagal memuat template kontrak.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTemplate();
+  }, [property.id]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await contractTemplateService.upsert({
+        property_id: property.id,
+        title: formData.title,
+        body: formData.body,
+        house_rules: formData.house_rules || null
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error saving contract template:', err);
+      setError('Gagal menyimpan template kontrak. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Template Kontrak - {property.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Judul Kontrak
+              </label>
+              <input
+                type="text"
+                name="title"
+                value={formData.title}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Isi Perjanjian
+              </label>
+              <textarea
+                name="body"
+                value={formData.body}
+                onChange={handleChange}
+                rows={14}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+              <div className="mt-2 text-sm text-gray-500">
+                <p className="mb-1">Kolom yang tersedia:</p>
+                <div className="flex flex-wrap gap-2">
+                  {CONTRACT_PLACEHOLDERS.map(placeholder => (
+                    <code
+                      key={placeholder.key}
+                      title={placeholder.label}
+                      className="px-2 py-0.5 bg-gray-100 rounded text-xs text-gray-700"
+                    >
+                      {`{{${placeholder.key}}}`}
+                    </code>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Peraturan Kost
+              </label>
+              <textarea
+                name="house_rules"
+                value={formData.house_rules}
+                onChange={handleChange}
+                rows={6}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <Button variant="outline" type="button" onClick={onClose}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Menyimpan...' : 'Simpan Template'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContractTemplateForm;
@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Property, PropertyBackup } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Archive, Download } from 'lucide-react';
+import { formatDate } from '../../utils/formatters';
+import {
+  BACKUP_FREQUENCY_LABELS,
+  BACKUP_SECTION_LABELS,
+  BACKUP_TRIGGER_LABELS,
+  formatBackupSize,
+  parseBackupArchive
+} from '../../utils/backups';
+import { backupService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+import { useSubscription } from '../../contexts/SubscriptionContext';
+
+interface PropertyBackupsProps {
+  property: Property;
+}
+
+type RestoreTarget = 'new' | 'current';
+
+const PropertyBackups: React.FC<PropertyBackupsProps> = ({ property }) => {
+  const { refreshProperties } = useProperty();
+  const { plan } = useSubscription();
+  const [backups, setBackups] = useState<PropertyBackup[]>([]);
+  const [restoreTarget, setRestoreTarget] = useState<RestoreTarget>('new');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setBackups(await backupService.getByPropertyId(property.id));
+    } catch (err) {
+      console.error('Error loading backups:', err);
+      setError('Gagal memuat daftar cadangan data.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [property.id]);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      setError(null);
+      setMessage(null);
+      await backupService.create(property.id);
+      setMessage('Cadangan data berhasil dibuat.');
+      await loadBackups();
+    } catch (err) {
+      console.error('Error creating backup:', err);
+      setError('Gagal membuat cadangan data. Silakan coba lagi.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDownload = async (backup: PropertyBackup) => {
+    try {
+      setError(null);
+      window.location.href = await backupService.getDownloadUrl(backup);
+    } catch (err) {
+      console.error('Error downloading backup:', err);
+      setError('Gagal mengunduh cadangan data.');
+    }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    let archive;
+    try {
+      setError(null);
+      setMessage(null);
+      archive = parseBackupArchive(await file.text());
+    } catch (err) {
+      console.error('Error reading backup file:', err);
+      setError('File bukan cadangan data yang valid atau versinya tidak didukung.');
+      e.target.value = '';
+      return;
+    }
+
+    const targetLabel = restoreTarget === 'new' ? 'properti baru' : property.name;
+    if (!window.confirm(`Pulihkan cadangan "${archive.property.name}" (${formatDate(archive.exported_at)}) ke ${targetLabel}?`)) {
+      e.target.value = '';
+      return;
+    }
+
+    try {
+      setIsRestoring(true);
+      await backupService.restore(archive, restoreTarget === 'new' ? null : property.id);
+      await refreshProperties();
+      setMessage(restoreTarget === 'new'
+        ? `Data berhasil dipulihkan ke properti baru "${archive.property.name}".`
+        : `Data berhasil dipulihkan ke ${property.name}.`);
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError(err instanceof Error && err.message.includes('not empty')
+        ? 'Properti tujuan harus kosong (tanpa kamar dan penyewa). Pulihkan ke properti baru sebagai gantinya.'
+        : 'Gagal memulihkan cadangan data. Silakan coba lagi.');
+    } finally {
+      setIsRestoring(false);
+      e.target.value = '';
+    }
+  };
+
+  const frequency = plan?.features.data_backup;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 rounded-md">
+          {message}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Cadangan {property.name}</h3>
+          <p className="text-sm text-gray-500">
+            {frequency
+              ? `Cadangan otomatis: ${BACKUP_FREQUENCY_LABELS[frequency]}. Cadangan terjadwal lama dihapus otomatis.`
+              : 'Paket Anda tidak termasuk cadangan otomatis. Anda tetap dapat membuat cadangan manual.'}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          icon={<Archive size={16} />}
+          onClick={handleCreate}
+          disabled={isCreating}
+        >
+          {isCreating ? 'Membuat...' : 'Buat Cadangan'}
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tanggal</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jenis</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Isi</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ukuran</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-4 text-center text-sm text-gray-500">Memuat...</td>
+              </tr>
+            ) : backups.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-4 text-center text-sm text-gray-500">Belum ada cadangan data</td>
+              </tr>
+            ) : backups.map(backup => (
+              <tr key={backup.id}>
+                <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">
+                  {formatDate(backup.created_at)} {new Date(backup.created_at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                </td>
+                <td className="px-4 py-2 text-sm">
+                  <Badge className={backup.trigger === 'manual' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}>
+                    {BACKUP_TRIGGER_LABELS[backup.trigger]}
+                  </Badge>
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-500">
+                  {Object.entries(backup.record_counts)
+                    .filter(([, count]) => count > 0)
+                    .map(([section, count]) => `${count} ${BACKUP_SECTION_LABELS[section] || section}`)
+                    .join(', ') || '-'}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">{formatBackupSize(backup.size_bytes)}</td>
+                <td className="px-4 py-2 text-right">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    icon={<Download size={14} />}
+                    onClick={() => handleDownload(backup)}
+                  >
+                    Unduh
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border-t border-gray-200 pt-6 space-y-4">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Pulihkan dari File Cadangan</h3>
+          <p className="text-sm text-gray-500">
+            Semua data mendapat ID baru. Memulihkan ke properti ini hanya bisa dilakukan jika properti belum memiliki kamar dan penyewa.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={restoreTarget}
+            onChange={(e) => setRestoreTarget(e.target.value as RestoreTarget)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="new">Ke properti baru</option>
+            <option value="current">Ke {property.name}</option>
+          </select>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleRestoreFile}
+            disabled={isRestoring}
+            className="text-sm text-gray-700"
+          />
+          {isRestoring && <span className="text-sm text-gray-500">Memulihkan...</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PropertyBackups;
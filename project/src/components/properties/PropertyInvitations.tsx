@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { ReceivedPropertyInvitation } from '../../types';
+import Button from '../ui/Button';
+import { Check, MailOpen, X } from 'lucide-react';
+import { formatDate } from '../../utils/formatters';
+import { ROLE_LABELS } from '../../utils/permissions';
+import { memberService } from '../../services/supabase';
+
+interface PropertyInvitationsProps {
+  onAccepted: () => Promise<void>;
+}
+
+// Invitations the signed-in user has received from other property owners
+const PropertyInvitations: React.FC<PropertyInvitationsProps> = ({ onAccepted }) => {
+  const [invitations, setInvitations] = useState<ReceivedPropertyInvitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    memberService.getReceivedInvitations()
+      .then(setInvitations)
+      .catch(err => console.error('Error loading invitations:', err));
+  }, []);
+
+  const handleRespond = async (invitation: ReceivedPropertyInvitation, accept: boolean) => {
+    try {
+      setRespondingId(invitation.id);
+      setError(null);
+      await memberService.respond(invitation.id, accept);
+      setInvitations(current => current.filter(i => i.id !== invitation.id));
+      if (accept) {
+        await onAccepted();
+      }
+    } catch (err) {
+      console.error('Error responding to invitation:', err);
+      setError('Gagal memproses undangan. Undangan mungkin sudah kedaluwarsa.');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0 && !error) return null;
+
+  return (
+    <div className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <MailOpen size={20} className="text-blue-600" />
+        <h2 className="text-sm font-semibold text-blue-900">Undangan Properti</h2>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {invitations.map(invitation => (
+        <div
+          key={invitation.id}
+          className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-white rounded-md p-3"
+        >
+          <div>
+            <p className="text-sm font-medium text-gray-900">
+              {invitation.property_name} sebagai {ROLE_LABELS[invitation.role]}
+            </p>
+            <p className="text-xs text-gray-500">Berlaku s.d. {formatDate(invitation.expires_at)}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              icon={<X size={14} />}
+              onClick={() => handleRespond(invitation, false)}
+              disabled={respondingId === invitation.id}
+            >
+              Tolak
+            </Button>
+            <Button
+              size="sm"
+              icon={<Check size={14} />}
+              onClick={() => handleRespond(invitation, true)}
+              disabled={respondingId === invitation.id}
+            >
+              Terima
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PropertyInvitations;
@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { MemberRole, Property, PropertyInvitation, PropertyMember } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import UpgradePrompt from '../subscription/UpgradePrompt';
+import { Send, Trash, X } from 'lucide-react';
+import { formatDate } from '../../utils/formatters';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '../../utils/permissions';
+import { memberService } from '../../services/supabase';
+import { useSubscription } from '../../contexts/SubscriptionContext';
+
+interface PropertyMembersProps {
+  property: Property;
+}
+
+const MEMBER_ROLES: MemberRole[] = ['admin', 'manager', 'staff'];
+
+const PropertyMembers: React.FC<PropertyMembersProps> = ({ property }) => {
+  const { hasFeature } = useSubscription();
+  const [members, setMembers] = useState<PropertyMember[]>([]);
+  const [invitations, setInvitations] = useState<PropertyInvitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('staff');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [membersData, invitationsData] = await Promise.all([
+        memberService.getByPropertyId(property.id),
+        memberService.getInvitations(property.id)
+      ]);
+      setMembers(membersData);
+      setInvitations(invitationsData);
+    } catch (err) {
+      console.error('Error loading members:', err);
+      setError('Gagal memuat daftar anggota.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [property.id]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsInviting(true);
+      setError(null);
+      setMessage(null);
+      const invitation = await memberService.invite(property.id, email, role);
+      setMessage(`Undangan telah dikirim ke ${invitation.email}.`);
+      setEmail('');
+      await loadMembers();
+    } catch (err) {
+      console.error('Error inviting member:', err);
+      const reason = err instanceof Error ? err.message : '';
+      setError(reason.includes('Already a member')
+        ? 'Pengguna ini sudah menjadi anggota properti.'
+        : reason.includes('multi_user')
+          ? 'Paket pemilik properti tidak termasuk fitur multi pengguna.'
+          : 'Gagal mengirim undangan. Silakan coba lagi.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: PropertyInvitation) => {
+    if (!window.confirm(`Batalkan undangan untuk ${invitation.email}?`)) return;
+
+    try {
+      setError(null);
+      await memberService.revokeInvitation(invitation.id);
+      await loadMembers();
+    } catch (err) {
+      console.error('Error revoking invitation:', err);
+      setError('Gagal membatalkan undangan.');
+    }
+  };
+
+  const handleRoleChange = async (member: PropertyMember, nextRole: MemberRole) => {
+    try {
+      setError(null);
+      const updated = await memberService.updateRole(member.id, nextRole);
+      setMembers(current => current.map(m => m.id === updated.id ? updated : m));
+    } catch (err) {
+      console.error('Error updating member role:', err);
+      setError('Gagal mengubah peran anggota.');
+    }
+  };
+
+  const handleRemove = async (member: PropertyMember) => {
+    if (!window.confirm(`Hapus ${member.email} dari ${property.name}?`)) return;
+
+    try {
+      setError(null);
+      await memberService.remove(member.id);
+      await loadMembers();
+    } catch (err) {
+      console.error('Error removing member:', err);
+      setError('Gagal menghapus anggota.');
+    }
+  };
+
+  // Admins invite under the owner's plan, which only the database can check
+  if (property.role === 'owner' && !hasFeature('multi_user')) {
+    return (
+      <UpgradePrompt
+        title="Multi pengguna tidak tersedia"
+        message="Undang admin, manajer dan staf untuk membantu mengelola properti Anda."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 rounded-md">
+          {message}
+        </div>
+      )}
+
+      <form onSubmit={handleInvite} className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Undang Anggota ke {property.name}</h3>
+          <p className="text-sm text-gray-500">
+            Undangan berlaku 7 hari. Pengguna baru akan menerima email untuk membuat akun.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="email@contoh.com"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as MemberRole)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {MEMBER_ROLES.map(option => (
+              <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+            ))}
+          </select>
+          <Button type="submit" icon={<Send size={16} />} disabled={isInviting}>
+            {isInviting ? 'Mengirim...' : 'Undang'}
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500">{ROLE_DESCRIPTIONS[role]}</p>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Peran</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-4 text-center text-sm text-gray-500">Memuat...</td>
+              </tr>
+            ) : members.length === 0 && invitations.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-4 text-center text-sm text-gray-500">Belum ada anggota</td>
+              </tr>
+            ) : (
+              <>
+                {members.map(member => (
+                  <tr key={member.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{member.email}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {MEMBER_ROLES.map(option => (
+                          <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <Badge className="bg-green-100 text-green-800">Aktif</Badge>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        icon={<Trash size={14} />}
+                        onClick={() => handleRemove(member)}
+                      >
+                        Hapus
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {invitations.map(invitation => (
+                  <tr key={invitation.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{invitation.email}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{ROLE_LABELS[invitation.role]}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <Badge className="bg-yellow-100 text-yellow-800">Diundang</Badge>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Berlaku s.d. {formatDate(invitation.expires_at)}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        icon={<X size={14} />}
+                        onClick={() => handleRevoke(invitation)}
+                      >
+                        Batalkan
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PropertyMembers;
@@ -3,6 +3,7 @@ import { Room } from '../../types';
 import Button from '../ui/Button';
 import { X } from 'lucide-react';
 import { useProperty } from '../../contexts/PropertyContext';
+import { AVAILABLE_FACILITIES } from '../../utils/facilities';
 
 interface RoomFormProps {
   room?: Room;
@@ -10,20 +11,6 @@ interface RoomFormProps {
   onClose: () => void;
 }
 
-const AVAILABLE_FACILITIES = [
-  'AC',
-  'Kamar Mandi',
-  'Wifi',
-  'TV',
-  'Kulkas',
-  'Tempat Tidur',
-  'Meja',
-  'Lemari',
-  'Pemanas Air',
-  'Dapur',
-  'Parkir'
-];
-
 const RoomForm: React.FC<RoomFormProps> = ({ room, onSubmit, onClose }) => {
   const { selectedProperty } = useProperty();
   const [formData, setFormData] = React.useState<Partial<Room>>({
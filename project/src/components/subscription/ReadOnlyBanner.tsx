@@ -0,0 +1,32 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import Button from '../ui/Button';
+import { useSubscription } from '../../contexts/SubscriptionContext';
+
+interface ReadOnlyBannerProps {
+  onNavigate: (item: string) => void;
+}
+
+const ReadOnlyBanner: React.FC<ReadOnlyBannerProps> = ({ onNavigate }) => {
+  const { isReadOnly } = useSubscription();
+
+  if (!isReadOnly) return null;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 mb-6 border border-red-200 bg-red-50 rounded-lg">
+      <AlertTriangle size={20} className="text-red-600 flex-shrink-0" />
+      <div className="flex-1">
+        <h3 className="text-sm font-semibold text-red-800">Akun Hanya Dapat Dibaca</h3>
+        <p className="text-sm text-red-700 mt-1">
+          Langganan Anda berakhir karena tagihan belum dibayar setelah masa tenggang. Data Anda tetap
+          dapat dilihat, tetapi tidak dapat diubah sampai tagihan dilunasi.
+        </p>
+      </div>
+      <Button size="sm" variant="danger" onClick={() => onNavigate('billing')}>
+        Lihat Tagihan
+      </Button>
+    </div>
+  );
+};
+
+export default ReadOnlyBanner;
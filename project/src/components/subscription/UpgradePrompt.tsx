@@ -0,0 +1,40 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Lock, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { useSubscription } from '../../contexts/SubscriptionContext';
+
+interface UpgradePromptProps {
+  title: string;
+  message: string;
+  onClose?: () => void;
+}
+
+const UpgradePrompt: React.FC<UpgradePromptProps> = ({ title, message, onClose }) => {
+  const navigate = useNavigate();
+  const { plan } = useSubscription();
+
+  return (
+    <div className="flex items-start gap-3 p-4 border border-yellow-200 bg-yellow-50 rounded-lg">
+      <Lock size={20} className="text-yellow-600 flex-shrink-0 mt-0.5" />
+      <div className="flex-1">
+        <h3 className="text-sm font-semibold text-yellow-800">{title}</h3>
+        <p className="text-sm text-yellow-700 mt-1">{message}</p>
+        <p className="text-sm text-yellow-700 mt-1">
+          {plan ? `Paket Anda saat ini: ${plan.name}. ` : ''}
+          Tingkatkan paket langganan Anda untuk membuka fitur ini.
+        </p>
+        <Button size="sm" className="mt-3" onClick={() => navigate('/billing')}>
+          Lihat Paket
+        </Button>
+      </div>
+      {onClose && (
+        <button onClick={onClose} className="text-yellow-600 hover:text-yellow-800">
+          <X size={18} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default UpgradePrompt;
@@ -0,0 +1,395 @@
+import React, { useState, useEffect } from 'react';
+import { Tenant, Room, TenantDeposit, Payment, RoomConditionItem, OutstandingSettlement } from '../../types';
+import Button from '../ui/Button';
+import { X, Loader2, LogOut } from 'lucide-react';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { getDepositRefund } from '../../utils/deposits';
+import { paymentService, tenancyService } from '../../services/supabase';
+
+interface CheckOutFormProps {
+  tenant: Tenant;
+  room?: Room;
+  deposit: TenantDeposit | null;
+  onClose: () => void;
+  onCheckedOut: () => void;
+}
+
+const CHECKLIST_ITEMS = [
+  'Kunci kamar dikembalikan',
+  'Dinding dan cat',
+  'Lantai',
+  'Kamar mandi',
+  'Perabot',
+  'Listrik dan lampu'
+];
+
+const STEPS = ['Kondisi Kamar', 'Pelunasan', 'Konfirmasi'];
+
+const daysInclusive = (from: string, to: string) =>
+  differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+
+// Mirrors check_out_tenant: bills for periods after the move-out are voided
+// and the final period is charged up to the move-out date
+const getOutstanding = (payment: Payment, tenant: Tenant, moveOutDate: string) => {
+  const paid = Number(payment.amount_paid || 0);
+  const fees = Number(payment.fee_amount || 0);
+  if ((payment.period_start || payment.due_date) > moveOutDate) return 0;
+
+  let amount = payment.amount;
+  if (payment.period_start && payment.period_end && payment.period_end > moveOutDate) {
+    const billedStart = payment.period_start > tenant.start_date ? payment.period_start : tenant.start_date;
+    amount = Math.max(
+      Math.round((amount * daysInclusive(billedStart, moveOutDate)) / daysInclusive(billedStart, payment.period_end)),
+      paid - fees,
+      0
+    );
+  }
+  return Math.max(0, amount + fees - paid);
+};
+
+const CheckOutForm: React.FC<CheckOutFormProps> = ({
+  tenant,
+  room,
+  deposit,
+  onClose,
+  onCheckedOut
+}) => {
+  const [step, setStep] = useState(0);
+  const [unpaidPayments, setUnpaidPayments] = useState<Payment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [moveOutDate, setMoveOutDate] = useState(new Date().toISOString().split('T')[0]);
+  const [checklist, setChecklist] = useState<RoomConditionItem[]>(
+    CHECKLIST_ITEMS.map(item => ({ item, condition: 'good', notes: '' }))
+  );
+  const [damageAmount, setDamageAmount] = useState(0);
+  const [settlement, setSettlement] = useState<OutstandingSettlement>(deposit?.status === 'held' ? 'deposit' : 'paid');
+  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    const loadUnpaidPayments = async () => {
+      try {
+        setUnpaidPayments(await paymentService.getUnpaidByTenantId(tenant.id));
+      } catch (err) {
+        console.error('Error loading unpaid payments:', err);
+        setError('Gagal memuat tagihan penyewa.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadUnpaidPayments();
+  }, [tenant.id]);
+
+  const heldDeposit = deposit?.status === 'held' ? deposit : null;
+  const settledPayments = unpaidPayments
+    .map(payment => ({ payment, outstanding: getOutstanding(payment, tenant, moveOutDate) }))
+    .filter(entry => entry.outstanding > 0);
+  const outstanding = settledPayments.reduce((sum, entry) => sum + entry.outstanding, 0);
+  const voidedCount = unpaidPayments.filter(payment => (payment.period_start || payment.due_date) > moveOutDate).length;
+
+  // Mirrors check_out_tenant: damage is deducted first, then arrears as far
+  // as the deposit goes
+  const depositAvailable = heldDeposit ? Math.max(0, getDepositRefund(heldDeposit) - damageAmount) : 0;
+  const coveredByDeposit = settlement === 'deposit' ? Math.min(outstanding, depositAvailable) : 0;
+  const remainingOutstanding = settlement === 'paid' ? 0 : outstanding - coveredByDeposit;
+  const refund = depositAvailable - coveredByDeposit;
+
+  const handleChecklistChange = <K extends keyof RoomConditionItem>(index: number, key: K, value: RoomConditionItem[K]) => {
+    setChecklist(prev => prev.map((entry, i) => i === index ? { ...entry, [key]: value } : entry));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await tenancyService.checkOut({
+        tenantId: tenant.id,
+        moveOutDate,
+        roomCondition: checklist,
+        settlement: outstanding > 0 ? settlement : 'none',
+        paymentMethod: settlement === 'paid' ? paymentMethod : undefined,
+        damageAmount: heldDeposit ? damageAmount : 0,
+        notes
+      });
+      onCheckedOut();
+    } catch (err) {
+      console.error('Error checking out tenant:', err);
+      setError('Gagal memproses check-out. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Check-out {tenant.name}
+            </h2>
+            <p className="text-sm text-gray-500">
+              {room ? `Kamar ${room.number} · ` : ''}Masuk {formatDate(tenant.start_date)}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex gap-2">
+          {STEPS.map((label, index) => (
+            <div
+              key={label}
+              className={`flex-1 text-center text-sm pb-2 border-b-2 ${
+                index === step ? 'border-blue-600 text-blue-600 font-medium' :
+                index < step ? 'border-blue-200 text-gray-700' : 'border-gray-200 text-gray-400'
+              }`}
+            >
+              {index + 1}. {label}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+            </div>
+          ) : step === 0 ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tanggal Keluar
+                </label>
+                <input
+                  type="date"
+                  value={moveOutDate}
+                  min={tenant.start_date}
+                  onChange={(e) => setMoveOutDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Kondisi Kamar</h3>
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                  {checklist.map((entry, index) => (
+                    <div key={entry.item} className="p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-gray-800">{entry.item}</span>
+                        <select
+                          value={entry.condition}
+                          onChange={(e) => handleChecklistChange(index, 'condition', e.target.value as RoomConditionItem['condition'])}
+                          className={`px-2 py-1 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                            entry.condition === 'good' ? 'border-gray-300' : 'border-red-300 text-red-700'
+                          }`}
+                        >
+                          <option value="good">Baik</option>
+                          <option value="damaged">Rusak</option>
+                        </select>
+                      </div>
+                      {entry.condition === 'damaged' && (
+                        <input
+                          type="text"
+                          value={entry.notes || ''}
+                          onChange={(e) => handleChecklistChange(index, 'notes', e.target.value)}
+                          placeholder="Keterangan kerusakan"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {heldDeposit && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Biaya Kerusakan (dipotong dari deposit)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={damageAmount}
+                    onChange={(e) => setDamageAmount(parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+            </>
+          ) : step === 1 ? (
+            <>
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Tagihan Belum Lunas</h3>
+                {settledPayments.length === 0 ? (
+                  <p className="text-sm text-gray-500">Tidak ada tagihan yang belum lunas.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {settledPayments.map(({ payment, outstanding: remaining }) => (
+                      <div key={payment.id} className="p-3 flex justify-between text-sm">
+                        <span className="text-gray-700">Jatuh tempo {formatDate(payment.due_date)}</span>
+                        <span className="font-medium">{formatCurrency(remaining)}</span>
+                      </div>
+                    ))}
+                    <div className="p-3 flex justify-between text-sm font-medium">
+                      <span>Total Tunggakan</span>
+                      <span className="text-red-600">{formatCurrency(outstanding)}</span>
+                    </div>
+                  </div>
+                )}
+                {voidedCount > 0 && (
+                  <p className="text-sm text-gray-500 mt-2">
+                    {voidedCount} tagihan untuk periode setelah tanggal keluar akan dibatalkan.
+                  </p>
+                )}
+              </div>
+
+              {outstanding > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Cara Pelunasan
+                  </label>
+                  <select
+                    value={settlement}
+                    onChange={(e) => setSettlement(e.target.value as OutstandingSettlement)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {heldDeposit && <option value="deposit">Potong dari deposit</option>}
+                    <option value="paid">Dibayar saat check-out</option>
+                    <option value="none">Biarkan sebagai tunggakan</option>
+                  </select>
+                </div>
+              )}
+
+              {outstanding > 0 && settlement === 'paid' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Metode Pembayaran
+                  </label>
+                  <select
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="cash">Tunai</option>
+                    <option value="transfer">Transfer Bank</option>
+                    <option value="card">Kartu Kredit/Debit</option>
+                    <option value="ewallet">E-Wallet</option>
+                  </select>
+                </div>
+              )}
+
+              {heldDeposit ? (
+                <div className="bg-gray-50 rounded-md p-4 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Deposit tersedia</span>
+                    <span>{formatCurrency(getDepositRefund(heldDeposit))}</span>
+                  </div>
+                  {damageAmount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Biaya kerusakan</span>
+                      <span className="text-red-600">- {formatCurrency(damageAmount)}</span>
+                    </div>
+                  )}
+                  {coveredByDeposit > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Pelunasan tunggakan</span>
+                      <span className="text-red-600">- {formatCurrency(coveredByDeposit)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-medium pt-1 border-t border-gray-200">
+                    <span>Deposit dikembalikan</span>
+                    <span className="text-green-600">{formatCurrency(refund)}</span>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Penyewa tidak memiliki deposit yang ditahan.</p>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="bg-gray-50 rounded-md p-4 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Tanggal keluar</span>
+                  <span>{formatDate(moveOutDate)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Kondisi rusak</span>
+                  <span>{checklist.filter(entry => entry.condition === 'damaged').length} dari {checklist.length} item</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Sisa tunggakan</span>
+                  <span className={remainingOutstanding > 0 ? 'text-red-600' : ''}>{formatCurrency(remainingOutstanding)}</span>
+                </div>
+                {heldDeposit && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Deposit dikembalikan</span>
+                    <span className="text-green-600">{formatCurrency(refund)}</span>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Catatan
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <p className="text-sm text-gray-500">
+                Setelah check-out, status penyewa menjadi tidak aktif dan {room ? `Kamar ${room.number}` : 'kamarnya'} kembali kosong.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+          {step === 0 ? (
+            <Button variant="outline" className="w-full" onClick={onClose}>
+              Batal
+            </Button>
+          ) : (
+            <Button variant="outline" className="w-full" onClick={() => setStep(step - 1)} disabled={isSubmitting}>
+              Kembali
+            </Button>
+          )}
+          {step < STEPS.length - 1 ? (
+            <Button className="w-full" onClick={() => setStep(step + 1)} disabled={isLoading || !moveOutDate}>
+              Lanjut
+            </Button>
+          ) : (
+            <Button
+              variant="danger"
+              className="w-full"
+              icon={<LogOut size={16} />}
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Memproses...' : 'Check-out'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CheckOutForm;
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Tenant, Room, TenantDeposit, LeaseContract, ContractTemplate } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import SignaturePad, { SignaturePadHandle } from '../ui/SignaturePad';
+import { X, Download, Loader2, PenLine } from 'lucide-react';
+import { formatDate } from '../../utils/formatters';
+import {
+  DEFAULT_CONTRACT_BODY,
+  DEFAULT_CONTRACT_TITLE,
+  DEFAULT_HOUSE_RULES,
+  buildContractValues,
+  fillContractTemplate,
+  generateContractPDF,
+  loadImageAsDataUrl
+} from '../../utils/contracts';
+import { contractTemplateService, leaseContractService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+
+interface ContractDetailsProps {
+  tenant: Tenant;
+  room?: Room;
+  deposit: TenantDeposit | null;
+  onClose: () => void;
+}
+
+const ContractDetails: React.FC<ContractDetailsProps> = ({
+  tenant,
+  room,
+  deposit,
+  onClose
+}) => {
+  const { selectedProperty } = useProperty();
+  const signaturePadRef = useRef<SignaturePadHandle>(null);
+  const [contract, setContract] = useState<LeaseContract | null>(null);
+  const [template, setTemplate] = useState<ContractTemplate | null>(null);
+  const [signatureUrl, setSignatureUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadContract = useCallback(async () => {
+    if (!selectedProperty) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [contracts, templateData] = await Promise.all([
+        leaseContractService.getByTenantId(tenant.id),
+        contractTemplateService.getByPropertyId(selectedProperty.id)
+      ]);
+
+      const current = contracts[0] || null;
+      setContract(current);
+      setTemplate(templateData);
+
+      if (current?.signature_path) {
+        setSignatureUrl(await leaseContractService.getSignatureUrl(current.signature_path));
+      }
+    } catch (err) {
+      console.error('Error loading contract:', err);
+      setError('Gagal memuat kontrak. Silakan coba lagi.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenant.id, selectedProperty]);
+
+  useEffect(() => {
+    loadContract();
+  }, [loadContract]);
+
+  // Until a contract is saved, preview it from the property's current template
+  const buildDraft = (): Omit<LeaseContract, 'id' | 'signature_path' | 'signed_at' | 'created_at' | 'updated_at'> | null => {
+    if (!selectedProperty) return null;
+    const values = buildContractValues(tenant, room, selectedProperty, deposit ? Number(deposit.amount) : null);
+
+    return {
+      tenant_id: tenant.id,
+      property_id: selectedProperty.id,
+      room_id: tenant.room_id,
+      title: template?.title || DEFAULT_CONTRACT_TITLE,
+      content: fillContractTemplate(template?.body || DEFAULT_CONTRACT_BODY, values),
+      house_rules: template ? template.house_rules : DEFAULT_HOUSE_RULES,
+      start_date: tenant.start_date,
+      end_date: tenant.end_date,
+      monthly_rent: room?.price || 0,
+      deposit_amount: deposit ? Number(deposit.amount) : null
+    };
+  };
+
+  const draft = contract ? null : buildDraft();
+  const shown = contract || draft;
+
+  const handleSign = async () => {
+    if (!signaturePadRef.current || signaturePadRef.current.isEmpty()) {
+      setError('Penyewa belum membubuhkan tanda tangan.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const signature = await signaturePadRef.current.toBlob();
+      if (!signature) throw new Error('Failed to read signature');
+
+      const target = contract || (draft && await leaseContractService.create(draft));
+      if (!target) return;
+
+      const signed = await leaseContractService.sign(target, signature);
+      setContract(signed);
+      setSignatureUrl(await leaseContractService.getSignatureUrl(signed.signature_path as string));
+    } catch (err) {
+      console.error('Error signing contract:', err);
+      setError('Gagal menyimpan tanda tangan. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!selectedProperty || !shown) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const signatureDataUrl = signatureUrl ? await loadImageAsDataUrl(signatureUrl) : null;
+      generateContractPDF(
+        { ...shown, signed_at: contract?.signed_at },
+        selectedProperty,
+        tenant.name,
+        signatureDataUrl
+      );
+    } catch (err) {
+      console.error('Error exporting contract:', err);
+      setError('Gagal mengekspor kontrak. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Kontrak Sewa {tenant.name}
+            </h2>
+            {contract?.signed_at ? (
+              <Badge className="bg-green-100 text-green-800 mt-1">
+                Ditandatangani {formatDate(contract.signed_at)}
+              </Badge>
+            ) : (
+              <Badge className="bg-yellow-100 text-yellow-800 mt-1">
+                Belum ditandatangani
+              </Badge>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+            </div>
+          ) : shown && (
+            <>
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h3 className="text-center font-semibold text-gray-900 uppercase mb-4">{shown.title}</h3>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{shown.content}</p>
+                {shown.house_rules && (
+                  <>
+                    <h4 className="font-medium text-gray-900 mt-4 mb-1">Peraturan Kost</h4>
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{shown.house_rules}</p>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Tanda Tangan Penyewa</h3>
+                {signatureUrl ? (
+                  <img
+                    src={signatureUrl}
+                    alt={`Tanda tangan ${tenant.name}`}
+                    className="h-32 border border-gray-200 rounded-md bg-white"
+                  />
+                ) : (
+                  <>
+                    <SignaturePad ref={signaturePadRef} disabled={isSubmitting} />
+                    <div className="flex justify-between items-center mt-2">
+                      <p className="text-sm text-gray-500">
+                        Minta penyewa menandatangani di kotak di atas.
+                      </p>
+                      <button
+                        type="button"
+                        onClick={() => signaturePadRef.current?.clear()}
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                        disabled={isSubmitting}
+                      >
+                        Hapus
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+          <Button variant="outline" className="w-full" onClick={onClose}>
+            Tutup
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full"
+            icon={<Download size={16} />}
+            onClick={handleDownload}
+            disabled={isLoading || isSubmitting}
+          >
+            Unduh PDF
+          </Button>
+          {!signatureUrl && (
+            <Button
+              variant="success"
+              className="w-full"
+              icon={<PenLine size={16} />}
+              onClick={handleSign}
+              disabled={isLoading || isSubmitting}
+            >
+              {isSubmitting ? 'Menyimpan...' : 'Simpan Tanda Tangan'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContractDetails;
@@ -0,0 +1,472 @@
+import React, { useState } from 'react';
+import { Tenant, TenantDeposit, MaintenanceRequest } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Wallet, Plus, Trash, Wrench } from 'lucide-react';
+import { formatCurrency, formatDate, translatePaymentMethod } from '../../utils/formatters';
+import { getDepositDeductionTotal, getDepositRefund } from '../../utils/deposits';
+import { depositService } from '../../services/supabase';
+
+interface DepositDetailsProps {
+  tenant: Tenant;
+  deposit: TenantDeposit | null;
+  maintenanceRequests: MaintenanceRequest[];
+  onClose: () => void;
+  onDepositUpdated: (deposit: TenantDeposit) => void;
+}
+
+const DepositDetails: React.FC<DepositDetailsProps> = ({
+  tenant,
+  deposit,
+  maintenanceRequests,
+  onClose,
+  onDepositUpdated
+}) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showDeductionForm, setShowDeductionForm] = useState(false);
+
+  const [depositForm, setDepositForm] = useState({
+    amount: 0,
+    received_date: tenant.start_date || new Date().toISOString().split('T')[0],
+    payment_method: 'transfer',
+    receipt_number: '',
+    notes: ''
+  });
+
+  const [deductionForm, setDeductionForm] = useState({
+    amount: 0,
+    reason: '',
+    maintenance_request_id: '',
+    date: new Date().toISOString().split('T')[0]
+  });
+
+  // Damage is usually reported against the tenant or the room they occupy
+  const tenantRequests = maintenanceRequests.filter(r =>
+    r.tenant_id === tenant.id || (tenant.room_id && r.room_id === tenant.room_id)
+  );
+
+  const deductionTotal = deposit ? getDepositDeductionTotal(deposit) : 0;
+  const refund = deposit ? getDepositRefund(deposit) : 0;
+  const isHeld = deposit?.status === 'held';
+
+  const reloadDeposit = async () => {
+    const updated = await depositService.getByTenantId(tenant.id);
+    if (updated) onDepositUpdated(updated);
+  };
+
+  const handleDepositChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDepositForm(prev => ({
+      ...prev,
+      [name]: name === 'amount' ? parseFloat(value) || 0 : value
+    }));
+  };
+
+  const handleDeductionChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDeductionForm(prev => ({
+      ...prev,
+      [name]: name === 'amount' ? parseFloat(value) || 0 : value
+    }));
+  };
+
+  const handleDepositSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (depositForm.amount <= 0) {
+      setError('Jumlah deposit harus lebih dari 0.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const created = await depositService.create({
+        tenant_id: tenant.id,
+        property_id: tenant.property_id as string,
+        amount: depositForm.amount,
+        received_date: depositForm.received_date,
+        payment_method: depositForm.payment_method,
+        receipt_number: depositForm.receipt_number || null,
+        notes: depositForm.notes || null
+      });
+      onDepositUpdated(created);
+    } catch (err) {
+      console.error('Error saving deposit:', err);
+      setError('Gagal menyimpan deposit. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeductionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deposit) return;
+
+    if (deductionForm.amount <= 0) {
+      setError('Jumlah potongan harus lebih dari 0.');
+      return;
+    }
+
+    if (deductionForm.amount > refund) {
+      setError(`Jumlah potongan melebihi sisa deposit (${formatCurrency(refund)}).`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await depositService.addDeduction({
+        deposit_id: deposit.id,
+        property_id: deposit.property_id,
+        amount: deductionForm.amount,
+        reason: deductionForm.reason,
+        maintenance_request_id: deductionForm.maintenance_request_id || null,
+        date: deductionForm.date
+      });
+      await reloadDeposit();
+
+      setShowDeductionForm(false);
+      setDeductionForm(prev => ({ ...prev, amount: 0, reason: '', maintenance_request_id: '' }));
+    } catch (err) {
+      console.error('Error saving deposit deduction:', err);
+      setError('Gagal menyimpan potongan. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteDeduction = async (id: string) => {
+    if (!confirm('Apakah Anda yakin ingin menghapus potongan ini?')) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await depositService.deleteDeduction(id);
+      await reloadDeposit();
+    } catch (err) {
+      console.error('Error deleting deposit deduction:', err);
+      setError('Gagal menghapus potongan. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!deposit) return;
+    if (!confirm(`Kembalikan deposit sebesar ${formatCurrency(refund)} kepada ${tenant.name}?`)) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const updated = await depositService.refund(deposit.id, refund, new Date().toISOString().split('T')[0]);
+      onDepositUpdated(updated);
+    } catch (err) {
+      console.error('Error refunding deposit:', err);
+      setError('Gagal menyelesaikan pengembalian deposit. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getRequestTitle = (id?: string | null) =>
+    maintenanceRequests.find(r => r.id === id)?.title;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Deposit {tenant.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {!deposit ? (
+            <form onSubmit={handleDepositSubmit} className="space-y-4">
+              <p className="text-sm text-gray-500">
+                Belum ada deposit yang dicatat untuk penyewa ini.
+              </p>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Jumlah Deposit
+                  </label>
+                  <input
+                    type="number"
+                    name="amount"
+                    value={depositForm.amount}
+                    onChange={handleDepositChange}
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tanggal Diterima
+                  </label>
+                  <input
+                    type="date"
+                    name="received_date"
+                    value={depositForm.received_date}
+                    onChange={handleDepositChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Metode Pembayaran
+                  </label>
+                  <select
+                    name="payment_method"
+                    value={depositForm.payment_method}
+                    onChange={handleDepositChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    disabled={isSubmitting}
+                  >
+                    <option value="transfer">Transfer Bank</option>
+                    <option value="cash">Tunai</option>
+                    <option value="card">Kartu Kredit/Debit</option>
+                    <option value="ewallet">E-Wallet</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    No. Kwitansi
+                  </label>
+                  <input
+                    type="text"
+                    name="receipt_number"
+                    value={depositForm.receipt_number}
+                    onChange={handleDepositChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Opsional"
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Catatan
+                </label>
+                <textarea
+                  name="notes"
+                  value={depositForm.notes}
+                  onChange={handleDepositChange}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" variant="success" disabled={isSubmitting}>
+                  {isSubmitting ? 'Menyimpan...' : 'Catat Deposit'}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <>
+              {/* Deposit Summary */}
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2 text-gray-600">
+                    <Wallet size={20} />
+                    <span>Deposit Diterima</span>
+                  </div>
+                  <Badge className={isHeld ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}>
+                    {isHeld ? 'Ditahan' : 'Dikembalikan'}
+                  </Badge>
+                </div>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(deposit.amount)}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {formatDate(deposit.received_date)} via {translatePaymentMethod(deposit.payment_method)}
+                  {deposit.receipt_number && ` • Kwitansi ${deposit.receipt_number}`}
+                </p>
+                <div className="grid grid-cols-2 gap-4 mt-3 text-sm">
+                  <div>
+                    <p className="text-gray-500">Total Potongan</p>
+                    <p className="font-medium text-red-700">{formatCurrency(deductionTotal)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">{isHeld ? 'Akan Dikembalikan' : 'Dikembalikan'}</p>
+                    <p className="font-medium text-green-700">{formatCurrency(refund)}</p>
+                    {!isHeld && deposit.refunded_date && (
+                      <p className="text-gray-500">{formatDate(deposit.refunded_date)}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Deductions */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-medium text-gray-900">Potongan Deposit</h3>
+                  {isHeld && !showDeductionForm && refund > 0 && (
+                    <Button size="sm" icon={<Plus size={14} />} onClick={() => setShowDeductionForm(true)}>
+                      Tambah Potongan
+                    </Button>
+                  )}
+                </div>
+
+                {deposit.deductions && deposit.deductions.length > 0 ? (
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {deposit.deductions.map(deduction => (
+                      <div key={deduction.id} className="flex items-start justify-between p-3">
+                        <div>
+                          <p className="font-medium text-gray-900">{formatCurrency(deduction.amount)}</p>
+                          <p className="text-sm text-gray-600">{deduction.reason}</p>
+                          <p className="text-sm text-gray-500">{formatDate(deduction.date)}</p>
+                          {deduction.maintenance_request_id && (
+                            <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
+                              <Wrench size={14} />
+                              {getRequestTitle(deduction.maintenance_request_id) || 'Permintaan pemeliharaan'}
+                            </p>
+                          )}
+                        </div>
+                        {isHeld && (
+                          <button
+                            onClick={() => handleDeleteDeduction(deduction.id)}
+                            className="text-gray-400 hover:text-red-600"
+                            disabled={isSubmitting}
+                            title="Hapus potongan"
+                          >
+                            <Trash size={16} />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Tidak ada potongan.</p>
+                )}
+
+                {showDeductionForm && (
+                  <form onSubmit={handleDeductionSubmit} className="mt-4 p-4 border border-gray-200 rounded-lg space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Jumlah
+                        </label>
+                        <input
+                          type="number"
+                          name="amount"
+                          value={deductionForm.amount}
+                          onChange={handleDeductionChange}
+                          min="1"
+                          max={refund}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          required
+                          disabled={isSubmitting}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Tanggal
+                        </label>
+                        <input
+                          type="date"
+                          name="date"
+                          value={deductionForm.date}
+                          onChange={handleDeductionChange}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          required
+                          disabled={isSubmitting}
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Alasan
+                      </label>
+                      <input
+                        type="text"
+                        name="reason"
+                        value={deductionForm.reason}
+                        onChange={handleDeductionChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="Contoh: kerusakan pintu lemari"
+                        required
+                        disabled={isSubmitting}
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Permintaan Pemeliharaan Terkait
+                      </label>
+                      <select
+                        name="maintenance_request_id"
+                        value={deductionForm.maintenance_request_id}
+                        onChange={handleDeductionChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        disabled={isSubmitting}
+                      >
+                        <option value="">Tidak ada</option>
+                        {tenantRequests.map(request => (
+                          <option key={request.id} value={request.id}>
+                            {request.title} ({formatDate(request.date)})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowDeductionForm(false)}
+                        disabled={isSubmitting}
+                      >
+                        Batal
+                      </Button>
+                      <Button type="submit" variant="success" size="sm" disabled={isSubmitting}>
+                        {isSubmitting ? 'Menyimpan...' : 'Simpan Potongan'}
+                      </Button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+          <Button variant="outline" className="w-full" onClick={onClose}>
+            Tutup
+          </Button>
+          {isHeld && (
+            <Button variant="success" className="w-full" onClick={handleRefund} disabled={isSubmitting}>
+              Kembalikan Deposit
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DepositDetails;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Tenant, Room } from '../../types';
+import Button from '../ui/Button';
+import { X } from 'lucide-react';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { addMonthsToDate } from '../../utils/leases';
+import { leaseRenewalService } from '../../services/supabase';
+
+interface LeaseRenewalFormProps {
+  tenant: Tenant;
+  room?: Room;
+  onClose: () => void;
+  onRenewed: (tenant: Tenant) => void;
+}
+
+const LeaseRenewalForm: React.FC<LeaseRenewalFormProps> = ({ tenant, room, onClose, onRenewed }) => {
+  const [months, setMonths] = useState(12);
+  const [price, setPrice] = useState(room?.price ?? 0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const newEndDate = addMonthsToDate(tenant.end_date, months);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const renewed = await leaseRenewalService.renew(tenant, newEndDate, room, room ? price : undefined);
+      onRenewed(renewed);
+    } catch (err) {
+      console.error('Error renewing lease:', err);
+      setError('Gagal memperpanjang sewa. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Perpanjang Sewa {tenant.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Perpanjang Selama (bulan)
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="60"
+                value={months}
+                onChange={(e) => setMonths(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+                disabled={isSubmitting}
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                {formatDate(tenant.end_date)} → {formatDate(newEndDate)}
+              </p>
+            </div>
+
+            {room && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Harga Sewa per Bulan
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={price}
+                  onChange={(e) => setPrice(parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                  disabled={isSubmitting}
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Harga saat ini {formatCurrency(room.price)}. Harga baru berlaku untuk tagihan berikutnya Kamar {room.number}.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+            <Button variant="outline" type="button" className="w-full" onClick={onClose}>
+              Batal
+            </Button>
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Menyimpan...' : 'Perpanjang'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LeaseRenewalForm;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { Tenant, Room, Payment, RoomTransfer } from '../../types';
+import Button from '../ui/Button';
+import { X, Loader2, ArrowRightLeft } from 'lucide-react';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { paymentService, roomTransferService } from '../../services/supabase';
+
+interface RoomTransferFormProps {
+  tenant: Tenant;
+  rooms: Room[];
+  onClose: () => void;
+  onTransferred: () => void;
+}
+
+const RoomTransferForm: React.FC<RoomTransferFormProps> = ({ tenant, rooms, onClose, onTransferred }) => {
+  const [unpaidPayments, setUnpaidPayments] = useState<Payment[]>([]);
+  const [transfers, setTransfers] = useState<RoomTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    to_room_id: '',
+    transfer_date: new Date().toISOString().split('T')[0],
+    reason: '',
+    adjust_payments: true
+  });
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [paymentsData, transfersData] = await Promise.all([
+          paymentService.getUnpaidByTenantId(tenant.id),
+          roomTransferService.getByTenantId(tenant.id)
+        ]);
+        setUnpaidPayments(paymentsData);
+        setTransfers(transfersData);
+      } catch (err) {
+        console.error('Error loading transfer data:', err);
+        setError('Gagal memuat data penyewa.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadData();
+  }, [tenant.id]);
+
+  const currentRoom = rooms.find(r => r.id === tenant.room_id);
+  const vacantRooms = rooms.filter(r => r.status === 'vacant' && r.id !== tenant.room_id);
+  const targetRoom = rooms.find(r => r.id === formData.to_room_id);
+
+  // Same rule as transfer_tenant_room: open bills whose period runs into the transfer
+  const adjustablePayments = unpaidPayments.filter(payment =>
+    !!payment.period_start &&
+    !!payment.period_end &&
+    payment.period_end >= formData.transfer_date
+  );
+
+  const getRoomNumber = (roomId: string | null) => rooms.find(r => r.id === roomId)?.number || '-';
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.to_room_id) {
+      setError('Pilih kamar tujuan.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await roomTransferService.transfer({
+        tenantId: tenant.id,
+        toRoomId: formData.to_room_id,
+        transferDate: formData.transfer_date,
+        reason: formData.reason,
+        adjustPayments: formData.adjust_payments && adjustablePayments.length > 0
+      });
+      onTransferred();
+    } catch (err) {
+      console.error('Error transferring tenant:', err);
+      setError('Gagal memindahkan penyewa. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Pindah Kamar {tenant.name}
+            </h2>
+            {currentRoom && (
+              <p className="text-sm text-gray-500">
+                Kamar saat ini: {currentRoom.number} · {formatCurrency(currentRoom.price)}/bulan
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col overflow-hidden">
+            <div className="p-6 space-y-4 overflow-y-auto">
+              {error && (
+                <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Kamar Tujuan
+                </label>
+                <select
+                  name="to_room_id"
+                  value={formData.to_room_id}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                  disabled={isSubmitting}
+                >
+                  <option value="">Pilih kamar</option>
+                  {vacantRooms.map(room => (
+                    <option key={room.id} value={room.id}>
+                      Kamar {room.number} - {room.type} - {formatCurrency(room.price)}/bulan
+                    </option>
+                  ))}
+                </select>
+                {vacantRooms.length === 0 && (
+                  <p className="mt-1 text-sm text-gray-500">Tidak ada kamar kosong.</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tanggal Pindah
+                </label>
+                <input
+                  type="date"
+                  name="transfer_date"
+                  value={formData.transfer_date}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Alasan
+                </label>
+                <textarea
+                  name="reason"
+                  value={formData.reason}
+                  onChange={handleChange}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              {targetRoom && adjustablePayments.length > 0 && (
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.adjust_payments}
+                    onChange={(e) => setFormData(prev => ({ ...prev, adjust_payments: e.target.checked }))}
+                    className="mt-1"
+                    disabled={isSubmitting}
+                  />
+                  <span>
+                    Hitung ulang {adjustablePayments.length} tagihan berjalan dan mendatang secara prorata: harga kamar lama sampai sehari sebelum pindah,
+                    harga Kamar {targetRoom.number} ({formatCurrency(targetRoom.price)}) mulai tanggal pindah. Tagihan sebelumnya tetap tercatat di kamar lama.
+                  </span>
+                </label>
+              )}
+
+              {transfers.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Riwayat Pindah Kamar</h3>
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {transfers.map(transfer => (
+                      <div key={transfer.id} className="p-3 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-800">
+                            Kamar {getRoomNumber(transfer.from_room_id)} → Kamar {getRoomNumber(transfer.to_room_id)}
+                          </span>
+                          <span className="text-gray-500">{formatDate(transfer.transfer_date)}</span>
+                        </div>
+                        {transfer.reason && <p className="text-gray-500">{transfer.reason}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+              <Button variant="outline" type="button" className="w-full" onClick={onClose}>
+                Batal
+              </Button>
+              <Button
+                type="submit"
+                className="w-full"
+                icon={<ArrowRightLeft size={16} />}
+                disabled={isSubmitting || !formData.to_room_id}
+              >
+                {isSubmitting ? 'Memindahkan...' : 'Pindahkan'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoomTransferForm;
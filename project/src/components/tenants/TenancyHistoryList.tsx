@@ -0,0 +1,96 @@
+import React from 'react';
+import { TenancyHistory } from '../../types';
+import Card, { CardHeader, CardContent } from '../ui/Card';
+import Badge from '../ui/Badge';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+
+interface TenancyHistoryListProps {
+  history: TenancyHistory[];
+}
+
+const settlementLabels: Record<TenancyHistory['outstanding_settlement'], string> = {
+  deposit: 'Dipotong deposit',
+  paid: 'Dilunasi',
+  none: 'Belum dilunasi'
+};
+
+const TenancyHistoryList: React.FC<TenancyHistoryListProps> = ({ history }) => {
+  return (
+    <Card>
+      <CardHeader className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-800">Riwayat Sewa</h2>
+        <span className="text-sm text-gray-500">{history.length} Penyewa Keluar</span>
+      </CardHeader>
+      <CardContent className="p-0 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Penyewa</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kamar</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Masa Sewa</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kondisi Kamar</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tunggakan</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deposit Kembali</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {history.length > 0 ? (
+              history.map(entry => {
+                const damaged = entry.room_condition.filter(item => item.condition === 'damaged');
+
+                return (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="font-medium text-gray-900">{entry.tenant_name}</div>
+                      {entry.notes && <div className="text-gray-500 text-sm">{entry.notes}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-900">
+                      {entry.room_number ? `Kamar ${entry.room_number}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-gray-900">{formatDate(entry.start_date)}</div>
+                      <div className="text-gray-500 text-sm">s/d {formatDate(entry.move_out_date)}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      {damaged.length === 0 ? (
+                        <Badge className="bg-green-100 text-green-800">Baik</Badge>
+                      ) : (
+                        <div title={damaged.map(item => `${item.item}${item.notes ? `: ${item.notes}` : ''}`).join('\n')}>
+                          <Badge className="bg-red-100 text-red-800">{damaged.length} rusak</Badge>
+                          {Number(entry.damage_amount) > 0 && (
+                            <div className="text-gray-500 text-sm mt-1">{formatCurrency(Number(entry.damage_amount))}</div>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {Number(entry.outstanding_amount) > 0 ? (
+                        <>
+                          <div className="text-gray-900">{formatCurrency(Number(entry.outstanding_amount))}</div>
+                          <div className="text-gray-500 text-sm">{settlementLabels[entry.outstanding_settlement]}</div>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">-</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-900">
+                      {entry.deposit_refund_amount != null ? formatCurrency(Number(entry.deposit_refund_amount)) : '-'}
+                    </td>
+                  </tr>
+                );
+              })
+            ) : (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                  Belum ada penyewa yang check-out.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TenancyHistoryList;
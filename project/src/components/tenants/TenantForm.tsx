@@ -22,7 +22,7 @@ const TenantForm: React.FC<TenantFormProps> = ({ tenant, onSubmit, onClose }) =>
     name: tenant?.name || '',
     phone: tenant?.phone || '',
     email: tenant?.email || '',
-    room_id: tenant?.roomId || '',
+    room_id: tenant?.room_id || '',
     start_date: tenant?.startDate || new Date().toISOString().split('T')[0],
     end_date: tenant?.endDate || '',
     status: tenant?.status || 'active',
@@ -35,11 +35,15 @@ const TenantForm: React.FC<TenantFormProps> = ({ tenant, onSubmit, onClose }) =>
       if (!selectedProperty?.id) return;
 
       try {
-        const { data, error } = await supabase
+        // An existing tenant's own room is listed alongside the vacant ones
+        const query = supabase
           .from('rooms')
           .select('*')
-          .eq('property_id', selectedProperty.id)
-          .eq('status', 'vacant');
+          .eq('property_id', selectedProperty.id);
+
+        const { data, error } = tenant?.room_id
+          ? await query.or(`status.eq.vacant,id.eq.${tenant.room_id}`)
+          : await query.eq('status', 'vacant');
 
         if (error) throw error;
         setRooms(data || []);
@@ -50,7 +54,7 @@ const TenantForm: React.FC<TenantFormProps> = ({ tenant, onSubmit, onClose }) =>
     };
 
     loadAvailableRooms();
-  }, [selectedProperty]);
+  }, [selectedProperty, tenant?.room_id]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -196,7 +200,7 @@ const TenantForm: React.FC<TenantFormProps> = ({ tenant, onSubmit, onClose }) =>
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
-              disabled={isSubmitting}
+              disabled={isSubmitting || !!tenant?.room_id}
             >
               <option value="">Pilih kamar</option>
               {rooms.map(room => (
@@ -208,6 +212,11 @@ const TenantForm: React.FC<TenantFormProps> = ({ tenant, onSubmit, onClose }) =>
                 </option>
               ))}
             </select>
+            {tenant?.room_id && (
+              <p className="mt-1 text-sm text-gray-500">
+                Gunakan Pindah Kamar untuk memindahkan penyewa ke kamar lain.
+              </p>
+            )}
           </div>
 
           <div>
@@ -253,8 +262,17 @@ const TenantForm: React.FC<TenantFormProps> = ({ tenant, onSubmit, onClose }) =>
               disabled={isSubmitting}
             >
               <option value="active">Aktif</option>
-              <option value="inactive">Tidak Aktif</option>
+              <option value="move_out_pending">Menunggu Keluar</option>
+              {/* Occupying tenants leave through check-out so the room is released */}
+              {(!tenant || tenant.status === 'inactive') && (
+                <option value="inactive">Tidak Aktif</option>
+              )}
             </select>
+            {tenant && tenant.status !== 'inactive' && (
+              <p className="mt-1 text-sm text-gray-500">
+                Gunakan Check-out untuk mengakhiri sewa dan mengosongkan kamar.
+              </p>
+            )}
           </div>
 
           <div>
@@ -1,26 +1,39 @@
 import React from 'react';
-import { Tenant, Room } from '../../types';
+import { Tenant, Room, TenantDeposit } from '../../types';
 import Card, { CardHeader, CardContent } from '../ui/Card';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
-import { formatDate } from '../../utils/formatters';
-import { Plus, Search, Edit, Trash, Loader2 } from 'lucide-react';
+import { formatCurrency, formatDate, getTenantStatusColor, translateTenantStatus } from '../../utils/formatters';
+import { getDepositRefund } from '../../utils/deposits';
+import { Plus, Search, Edit, Trash, Loader2, Wallet, FileText, LogOut, ArrowRightLeft, Upload } from 'lucide-react';
 
 interface TenantsListProps {
   tenants: Tenant[];
   rooms: Room[];
-  onAddTenant: () => void;
-  onEditTenant: (id: string) => void;
-  onDeleteTenant: (id: string) => void;
+  deposits?: TenantDeposit[];
+  onAddTenant?: () => void;
+  onImportTenants?: () => void;
+  onEditTenant?: (id: string) => void;
+  onDeleteTenant?: (id: string) => void;
+  onManageDeposit?: (id: string) => void;
+  onManageContract?: (id: string) => void;
+  onTransferRoom?: (id: string) => void;
+  onCheckOut?: (id: string) => void;
   isLoading?: boolean;
 }
 
 const TenantsList: React.FC<TenantsListProps> = ({
   tenants,
   rooms,
+  deposits = [],
   onAddTenant,
+  onImportTenants,
   onEditTenant,
   onDeleteTenant,
+  onManageDeposit,
+  onManageContract,
+  onTransferRoom,
+  onCheckOut,
   isLoading = false
 }) => {
   const [searchQuery, setSearchQuery] = React.useState('');
@@ -37,6 +50,8 @@ const TenantsList: React.FC<TenantsListProps> = ({
     return room ? `Kamar ${room.number}` : '-';
   };
 
+  const getDeposit = (tenantId: string) => deposits.find(d => d.tenant_id === tenantId);
+
   return (
     <Card>
       <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -52,13 +67,25 @@ const TenantsList: React.FC<TenantsListProps> = ({
             />
             <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
           </div>
-          <Button 
-            icon={<Plus size={16} />} 
-            onClick={onAddTenant}
-            disabled={isLoading}
-          >
-            Tambah Penyewa
-          </Button>
+          {onImportTenants && (
+            <Button
+              variant="outline"
+              icon={<Upload size={16} />}
+              onClick={onImportTenants}
+              disabled={isLoading}
+            >
+              Impor
+            </Button>
+          )}
+          {onAddTenant && (
+            <Button 
+              icon={<Plus size={16} />} 
+              onClick={onAddTenant}
+              disabled={isLoading}
+            >
+              Tambah Penyewa
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-0 overflow-x-auto">
@@ -83,6 +110,9 @@ const TenantsList: React.FC<TenantsListProps> = ({
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Pembayaran
               </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Deposit
+              </th>
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Aksi
               </th>
@@ -91,7 +121,7 @@ const TenantsList: React.FC<TenantsListProps> = ({
           <tbody className="bg-white divide-y divide-gray-200">
             {isLoading && tenants.length > 0 ? (
               <tr>
-                <td colSpan={7} className="px-6 py-4 text-center">
+                <td colSpan={8} className="px-6 py-4 text-center">
                   <div className="flex items-center justify-center">
                     <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
                     <span className="text-gray-500">Memperbarui data...</span>
@@ -118,8 +148,8 @@ const TenantsList: React.FC<TenantsListProps> = ({
                     <div className="text-gray-500 text-sm">sampai {formatDate(tenant.end_date)}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <Badge className={tenant.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
-                      {tenant.status === 'active' ? 'Aktif' : 'Tidak Aktif'}
+                    <Badge className={getTenantStatusColor(tenant.status)}>
+                      {translateTenantStatus(tenant.status)}
                     </Badge>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -136,32 +166,98 @@ const TenantsList: React.FC<TenantsListProps> = ({
                        tenant.payment_status === 'pending' ? 'Menunggu' : 'Terlambat'}
                     </Badge>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {(() => {
+                      const deposit = getDeposit(tenant.id);
+                      if (!deposit) return <span className="text-gray-500">-</span>;
+                      return (
+                        <>
+                          <div className="text-gray-900">{formatCurrency(deposit.amount)}</div>
+                          <div className="text-gray-500 text-sm">
+                            {deposit.status === 'refunded' ? 'Dikembalikan' : 'Kembali'} {formatCurrency(getDepositRefund(deposit))}
+                          </div>
+                        </>
+                      );
+                    })()}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="mr-2"
-                      icon={<Edit size={14} />}
-                      onClick={() => onEditTenant(tenant.id)}
-                      disabled={isLoading}
-                    >
-                      Ubah
-                    </Button>
-                    <Button
-                      variant="danger"
-                      size="sm"
-                      icon={<Trash size={14} />}
-                      onClick={() => onDeleteTenant(tenant.id)}
-                      disabled={isLoading}
-                    >
-                      Hapus
-                    </Button>
+                    {onManageContract && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mr-2"
+                        icon={<FileText size={14} />}
+                        onClick={() => onManageContract(tenant.id)}
+                        disabled={isLoading}
+                      >
+                        Kontrak
+                      </Button>
+                    )}
+                    {onManageDeposit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mr-2"
+                        icon={<Wallet size={14} />}
+                        onClick={() => onManageDeposit(tenant.id)}
+                        disabled={isLoading}
+                      >
+                        Deposit
+                      </Button>
+                    )}
+                    {onTransferRoom && tenant.room_id && tenant.status !== 'inactive' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mr-2"
+                        icon={<ArrowRightLeft size={14} />}
+                        onClick={() => onTransferRoom(tenant.id)}
+                        disabled={isLoading}
+                      >
+                        Pindah Kamar
+                      </Button>
+                    )}
+                    {onCheckOut && tenant.status !== 'inactive' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mr-2"
+                        icon={<LogOut size={14} />}
+                        onClick={() => onCheckOut(tenant.id)}
+                        disabled={isLoading}
+                      >
+                        Check-out
+                      </Button>
+                    )}
+                    {onEditTenant && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mr-2"
+                        icon={<Edit size={14} />}
+                        onClick={() => onEditTenant(tenant.id)}
+                        disabled={isLoading}
+                      >
+                        Ubah
+                      </Button>
+                    )}
+                    {onDeleteTenant && (
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        icon={<Trash size={14} />}
+                        onClick={() => onDeleteTenant(tenant.id)}
+                        disabled={isLoading}
+                      >
+                        Hapus
+                      </Button>
+                    )}
                   </td>
                 </tr>
               ))
             ) : (
               <tr>
-                <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
+                <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
                   {searchQuery
                     ? 'Tidak ada penyewa yang sesuai dengan pencarian Anda.'
                     : 'Belum ada penyewa yang ditambahkan.'}
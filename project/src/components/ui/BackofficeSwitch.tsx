@@ -7,6 +7,11 @@ const BackofficeSwitch: React.FC = () => {
   const location = useLocation();
   const isBackoffice = location.pathname.startsWith('/backoffice');
 
+  // Tenants using the portal have no access to either interface
+  if (location.pathname.startsWith('/portal')) {
+    return null;
+  }
+
   const handleSwitch = () => {
     if (isBackoffice) {
       navigate('/');
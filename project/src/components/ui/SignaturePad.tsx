@@ -0,0 +1,98 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+
+export interface SignaturePadHandle {
+  clear: () => void;
+  isEmpty: () => boolean;
+  toBlob: () => Promise<Blob | null>;
+  toDataURL: () => string;
+}
+
+interface SignaturePadProps {
+  width?: number;
+  height?: number;
+  className?: string;
+  disabled?: boolean;
+}
+
+const SignaturePad = forwardRef<SignaturePadHandle, SignaturePadProps>(({
+  width = 400,
+  height = 160,
+  className = '',
+  disabled = false
+}, ref) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawing = useRef(false);
+  const [hasStrokes, setHasStrokes] = useState(false);
+
+  useImperativeHandle(ref, () => ({
+    clear: () => {
+      const canvas = canvasRef.current;
+      canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      setHasStrokes(false);
+    },
+    isEmpty: () => !hasStrokes,
+    toBlob: () => new Promise(resolve => {
+      if (!canvasRef.current) return resolve(null);
+      canvasRef.current.toBlob(resolve, 'image/png');
+    }),
+    toDataURL: () => canvasRef.current?.toDataURL('image/png') || ''
+  }), [hasStrokes]);
+
+  // Map pointer coordinates to canvas pixels, which differ when CSS scales it
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getPoint(e);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    isDrawing.current = true;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasStrokes(true);
+  };
+
+  const handlePointerUp = () => {
+    isDrawing.current = false;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+      className={`w-full bg-white border border-gray-300 rounded-md touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'} ${className}`}
+    />
+  );
+});
+
+SignaturePad.displayName = 'SignaturePad';
+
+export default SignaturePad;
@@ -1,7 +1,8 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { Property } from '../types';
 import { propertyService } from '../services/supabase';
 import { supabase } from '../lib/supabase';
+import { PropertyPermission, roleHasPermission } from '../utils/permissions';
 
 interface PropertyContextType {
   properties: Property[];
@@ -10,6 +11,8 @@ interface PropertyContextType {
   isLoading: boolean;
   error: string | null;
   refreshProperties: () => Promise<void>;
+  // What the user's role allows on the selected property
+  hasPermission: (permission: PropertyPermission) => boolean;
 }
 
 const PropertyContext = createContext<PropertyContextType>({
@@ -18,7 +21,8 @@ const PropertyContext = createContext<PropertyContextType>({
   setSelectedProperty: () => {},
   isLoading: true,
   error: null,
-  refreshProperties: async () => {}
+  refreshProperties: async () => {},
+  hasPermission: () => false
 });
 
 export const useProperty = () => useContext(PropertyContext);
@@ -45,10 +49,9 @@ export const PropertyProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       const data = await propertyService.getAll();
       setProperties(data);
 
-      // If there's no selected property but we have properties, select the first one
-      if (!selectedProperty && data.length > 0) {
-        setSelectedProperty(data[0]);
-      }
+      // Keep the selection on its refreshed copy so a changed role applies
+      // right away; fall back to the first property
+      setSelectedProperty(current => data.find(p => p.id === current?.id) ?? data[0] ?? null);
     } catch (err) {
       console.error('Error loading properties:', err);
       setError('Failed to load properties. Please try again.');
@@ -88,6 +91,11 @@ export const PropertyProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     };
   }, []);
 
+  const hasPermission = useCallback(
+    (permission: PropertyPermission) => roleHasPermission(selectedProperty?.role, permission),
+    [selectedProperty]
+  );
+
   return (
     <PropertyContext.Provider 
       value={{ 
@@ -96,7 +104,8 @@ export const PropertyProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         setSelectedProperty,
         isLoading,
         error,
-        refreshProperties: loadProperties
+        refreshProperties: loadProperties,
+        hasPermission
       }}
     >
       {children}
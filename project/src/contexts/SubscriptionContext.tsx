@@ -0,0 +1,83 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { SubscriptionPlan } from '../types/subscription';
+import { subscriptionService } from '../services/supabase';
+import { supabase } from '../lib/supabase';
+import { PlanFeature, planHasFeature } from '../utils/planLimits';
+
+interface SubscriptionContextType {
+  plan: SubscriptionPlan | null;
+  isLoading: boolean;
+  // The subscription expired unpaid: data can be viewed but not changed
+  isReadOnly: boolean;
+  hasFeature: (feature: PlanFeature) => boolean;
+  refreshPlan: () => Promise<void>;
+}
+
+const SubscriptionContext = createContext<SubscriptionContextType>({
+  plan: null,
+  isLoading: true,
+  isReadOnly: false,
+  hasFeature: () => false,
+  refreshPlan: async () => {}
+});
+
+export const useSubscription = () => useContext(SubscriptionContext);
+
+export const SubscriptionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [plan, setPlan] = useState<SubscriptionPlan | null>(null);
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPlan = async () => {
+    try {
+      setIsLoading(true);
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        setPlan(null);
+        setIsReadOnly(false);
+        return;
+      }
+
+      const [currentPlan, readOnly] = await Promise.all([
+        subscriptionService.getPlan(),
+        subscriptionService.isReadOnly()
+      ]);
+      setPlan(currentPlan);
+      setIsReadOnly(readOnly);
+    } catch (err) {
+      console.error('Error loading subscription plan:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPlan();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT') {
+        setPlan(null);
+        setIsReadOnly(false);
+      } else if (event === 'SIGNED_IN') {
+        loadPlan();
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  // Features stay hidden until the plan is known so they do not flash in
+  const hasFeature = useCallback(
+    (feature: PlanFeature) => !isLoading && planHasFeature(plan, feature),
+    [plan, isLoading]
+  );
+
+  return (
+    <SubscriptionContext.Provider value={{ plan, isLoading, isReadOnly, hasFeature, refreshPlan: loadPlan }}>
+      {children}
+    </SubscriptionContext.Provider>
+  );
+};
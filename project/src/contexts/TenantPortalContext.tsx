@@ -0,0 +1,51 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { TenantPortalData } from '../types';
+import { portalService } from '../services/supabase';
+
+interface TenantPortalContextType {
+  tenancy: TenantPortalData | null;
+  isLoading: boolean;
+  error: string | null;
+  refreshTenancy: () => Promise<void>;
+}
+
+const TenantPortalContext = createContext<TenantPortalContextType>({
+  tenancy: null,
+  isLoading: true,
+  error: null,
+  refreshTenancy: async () => {}
+});
+
+export const useTenantPortal = () => useContext(TenantPortalContext);
+
+export const TenantPortalProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [tenancy, setTenancy] = useState<TenantPortalData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTenancy = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      // Pick up tenant records the owner added since the last sign-in
+      await portalService.linkAccount();
+      setTenancy(await portalService.getTenancy());
+    } catch (err) {
+      console.error('Error loading tenancy:', err);
+      setError('Gagal memuat data sewa. Silakan coba lagi.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTenancy();
+  }, []);
+
+  return (
+    <TenantPortalContext.Provider value={{ tenancy, isLoading, error, refreshTenancy: loadTenancy }}>
+      {children}
+    </TenantPortalContext.Provider>
+  );
+};
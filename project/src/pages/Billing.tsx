@@ -0,0 +1,395 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Card, { CardHeader, CardContent } from '../components/ui/Card';
+import Badge from '../components/ui/Badge';
+import Button from '../components/ui/Button';
+import { CheckCircle, X, Loader2, AlertTriangle, Download } from 'lucide-react';
+import { PlanUsage, Subscription, SubscriptionInvoice, SubscriptionPlan } from '../types/subscription';
+import { subscriptionService } from '../services/supabase';
+import { supabase } from '../lib/supabase';
+import { useSubscription } from '../contexts/SubscriptionContext';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import {
+  PLAN_FEATURE_LABELS,
+  PlanFeature,
+  formatPlanFeatureValue,
+  getDowngradeBlockers,
+  prorateChange
+} from '../utils/planLimits';
+import { generateSubscriptionInvoicePDF } from '../utils/subscriptionInvoices';
+
+const INVOICE_STATUS: Record<SubscriptionInvoice['status'], { label: string; className: string }> = {
+  unpaid: { label: 'Belum Dibayar', className: 'bg-yellow-100 text-yellow-800' },
+  paid: { label: 'Lunas', className: 'bg-green-100 text-green-800' },
+  credited: { label: 'Kredit', className: 'bg-blue-100 text-blue-800' }
+};
+
+const Billing: React.FC = () => {
+  const { refreshPlan } = useSubscription();
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [invoices, setInvoices] = useState<SubscriptionInvoice[]>([]);
+  const [usage, setUsage] = useState<PlanUsage>({ properties: [] });
+  const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [plansData, subscriptionData, invoicesData, usageData] = await Promise.all([
+        subscriptionService.getPlans(),
+        subscriptionService.getCurrent(),
+        subscriptionService.getInvoices(),
+        subscriptionService.getUsage()
+      ]);
+      setPlans(plansData);
+      setSubscription(subscriptionData);
+      setInvoices(invoicesData);
+      setUsage(usageData);
+    } catch (err) {
+      console.error('Error loading billing data:', err);
+      setError('Gagal memuat data langganan. Silakan coba lagi.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const currentPlan = subscription?.plan ?? null;
+  const blockers = selectedPlan ? getDowngradeBlockers(selectedPlan, usage) : [];
+  const proratedAmount = selectedPlan ? prorateChange(subscription, currentPlan, selectedPlan) : 0;
+
+  const handleConfirmChange = async () => {
+    if (!selectedPlan) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const invoice = await subscriptionService.changePlan(selectedPlan.id);
+      setMessage(invoice.total < 0
+        ? `Paket diubah ke ${selectedPlan.name}. Kredit ${formatCurrency(-invoice.amount)} pada invoice ${invoice.invoice_number} akan dipotong dari tagihan perpanjangan berikutnya.`
+        : `Paket diubah ke ${selectedPlan.name}. Invoice ${invoice.invoice_number} sebesar ${formatCurrency(invoice.total)} telah dibuat.`);
+      setSelectedPlan(null);
+      await Promise.all([loadData(), refreshPlan()]);
+    } catch (err) {
+      console.error('Error changing plan:', err);
+      const message = err instanceof Error ? err.message : '';
+      setError(message.includes('Downgrade exceeds')
+        ? 'Data Anda melebihi batas paket tujuan. Kurangi properti atau kamar terlebih dahulu.'
+        : message.includes('overdue invoices')
+          ? 'Lunasi tagihan langganan yang telah jatuh tempo sebelum mengubah paket.'
+          : 'Gagal mengubah paket. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownloadInvoice = async (invoice: SubscriptionInvoice) => {
+    try {
+      setError(null);
+      const { data: { user } } = await supabase.auth.getUser();
+      generateSubscriptionInvoicePDF(invoice, user?.email ?? '-');
+    } catch (err) {
+      console.error('Error downloading invoice:', err);
+      setError('Gagal mengunduh invoice. Silakan coba lagi.');
+    }
+  };
+
+  const handleToggleCancellation = async () => {
+    if (!subscription) return;
+    const cancel = !subscription.cancel_at_period_end;
+    if (cancel && !confirm(`Langganan akan berakhir pada ${formatDate(subscription.current_period_end)}. Lanjutkan?`)) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await subscriptionService.setCancelAtPeriodEnd(cancel);
+      setMessage(cancel
+        ? 'Langganan akan dibatalkan di akhir periode.'
+        : 'Pembatalan dibatalkan. Langganan Anda akan diperpanjang seperti biasa.');
+      await loadData();
+    } catch (err) {
+      console.error('Error updating cancellation:', err);
+      setError('Gagal memperbarui langganan. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading && plans.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center">
+        <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+        <p className="mt-2 text-gray-600">Memuat data langganan...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Langganan</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded relative">
+          {message}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800">Paket Saat Ini</h2>
+          {subscription && (
+            <Button
+              variant={subscription.cancel_at_period_end ? 'primary' : 'outline'}
+              size="sm"
+              onClick={handleToggleCancellation}
+              disabled={isSubmitting}
+            >
+              {subscription.cancel_at_period_end ? 'Lanjutkan Langganan' : 'Batalkan di Akhir Periode'}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {subscription && currentPlan ? (
+            <div className="space-y-2 text-sm">
+              <p className="text-lg font-semibold text-gray-900">
+                {currentPlan.name} · {formatCurrency(currentPlan.price)}/bulan
+              </p>
+              <p className="text-gray-600">
+                Periode: {formatDate(subscription.current_period_start)} - {formatDate(subscription.current_period_end)}
+              </p>
+              {subscription.cancel_at_period_end ? (
+                <p className="flex items-center text-red-600">
+                  <AlertTriangle size={16} className="mr-2" />
+                  Langganan berakhir pada {formatDate(subscription.current_period_end)} dan tidak akan diperpanjang.
+                </p>
+              ) : (
+                <p className="text-gray-600">
+                  Diperpanjang otomatis pada {formatDate(subscription.current_period_end)}. Tagihan perpanjangan
+                  harus dibayar dalam masa tenggang agar akun tidak menjadi hanya dapat dibaca.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Anda belum memiliki langganan aktif. Batas paket termurah berlaku sampai Anda memilih paket.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {plans.map(plan => {
+          const isCurrent = currentPlan?.id === plan.id;
+          const actionLabel = !currentPlan
+            ? 'Berlangganan'
+            : plan.price >= currentPlan.price ? 'Tingkatkan' : 'Turunkan';
+
+          return (
+            <div
+              key={plan.id}
+              className={`bg-white border rounded-lg p-6 flex flex-col ${
+                isCurrent ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{plan.name}</h3>
+                  <p className="text-sm text-gray-500">{plan.description}</p>
+                </div>
+                {isCurrent && <Badge className="bg-blue-100 text-blue-800">Aktif</Badge>}
+              </div>
+
+              <p className="text-2xl font-bold text-gray-900 mb-4">
+                {plan.price === 0 ? 'Gratis' : formatCurrency(plan.price)}
+                {plan.price > 0 && <span className="text-sm font-normal text-gray-500">/bulan</span>}
+              </p>
+
+              <ul className="space-y-2 text-sm text-gray-600 flex-1 mb-6">
+                <li className="flex items-center">
+                  <CheckCircle size={16} className="text-green-500 mr-2" />
+                  Hingga {plan.max_properties} properti
+                </li>
+                <li className="flex items-center">
+                  <CheckCircle size={16} className="text-green-500 mr-2" />
+                  Hingga {plan.max_rooms_per_property} kamar per properti
+                </li>
+                {(Object.keys(PLAN_FEATURE_LABELS) as PlanFeature[]).map(feature => {
+                  const value = plan.features[feature];
+                  return (
+                    <li key={feature} className={`flex items-center ${value ? '' : 'text-gray-400'}`}>
+                      {value ? (
+                        <CheckCircle size={16} className="text-green-500 mr-2" />
+                      ) : (
+                        <X size={16} className="text-gray-400 mr-2" />
+                      )}
+                      {PLAN_FEATURE_LABELS[feature]}
+                      {formatPlanFeatureValue(value) && `: ${formatPlanFeatureValue(value)}`}
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <Button
+                variant={isCurrent ? 'outline' : 'primary'}
+                onClick={() => {
+                  setMessage(null);
+                  setSelectedPlan(plan);
+                }}
+                disabled={isCurrent || isSubmitting}
+              >
+                {isCurrent ? 'Paket Saat Ini' : actionLabel}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-800">Riwayat Tagihan</h2>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">No. Invoice</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tanggal</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keterangan</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Periode</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {invoices.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-4 text-center text-sm text-gray-500">Belum ada tagihan</td>
+                  </tr>
+                ) : invoices.map(invoice => (
+                  <tr key={invoice.id}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900 whitespace-nowrap">{invoice.invoice_number}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">{formatDate(invoice.created_at)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{invoice.description}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">
+                      {formatDate(invoice.period_start)} - {formatDate(invoice.period_end)}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900 whitespace-nowrap">
+                      {formatCurrency(invoice.total)}
+                      {invoice.tax_amount !== 0 && (
+                        <p className="text-xs text-gray-500">
+                          termasuk PPN {formatCurrency(invoice.tax_amount)}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <Badge className={INVOICE_STATUS[invoice.status].className}>
+                        {INVOICE_STATUS[invoice.status].label}
+                      </Badge>
+                      {invoice.status === 'unpaid' && (
+                        <p className="text-xs text-gray-500 mt-1 whitespace-nowrap">
+                          Jatuh tempo {formatDate(invoice.due_at)}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        icon={<Download size={14} />}
+                        onClick={() => handleDownloadInvoice(invoice)}
+                      >
+                        PDF
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedPlan && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-800">Ubah ke Paket {selectedPlan.name}</h2>
+              <button
+                onClick={() => setSelectedPlan(null)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4 text-sm">
+              {blockers.length > 0 ? (
+                <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md space-y-2">
+                  <p className="font-medium">Paket ini belum dapat dipilih:</p>
+                  <ul className="list-disc pl-5 space-y-1">
+                    {blockers.map(blocker => (
+                      <li key={blocker}>{blocker}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : subscription ? (
+                <>
+                  <p className="text-gray-600">
+                    Perubahan berlaku segera. Selisih harga dihitung prorata untuk sisa periode hingga {formatDate(subscription.current_period_end)}.
+                  </p>
+                  <div className="flex justify-between font-medium text-gray-900">
+                    <span>{proratedAmount < 0 ? 'Kredit' : 'Tagihan'}</span>
+                    <span>{formatCurrency(Math.abs(proratedAmount))}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">Belum termasuk PPN.</p>
+                </>
+              ) : (
+                <>
+                  <div className="flex justify-between font-medium text-gray-900">
+                    <span>Tagihan bulan pertama</span>
+                    <span>{formatCurrency(proratedAmount)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">Belum termasuk PPN.</p>
+                </>
+              )}
+            </div>
+
+            <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => setSelectedPlan(null)}
+                disabled={isSubmitting}
+                className="flex-1"
+              >
+                Batal
+              </Button>
+              <Button
+                onClick={handleConfirmChange}
+                disabled={isSubmitting || blockers.length > 0}
+                className="flex-1"
+              >
+                {isSubmitting ? 'Memproses...' : 'Konfirmasi'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Billing;
@@ -13,6 +13,8 @@ import OccupancyChart from '../components/dashboard/OccupancyChart';
 import RoomOverview from '../components/dashboard/RoomOverview';
 import UpcomingPayments from '../components/dashboard/UpcomingPayments';
 import MaintenanceOverview from '../components/dashboard/MaintenanceOverview';
+import ExpiringLeases from '../components/dashboard/ExpiringLeases';
+import LeaseRenewalForm from '../components/tenants/LeaseRenewalForm';
 import { formatCurrency } from '../utils/formatters';
 import { useProperty } from '../contexts/PropertyContext';
 import { supabase } from '../lib/supabase';
@@ -31,6 +33,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [maintenanceRequests, setMaintenanceRequests] = useState<MaintenanceRequest[]>([]);
+  const [renewingTenant, setRenewingTenant] = useState<Tenant | null>(null);
 
   useEffect(() => {
     if (selectedProperty?.id) {
@@ -95,7 +98,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
     const currentYear = new Date().getFullYear();
 
     const monthlyPayments = payments.filter(payment => {
-      const paymentDate = new Date(payment.date || payment.dueDate);
+      const paymentDate = new Date(payment.date || payment.due_date);
       return paymentDate.getMonth() === currentMonth && 
              paymentDate.getFullYear() === currentYear;
     });
@@ -148,6 +151,11 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
     request => request.status === 'pending' || request.status === 'in-progress'
   );
 
+  const monthStart = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+  const monthlyMaintenanceCost = maintenanceRequests
+    .filter(request => request.completed_at && new Date(request.completed_at) >= monthStart)
+    .reduce((sum, request) => sum + Number(request.total_cost || 0), 0);
+
   if (!selectedProperty?.id) {
     return (
       <div className="p-6 text-center text-gray-500">
@@ -249,19 +257,41 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
         <UpcomingPayments 
           payments={pendingPayments} 
           tenants={tenants}
+          rooms={rooms}
           onViewAllClick={() => onNavigate('payments')}
         />
         <MaintenanceOverview 
           maintenanceRequests={activeMaintenanceRequests} 
           rooms={rooms}
+          monthlyCost={monthlyMaintenanceCost}
           onViewAllClick={() => onNavigate('maintenance')}
         />
       </div>
       
-      <RoomOverview 
-        rooms={rooms} 
-        onViewAllClick={() => onNavigate('rooms')}
-      />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ExpiringLeases
+          tenants={tenants}
+          rooms={rooms}
+          onRenewClick={setRenewingTenant}
+        />
+        <RoomOverview 
+          rooms={rooms} 
+          tenants={tenants}
+          onViewAllClick={() => onNavigate('rooms')}
+        />
+      </div>
+
+      {renewingTenant && (
+        <LeaseRenewalForm
+          tenant={renewingTenant}
+          room={rooms.find(room => room.id === renewingTenant.room_id)}
+          onClose={() => setRenewingTenant(null)}
+          onRenewed={() => {
+            setRenewingTenant(null);
+            loadDashboardData();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import Button from '../components/ui/Button';
-import { Mail, Lock, AlertCircle, Building2, User, LogIn } from 'lucide-react';
+import { Mail, Lock, AlertCircle, Building2, User, LogIn, Home } from 'lucide-react';
+import { portalService } from '../services/supabase';
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
@@ -14,6 +15,7 @@ const Login: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isBackoffice, setIsBackoffice] = useState(false);
+  const [isTenant, setIsTenant] = useState(!!(location.state as { tenant?: boolean } | null)?.tenant);
   const [signupCooldown, setSignupCooldown] = useState(0);
 
   useEffect(() => {
@@ -56,6 +58,9 @@ const Login: React.FC = () => {
           }
 
           navigate('/backoffice');
+        } else if (isTenant) {
+          await portalService.linkAccount();
+          navigate('/portal');
         } else {
           const from = (location.state as any)?.from || '/properties';
           navigate(from);
@@ -71,9 +76,7 @@ const Login: React.FC = () => {
           email,
           password,
           options: {
-            data: {
-              name: name
-            }
+            data: isTenant ? { name, role: 'tenant' } : { name }
           }
         });
 
@@ -87,6 +90,13 @@ const Login: React.FC = () => {
 
         if (!user) throw new Error('Terjadi kesalahan saat mendaftar');
 
+        // Tenant accounts are linked to the owner's records instead of
+        // getting settings of their own
+        if (isTenant) {
+          navigate('/portal');
+          return;
+        }
+
         // Wait for user metadata to be available
         await new Promise(resolve => setTimeout(resolve, 1000));
 
@@ -157,7 +167,9 @@ const Login: React.FC = () => {
           KostManager
         </h1>
         <h2 className="mt-6 text-center text-2xl font-bold text-gray-900">
-          {isBackoffice ? 'Backoffice Login' : (isLogin ? 'Masuk ke akun Anda' : 'Daftar akun baru')}
+          {isBackoffice ? 'Backoffice Login' :
+           isTenant ? (isLogin ? 'Masuk ke portal penyewa' : 'Daftar akun penyewa') :
+           (isLogin ? 'Masuk ke akun Anda' : 'Daftar akun baru')}
         </h2>
       </div>
 
@@ -246,7 +258,13 @@ const Login: React.FC = () => {
             </div>
           </form>
 
-          {!isBackoffice && (
+          {isTenant && !isLogin && (
+            <p className="mt-4 text-sm text-gray-500">
+              Gunakan email yang Anda berikan kepada pengelola kost agar akun terhubung dengan data sewa Anda.
+            </p>
+          )}
+
+          {!isBackoffice && !isTenant && (
             <div className="mt-6">
               <div className="relative">
                 <div className="absolute inset-0 flex items-center">
@@ -279,6 +297,8 @@ const Login: React.FC = () => {
                 if (isBackoffice) {
                   setIsBackoffice(false);
                   setIsLogin(true);
+                } else if (isTenant && isLogin) {
+                  setIsTenant(false);
                 } else {
                   setIsLogin(!isLogin);
                 }
@@ -287,19 +307,43 @@ const Login: React.FC = () => {
               icon={isBackoffice ? <Building2 size={16} /> : undefined}
             >
               {isBackoffice ? 'Kembali ke Login User' : 
+               isTenant && isLogin ? 'Kembali ke Login Pengelola' :
                (isLogin ? 'Belum punya akun? Daftar' : 'Sudah punya akun? Masuk')}
             </Button>
 
-            {!isBackoffice && isLogin && (
+            {isTenant && isLogin && (
               <Button
                 variant="outline"
                 className="w-full flex justify-center items-center mt-2"
-                onClick={() => setIsBackoffice(true)}
-                icon={<Building2 size={16} />}
+                onClick={() => {
+                  setIsLogin(false);
+                  setError(null);
+                }}
               >
-                Login Backoffice
+                Belum punya akun penyewa? Daftar
               </Button>
             )}
+
+            {!isBackoffice && !isTenant && isLogin && (
+              <>
+                <Button
+                  variant="outline"
+                  className="w-full flex justify-center items-center mt-2"
+                  onClick={() => setIsTenant(true)}
+                  icon={<Home size={16} />}
+                >
+                  Login Penyewa
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full flex justify-center items-center mt-2"
+                  onClick={() => setIsBackoffice(true)}
+                  icon={<Building2 size={16} />}
+                >
+                  Login Backoffice
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -4,22 +4,33 @@ import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Badge from '../components/ui/Badge';
 import Button from '../components/ui/Button';
 import MaintenanceForm from '../components/maintenance/MaintenanceForm';
-import { getMaintenancePriorityColor, getMaintenanceStatusColor } from '../utils/formatters';
-import { Plus, Search, PenTool as Tool, Clock, AlertTriangle, Loader2, Trash } from 'lucide-react';
-import { MaintenanceRequest, Room, Tenant } from '../types';
+import MaintenanceDetails from '../components/maintenance/MaintenanceDetails';
+import VendorDirectory from '../components/maintenance/VendorDirectory';
+import MaintenanceSchedules from '../components/maintenance/MaintenanceSchedules';
+import { formatCurrency, getMaintenancePriorityColor, getMaintenanceStatusColor } from '../utils/formatters';
+import { Plus, Search, PenTool as Tool, Clock, AlertTriangle, Loader2, Trash, Wallet, User, MessageCircle, CalendarClock, Timer } from 'lucide-react';
+import { MaintenanceRequest, MaintenanceSchedule, Room, Tenant, Vendor } from '../types';
 import { useProperty } from '../contexts/PropertyContext';
-import { maintenanceService, roomService, tenantService } from '../services/supabase';
+import { maintenanceService, maintenanceScheduleService, roomService, tenantService, vendorService } from '../services/supabase';
+import { buildVendorAssignmentLink } from '../utils/vendors';
+import { SLA_STATE_LABELS, getSlaStateColor, getSlaStatus } from '../utils/maintenanceSla';
+
+type MaintenanceTab = 'requests' | 'schedules' | 'vendors';
 
 const Maintenance: React.FC = () => {
-  const { selectedProperty } = useProperty();
+  const { selectedProperty, hasPermission } = useProperty();
+  const [activeTab, setActiveTab] = useState<MaintenanceTab>('requests');
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [priorityFilter, setPriorityFilter] = useState('all');
   const [showForm, setShowForm] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<MaintenanceRequest | undefined>();
+  const [detailRequest, setDetailRequest] = useState<MaintenanceRequest | undefined>();
   const [requests, setRequests] = useState<MaintenanceRequest[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -39,15 +50,19 @@ const Maintenance: React.FC = () => {
       setError(null);
 
       // Load maintenance requests, rooms, and tenants in parallel
-      const [requestsData, roomsData, tenantsData] = await Promise.all([
+      const [requestsData, roomsData, tenantsData, vendorsData, schedulesData] = await Promise.all([
         maintenanceService.getByPropertyId(selectedProperty.id),
         roomService.getByPropertyId(selectedProperty.id),
-        tenantService.getByPropertyId(selectedProperty.id)
+        tenantService.getByPropertyId(selectedProperty.id),
+        vendorService.getByPropertyId(selectedProperty.id),
+        maintenanceScheduleService.getByPropertyId(selectedProperty.id)
       ]);
 
       setRequests(requestsData);
       setRooms(roomsData);
       setTenants(tenantsData);
+      setVendors(vendorsData);
+      setSchedules(schedulesData);
     } catch (err) {
       console.error('Error loading data:', err);
       setError('Failed to load data. Please try again.');
@@ -64,7 +79,8 @@ const Maintenance: React.FC = () => {
     return {
       ...request,
       roomNumber: room ? room.number : 'Unknown',
-      tenantName: tenant ? tenant.name : null
+      tenantName: tenant ? tenant.name : null,
+      sla: getSlaStatus(request)
     };
   });
 
@@ -81,6 +97,36 @@ const Maintenance: React.FC = () => {
     return matchesSearch && matchesStatus && matchesPriority;
   });
 
+  // Work completed this month, by its actual cost lines
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+  const monthlyCost = requests
+    .filter(r => r.completed_at && new Date(r.completed_at) >= monthStart)
+    .reduce((sum, r) => sum + Number(r.total_cost || 0), 0);
+
+  const loadVendors = async () => {
+    if (!selectedProperty?.id) return;
+    setVendors(await vendorService.getByPropertyId(selectedProperty.id));
+  };
+
+  const loadSchedules = async () => {
+    if (!selectedProperty?.id) return;
+    setSchedules(await maintenanceScheduleService.getByPropertyId(selectedProperty.id));
+  };
+
+  // Sends the job to the vendor over WhatsApp, like tenant reminders
+  const handleSendToVendor = (request: MaintenanceRequest) => {
+    const vendor = vendors.find(v => v.id === request.vendor_id);
+    if (!vendor?.phone) return;
+
+    const room = rooms.find(r => r.id === request.room_id);
+    window.open(
+      buildVendorAssignmentLink(vendor, request, selectedProperty?.name || 'KostManager Property', room?.number),
+      '_blank'
+    );
+  };
+
   const handleAddRequest = () => {
     setSelectedRequest(undefined);
     setShowForm(true);
@@ -98,20 +144,25 @@ const Maintenance: React.FC = () => {
       setIsLoading(true);
       setError(null);
 
+      let saved: MaintenanceRequest;
       if (selectedRequest) {
         // Update existing request
-        await maintenanceService.update(selectedRequest.id, {
+        saved = await maintenanceService.update(selectedRequest.id, {
           ...data,
           property_id: selectedProperty.id
         });
       } else {
         // Create new request
-        await maintenanceService.create({
+        saved = await maintenanceService.create({
           ...data as Omit<MaintenanceRequest, 'id' | 'created_at' | 'updated_at'>,
           property_id: selectedProperty.id
         });
       }
 
+      if (saved.vendor_id && saved.vendor_id !== selectedRequest?.vendor_id) {
+        handleSendToVendor(saved);
+      }
+
       await loadData();
       setShowForm(false);
       setSelectedRequest(undefined);
@@ -182,7 +233,7 @@ const Maintenance: React.FC = () => {
       )}
 
       {/* Stats Overview */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card className="bg-gradient-to-br from-blue-50 to-blue-100">
           <div className="p-6">
             <div className="flex items-center justify-between">
@@ -230,173 +281,298 @@ const Maintenance: React.FC = () => {
             </div>
           </div>
         </Card>
-      </div>
 
-      <Card>
-        <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-          <h2 className="text-lg font-semibold text-gray-800">Permintaan Pemeliharaan</h2>
-          <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
-            <div className="relative w-full sm:w-64">
-              <input
-                type="text"
-                placeholder="Cari permintaan..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              />
-              <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
+        <Card className="bg-gradient-to-br from-green-50 to-green-100">
+          <div className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-green-600">Biaya Bulan Ini</p>
+                <p className="mt-1 text-2xl font-semibold text-green-900">
+                  {formatCurrency(monthlyCost)}
+                </p>
+              </div>
+              <div className="p-3 bg-green-200 rounded-full text-green-600">
+                <Wallet size={24} />
+              </div>
             </div>
-            <Button icon={<Plus size={16} />} onClick={handleAddRequest}>
-              Permintaan Baru
-            </Button>
           </div>
-        </CardHeader>
-
-        <div className="px-6 pb-2 flex flex-wrap justify-between">
-          <div className="flex flex-wrap gap-2">
-            <Button 
-              variant={statusFilter === 'all' ? 'primary' : 'outline'} 
-              size="sm" 
-              onClick={() => setStatusFilter('all')}
-            >
-              Semua Status
-            </Button>
-            <Button 
-              variant={statusFilter === 'pending' ? 'primary' : 'outline'} 
-              size="sm" 
-              onClick={() => setStatusFilter('pending')}
-            >
-              Menunggu
-            </Button>
-            <Button 
-              variant={statusFilter === 'in-progress' ? 'primary' : 'outline'} 
-              size="sm" 
-              onClick={() => setStatusFilter('in-progress')}
-            >
-              Dalam Proses
-            </Button>
-            <Button 
-              variant={statusFilter === 'completed' ? 'primary' : 'outline'} 
-              size="sm" 
-              onClick={() => setStatusFilter('completed')}
-            >
-              Selesai
-            </Button>
+        </Card>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant={activeTab === 'requests' ? 'primary' : 'outline'}
+          onClick={() => setActiveTab('requests')}
+        >
+          Permintaan
+        </Button>
+        <Button
+          variant={activeTab === 'schedules' ? 'primary' : 'outline'}
+          onClick={() => setActiveTab('schedules')}
+        >
+          Jadwal
+        </Button>
+        <Button
+          variant={activeTab === 'vendors' ? 'primary' : 'outline'}
+          onClick={() => setActiveTab('vendors')}
+        >
+          Vendor
+        </Button>
+      </div>
+
+      {activeTab === 'requests' ? (
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <h2 className="text-lg font-semibold text-gray-800">Permintaan Pemeliharaan</h2>
+            <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+              <div className="relative w-full sm:w-64">
+                <input
+                  type="text"
+                  placeholder="Cari permintaan..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
+              </div>
+              <Button icon={<Plus size={16} />} onClick={handleAddRequest}>
+                Permintaan Baru
+              </Button>
+            </div>
+          </CardHeader>
+
+          <div className="px-6 pb-2 flex flex-wrap justify-between">
+            <div className="flex flex-wrap gap-2">
+              <Button 
+                variant={statusFilter === 'all' ? 'primary' : 'outline'} 
+                size="sm" 
+                onClick={() => setStatusFilter('all')}
+              >
+                Semua Status
+              </Button>
+              <Button 
+                variant={statusFilter === 'pending' ? 'primary' : 'outline'} 
+                size="sm" 
+                onClick={() => setStatusFilter('pending')}
+              >
+                Menunggu
+              </Button>
+              <Button 
+                variant={statusFilter === 'in-progress' ? 'primary' : 'outline'} 
+                size="sm" 
+                onClick={() => setStatusFilter('in-progress')}
+              >
+                Dalam Proses
+              </Button>
+              <Button 
+                variant={statusFilter === 'completed' ? 'primary' : 'outline'} 
+                size="sm" 
+                onClick={() => setStatusFilter('completed')}
+              >
+                Selesai
+              </Button>
+            </div>
+            
+            <div className="flex gap-2 mt-2 sm:mt-0">
+              <Button 
+                variant={priorityFilter === 'all' ? 'primary' : 'outline'} 
+                size="sm"
+                onClick={() => setPriorityFilter('all')}
+              >
+                Semua Prioritas
+              </Button>
+              <Button 
+                variant={priorityFilter === 'high' ? 'primary' : 'outline'} 
+                size="sm"
+                onClick={() => setPriorityFilter('high')}
+              >
+                Tinggi
+              </Button>
+              <Button 
+                variant={priorityFilter === 'medium' ? 'primary' : 'outline'} 
+                size="sm"
+                onClick={() => setPriorityFilter('medium')}
+              >
+                Sedang
+              </Button>
+              <Button 
+                variant={priorityFilter === 'low' ? 'primary' : 'outline'} 
+                size="sm"
+                onClick={() => setPriorityFilter('low')}
+              >
+                Rendah
+              </Button>
+            </div>
           </div>
           
-          <div className="flex gap-2 mt-2 sm:mt-0">
-            <Button 
-              variant={priorityFilter === 'all' ? 'primary' : 'outline'} 
-              size="sm"
-              onClick={() => setPriorityFilter('all')}
-            >
-              Semua Prioritas
-            </Button>
-            <Button 
-              variant={priorityFilter === 'high' ? 'primary' : 'outline'} 
-              size="sm"
-              onClick={() => setPriorityFilter('high')}
-            >
-              Tinggi
-            </Button>
-            <Button 
-              variant={priorityFilter === 'medium' ? 'primary' : 'outline'} 
-              size="sm"
-              onClick={() => setPriorityFilter('medium')}
-            >
-              Sedang
-            </Button>
-            <Button 
-              variant={priorityFilter === 'low' ? 'primary' : 'outline'} 
-              size="sm"
-              onClick={() => setPriorityFilter('low')}
-            >
-              Rendah
-            </Button>
-          </div>
-        </div>
-        
-        <CardContent className="p-0">
-          <div className="divide-y divide-gray-200">
-            {filteredRequests.map((request) => (
-              <div key={request.id} className="p-6 hover:bg-gray-50">
-                <div className="flex items-start justify-between mb-4">
-                  <div>
-                    <h3 className="text-lg font-medium text-gray-900">{request.title}</h3>
-                    <p className="text-sm text-gray-500">Kamar {request.roomNumber}</p>
-                    {request.tenantName && (
-                      <p className="text-sm text-gray-500">Dilaporkan oleh: {request.tenantName}</p>
-                    )}
+          <CardContent className="p-0">
+            <div className="divide-y divide-gray-200">
+              {filteredRequests.map((request) => (
+                <div key={request.id} className="p-6 hover:bg-gray-50">
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <button
+                        onClick={() => setDetailRequest(request)}
+                        className="text-left text-lg font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {request.title}
+                      </button>
+                      <p className="text-sm text-gray-500">
+                        {request.room_id ? `Kamar ${request.roomNumber}` : 'Seluruh properti'}
+                      </p>
+                      {request.schedule_id && (
+                        <p className="flex items-center gap-1 text-sm text-blue-600">
+                          <CalendarClock size={14} />
+                          Pemeliharaan rutin
+                        </p>
+                      )}
+                      {request.tenantName && (
+                        <p className="text-sm text-gray-500">Dilaporkan oleh: {request.tenantName}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      <Badge className={getMaintenancePriorityColor(request.priority)}>
+                        Prioritas {request.priority === 'high' ? 'Tinggi' : 
+                                 request.priority === 'medium' ? 'Sedang' : 'Rendah'}
+                      </Badge>
+                      <Badge className={getMaintenanceStatusColor(request.status)}>
+                        {request.status === 'pending' ? 'Menunggu' : 
+                         request.status === 'in-progress' ? 'Dalam Proses' : 'Selesai'}
+                      </Badge>
+                      {request.sla && (
+                        <Badge className={getSlaStateColor(request.sla.state)}>
+                          {SLA_STATE_LABELS[request.sla.state]}
+                        </Badge>
+                      )}
+                    </div>
                   </div>
-                  <div className="flex flex-col items-end gap-2">
-                    <Badge className={getMaintenancePriorityColor(request.priority)}>
-                      Prioritas {request.priority === 'high' ? 'Tinggi' : 
-                               request.priority === 'medium' ? 'Sedang' : 'Rendah'}
-                    </Badge>
-                    <Badge className={getMaintenanceStatusColor(request.status)}>
-                      {request.status === 'pending' ? 'Menunggu' : 
-                       request.status === 'in-progress' ? 'Dalam Proses' : 'Selesai'}
-                    </Badge>
-                  </div>
-                </div>
-                
-                <p className="text-gray-600 mb-4">{request.description}</p>
-                
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-500">
-                    Dilaporkan pada {format(new Date(request.date), 'd MMMM yyyy')}
-                  </span>
-                  <div className="flex gap-2">
-                    {request.status !== 'completed' && (
-                      <div className="flex gap-2">
-                        {request.status === 'pending' && (
-                          <Button 
-                            variant="primary" 
-                            size="sm"
-                            onClick={() => handleUpdateStatus(request, 'in-progress')}
-                          >
-                            Mulai Pengerjaan
-                          </Button>
-                        )}
-                        {request.status === 'in-progress' && (
-                          <Button 
-                            variant="success" 
-                            size="sm"
-                            onClick={() => handleUpdateStatus(request, 'completed')}
-                          >
-                            Selesai
-                          </Button>
-                        )}
-                      </div>
+                  
+                  <p className="text-gray-600 mb-4">{request.description}</p>
+
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 mb-4 text-sm text-gray-500">
+                    <span className="flex items-center gap-1">
+                      <User size={14} />
+                      {request.assignee_name || 'Belum ditugaskan'}
+                    </span>
+                    {request.scheduled_at && request.status !== 'completed' && (
+                      <span className="flex items-center gap-1">
+                        <Clock size={14} />
+                        Dijadwalkan {format(new Date(request.scheduled_at), 'd MMMM yyyy HH:mm')}
+                      </span>
+                    )}
+                    {request.sla && request.status !== 'completed' && (
+                      <span className="flex items-center gap-1">
+                        <Timer size={14} />
+                        {request.sla.due_at === request.start_due_at ? 'Mulai' : 'Selesai'} paling lambat {format(new Date(request.sla.due_at), 'd MMMM yyyy HH:mm')}
+                      </span>
+                    )}
+                    {Number(request.total_cost) > 0 && (
+                      <span className="flex items-center gap-1">
+                        <Wallet size={14} />
+                        {formatCurrency(Number(request.total_cost))}
+                      </span>
                     )}
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleEditRequest(request)}
-                    >
-                      Ubah Permintaan
-                    </Button>
-                    <Button 
-                      variant="danger" 
-                      size="sm"
-                      onClick={() => handleDeleteClick(request)}
-                      icon={<Trash size={14} />}
-                    >
-                      Hapus
-                    </Button>
+                  </div>
+                  
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-500">
+                      Dilaporkan pada {format(new Date(request.date), 'd MMMM yyyy')}
+                    </span>
+                    <div className="flex gap-2">
+                      {request.status !== 'completed' && (
+                        <div className="flex gap-2">
+                          {request.status === 'pending' && (
+                            <Button 
+                              variant="primary" 
+                              size="sm"
+                              onClick={() => handleUpdateStatus(request, 'in-progress')}
+                            >
+                              Mulai Pengerjaan
+                            </Button>
+                          )}
+                          {request.status === 'in-progress' && (
+                            <Button 
+                              variant="success" 
+                              size="sm"
+                              onClick={() => handleUpdateStatus(request, 'completed')}
+                            >
+                              Selesai
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      {request.status !== 'completed' && vendors.find(v => v.id === request.vendor_id)?.phone && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          icon={<MessageCircle size={14} />}
+                          onClick={() => handleSendToVendor(request)}
+                        >
+                          WhatsApp
+                        </Button>
+                      )}
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => setDetailRequest(request)}
+                      >
+                        Rincian
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => handleEditRequest(request)}
+                      >
+                        Ubah Permintaan
+                      </Button>
+                      {hasPermission('delete_maintenance') && (
+                        <Button 
+                          variant="danger" 
+                          size="sm"
+                          onClick={() => handleDeleteClick(request)}
+                          icon={<Trash size={14} />}
+                        >
+                          Hapus
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ) : activeTab === 'schedules' ? (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-800">Jadwal Pemeliharaan</h2>
+          </CardHeader>
+          <MaintenanceSchedules
+            schedules={schedules}
+            rooms={rooms}
+            vendors={vendors}
+            onSchedulesChanged={loadSchedules}
+          />
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-800">Daftar Vendor</h2>
+          </CardHeader>
+          <VendorDirectory
+            vendors={vendors}
+            requests={requests}
+            onVendorsChanged={loadVendors}
+          />
+        </Card>
+      )}
 
       {showForm && (
         <MaintenanceForm
           request={selectedRequest}
           rooms={rooms}
           tenants={tenants}
+          vendors={vendors}
           onSubmit={handleFormSubmit}
           onClose={() => {
             setShowForm(false);
@@ -405,6 +581,16 @@ const Maintenance: React.FC = () => {
         />
       )}
 
+      {detailRequest && (
+        <MaintenanceDetails
+          request={detailRequest}
+          roomNumber={rooms.find(r => r.id === detailRequest.room_id)?.number}
+          tenantName={tenants.find(t => t.id === detailRequest.tenant_id)?.name}
+          onClose={() => setDetailRequest(undefined)}
+          onRequestUpdated={(updated) => setRequests(current => current.map(r => r.id === updated.id ? updated : r))}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && requestToDelete && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -4,17 +4,21 @@ import Badge from '../components/ui/Badge';
 import Button from '../components/ui/Button';
 import PaymentForm from '../components/payments/PaymentForm';
 import PaymentDetails from '../components/payments/PaymentDetails';
-import { Payment, Room, Tenant } from '../types';
-import { formatCurrency, formatDate, getPaymentStatusColor } from '../utils/formatters';
-import { Plus, Search, Filter, Download, Calendar, ArrowDownUp, CreditCard, AlertTriangle, Clock, MessageCircle } from 'lucide-react';
+import BankStatementImport from '../components/payments/BankStatementImport';
+import { Payment, PaymentFee, Room, Tenant } from '../types';
+import { formatCurrency, formatDate, getPaymentStatusColor, translatePaymentMethod, translatePaymentStatus } from '../utils/formatters';
+import { Plus, Search, Filter, Download, Calendar, ArrowDownUp, CreditCard, AlertTriangle, Clock, MessageCircle, FileText, Printer, Upload } from 'lucide-react';
 import { useProperty } from '../contexts/PropertyContext';
-import { paymentService, tenantService, roomService } from '../services/supabase';
+import { useSubscription } from '../contexts/SubscriptionContext';
+import { paymentService, paymentFeeService, paymentTransactionService, receiptService, tenantService, roomService, billingService } from '../services/supabase';
+import { generatePaymentReceiptPDF } from '../utils/receipts';
 
 type SortField = 'tenantName' | 'roomNumber' | 'amount' | 'dueDate' | 'date';
 type SortOrder = 'asc' | 'desc';
 
 const Payments: React.FC = () => {
   const { selectedProperty } = useProperty();
+  const { hasFeature } = useSubscription();
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [dateRange, setDateRange] = useState<{ start: string; end: string }>({
@@ -24,13 +28,19 @@ const Payments: React.FC = () => {
   const [showPaymentForm, setShowPaymentForm] = useState(false);
   const [showPaymentDetails, setShowPaymentDetails] = useState(false);
   const [selectedPayment, setSelectedPayment] = useState<Payment | undefined>();
+  const [openReceiptForm, setOpenReceiptForm] = useState(false);
   const [allPayments, setAllPayments] = useState<Payment[]>([]);
+  const [fees, setFees] = useState<PaymentFee[]>([]);
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [sortField, setSortField] = useState<SortField>('dueDate');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const autoBillingEnabled = hasFeature('auto_billing');
+  const [isGeneratingInvoices, setIsGeneratingInvoices] = useState(false);
+  const [billingMessage, setBillingMessage] = useState<string | null>(null);
+  const [showBankImport, setShowBankImport] = useState(false);
 
   useEffect(() => {
     if (selectedProperty?.id) {
@@ -45,14 +55,16 @@ const Payments: React.FC = () => {
       setIsLoading(true);
       setError(null);
 
-      // Load payments, tenants, and rooms in parallel
-      const [paymentsData, tenantsData, roomsData] = await Promise.all([
+      // Load payments, fees, tenants, and rooms in parallel
+      const [paymentsData, feesData, tenantsData, roomsData] = await Promise.all([
         paymentService.getByPropertyId(selectedProperty.id),
+        paymentFeeService.getByPropertyId(selectedProperty.id),
         tenantService.getByPropertyId(selectedProperty.id),
         roomService.getByPropertyId(selectedProperty.id)
       ]);
 
       setAllPayments(paymentsData);
+      setFees(feesData);
       setTenants(tenantsData);
       setRooms(roomsData);
     } catch (err) {
@@ -64,32 +76,33 @@ const Payments: React.FC = () => {
   };
 
   const enhancedPayments = allPayments.map(payment => {
-    const tenant = tenants.find(t => t.id === payment.tenantId);
-    const room = rooms.find(r => r.id === payment.roomId);
+    const tenant = tenants.find(t => t.id === payment.tenant_id);
+    const room = rooms.find(r => r.id === payment.room_id);
     
     return {
       ...payment,
       tenantName: tenant ? tenant.name : 'Tidak Diketahui',
-      roomNumber: room ? room.number : 'Tidak Diketahui'
+      roomNumber: room ? room.number : 'Tidak Diketahui',
+      outstanding: Math.max(0, payment.amount + Number(payment.fee_amount || 0) - Number(payment.amount_paid || 0))
     };
   });
 
   const dateFilteredPayments = enhancedPayments.filter(payment => {
     if (!dateRange.start || !dateRange.end) return true;
-    return payment.dueDate >= dateRange.start && payment.dueDate <= dateRange.end;
+    return payment.due_date >= dateRange.start && payment.due_date <= dateRange.end;
   });
 
+  // Partially paid bills count towards both the received and outstanding totals
   const totalPaid = dateFilteredPayments
-    .filter(p => p.status === 'paid')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .reduce((sum, p) => sum + Number(p.amount_paid || 0), 0);
 
   const totalPending = dateFilteredPayments
-    .filter(p => p.status === 'pending')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .filter(p => p.status === 'pending' || p.status === 'partial')
+    .reduce((sum, p) => sum + p.outstanding, 0);
 
   const totalOverdue = dateFilteredPayments
     .filter(p => p.status === 'overdue')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .reduce((sum, p) => sum + p.outstanding, 0);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -124,7 +137,7 @@ const Payments: React.FC = () => {
           comparison = a.amount - b.amount;
           break;
         case 'dueDate':
-          comparison = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+          comparison = new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
           break;
         case 'date':
           const dateA = a.date ? new Date(a.date).getTime() : 0;
@@ -136,13 +149,18 @@ const Payments: React.FC = () => {
       return sortOrder === 'asc' ? comparison : -comparison;
     });
 
-  const generateWhatsAppMessage = (payment: Payment & { tenantName: string; roomNumber: string }) => {
-    const tenant = tenants.find(t => t.id === payment.tenantId);
-    const dueDate = new Date(payment.dueDate);
+  const generateWhatsAppMessage = (payment: Payment & { tenantName: string; roomNumber: string; outstanding: number }) => {
+    const dueDate = new Date(payment.due_date);
     const month = dueDate.toLocaleString('id-ID', { month: 'long' });
     const year = dueDate.getFullYear();
     const propertyName = selectedProperty?.name || "KostManager Property";
 
+    // Itemise late fees so the tenant can see how the total was reached
+    const paymentFees = fees.filter(f => f.payment_id === payment.id);
+    const feeBreakdown = paymentFees.length > 0
+      ? `\n\nRincian tagihan:\n- Sewa: ${formatCurrency(payment.amount)}\n${paymentFees.map(f => `- ${f.description || 'Denda keterlambatan'}: ${formatCurrency(f.amount)}`).join('\n')}${payment.amount_paid ? `\n- Sudah dibayar: ${formatCurrency(Number(payment.amount_paid))}` : ''}\nTotal yang harus dibayar: ${formatCurrency(payment.outstanding)}`
+      : '';
+
     let message = '';
 
     switch (payment.status) {
@@ -150,18 +168,21 @@ const Payments: React.FC = () => {
         message = `Halo ${payment.tenantName},\n\nTerima kasih telah menyelesaikan pembayaran sewa untuk periode ${month} ${year}. Kami sangat menghargai ketepatan Anda dalam melakukan pembayaran.\n\nBerikut adalah kwitansi pembayaran Anda:\n[Link Kwitansi]\n\nJika ada pertanyaan atau membutuhkan bantuan lebih lanjut, jangan ragu untuk menghubungi kami.\n\nSalam hangat,\nManajemen ${propertyName}`;
         break;
       case 'pending':
-        message = `Halo ${payment.tenantName},\n\nKami ingin mengingatkan bahwa pembayaran sewa untuk periode ${month} ${year} masih belum diterima. Berikut adalah rincian tagihan Anda:\n\n[Link invoice]\n\nMohon segera menyelesaikan pembayaran paling lambat ${formatDate(payment.dueDate)}. Jika Anda membutuhkan informasi tambahan atau bantuan terkait pembayaran, silakan hubungi kami.\n\nTerima kasih atas perhatiannya.\n\nSalam hangat,\nManajemen ${propertyName}`;
+        message = `Halo ${payment.tenantName},\n\nKami ingin mengingatkan bahwa pembayaran sewa untuk periode ${month} ${year} masih belum diterima. Berikut adalah rincian tagihan Anda:\n\n[Link invoice]\n\nMohon segera menyelesaikan pembayaran paling lambat ${formatDate(payment.due_date)}. Jika Anda membutuhkan informasi tambahan atau bantuan terkait pembayaran, silakan hubungi kami.\n\nTerima kasih atas perhatiannya.\n\nSalam hangat,\nManajemen ${propertyName}`;
+        break;
+      case 'partial':
+        message = `Halo ${payment.tenantName},\n\nTerima kasih atas pembayaran sebagian untuk sewa periode ${month} ${year}. Sisa tagihan Anda saat ini adalah ${formatCurrency(payment.outstanding)}.${feeBreakdown}\n\nMohon segera melunasi sisa pembayaran paling lambat ${formatDate(payment.due_date)}. Jika Anda membutuhkan informasi tambahan atau bantuan terkait pembayaran, silakan hubungi kami.\n\nTerima kasih atas perhatiannya.\n\nSalam hangat,\nManajemen ${propertyName}`;
         break;
       case 'overdue':
-        message = `Halo ${payment.tenantName},\n\nKami mencatat bahwa pembayaran sewa untuk periode ${month} ${year} belum diterima hingga saat ini. Pembayaran telah melewati batas waktu yang ditentukan pada ${formatDate(payment.dueDate)}.\n\nMohon segera menyelesaikan pembayaran Anda untuk menghindari denda keterlambatan atau tindakan lebih lanjut. Jika Anda mengalami kendala, silakan segera hubungi kami agar kami dapat membantu mencari solusi.\n\nTerima kasih atas perhatian dan kerja sama Anda.\n\nSalam hangat,\nManajemen ${propertyName}`;
+        message = `Halo ${payment.tenantName},\n\nKami mencatat bahwa pembayaran sewa untuk periode ${month} ${year} belum diterima hingga saat ini. Pembayaran telah melewati batas waktu yang ditentukan pada ${formatDate(payment.due_date)}.${feeBreakdown}\n\nMohon segera menyelesaikan pembayaran Anda untuk menghindari denda keterlambatan atau tindakan lebih lanjut. Jika Anda mengalami kendala, silakan segera hubungi kami agar kami dapat membantu mencari solusi.\n\nTerima kasih atas perhatian dan kerja sama Anda.\n\nSalam hangat,\nManajemen ${propertyName}`;
         break;
     }
 
     return encodeURIComponent(message);
   };
 
-  const handleWhatsAppClick = (payment: Payment & { tenantName: string; roomNumber: string }) => {
-    const tenant = tenants.find(t => t.id === payment.tenantId);
+  const handleWhatsAppClick = (payment: Payment & { tenantName: string; roomNumber: string; outstanding: number }) => {
+    const tenant = tenants.find(t => t.id === payment.tenant_id);
     if (tenant) {
       const message = generateWhatsAppMessage(payment);
       const phoneNumber = tenant.phone.startsWith('0') ? '62' + tenant.phone.slice(1) : tenant.phone;
@@ -169,46 +190,80 @@ const Payments: React.FC = () => {
     }
   };
 
+  const handlePrintReceipt = async (payment: Payment & { tenantName: string; roomNumber: string }) => {
+    if (!selectedProperty) return;
+
+    try {
+      setError(null);
+      // Each receipt has its own kwitansi; earlier ones are printed from the details
+      const transactions = await paymentTransactionService.getByPaymentId(payment.id);
+      const latest = transactions[transactions.length - 1];
+      if (!latest) return;
+
+      const receipt = await receiptService.issue(latest.id);
+      generatePaymentReceiptPDF({
+        receipt,
+        property: selectedProperty,
+        payment,
+        tenantName: payment.tenantName,
+        roomNumber: payment.roomNumber
+      });
+    } catch (err) {
+      console.error('Error printing receipt:', err);
+      setError('Gagal mencetak kwitansi. Silakan coba lagi.');
+    }
+  };
+
   const handleRecordPayment = (payment: Payment) => {
     setSelectedPayment(payment);
-    setShowPaymentForm(true);
-    setShowPaymentDetails(false);
+    setOpenReceiptForm(true);
+    setShowPaymentDetails(true);
+    setShowPaymentForm(false);
   };
 
   const handleViewDetails = (payment: Payment) => {
     setSelectedPayment(payment);
+    setOpenReceiptForm(false);
     setShowPaymentDetails(true);
     setShowPaymentForm(false);
   };
 
+  const handlePaymentUpdated = (payment: Payment) => {
+    setAllPayments(allPayments.map(p => p.id === payment.id ? payment : p));
+  };
+
   const handlePaymentSubmit = async (data: Partial<Payment>) => {
     try {
       if (!selectedProperty?.id) {
         throw new Error('No property selected');
       }
 
-      // Ensure UUID fields are not empty strings and handle empty date fields
-      const paymentData = {
-        ...data,
-        property_id: selectedProperty.id,
-        tenantId: data.tenantId || null,
-        roomId: data.roomId || null,
-        date: data.date || null, // Convert empty string to null
-        dueDate: data.dueDate || null // Convert empty string to null
-      };
-
-      if (selectedPayment) {
-        await paymentService.update(selectedPayment.id, { ...paymentData, status: 'paid' });
-        const updatedPayments = allPayments.map(p => 
-          p.id === selectedPayment.id 
-            ? { ...p, ...paymentData, status: 'paid' }
-            : p
-        );
-        setAllPayments(updatedPayments);
-      } else {
-        const newPayment = await paymentService.create(paymentData as Payment);
-        setAllPayments([...allPayments, newPayment]);
+      // New bills always start pending; a payment date records the first
+      // receipt, which updates the status through the transactions ledger
+      const newPayment = await paymentService.create({
+        tenant_id: data.tenant_id as string,
+        room_id: data.room_id as string,
+        amount: data.amount || 0,
+        date: null,
+        due_date: data.due_date as string,
+        status: 'pending',
+        notes: data.notes,
+        property_id: selectedProperty.id
+      });
+
+      if (data.date && newPayment.amount > 0) {
+        await paymentTransactionService.create({
+          payment_id: newPayment.id,
+          property_id: selectedProperty.id,
+          amount: newPayment.amount,
+          date: data.date,
+          payment_method: data.payment_method || 'transfer',
+          notes: data.notes || null
+        });
       }
+
+      const savedPayment = await paymentService.getById(newPayment.id);
+      setAllPayments([...allPayments, savedPayment]);
       setShowPaymentForm(false);
       setSelectedPayment(undefined);
     } catch (err) {
@@ -217,16 +272,46 @@ const Payments: React.FC = () => {
     }
   };
 
+  const handleGenerateInvoices = async () => {
+    if (!selectedProperty?.id) return;
+
+    try {
+      setIsGeneratingInvoices(true);
+      setError(null);
+      setBillingMessage(null);
+
+      const result = await billingService.generateInvoices(selectedProperty.id);
+      const created = result.results.reduce((sum, r) => sum + r.created, 0);
+      setBillingMessage(
+        created > 0
+          ? `${created} tagihan dibuat untuk periode ${formatDate(result.period_start)} - ${formatDate(result.period_end)}.`
+          : 'Semua tagihan untuk periode berikutnya sudah dibuat.'
+      );
+      await loadData();
+    } catch (err) {
+      console.error('Error generating invoices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate invoices. Please try again.');
+    } finally {
+      setIsGeneratingInvoices(false);
+    }
+  };
+
+  const handleBankImported = async (count: number) => {
+    setShowBankImport(false);
+    setBillingMessage(`${count} pembayaran dicatat dari mutasi bank.`);
+    await loadData();
+  };
+
   const handleExport = () => {
     const headers = ['Penyewa', 'Kamar', 'Jumlah', 'Tanggal Jatuh Tempo', 'Tanggal Pembayaran', 'Status', 'Metode Pembayaran', 'Catatan'];
     const rows = filteredAndSortedPayments.map(payment => [
       payment.tenantName,
       `Kamar ${payment.roomNumber}`,
       payment.amount.toString(),
-      payment.dueDate,
+      payment.due_date,
       payment.date || '',
-      payment.status === 'paid' ? 'Lunas' : payment.status === 'pending' ? 'Menunggu' : 'Terlambat',
-      payment.paymentMethod || '',
+      translatePaymentStatus(payment.status),
+      payment.payment_method ? translatePaymentMethod(payment.payment_method) : '',
       payment.notes || ''
     ]);
     
@@ -330,12 +415,28 @@ const Payments: React.FC = () => {
               />
               <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
             </div>
+            {autoBillingEnabled && (
+              <Button
+                variant="outline"
+                icon={<FileText size={16} />}
+                onClick={handleGenerateInvoices}
+                disabled={isGeneratingInvoices}
+              >
+                {isGeneratingInvoices ? 'Membuat Tagihan...' : 'Buat Tagihan Bulan Depan'}
+              </Button>
+            )}
             <Button icon={<Plus size={16} />} onClick={() => setShowPaymentForm(true)}>
               Catat Pembayaran
             </Button>
           </div>
         </CardHeader>
 
+        {billingMessage && (
+          <div className="mx-6 mb-4 p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+            {billingMessage}
+          </div>
+        )}
+
         <div className="px-6 pb-4">
           <div className="flex flex-col sm:flex-row justify-between gap-4">
             <div className="flex flex-wrap gap-2">
@@ -360,6 +461,13 @@ const Payments: React.FC = () => {
               >
                 Menunggu
               </Button>
+              <Button 
+                variant={statusFilter === 'partial' ? 'primary' : 'outline'} 
+                size="sm" 
+                onClick={() => setStatusFilter('partial')}
+              >
+                Sebagian
+              </Button>
               <Button 
                 variant={statusFilter === 'overdue' ? 'primary' : 'outline'} 
                 size="sm" 
@@ -385,6 +493,9 @@ const Payments: React.FC = () => {
                   className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
+              <Button variant="outline" size="sm" icon={<Upload size={16} />} onClick={() => setShowBankImport(true)}>
+                Impor Mutasi
+              </Button>
               <Button variant="outline" size="sm" icon={<Download size={16} />} onClick={handleExport}>
                 Ekspor
               </Button>
@@ -466,22 +577,27 @@ const Payments: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="font-medium text-gray-900">{formatCurrency(payment.amount)}</div>
+                        {Number(payment.fee_amount || 0) > 0 && (
+                          <div className="text-sm text-red-600">+ Denda {formatCurrency(Number(payment.fee_amount))}</div>
+                        )}
+                        {payment.status !== 'paid' && Number(payment.amount_paid || 0) > 0 && (
+                          <div className="text-sm text-gray-500">Sisa {formatCurrency(payment.outstanding)}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-gray-900">{formatDate(payment.dueDate)}</div>
+                        <div className="text-gray-900">{formatDate(payment.due_date)}</div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-gray-900">{payment.date ? formatDate(payment.date) : '-'}</div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <Badge className={getPaymentStatusColor(payment.status)}>
-                          {payment.status === 'paid' ? 'Lunas' : 
-                           payment.status === 'pending' ? 'Menunggu' : 'Terlambat'}
+                          {translatePaymentStatus(payment.status)}
                         </Badge>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right">
                         <div className="flex justify-end gap-2">
-                          {payment.status === 'pending' || payment.status === 'overdue' ? (
+                          {payment.status !== 'paid' ? (
                             <>
                               <Button
                                 variant="success"
@@ -518,6 +634,16 @@ const Payments: React.FC = () => {
                               </Button>
                             </>
                           )}
+                          {Number(payment.amount_paid || 0) > 0 && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              icon={<Printer size={14} />}
+                              onClick={() => handlePrintReceipt(payment)}
+                            >
+                              Cetak Kwitansi
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -537,7 +663,6 @@ const Payments: React.FC = () => {
 
       {showPaymentForm && (
         <PaymentForm
-          payment={selectedPayment}
           tenants={tenants}
           rooms={rooms}
           onSubmit={handlePaymentSubmit}
@@ -548,11 +673,24 @@ const Payments: React.FC = () => {
         />
       )}
 
+      {showBankImport && (
+        <BankStatementImport
+          propertyId={selectedProperty.id}
+          bills={enhancedPayments
+            .filter(p => p.status !== 'paid' && p.outstanding > 0)
+            .map(p => ({ payment: p, tenantName: p.tenantName, roomNumber: p.roomNumber, outstanding: p.outstanding }))}
+          onClose={() => setShowBankImport(false)}
+          onImported={handleBankImported}
+        />
+      )}
+
       {showPaymentDetails && selectedPayment && (
         <PaymentDetails
           payment={selectedPayment}
           tenantName={enhancedPayments.find(p => p.id === selectedPayment.id)?.tenantName}
           roomNumber={enhancedPayments.find(p => p.id === selectedPayment.id)?.roomNumber}
+          openReceiptForm={openReceiptForm}
+          onPaymentUpdated={handlePaymentUpdated}
           onClose={() => {
             setShowPaymentDetails(false);
             setSelectedPayment(undefined);
@@ -3,20 +3,30 @@ import { useNavigate } from 'react-router-dom';
 import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Button from '../components/ui/Button';
 import PropertyForm from '../components/properties/PropertyForm';
+import ContractTemplateForm from '../components/properties/ContractTemplateForm';
+import UpgradePrompt from '../components/subscription/UpgradePrompt';
+import PropertyInvitations from '../components/properties/PropertyInvitations';
+import Badge from '../components/ui/Badge';
 import { Property } from '../types';
 import { useProperty } from '../contexts/PropertyContext';
+import { useSubscription } from '../contexts/SubscriptionContext';
 import { propertyService } from '../services/supabase';
-import { Plus, Search, Building2, MapPin, Phone, Mail, Edit, Trash, Loader2 } from 'lucide-react';
+import { getPlanLimitError, planLimitMessage } from '../utils/planLimits';
+import { ROLE_LABELS, roleHasPermission } from '../utils/permissions';
+import { Plus, Search, Building2, MapPin, Phone, Mail, Edit, Trash, Loader2, FileText } from 'lucide-react';
 
 const Properties: React.FC = () => {
   const navigate = useNavigate();
-  const { properties: contextProperties, setSelectedProperty } = useProperty();
+  const { properties: contextProperties, setSelectedProperty, refreshProperties } = useProperty();
+  const { plan } = useSubscription();
   const [properties, setProperties] = useState<Property[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [showForm, setShowForm] = useState(false);
   const [editingProperty, setEditingProperty] = useState<Property | undefined>();
+  const [templateProperty, setTemplateProperty] = useState<Property | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showLimitPrompt, setShowLimitPrompt] = useState(false);
 
   useEffect(() => {
     loadProperties();
@@ -42,6 +52,12 @@ const Properties: React.FC = () => {
   );
 
   const handleAddProperty = () => {
+    // Properties shared with the user count against their owners' plans
+    const ownedCount = properties.filter(property => property.role === 'owner').length;
+    if (plan && ownedCount >= plan.max_properties) {
+      setShowLimitPrompt(true);
+      return;
+    }
     setEditingProperty(undefined);
     setShowForm(true);
   };
@@ -94,13 +110,22 @@ const Properties: React.FC = () => {
       setEditingProperty(undefined);
       navigate('/dashboard');
     } catch (err) {
-      setError('Gagal menyimpan properti. Silakan coba lagi.');
       console.error('Error saving property:', err);
+      if (getPlanLimitError(err)) {
+        setShowForm(false);
+        setShowLimitPrompt(true);
+        return;
+      }
+      setError('Gagal menyimpan properti. Silakan coba lagi.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleInvitationAccepted = async () => {
+    await Promise.all([loadProperties(), refreshProperties()]);
+  };
+
   const handleSelectProperty = (property: Property) => {
     setSelectedProperty(property);
     navigate('/dashboard');
@@ -134,6 +159,16 @@ const Properties: React.FC = () => {
         </div>
       )}
 
+      <PropertyInvitations onAccepted={handleInvitationAccepted} />
+
+      {showLimitPrompt && (
+        <UpgradePrompt
+          title="Batas properti tercapai"
+          message={planLimitMessage('properties', plan)}
+          onClose={() => setShowLimitPrompt(false)}
+        />
+      )}
+
       <Card>
         <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <h2 className="text-lg font-semibold text-gray-800">Daftar Properti</h2>
@@ -170,6 +205,11 @@ const Properties: React.FC = () => {
                           <Building2 size={24} className="text-blue-600 mr-3" />
                           <h3 className="text-lg font-semibold text-gray-900">{property.name}</h3>
                         </div>
+                        {property.role && property.role !== 'owner' && (
+                          <Badge className="bg-purple-100 text-purple-800">
+                            {ROLE_LABELS[property.role]}
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="space-y-3 text-sm">
@@ -193,30 +233,48 @@ const Properties: React.FC = () => {
                       </div>
 
                       <div className="mt-6 flex justify-end gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          icon={<Edit size={14} />}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleEditProperty(property);
-                          }}
-                          disabled={isLoading}
-                        >
-                          Edit
-                        </Button>
-                        <Button
-                          variant="danger"
-                          size="sm"
-                          icon={<Trash size={14} />}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteProperty(property.id);
-                          }}
-                          disabled={isLoading}
-                        >
-                          Hapus
-                        </Button>
+                        {roleHasPermission(property.role, 'manage_leases') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            icon={<FileText size={14} />}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setTemplateProperty(property);
+                            }}
+                            disabled={isLoading}
+                          >
+                            Kontrak
+                          </Button>
+                        )}
+                        {roleHasPermission(property.role, 'manage_property') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            icon={<Edit size={14} />}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleEditProperty(property);
+                            }}
+                            disabled={isLoading}
+                          >
+                            Edit
+                          </Button>
+                        )}
+                        {property.role === 'owner' && (
+                          <Button
+                            variant="danger"
+                            size="sm"
+                            icon={<Trash size={14} />}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteProperty(property.id);
+                            }}
+                            disabled={isLoading}
+                          >
+                            Hapus
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -244,6 +302,13 @@ const Properties: React.FC = () => {
           }}
         />
       )}
+
+      {templateProperty && (
+        <ContractTemplateForm
+          property={templateProperty}
+          onClose={() => setTemplateProperty(undefined)}
+        />
+      )}
     </div>
   );
 };
@@ -3,13 +3,25 @@ import { format, subMonths, startOfMonth, endOfMonth, parseISO } from 'date-fns'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Button from '../components/ui/Button';
-import { formatCurrency } from '../utils/formatters';
+import { formatCurrency, translateMaintenancePriority } from '../utils/formatters';
+import { SlaCompliance, calculateSlaCompliance, formatComplianceRate } from '../utils/maintenanceSla';
+import { formatTurnaround } from '../utils/vendors';
+import { MaintenanceRequest } from '../types';
 import { Download, Calendar, Loader2 } from 'lucide-react';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
+import UpgradePrompt from '../components/subscription/UpgradePrompt';
+import { planAllowsReportLevel } from '../utils/planLimits';
 import { useProperty } from '../contexts/PropertyContext';
+import { useSubscription } from '../contexts/SubscriptionContext';
 import { supabase } from '../lib/supabase';
 
+// jspdf-autotable adds these to jsPDF at runtime
+type AutoTableDocument = jsPDF & {
+  autoTable: (options: Record<string, unknown>) => void;
+  lastAutoTable: { finalY: number };
+};
+
 interface MonthlyData {
   month: string;
   revenue: number;
@@ -19,10 +31,15 @@ interface MonthlyData {
 }
 
 const Reports: React.FC = () => {
-  const { selectedProperty } = useProperty();
+  const { selectedProperty, hasPermission } = useProperty();
+  const { plan, isLoading: isPlanLoading, hasFeature } = useSubscription();
+  // Basic reports cover the summary and CSV export; charts and PDF need more
+  const hasAdvancedReports = !isPlanLoading && planAllowsReportLevel(plan, 'advanced');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
+  const [depositLiability, setDepositLiability] = useState({ total: 0, count: 0 });
+  const [slaCompliance, setSlaCompliance] = useState<SlaCompliance[]>([]);
   const [dateRange, setDateRange] = useState({
     start: format(subMonths(new Date(), 6), 'yyyy-MM-dd'),
     end: format(new Date(), 'yyyy-MM-dd')
@@ -54,6 +71,35 @@ const Reports: React.FC = () => {
 
       if (roomsError) throw roomsError;
 
+      // Deposits still held are owed back to tenants, less any deductions
+      const { data: deposits, error: depositsError } = await supabase
+        .from('tenant_deposits')
+        .select('amount, deductions:deposit_deductions (amount)')
+        .eq('property_id', selectedProperty.id)
+        .eq('status', 'held');
+
+      if (depositsError) throw depositsError;
+
+      setDepositLiability({
+        total: (deposits || []).reduce((sum, deposit) => {
+          const deducted = (deposit.deductions || []).reduce((d, item) => d + Number(item.amount), 0);
+          return sum + Math.max(0, Number(deposit.amount) - deducted);
+        }, 0),
+        count: deposits?.length || 0
+      });
+
+      // Maintenance reported in the period, against its SLA deadlines
+      const { data: maintenance, error: maintenanceError } = await supabase
+        .from('maintenance_requests')
+        .select('*')
+        .eq('property_id', selectedProperty.id)
+        .gte('created_at', dateRange.start)
+        .lte('created_at', dateRange.end);
+
+      if (maintenanceError) throw maintenanceError;
+
+      setSlaCompliance(calculateSlaCompliance((maintenance || []) as MaintenanceRequest[]));
+
       // Calculate monthly data based on the date range
       const startDate = parseISO(dateRange.start);
       const endDate = parseISO(dateRange.end);
@@ -120,8 +166,12 @@ const Reports: React.FC = () => {
     }));
   };
 
+  const slaPriorityLabel = (row: SlaCompliance) =>
+    row.priority === 'all' ? 'Semua' : translateMaintenancePriority(row.priority);
+
   const handleExportPDF = () => {
     const doc = new jsPDF();
+    const autoTableDoc = doc as AutoTableDocument;
     
     // Add title
     doc.setFontSize(16);
@@ -135,6 +185,7 @@ const Reports: React.FC = () => {
     doc.text(`Rata-rata Pendapatan Bulanan: ${formatCurrency(averageRevenue)}`, 20, 55);
     doc.text(`Pembayaran Tertunda: ${formatCurrency(totalPending)}`, 20, 65);
     doc.text(`Pembayaran Terlambat: ${formatCurrency(totalOverdue)}`, 20, 75);
+    doc.text(`Kewajiban Deposit Penyewa: ${formatCurrency(depositLiability.total)}`, 20, 85);
 
     // Add monthly data table
     const tableData = monthlyData.map(data => [
@@ -145,14 +196,28 @@ const Reports: React.FC = () => {
       `${data.occupancyRate}%`
     ]);
 
-    (doc as any).autoTable({
-      startY: 85,
+    autoTableDoc.autoTable({
+      startY: 95,
       head: [['Bulan', 'Pendapatan', 'Tertunda', 'Terlambat', 'Tingkat Hunian']],
       body: tableData,
       theme: 'grid',
       headStyles: { fillColor: [59, 130, 246] }
     });
 
+    autoTableDoc.autoTable({
+      startY: autoTableDoc.lastAutoTable.finalY + 10,
+      head: [['Prioritas', 'Permintaan', 'Mulai Tepat Waktu', 'Selesai Tepat Waktu', 'Melewati SLA']],
+      body: slaCompliance.map(row => [
+        slaPriorityLabel(row),
+        row.total,
+        formatComplianceRate(row.started_on_time, row.start_measured),
+        formatComplianceRate(row.resolved_on_time, row.resolve_measured),
+        row.open_breaches
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: [59, 130, 246] }
+    });
+
     // Save the PDF
     doc.save(`laporan_keuangan_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
   };
@@ -190,6 +255,14 @@ const Reports: React.FC = () => {
     );
   }
 
+  if (!hasPermission('view_reports')) {
+    return (
+      <div className="p-6 text-center text-gray-500">
+        Peran Anda di properti ini tidak memiliki akses ke laporan keuangan.
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center">
@@ -222,9 +295,11 @@ const Reports: React.FC = () => {
             />
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" size="sm" icon={<Download size={16} />} onClick={handleExportPDF}>
-              Ekspor PDF
-            </Button>
+            {hasAdvancedReports && (
+              <Button variant="outline" size="sm" icon={<Download size={16} />} onClick={handleExportPDF}>
+                Ekspor PDF
+              </Button>
+            )}
             <Button variant="outline" size="sm" icon={<Download size={16} />} onClick={handleExportCSV}>
               Ekspor CSV
             </Button>
@@ -273,70 +348,148 @@ const Reports: React.FC = () => {
         </Card>
       </div>
 
-      {/* Revenue Chart */}
+      {/* Liabilities */}
       <Card>
         <CardHeader>
-          <h2 className="text-lg font-semibold text-gray-800">Pendapatan Bulanan</h2>
+          <h2 className="text-lg font-semibold text-gray-800">Kewajiban</h2>
         </CardHeader>
         <CardContent>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={monthlyData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
-                <YAxis />
-                <Tooltip 
-                  formatter={(value) => formatCurrency(value as number)}
-                  labelStyle={{ color: '#111827' }}
-                  contentStyle={{ 
-                    backgroundColor: 'white',
-                    border: '1px solid #E5E7EB',
-                    borderRadius: '0.375rem'
-                  }}
-                />
-                <Bar dataKey="revenue" fill="#3B82F6" name="Pendapatan" />
-                <Bar dataKey="pending" fill="#EAB308" name="Tertunda" />
-                <Bar dataKey="overdue" fill="#EF4444" name="Terlambat" />
-              </BarChart>
-            </ResponsiveContainer>
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700">Deposit Penyewa Ditahan</h3>
+              <p className="text-sm text-gray-500">
+                {depositLiability.count} deposit yang wajib dikembalikan, setelah dikurangi potongan
+              </p>
+            </div>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(depositLiability.total)}</p>
           </div>
         </CardContent>
       </Card>
 
-      {/* Occupancy Rate Trend */}
+      {/* Maintenance SLA */}
       <Card>
         <CardHeader>
-          <h2 className="text-lg font-semibold text-gray-800">Tren Tingkat Hunian</h2>
+          <h2 className="text-lg font-semibold text-gray-800">Kepatuhan SLA Pemeliharaan</h2>
         </CardHeader>
-        <CardContent>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={monthlyData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
-                <YAxis />
-                <Tooltip 
-                  formatter={(value) => `${value}%`}
-                  labelStyle={{ color: '#111827' }}
-                  contentStyle={{ 
-                    backgroundColor: 'white',
-                    border: '1px solid #E5E7EB',
-                    borderRadius: '0.375rem'
-                  }}
-                />
-                <Line 
-                  type="monotone" 
-                  dataKey="occupancyRate" 
-                  stroke="#3B82F6" 
-                  strokeWidth={2}
-                  name="Tingkat Hunian"
-                  dot={{ fill: '#3B82F6', strokeWidth: 2 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prioritas</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Permintaan</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Mulai Tepat Waktu</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Selesai Tepat Waktu</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rata-rata Mulai</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rata-rata Selesai</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Melewati SLA</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {slaCompliance.map(row => (
+                <tr key={row.priority} className={row.priority === 'all' ? 'bg-gray-50 font-medium' : ''}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{slaPriorityLabel(row)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">{row.total}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                    {formatComplianceRate(row.started_on_time, row.start_measured)}
+                    <span className="ml-1 text-xs text-gray-500">({row.started_on_time}/{row.start_measured})</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                    {formatComplianceRate(row.resolved_on_time, row.resolve_measured)}
+                    <span className="ml-1 text-xs text-gray-500">({row.resolved_on_time}/{row.resolve_measured})</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">{formatTurnaround(row.avg_start_hours)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">{formatTurnaround(row.avg_resolve_hours)}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-right text-sm ${row.open_breaches > 0 ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                    {row.open_breaches}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="px-6 py-3 text-xs text-gray-500">
+          Permintaan yang dilaporkan pada periode ini. Tepat waktu dihitung dari permintaan yang sudah dimulai atau selesai, atau yang batas waktunya sudah lewat. Melewati SLA: permintaan terbuka yang sudah melewati batas waktunya.
+        </p>
       </Card>
+
+      {/* Revenue Chart */}
+      {hasAdvancedReports ? (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-800">Pendapatan Bulanan</h2>
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={monthlyData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip 
+                    formatter={(value) => formatCurrency(value as number)}
+                    labelStyle={{ color: '#111827' }}
+                    contentStyle={{ 
+                      backgroundColor: 'white',
+                      border: '1px solid #E5E7EB',
+                      borderRadius: '0.375rem'
+                    }}
+                  />
+                  <Bar dataKey="revenue" fill="#3B82F6" name="Pendapatan" />
+                  <Bar dataKey="pending" fill="#EAB308" name="Tertunda" />
+                  <Bar dataKey="overdue" fill="#EF4444" name="Terlambat" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      ) : !isPlanLoading && (
+        <UpgradePrompt
+          title="Grafik pendapatan bulanan"
+          message="Grafik pendapatan dan ekspor PDF tersedia pada paket dengan laporan keuangan lanjutan."
+        />
+      )}
+
+      {/* Occupancy Rate Trend */}
+      {hasFeature('analytics') ? (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-800">Tren Tingkat Hunian</h2>
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={monthlyData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip 
+                    formatter={(value) => `${value}%`}
+                    labelStyle={{ color: '#111827' }}
+                    contentStyle={{ 
+                      backgroundColor: 'white',
+                      border: '1px solid #E5E7EB',
+                      borderRadius: '0.375rem'
+                    }}
+                  />
+                  <Line 
+                    type="monotone" 
+                    dataKey="occupancyRate" 
+                    stroke="#3B82F6" 
+                    strokeWidth={2}
+                    name="Tingkat Hunian"
+                    dot={{ fill: '#3B82F6', strokeWidth: 2 }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      ) : !isPlanLoading && (
+        <UpgradePrompt
+          title="Analitik hunian"
+          message="Tren tingkat hunian tersedia pada paket dengan fitur analitik."
+        />
+      )}
     </div>
   );
 };
@@ -3,19 +3,26 @@ import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Badge from '../components/ui/Badge';
 import Button from '../components/ui/Button';
 import RoomForm from '../components/rooms/RoomForm';
+import BulkImportWizard from '../components/import/BulkImportWizard';
+import UpgradePrompt from '../components/subscription/UpgradePrompt';
 import { Room, Tenant } from '../types';
 import { formatCurrency, getRoomStatusColor } from '../utils/formatters';
-import { Plus, Search, X, User, Loader2, Trash } from 'lucide-react';
+import { getPlanLimitError, planLimitMessage } from '../utils/planLimits';
+import { Plus, Search, X, User, Loader2, Trash, Upload } from 'lucide-react';
 import { useProperty } from '../contexts/PropertyContext';
+import { useSubscription } from '../contexts/SubscriptionContext';
+import { roomService } from '../services/supabase';
 import { supabase } from '../lib/supabase';
 
 const Rooms: React.FC = () => {
-  const { selectedProperty } = useProperty();
+  const { selectedProperty, hasPermission } = useProperty();
+  const { plan } = useSubscription();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [filter, setFilter] = useState('all');
   const [showRoomForm, setShowRoomForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [showTenantSelector, setShowTenantSelector] = useState(false);
   const [showTenantDetails, setShowTenantDetails] = useState(false);
   const [editingRoom, setEditingRoom] = useState<Room | undefined>();
@@ -23,6 +30,7 @@ const Rooms: React.FC = () => {
   const [selectedTenant, setSelectedTenant] = useState<Tenant | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showLimitPrompt, setShowLimitPrompt] = useState(false);
 
   useEffect(() => {
     loadRooms();
@@ -101,6 +109,10 @@ const Rooms: React.FC = () => {
   });
 
   const handleAddRoom = () => {
+    if (plan && rooms.length >= plan.max_rooms_per_property) {
+      setShowLimitPrompt(true);
+      return;
+    }
     setEditingRoom(undefined);
     setShowRoomForm(true);
   };
@@ -128,11 +140,7 @@ const Rooms: React.FC = () => {
         if (updateError) throw updateError;
       } else {
         // Create new room with default status
-        const { error: insertError } = await supabase
-          .from('rooms')
-          .insert([{ ...roomData, status: 'vacant' }]);
-
-        if (insertError) throw insertError;
+        await roomService.create({ ...roomData, status: 'vacant' } as Omit<Room, 'id'>);
       }
 
       await loadRooms();
@@ -140,6 +148,11 @@ const Rooms: React.FC = () => {
       setEditingRoom(undefined);
     } catch (err) {
       console.error('Error saving room:', err);
+      if (getPlanLimitError(err)) {
+        setShowRoomForm(false);
+        setShowLimitPrompt(true);
+        return;
+      }
       setError('Failed to save room');
     } finally {
       setIsLoading(false);
@@ -268,6 +281,14 @@ const Rooms: React.FC = () => {
           {error}
         </div>
       )}
+
+      {showLimitPrompt && (
+        <UpgradePrompt
+          title="Batas kamar tercapai"
+          message={planLimitMessage('rooms', plan)}
+          onClose={() => setShowLimitPrompt(false)}
+        />
+      )}
       
       <Card>
         <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -283,13 +304,25 @@ const Rooms: React.FC = () => {
               />
               <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
             </div>
-            <Button 
-              icon={<Plus size={16} />} 
-              onClick={handleAddRoom}
-              disabled={isLoading}
-            >
-              Tambah Kamar
-            </Button>
+            {hasPermission('manage_rooms') && (
+              <>
+                <Button
+                  variant="outline"
+                  icon={<Upload size={16} />}
+                  onClick={() => setShowImport(true)}
+                  disabled={isLoading}
+                >
+                  Impor
+                </Button>
+                <Button 
+                  icon={<Plus size={16} />} 
+                  onClick={handleAddRoom}
+                  disabled={isLoading}
+                >
+                  Tambah Kamar
+                </Button>
+              </>
+            )}
           </div>
         </CardHeader>
 
@@ -359,14 +392,16 @@ const Rooms: React.FC = () => {
                   
                   <div className="flex flex-col gap-2">
                     <div className="flex justify-between">
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        onClick={() => handleEditRoom(room)}
-                        disabled={isLoading}
-                      >
-                        Ubah
-                      </Button>
+                      {hasPermission('manage_rooms') && (
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          onClick={() => handleEditRoom(room)}
+                          disabled={isLoading}
+                        >
+                          Ubah
+                        </Button>
+                      )}
                       {room.status === 'occupied' ? (
                         <Button 
                           variant="secondary" 
@@ -381,7 +416,7 @@ const Rooms: React.FC = () => {
                           variant="primary" 
                           size="sm"
                           onClick={() => handleAssignTenant(room)}
-                          disabled={isLoading}
+                          disabled={isLoading || !hasPermission('manage_tenants')}
                         >
                           Tambah Penyewa
                         </Button>
@@ -395,7 +430,7 @@ const Rooms: React.FC = () => {
                         </Button>
                       )}
                     </div>
-                    {room.status === 'vacant' && (
+                    {room.status === 'vacant' && hasPermission('delete_records') && (
                       <Button
                         variant="danger"
                         size="sm"
@@ -415,6 +450,17 @@ const Rooms: React.FC = () => {
         </CardContent>
       </Card>
 
+      {showImport && selectedProperty && (
+        <BulkImportWizard
+          propertyId={selectedProperty.id}
+          onClose={() => setShowImport(false)}
+          onImported={async () => {
+            setShowImport(false);
+            await loadRooms();
+          }}
+        />
+      )}
+
       {showRoomForm && (
         <RoomForm
           room={editingRoom}
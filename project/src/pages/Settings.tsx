@@ -1,12 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Button from '../components/ui/Button';
-import { User } from '../types';
-import { Save, Bell, Lock, Building2, Mail, CheckCircle, Globe, X, Eye, EyeOff, Loader2 } from 'lucide-react';
-import { settingsService, UserSettings } from '../services/supabase';
+import { LateFeeRule, User } from '../types';
+import { Save, Bell, Lock, Building2, Mail, CheckCircle, Globe, X, Eye, EyeOff, Loader2, Percent, Archive, Users, Timer } from 'lucide-react';
+import { settingsService, lateFeeRuleService, maintenanceSlaTargetService, UserSettings } from '../services/supabase';
+import { useProperty } from '../contexts/PropertyContext';
+import PropertyBackups from '../components/properties/PropertyBackups';
+import PropertyMembers from '../components/properties/PropertyMembers';
 import { supabase } from '../lib/supabase';
+import { DEFAULT_SLA_TARGETS, SLA_PRIORITIES, resolveSlaTargets } from '../utils/maintenanceSla';
+import { translateMaintenancePriority } from '../utils/formatters';
+
+type LateFeeRuleForm = Omit<LateFeeRule, 'id' | 'property_id' | 'created_at' | 'updated_at'>;
+
+const defaultLateFeeRule: LateFeeRuleForm = {
+  enabled: false,
+  flat_amount: 0,
+  percentage: 0,
+  percentage_interval: 'day',
+  grace_period_days: 0,
+  max_amount: null
+};
 
 const Settings: React.FC = () => {
+  const { selectedProperty, hasPermission } = useProperty();
   const [activeTab, setActiveTab] = useState('profile');
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -35,6 +52,7 @@ const Settings: React.FC = () => {
     currency: 'IDR',
     date_format: 'DD/MM/YYYY',
     payment_reminder_days: 5,
+    lease_expiry_reminder_days: [30, 14, 7],
     session_timeout: 30,
     login_notifications: true,
     two_factor_enabled: false,
@@ -42,6 +60,12 @@ const Settings: React.FC = () => {
     updated_at: ''
   });
 
+  const [leaseReminderInput, setLeaseReminderInput] = useState('30, 14, 7');
+
+  const [lateFeeRule, setLateFeeRule] = useState<LateFeeRuleForm>(defaultLateFeeRule);
+
+  const [slaTargets, setSlaTargets] = useState(DEFAULT_SLA_TARGETS);
+
   const [profile, setProfile] = useState<Partial<User>>({
     name: '',
     email: '',
@@ -53,11 +77,45 @@ const Settings: React.FC = () => {
     loadProfile();
   }, []);
 
+  useEffect(() => {
+    if (selectedProperty?.id) {
+      loadLateFeeRule(selectedProperty.id);
+      loadSlaTargets(selectedProperty.id);
+    }
+  }, [selectedProperty]);
+
+  const loadLateFeeRule = async (propertyId: string) => {
+    try {
+      const rule = await lateFeeRuleService.getByPropertyId(propertyId);
+      setLateFeeRule(rule ? {
+        enabled: rule.enabled,
+        flat_amount: Number(rule.flat_amount),
+        percentage: Number(rule.percentage),
+        percentage_interval: rule.percentage_interval,
+        grace_period_days: rule.grace_period_days,
+        max_amount: rule.max_amount === null ? null : Number(rule.max_amount)
+      } : defaultLateFeeRule);
+    } catch (err) {
+      console.error('Error loading late fee rule:', err);
+      setError('Failed to load late fee rules');
+    }
+  };
+
+  const loadSlaTargets = async (propertyId: string) => {
+    try {
+      setSlaTargets(resolveSlaTargets(await maintenanceSlaTargetService.getByPropertyId(propertyId)));
+    } catch (err) {
+      console.error('Error loading SLA targets:', err);
+      setError('Failed to load SLA targets');
+    }
+  };
+
   const loadSettings = async () => {
     try {
       setIsLoading(true);
       const data = await settingsService.get();
       setSettings(data);
+      setLeaseReminderInput((data.lease_expiry_reminder_days || []).join(', '));
     } catch (err) {
       console.error('Error loading settings:', err);
       setError('Failed to load settings');
@@ -89,6 +147,21 @@ const Settings: React.FC = () => {
     try {
       // Update user settings
       await settingsService.update(settings);
+
+      // Late fee rules belong to the currently selected property
+      if (selectedProperty?.id && hasPermission('manage_settings')) {
+        await lateFeeRuleService.upsert({
+          ...lateFeeRule,
+          property_id: selectedProperty.id
+        });
+        // Resolving can never be due before starting
+        await maintenanceSlaTargetService.upsert(SLA_PRIORITIES.map(priority => ({
+          start_hours: slaTargets[priority].start_hours,
+          resolve_hours: Math.max(slaTargets[priority].start_hours, slaTargets[priority].resolve_hours),
+          priority,
+          property_id: selectedProperty.id
+        })));
+      }
       
       // Update user profile if changed
       const { data: { user } } = await supabase.auth.getUser();
@@ -162,6 +235,34 @@ const Settings: React.FC = () => {
     }));
   };
 
+  // Keep the raw text so commas can be typed; the settings hold the parsed days
+  const handleLeaseReminderChange = (value: string) => {
+    setLeaseReminderInput(value);
+    const days = value
+      .split(',')
+      .map(day => parseInt(day.trim()))
+      .filter(day => !isNaN(day) && day > 0);
+    handleSettingChange('lease_expiry_reminder_days', [...new Set(days)].sort((a, b) => b - a));
+  };
+
+  const handleLateFeeChange = <K extends keyof LateFeeRuleForm>(key: K, value: LateFeeRuleForm[K]) => {
+    setLateFeeRule(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  const handleSlaTargetChange = (
+    priority: keyof typeof DEFAULT_SLA_TARGETS,
+    key: 'start_hours' | 'resolve_hours',
+    value: number
+  ) => {
+    setSlaTargets(prev => ({
+      ...prev,
+      [priority]: { ...prev[priority], [key]: value }
+    }));
+  };
+
   const handleProfileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setProfile(prev => ({
@@ -333,6 +434,196 @@ const Settings: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-4">Pengaturan Masa Sewa</h3>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Pengingat Sebelum Masa Sewa Berakhir (hari)
+                </label>
+                <input
+                  type="text"
+                  value={leaseReminderInput}
+                  onChange={(e) => handleLeaseReminderChange(e.target.value)}
+                  placeholder="30, 14, 7"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Pisahkan dengan koma. Sewa yang berakhir tanpa diperpanjang akan berstatus menunggu keluar.
+                </p>
+              </div>
+            </div>
+          </div>
+        );
+
+      case 'members':
+        if (!selectedProperty) {
+          return (
+            <p className="text-gray-500">Pilih properti terlebih dahulu untuk mengelola anggota.</p>
+          );
+        }
+
+        return <PropertyMembers property={selectedProperty} />;
+
+      case 'backups':
+        if (!selectedProperty) {
+          return (
+            <p className="text-gray-500">Pilih properti terlebih dahulu untuk mengelola cadangan data.</p>
+          );
+        }
+
+        return <PropertyBackups property={selectedProperty} />;
+
+      case 'late_fees':
+        if (!selectedProperty) {
+          return (
+            <p className="text-gray-500">Pilih properti terlebih dahulu untuk mengatur denda keterlambatan.</p>
+          );
+        }
+
+        return (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700">Aktifkan Denda Keterlambatan</h3>
+                <p className="text-sm text-gray-500">Denda ditambahkan otomatis ke tagihan yang terlambat di {selectedProperty.name}</p>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={lateFeeRule.enabled}
+                  onChange={() => handleLateFeeChange('enabled', !lateFeeRule.enabled)}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Masa Tenggang (hari)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={lateFeeRule.grace_period_days}
+                onChange={(e) => handleLateFeeChange('grace_period_days', parseInt(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Denda mulai dihitung setelah masa tenggang berakhir
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Denda Tetap (Rp)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={lateFeeRule.flat_amount}
+                onChange={(e) => handleLateFeeChange('flat_amount', parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Denda Persentase (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={lateFeeRule.percentage}
+                  onChange={(e) => handleLateFeeChange('percentage', parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Dihitung Per
+                </label>
+                <select
+                  value={lateFeeRule.percentage_interval}
+                  onChange={(e) => handleLateFeeChange('percentage_interval', e.target.value as LateFeeRuleForm['percentage_interval'])}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="day">Hari</option>
+                  <option value="week">Minggu</option>
+                </select>
+              </div>
+            </div>
+            <p className="-mt-4 text-sm text-gray-500">
+              Persentase dari harga sewa untuk setiap hari atau minggu keterlambatan
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Batas Maksimal Denda (Rp)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={lateFeeRule.max_amount ?? ''}
+                onChange={(e) => handleLateFeeChange('max_amount', e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+                placeholder="Tanpa batas"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        );
+
+      case 'sla':
+        if (!selectedProperty) {
+          return (
+            <p className="text-gray-500">Pilih properti terlebih dahulu untuk mengatur SLA pemeliharaan.</p>
+          );
+        }
+
+        return (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-500">
+              Batas waktu sejak permintaan dilaporkan untuk mulai dikerjakan dan untuk diselesaikan di {selectedProperty.name}.
+              Pemilik, admin dan manajer mendapat notifikasi saat batas terlewati. Perubahan berlaku untuk permintaan baru.
+            </p>
+
+            {SLA_PRIORITIES.map(priority => (
+              <div key={priority}>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  Prioritas {translateMaintenancePriority(priority)}
+                </h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">
+                      Mulai dikerjakan dalam (jam)
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={slaTargets[priority].start_hours}
+                      onChange={(e) => handleSlaTargetChange(priority, 'start_hours', parseInt(e.target.value) || 1)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">
+                      Selesai dalam (jam)
+                    </label>
+                    <input
+                      type="number"
+                      min={slaTargets[priority].start_hours}
+                      value={slaTargets[priority].resolve_hours}
+                      onChange={(e) => handleSlaTargetChange(priority, 'resolve_hours', parseInt(e.target.value) || 1)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
           </div>
         );
 
@@ -462,6 +753,62 @@ const Settings: React.FC = () => {
                 Preferensi
               </button>
 
+              {hasPermission('manage_settings') && (
+                <button
+                  onClick={() => setActiveTab('late_fees')}
+                  className={`w-full flex items-center px-4 py-2 text-sm font-medium ${
+                    activeTab === 'late_fees'
+                      ? 'text-blue-700 bg-blue-50 border-l-4 border-blue-700'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                  }`}
+                >
+                  <Percent size={20} className="mr-3" />
+                  Denda Keterlambatan
+                </button>
+              )}
+
+              {hasPermission('manage_settings') && (
+                <button
+                  onClick={() => setActiveTab('sla')}
+                  className={`w-full flex items-center px-4 py-2 text-sm font-medium ${
+                    activeTab === 'sla'
+                      ? 'text-blue-700 bg-blue-50 border-l-4 border-blue-700'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                  }`}
+                >
+                  <Timer size={20} className="mr-3" />
+                  SLA Pemeliharaan
+                </button>
+              )}
+
+              {hasPermission('manage_members') && (
+                <button
+                  onClick={() => setActiveTab('members')}
+                  className={`w-full flex items-center px-4 py-2 text-sm font-medium ${
+                    activeTab === 'members'
+                      ? 'text-blue-700 bg-blue-50 border-l-4 border-blue-700'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                  }`}
+                >
+                  <Users size={20} className="mr-3" />
+                  Anggota
+                </button>
+              )}
+
+              {hasPermission('manage_backups') && (
+                <button
+                  onClick={() => setActiveTab('backups')}
+                  className={`w-full flex items-center px-4 py-2 text-sm font-medium ${
+                    activeTab === 'backups'
+                      ? 'text-blue-700 bg-blue-50 border-l-4 border-blue-700'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                  }`}
+                >
+                  <Archive size={20} className="mr-3" />
+                  Cadangan Data
+                </button>
+              )}
+
               <button
                 onClick={() => setActiveTab('security')}
                 className={`w-full flex items-center px-4 py-2 text-sm font-medium ${
@@ -483,15 +830,21 @@ const Settings: React.FC = () => {
               Pengaturan {activeTab === 'profile' ? 'Profil' :
                          activeTab === 'notifications' ? 'Notifikasi' :
                          activeTab === 'preferences' ? 'Preferensi' :
+                         activeTab === 'late_fees' ? 'Denda Keterlambatan' :
+                         activeTab === 'sla' ? 'SLA Pemeliharaan' :
+                         activeTab === 'members' ? 'Anggota' :
+                         activeTab === 'backups' ? 'Cadangan Data' :
                          'Keamanan'}
             </h2>
-            <Button 
-              icon={<Save size={16} />}
-              onClick={handleSaveChanges}
-              disabled={isSaving}
-            >
-              {isSaving ? 'Menyimpan...' : 'Simpan Perubahan'}
-            </Button>
+            {activeTab !== 'backups' && activeTab !== 'members' && (
+              <Button 
+                icon={<Save size={16} />}
+                onClick={handleSaveChanges}
+                disabled={isSaving}
+              >
+                {isSaving ? 'Menyimpan...' : 'Simpan Perubahan'}
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             {renderTabContent()}
@@ -1,16 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import TenantsList from '../components/tenants/TenantsList';
 import TenantForm from '../components/tenants/TenantForm';
-import { Tenant, Room } from '../types';
-import { tenantService, roomService } from '../services/supabase';
+import DepositDetails from '../components/tenants/DepositDetails';
+import ContractDetails from '../components/tenants/ContractDetails';
+import CheckOutForm from '../components/tenants/CheckOutForm';
+import RoomTransferForm from '../components/tenants/RoomTransferForm';
+import TenancyHistoryList from '../components/tenants/TenancyHistoryList';
+import BulkImportWizard from '../components/import/BulkImportWizard';
+import { Tenant, Room, TenantDeposit, MaintenanceRequest, TenancyHistory } from '../types';
+import { tenantService, roomService, depositService, maintenanceService, tenancyService } from '../services/supabase';
 import { useProperty } from '../contexts/PropertyContext';
 import { Loader2 } from 'lucide-react';
 
 const Tenants: React.FC = () => {
-  const { selectedProperty } = useProperty();
+  const { selectedProperty, hasPermission } = useProperty();
   const [allTenants, setAllTenants] = useState<Tenant[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
+  const [deposits, setDeposits] = useState<TenantDeposit[]>([]);
+  const [maintenanceRequests, setMaintenanceRequests] = useState<MaintenanceRequest[]>([]);
+  const [history, setHistory] = useState<TenancyHistory[]>([]);
+  const [depositTenant, setDepositTenant] = useState<Tenant | undefined>();
+  const [contractTenant, setContractTenant] = useState<Tenant | undefined>();
+  const [checkOutTenant, setCheckOutTenant] = useState<Tenant | undefined>();
+  const [transferTenant, setTransferTenant] = useState<Tenant | undefined>();
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingTenant, setEditingTenant] = useState<Tenant | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -22,14 +36,21 @@ const Tenants: React.FC = () => {
       setIsLoading(true);
       setError(null);
       
-      // Load both tenants and rooms
-      const [tenantsData, roomsData] = await Promise.all([
+      // Load tenants, rooms, deposits, the maintenance requests deposit
+      // deductions can be linked to and past tenancies
+      const [tenantsData, roomsData, depositsData, maintenanceData, historyData] = await Promise.all([
         tenantService.getByPropertyId(selectedProperty.id),
-        roomService.getByPropertyId(selectedProperty.id)
+        roomService.getByPropertyId(selectedProperty.id),
+        depositService.getByPropertyId(selectedProperty.id),
+        maintenanceService.getByPropertyId(selectedProperty.id),
+        tenancyService.getByPropertyId(selectedProperty.id)
       ]);
       
       setAllTenants(tenantsData);
       setRooms(roomsData);
+      setDeposits(depositsData);
+      setMaintenanceRequests(maintenanceData);
+      setHistory(historyData);
     } catch (err) {
       console.error('Error loading data:', err);
       setError('Gagal memuat data. Silakan coba lagi.');
@@ -53,6 +74,36 @@ const Tenants: React.FC = () => {
     setShowForm(true);
   };
 
+  const handleManageDeposit = (id: string) => {
+    setDepositTenant(allTenants.find(t => t.id === id));
+  };
+
+  const handleManageContract = (id: string) => {
+    setContractTenant(allTenants.find(t => t.id === id));
+  };
+
+  const handleTransferRoom = (id: string) => {
+    setTransferTenant(allTenants.find(t => t.id === id));
+  };
+
+  const handleTransferred = async () => {
+    setTransferTenant(undefined);
+    await loadData();
+  };
+
+  const handleCheckOut = (id: string) => {
+    setCheckOutTenant(allTenants.find(t => t.id === id));
+  };
+
+  const handleCheckedOut = async () => {
+    setCheckOutTenant(undefined);
+    await loadData();
+  };
+
+  const handleDepositUpdated = (deposit: TenantDeposit) => {
+    setDeposits(prev => [...prev.filter(d => d.id !== deposit.id), deposit]);
+  };
+
   const handleDeleteTenant = async (id: string) => {
     if (!selectedProperty) return;
     
@@ -122,12 +173,32 @@ const Tenants: React.FC = () => {
       <TenantsList
         tenants={allTenants}
         rooms={rooms}
-        onAddTenant={handleAddTenant}
-        onEditTenant={handleEditTenant}
-        onDeleteTenant={handleDeleteTenant}
+        deposits={deposits}
+        onAddTenant={hasPermission('manage_tenants') ? handleAddTenant : undefined}
+        onImportTenants={hasPermission('manage_tenants') ? () => setShowImport(true) : undefined}
+        onEditTenant={hasPermission('manage_tenants') ? handleEditTenant : undefined}
+        onDeleteTenant={hasPermission('delete_records') ? handleDeleteTenant : undefined}
+        onManageDeposit={hasPermission('manage_leases') ? handleManageDeposit : undefined}
+        onManageContract={hasPermission('manage_leases') ? handleManageContract : undefined}
+        onTransferRoom={hasPermission('manage_leases') ? handleTransferRoom : undefined}
+        onCheckOut={hasPermission('manage_leases') ? handleCheckOut : undefined}
         isLoading={isLoading}
       />
 
+      <TenancyHistoryList history={history} />
+
+      {showImport && selectedProperty && (
+        <BulkImportWizard
+          propertyId={selectedProperty.id}
+          initialEntity="tenants"
+          onClose={() => setShowImport(false)}
+          onImported={async () => {
+            setShowImport(false);
+            await loadData();
+          }}
+        />
+      )}
+
       {showForm && (
         <TenantForm
           tenant={editingTenant}
@@ -139,6 +210,44 @@ const Tenants: React.FC = () => {
           }}
         />
       )}
+
+      {depositTenant && (
+        <DepositDetails
+          tenant={depositTenant}
+          deposit={deposits.find(d => d.tenant_id === depositTenant.id) || null}
+          maintenanceRequests={maintenanceRequests}
+          onDepositUpdated={handleDepositUpdated}
+          onClose={() => setDepositTenant(undefined)}
+        />
+      )}
+
+      {contractTenant && (
+        <ContractDetails
+          tenant={contractTenant}
+          room={rooms.find(r => r.id === contractTenant.room_id)}
+          deposit={deposits.find(d => d.tenant_id === contractTenant.id) || null}
+          onClose={() => setContractTenant(undefined)}
+        />
+      )}
+
+      {transferTenant && (
+        <RoomTransferForm
+          tenant={transferTenant}
+          rooms={rooms}
+          onTransferred={handleTransferred}
+          onClose={() => setTransferTenant(undefined)}
+        />
+      )}
+
+      {checkOutTenant && (
+        <CheckOutForm
+          tenant={checkOutTenant}
+          room={rooms.find(r => r.id === checkOutTenant.room_id)}
+          deposit={deposits.find(d => d.tenant_id === checkOutTenant.id) || null}
+          onCheckedOut={handleCheckedOut}
+          onClose={() => setCheckOutTenant(undefined)}
+        />
+      )}
     </div>
   );
 };
@@ -20,13 +20,10 @@ import StatCard from '../../components/ui/StatCard';
 import Button from '../../components/ui/Button';
 import { formatCurrency } from '../../utils/formatters';
 import { supabase } from '../../lib/supabase';
+import { BackofficeStats } from '../../types/backoffice';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 
-interface DashboardStats {
-  total_users: number;
-  total_properties: number;
-  total_revenue: number;
-  active_tenants: number;
+interface DashboardStats extends BackofficeStats {
   monthly_revenue: any[];
   user_growth: any[];
   property_distribution: { city: string; count: number }[];
@@ -40,9 +37,17 @@ interface DashboardStats {
     total: number;
     active: number;
     cancelled: number;
-    revenue: number;
-    growth_rate: number;
+    mrr: number;
+    mrr_growth: number;
+    churn_rate: number;
   };
+  upcoming_renewals: {
+    id: string;
+    user_email?: string;
+    plan_name: string;
+    amount: number;
+    renews_at: string;
+  }[];
   system_health: {
     active_properties: number;
     total_rooms: number;
@@ -51,6 +56,24 @@ interface DashboardStats {
   };
 }
 
+interface MonthlyRevenue {
+  month: string;
+  revenue: number;
+}
+
+interface SubscriptionKpis {
+  total: number;
+  active: number;
+  cancelled: number;
+  mrr: number;
+  previous_mrr: number;
+  active_at_window_start: number;
+  churned: number;
+}
+
+const CHURN_WINDOW_DAYS = 30;
+const RENEWAL_WINDOW_DAYS = 14;
+
 const BackofficeDashboard: React.FC = () => {
   const [stats, setStats] = useState<DashboardStats>({
     total_users: 0,
@@ -65,9 +88,11 @@ const BackofficeDashboard: React.FC = () => {
       total: 0,
       active: 0,
       cancelled: 0,
-      revenue: 0,
-      growth_rate: 0
+      mrr: 0,
+      mrr_growth: 0,
+      churn_rate: 0
     },
+    upcoming_renewals: [],
     system_health: {
       active_properties: 0,
       total_rooms: 0,
@@ -101,26 +126,23 @@ const BackofficeDashboard: React.FC = () => {
         .from('properties')
         .select('*', { count: 'exact', head: true });
 
-      // Get total revenue
-      const { data: revenueData } = await supabase
-        .from('payments')
-        .select('amount, created_at')
-        .eq('status', 'paid')
-        .gte('created_at', dateRange.start)
-        .lte('created_at', dateRange.end);
+      // Get total revenue from subscription invoices, summed per month by
+      // the database. PPN is collected for the tax office, so revenue is
+      // counted before tax; credits from downgrades reduce it.
+      const { data, error: revenueError } = await supabase
+        .rpc('subscription_revenue_by_month', { p_start: dateRange.start, p_end: dateRange.end });
+      if (revenueError) throw revenueError;
 
-      const totalRevenue = revenueData?.reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
+      const revenueData = (data || []) as MonthlyRevenue[];
+      const totalRevenue = revenueData.reduce((sum, row) => sum + Number(row.revenue), 0);
 
       // Get monthly revenue data
       const monthlyRevenue = Array.from({ length: 6 }, (_, i) => {
         const date = new Date();
         date.setMonth(date.getMonth() - i);
         const month = date.toLocaleString('default', { month: 'short' });
-        const revenue = revenueData?.filter(payment => {
-          const paymentDate = new Date(payment.created_at);
-          return paymentDate.getMonth() === date.getMonth() && 
-                 paymentDate.getFullYear() === date.getFullYear();
-        }).reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
+        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+        const revenue = Number(revenueData.find(row => row.month.startsWith(monthKey))?.revenue || 0);
         return { month, revenue };
       }).reverse();
 
@@ -175,35 +197,41 @@ const BackofficeDashboard: React.FC = () => {
         })
       );
 
-      // Get subscription stats
-      const { data: subscriptions } = await supabase
-        .from('subscriptions')
-        .select('*, subscription_plans(price)')
-        .order('created_at', { ascending: false });
-
-      const currentMonth = new Date().getMonth();
-      const lastMonth = new Date().setMonth(currentMonth - 1);
-      
-      const currentMonthSubs = subscriptions?.filter(s => 
-        new Date(s.created_at).getMonth() === currentMonth
-      ).length || 0;
-      
-      const lastMonthSubs = subscriptions?.filter(s => 
-        new Date(s.created_at).getMonth() === new Date(lastMonth).getMonth()
-      ).length || 0;
-
-      const growthRate = lastMonthSubs > 0 
-        ? ((currentMonthSubs - lastMonthSubs) / lastMonthSubs) * 100 
-        : 0;
+      // Get subscription stats. MRR and churn are computed by the
+      // database: churn is the share of the subscriptions active at the
+      // start of the window that ended within it.
+      const [
+        { data: kpiData, error: kpiError },
+        { data: renewalData, error: renewalError }
+      ] = await Promise.all([
+        supabase.rpc('subscription_kpis', { p_window_days: CHURN_WINDOW_DAYS }),
+        supabase.rpc('upcoming_subscription_renewals', { p_days: RENEWAL_WINDOW_DAYS })
+      ]);
+      if (kpiError) throw kpiError;
+      if (renewalError) throw renewalError;
+
+      const kpis = (kpiData as SubscriptionKpis[] | null)?.[0];
+      const mrr = Number(kpis?.mrr || 0);
+      const previousMrr = Number(kpis?.previous_mrr || 0);
 
       const subscriptionStats = {
-        total: subscriptions?.length || 0,
-        active: subscriptions?.filter(s => s.status === 'active').length || 0,
-        cancelled: subscriptions?.filter(s => s.status === 'cancelled').length || 0,
-        revenue: subscriptions?.reduce((sum, s) => sum + (s.subscription_plans?.price || 0), 0) || 0,
-        growth_rate: Math.round(growthRate)
+        total: kpis?.total || 0,
+        active: kpis?.active || 0,
+        cancelled: kpis?.cancelled || 0,
+        mrr,
+        mrr_growth: previousMrr > 0 ? Math.round(((mrr - previousMrr) / previousMrr) * 100) : 0,
+        churn_rate: kpis?.active_at_window_start
+          ? Math.round((kpis.churned / kpis.active_at_window_start) * 1000) / 10
+          : 0
       };
 
+      const upcomingRenewals = ((renewalData || []) as DashboardStats['upcoming_renewals']).map(renewal => ({
+        ...renewal,
+        user_email: renewal.user_email ?? undefined,
+        plan_name: renewal.plan_name || '-',
+        amount: Number(renewal.amount)
+      }));
+
       // Get system health stats
       const [
         { count: activePropertiesCount },
@@ -251,6 +279,7 @@ const BackofficeDashboard: React.FC = () => {
         property_distribution: distribution,
         recent_activities: activities || [],
         subscription_stats: subscriptionStats,
+        upcoming_renewals: upcomingRenewals,
         system_health: systemHealth
       });
     } catch (err) {
@@ -355,8 +384,9 @@ const BackofficeDashboard: React.FC = () => {
             <div className="bg-red-50 p-4 rounded-lg">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-red-600">Cancelled</p>
-                  <p className="text-2xl font-bold text-red-900">{stats.subscription_stats.cancelled}</p>
+                  <p className="text-sm text-red-600">Churn (last {CHURN_WINDOW_DAYS} days)</p>
+                  <p className="text-2xl font-bold text-red-900">{stats.subscription_stats.churn_rate}%</p>
+                  <p className="text-xs text-red-600">{stats.subscription_stats.cancelled} ended in total</p>
                 </div>
                 <XCircle className="text-red-500" size={24} />
               </div>
@@ -364,8 +394,8 @@ const BackofficeDashboard: React.FC = () => {
             <div className="bg-blue-50 p-4 rounded-lg">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-blue-600">Total Revenue</p>
-                  <p className="text-2xl font-bold text-blue-900">{formatCurrency(stats.subscription_stats.revenue)}</p>
+                  <p className="text-sm text-blue-600">MRR</p>
+                  <p className="text-2xl font-bold text-blue-900">{formatCurrency(stats.subscription_stats.mrr)}</p>
                 </div>
                 <DollarSign className="text-blue-500" size={24} />
               </div>
@@ -373,13 +403,38 @@ const BackofficeDashboard: React.FC = () => {
             <div className="bg-purple-50 p-4 rounded-lg">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-purple-600">Monthly Growth</p>
-                  <p className="text-2xl font-bold text-purple-900">{stats.subscription_stats.growth_rate}%</p>
+                  <p className="text-sm text-purple-600">MRR Growth (last {CHURN_WINDOW_DAYS} days)</p>
+                  <p className="text-2xl font-bold text-purple-900">{stats.subscription_stats.mrr_growth}%</p>
                 </div>
                 <TrendingUp className="text-purple-500" size={24} />
               </div>
             </div>
           </div>
+
+          <div className="mt-6">
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              Upcoming Renewals (next {RENEWAL_WINDOW_DAYS} days)
+            </h3>
+            {stats.upcoming_renewals.length === 0 ? (
+              <p className="text-sm text-gray-500">No renewals due</p>
+            ) : (
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {stats.upcoming_renewals.map(renewal => (
+                  <div key={renewal.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Calendar size={16} className="text-gray-400 flex-shrink-0" />
+                      <span className="text-gray-900 truncate">{renewal.user_email || renewal.id}</span>
+                      <span className="text-gray-500">{renewal.plan_name}</span>
+                    </div>
+                    <div className="flex items-center gap-4 flex-shrink-0">
+                      <span className="text-gray-900">{formatCurrency(renewal.amount)}</span>
+                      <span className="text-gray-500">{new Date(renewal.renews_at).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
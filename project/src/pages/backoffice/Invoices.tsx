@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import { Search, Loader2, Download, CheckCircle } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { formatCurrency } from '../../utils/formatters';
+import { generateSubscriptionInvoicePDF } from '../../utils/subscriptionInvoices';
+import { SubscriptionInvoice } from '../../types/subscription';
+import { format } from 'date-fns';
+import { id } from 'date-fns/locale';
+
+interface Invoice extends SubscriptionInvoice {
+  user_email?: string;
+}
+
+const STATUS_BADGES: Record<SubscriptionInvoice['status'], string> = {
+  unpaid: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  credited: 'bg-blue-100 text-blue-800'
+};
+
+const Invoices: React.FC = () => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInvoices();
+  }, []);
+
+  const loadInvoices = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data: invoicesData, error: invoicesError } = await supabase
+        .from('subscription_invoices')
+        .select('*, items:subscription_invoice_items (*)')
+        .order('created_at', { ascending: false })
+        .order('created_at', { referencedTable: 'subscription_invoice_items', ascending: true });
+
+      if (invoicesError) throw invoicesError;
+
+      // Then get the user emails from auth.users
+      const { data: userData, error: userError } = await supabase.auth.admin.listUsers();
+
+      if (userError) throw userError;
+
+      setInvoices((invoicesData as SubscriptionInvoice[]).map(invoice => ({
+        ...invoice,
+        user_email: userData.users.find(u => u.id === invoice.user_id)?.email
+      })));
+    } catch (err) {
+      console.error('Error loading invoices:', err);
+      setError('Failed to load invoices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Paying an invoice also reactivates a subscription that expired over it
+  const handleMarkPaid = async (invoice: Invoice) => {
+    if (!confirm(`Mark invoice ${invoice.invoice_number} as paid?`)) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .rpc('mark_subscription_invoice_paid', { p_invoice_id: invoice.id });
+
+      if (updateError) throw updateError;
+
+      await loadInvoices();
+    } catch (err) {
+      console.error('Error marking invoice paid:', err);
+      setError('Failed to mark invoice as paid');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredInvoices = invoices.filter(invoice =>
+    (statusFilter === 'all' || invoice.status === statusFilter) &&
+    (invoice.invoice_number.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      invoice.user_email?.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  const outstanding = invoices
+    .filter(invoice => invoice.status === 'unpaid')
+    .reduce((sum, invoice) => sum + Number(invoice.total), 0);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Invoices</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Subscription Invoices</h2>
+            <p className="text-sm text-gray-500">Outstanding: {formatCurrency(outstanding)}</p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All statuses</option>
+              <option value="unpaid">Unpaid</option>
+              <option value="paid">Paid</option>
+              <option value="credited">Credited</option>
+            </select>
+            <div className="relative w-full sm:w-64">
+              <input
+                type="text"
+                placeholder="Search invoices..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Invoice
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Subtotal
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    PPN
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Total
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-4 text-center">
+                      <Loader2 className="h-6 w-6 text-blue-600 animate-spin mx-auto" />
+                    </td>
+                  </tr>
+                ) : filteredInvoices.length > 0 ? (
+                  filteredInvoices.map((invoice) => (
+                    <tr key={invoice.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{invoice.invoice_number}</div>
+                        <div className="text-sm text-gray-500">
+                          {format(new Date(invoice.created_at), 'dd MMM yyyy', { locale: id })}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-900">{invoice.user_email}</div>
+                        <div className="text-sm text-gray-500">{invoice.description}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatCurrency(invoice.amount)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatCurrency(invoice.tax_amount)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium text-gray-900">
+                        {formatCurrency(invoice.total)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge className={STATUS_BADGES[invoice.status]}>
+                          {invoice.status}
+                        </Badge>
+                        {invoice.status === 'unpaid' && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Due {format(new Date(invoice.due_at), 'dd MMM yyyy', { locale: id })}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            icon={<Download size={14} />}
+                            onClick={() => generateSubscriptionInvoicePDF(invoice, invoice.user_email || invoice.user_id)}
+                          >
+                            PDF
+                          </Button>
+                          {invoice.status === 'unpaid' && (
+                            <Button
+                              variant="success"
+                              size="sm"
+                              icon={<CheckCircle size={14} />}
+                              onClick={() => handleMarkPaid(invoice)}
+                              disabled={isLoading}
+                            >
+                              Mark Paid
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
+                      No invoices found
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Invoices;
@@ -184,14 +184,8 @@ const BackofficeProperties: React.FC = () => {
           r.status === 'pending' || r.status === 'in-progress'
         ).length || 0;
 
-        const maintenanceCosts = maintenanceRequests?.reduce((sum, request) => {
-          // Assuming there's a cost field or estimating based on priority
-          const estimatedCost = 
-            request.priority === 'high' ? 1000000 :
-            request.priority === 'medium' ? 500000 :
-            250000;
-          return sum + estimatedCost;
-        }, 0) || 0;
+        const maintenanceCosts = maintenanceRequests?.reduce((sum, request) =>
+          sum + Number(request.total_cost), 0) || 0;
 
         stats[property.id] = {
           id: property.id,
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { Payment } from '../../types';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Badge from '../../components/ui/Badge';
+import { DoorClosed, CalendarDays, Loader2 } from 'lucide-react';
+import {
+  formatCurrency,
+  formatDate,
+  getPaymentStatusColor,
+  getTenantStatusColor,
+  translatePaymentStatus,
+  translateTenantStatus
+} from '../../utils/formatters';
+import { describeLeaseDaysRemaining, getLeaseDaysRemaining } from '../../utils/leases';
+import { portalService } from '../../services/supabase';
+import { useTenantPortal } from '../../contexts/TenantPortalContext';
+
+const getOutstanding = (payment: Payment) =>
+  Math.max(0, payment.amount + Number(payment.fee_amount || 0) - Number(payment.amount_paid || 0));
+
+const Home: React.FC = () => {
+  const { tenancy } = useTenantPortal();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPayments = async () => {
+      if (!tenancy) return;
+
+      try {
+        setIsLoading(true);
+        setPayments(await portalService.getPayments(tenancy.tenant.id));
+      } catch (err) {
+        console.error('Error loading payments:', err);
+        setError('Gagal memuat tagihan. Silakan coba lagi.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPayments();
+  }, [tenancy]);
+
+  if (!tenancy) return null;
+
+  const { tenant, room } = tenancy;
+  const outstandingBills = payments
+    .filter(payment => payment.status !== 'paid' && getOutstanding(payment) > 0)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+  const totalOutstanding = outstandingBills.reduce((sum, payment) => sum + getOutstanding(payment), 0);
+  const daysRemaining = getLeaseDaysRemaining(tenant.end_date);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Halo, {tenant.name}</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="flex items-center gap-2">
+            <DoorClosed size={20} className="text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-800">Kamar Anda</h2>
+          </CardHeader>
+          <CardContent>
+            {room ? (
+              <div className="space-y-1">
+                <p className="text-xl font-semibold text-gray-900">Kamar {room.number}</p>
+                <p className="text-sm text-gray-500">Lantai {room.floor} · {room.type}</p>
+                <p className="text-sm text-gray-700">{formatCurrency(room.price)}/bulan</p>
+                {room.facilities?.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pt-2">
+                    {room.facilities.map(facility => (
+                      <Badge key={facility} className="bg-gray-100 text-gray-700">{facility}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Belum ada kamar yang ditetapkan.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex items-center gap-2">
+            <CalendarDays size={20} className="text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-800">Masa Sewa</h2>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            <p className="text-gray-900">{formatDate(tenant.start_date)} - {formatDate(tenant.end_date)}</p>
+            <p className={`text-sm ${daysRemaining < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+              {describeLeaseDaysRemaining(daysRemaining)}
+            </p>
+            <Badge className={getTenantStatusColor(tenant.status)}>
+              {translateTenantStatus(tenant.status)}
+            </Badge>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800">Tagihan Belum Lunas</h2>
+          <span className={`font-semibold ${totalOutstanding > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {formatCurrency(totalOutstanding)}
+          </span>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+            </div>
+          ) : outstandingBills.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">Semua tagihan sudah lunas.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {outstandingBills.map(payment => (
+                <div key={payment.id} className="px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">Jatuh Tempo {formatDate(payment.due_date)}</p>
+                    {Number(payment.fee_amount || 0) > 0 && (
+                      <p className="text-sm text-red-600">Termasuk denda {formatCurrency(Number(payment.fee_amount))}</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium">{formatCurrency(getOutstanding(payment))}</p>
+                    <Badge className={getPaymentStatusColor(payment.status)}>
+                      {translatePaymentStatus(payment.status)}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Home;
@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { MaintenanceRequest } from '../../types';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Badge from '../../components/ui/Badge';
+import Button from '../../components/ui/Button';
+import { Plus, Loader2 } from 'lucide-react';
+import {
+  formatDate,
+  getMaintenancePriorityColor,
+  getMaintenanceStatusColor,
+  translateMaintenancePriority,
+  translateMaintenanceStatus
+} from '../../utils/formatters';
+import { portalService } from '../../services/supabase';
+import { useTenantPortal } from '../../contexts/TenantPortalContext';
+
+const emptyRequest = {
+  title: '',
+  description: '',
+  priority: 'medium' as MaintenanceRequest['priority']
+};
+
+const Maintenance: React.FC = () => {
+  const { tenancy } = useTenantPortal();
+  const [requests, setRequests] = useState<MaintenanceRequest[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyRequest);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRequests = async () => {
+      if (!tenancy) return;
+
+      try {
+        setIsLoading(true);
+        setRequests(await portalService.getMaintenanceRequests(tenancy.tenant.id));
+      } catch (err) {
+        console.error('Error loading maintenance requests:', err);
+        setError('Gagal memuat permintaan pemeliharaan. Silakan coba lagi.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRequests();
+  }, [tenancy]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tenancy) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const request = await portalService.submitMaintenanceRequest(tenancy, formData);
+      setRequests(prev => [request, ...prev]);
+      setFormData(emptyRequest);
+      setShowForm(false);
+    } catch (err) {
+      console.error('Error submitting maintenance request:', err);
+      setError('Gagal mengirim permintaan. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canSubmit = !!tenancy?.tenant.room_id;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Pemeliharaan</h1>
+        {canSubmit && !showForm && (
+          <Button icon={<Plus size={16} />} onClick={() => setShowForm(true)}>
+            Laporkan Masalah
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-800">Laporkan Masalah</h2>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Judul
+                </label>
+                <input
+                  type="text"
+                  name="title"
+                  value={formData.title}
+                  onChange={handleChange}
+                  placeholder="Contoh: Keran kamar mandi bocor"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Deskripsi
+                </label>
+                <textarea
+                  name="description"
+                  value={formData.description}
+                  onChange={handleChange}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Prioritas
+                </label>
+                <select
+                  name="priority"
+                  value={formData.priority}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={isSubmitting}
+                >
+                  <option value="low">Rendah</option>
+                  <option value="medium">Sedang</option>
+                  <option value="high">Tinggi</option>
+                </select>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button
+                  variant="outline"
+                  type="button"
+                  onClick={() => {
+                    setShowForm(false);
+                    setFormData(emptyRequest);
+                  }}
+                >
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Mengirim...' : 'Kirim'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-800">Permintaan Anda</h2>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">Belum ada permintaan pemeliharaan.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {requests.map(request => (
+                <div key={request.id} className="px-6 py-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{request.title}</p>
+                      <p className="text-sm text-gray-600">{request.description}</p>
+                      <p className="text-sm text-gray-500 mt-1">{formatDate(request.date)}</p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <Badge className={getMaintenanceStatusColor(request.status)}>
+                        {translateMaintenanceStatus(request.status)}
+                      </Badge>
+                      <Badge className={getMaintenancePriorityColor(request.priority)}>
+                        {translateMaintenancePriority(request.priority)}
+                      </Badge>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Maintenance;
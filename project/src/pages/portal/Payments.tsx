@@ -0,0 +1,162 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Payment } from '../../types';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Badge from '../../components/ui/Badge';
+import Button from '../../components/ui/Button';
+import OnlinePaymentPanel from '../../components/payments/OnlinePaymentPanel';
+import { CreditCard, Loader2, X } from 'lucide-react';
+import {
+  formatCurrency,
+  formatDate,
+  getPaymentStatusColor,
+  translatePaymentMethod,
+  translatePaymentStatus
+} from '../../utils/formatters';
+import { portalService } from '../../services/supabase';
+import { useTenantPortal } from '../../contexts/TenantPortalContext';
+
+const Payments: React.FC = () => {
+  const { tenancy } = useTenantPortal();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [payingPayment, setPayingPayment] = useState<Payment | null>(null);
+
+  const loadPayments = useCallback(async () => {
+    if (!tenancy) return;
+
+    try {
+      setIsLoading(true);
+      setPayments(await portalService.getPayments(tenancy.tenant.id));
+    } catch (err) {
+      console.error('Error loading payments:', err);
+      setError('Gagal memuat riwayat pembayaran. Silakan coba lagi.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenancy]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  const getOutstanding = (payment: Payment) =>
+    payment.amount + Number(payment.fee_amount || 0) - Number(payment.amount_paid || 0);
+
+  const handlePaid = async () => {
+    setPayingPayment(null);
+    await loadPayments();
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Riwayat Pembayaran</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-800">Tagihan Sewa</h2>
+        </CardHeader>
+        <CardContent className="p-0 overflow-x-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jatuh Tempo</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tagihan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dibayar</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {payments.length > 0 ? (
+                  payments.map(payment => (
+                    <tr key={payment.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-gray-900">{formatDate(payment.due_date)}</div>
+                        {payment.period_start && payment.period_end && (
+                          <div className="text-gray-500 text-sm">
+                            {formatDate(payment.period_start)} - {formatDate(payment.period_end)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-gray-900">{formatCurrency(payment.amount)}</div>
+                        {Number(payment.fee_amount || 0) > 0 && (
+                          <div className="text-sm text-red-600">+ Denda {formatCurrency(Number(payment.fee_amount))}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-gray-900">{formatCurrency(Number(payment.amount_paid || 0))}</div>
+                        {payment.date && (
+                          <div className="text-gray-500 text-sm">
+                            {formatDate(payment.date)}{payment.payment_method ? ` · ${translatePaymentMethod(payment.payment_method)}` : ''}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge className={getPaymentStatusColor(payment.status)}>
+                          {translatePaymentStatus(payment.status)}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {payment.status !== 'paid' && getOutstanding(payment) > 0 && (
+                          <Button
+                            size="sm"
+                            icon={<CreditCard size={14} />}
+                            onClick={() => setPayingPayment(payment)}
+                          >
+                            Bayar Online
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                      Belum ada tagihan.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {payingPayment && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800">Bayar Tagihan</h2>
+                <p className="text-sm text-gray-500">
+                  Jatuh tempo {formatDate(payingPayment.due_date)} · {formatCurrency(getOutstanding(payingPayment))}
+                </p>
+              </div>
+              <button onClick={() => setPayingPayment(null)} className="text-gray-500 hover:text-gray-700">
+                <X size={24} />
+              </button>
+            </div>
+            <div className="p-6">
+              <OnlinePaymentPanel paymentId={payingPayment.id} onPaid={handlePaid} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Payments;
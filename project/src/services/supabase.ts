@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
-import { Property, Room, Tenant, Payment, MaintenanceRequest, Notification } from '../types';
+import { Property, PropertyBackup, PropertyBackupArchive, PropertyMember, PropertyInvitation, ReceivedPropertyInvitation, MemberRole, Room, Tenant, TenantDeposit, ContractTemplate, LeaseContract, LeaseRenewal, TenancyHistory, RoomTransfer, RoomConditionItem, OutstandingSettlement, DepositDeduction, TenantPortalData, Payment, PaymentTransaction, PaymentChannel, PaymentGatewayCharge, BankStatementFormat, BankStatementLine, PaymentReceipt, PaymentFee, LateFeeRule, MaintenanceRequest, MaintenanceCostItem, MaintenanceAttachment, MaintenanceActivity, MaintenanceSchedule, MaintenanceSlaTarget, Vendor, Notification } from '../types';
+import { PlanUsage, Subscription, SubscriptionInvoice, SubscriptionPlan } from '../types/subscription';
 
 export interface UserSettings {
   id: string;
@@ -11,6 +12,7 @@ export interface UserSettings {
   currency: string;
   date_format: string;
   payment_reminder_days: number;
+  lease_expiry_reminder_days: number[];
   session_timeout: number;
   login_notifications: boolean;
   two_factor_enabled: boolean;
@@ -59,24 +61,31 @@ export const propertyStatsService = {
     const activeTenants = tenants?.filter(t => t.status === 'active') || [];
     const totalTenants = activeTenants.length;
 
-    // Calculate average tenant stay in months
-    const avgTenantStay = activeTenants.reduce((sum, tenant) => {
-      const start = new Date(tenant.start_date);
-      const end = new Date(tenant.end_date);
-      const months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
-      return sum + months;
-    }, 0) / (activeTenants.length || 1);
+    const monthsBetween = (from: string, to: string) => {
+      const start = new Date(from);
+      const end = new Date(to);
+      return (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
+    };
 
-    // Calculate tenant turnover rate
-    const { data: historicalTenants } = await supabase
-      .from('tenants')
-      .select('*')
-      .eq('property_id', propertyId)
-      .eq('status', 'inactive');
+    // Completed tenancies come from the check-out history
+    const { data: history } = await supabase
+      .from('tenancy_history')
+      .select('start_date, move_out_date')
+      .eq('property_id', propertyId);
 
-    const turnoverRate = historicalTenants 
-      ? (historicalTenants.length / (historicalTenants.length + activeTenants.length)) * 100 
-      : 0;
+    // Average tenant stay in months; until anyone has moved out, fall back to
+    // how long current tenants have stayed so far
+    const today = new Date().toISOString().split('T')[0];
+    const stays = history && history.length > 0
+      ? history.map(h => monthsBetween(h.start_date, h.move_out_date))
+      : activeTenants.map(t => monthsBetween(t.start_date, today));
+    const avgTenantStay = stays.reduce((sum, months) => sum + months, 0) / (stays.length || 1);
+
+    // Tenant turnover rate: move-outs over the last 12 months per room
+    const yearAgo = new Date();
+    yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+    const recentMoveOuts = history?.filter(h => new Date(h.move_out_date) >= yearAgo).length || 0;
+    const turnoverRate = totalRooms > 0 ? (recentMoveOuts / totalRooms) * 100 : 0;
 
     // Get payments
     const { data: payments } = await supabase
@@ -129,13 +138,8 @@ export const propertyStatsService = {
       r.status === 'pending' || r.status === 'in-progress'
     ).length || 0;
 
-    const maintenanceCosts = maintenanceRequests?.reduce((sum, request) => {
-      const estimatedCost = 
-        request.priority === 'high' ? 1000000 :
-        request.priority === 'medium' ? 500000 :
-        250000;
-      return sum + estimatedCost;
-    }, 0) || 0;
+    const maintenanceCosts = maintenanceRequests?.reduce((sum, request) =>
+      sum + Number(request.total_cost), 0) || 0;
 
     return {
       total_revenue: totalRevenue,
@@ -181,6 +185,7 @@ export const settingsService = {
           currency: 'IDR',
           date_format: 'DD/MM/YYYY',
           payment_reminder_days: 5,
+          lease_expiry_reminder_days: [30, 14, 7],
           session_timeout: 30,
           login_notifications: true,
           two_factor_enabled: false
@@ -216,22 +221,85 @@ export const settingsService = {
   }
 };
 
+// Mirror the plan limit triggers so the app can stop before the insert;
+// the triggers still have the final say
+const ensurePropertyCapacity = async (ownerId: string) => {
+  const plan = await subscriptionService.getPlan();
+  if (!plan) return;
+
+  const { count, error } = await supabase
+    .from('properties')
+    .select('id', { count: 'exact', head: true })
+    .eq('owner_id', ownerId);
+  if (error) throw error;
+  if ((count ?? 0) >= plan.max_properties) throw new Error('Property limit reached');
+};
+
+const ensureRoomCapacity = async (propertyId: string, adding: number) => {
+  // Members work under the owner's plan, which only the trigger can see
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data: property, error: propertyError } = await supabase
+    .from('properties')
+    .select('owner_id')
+    .eq('id', propertyId)
+    .single();
+  if (propertyError) throw propertyError;
+  if (property.owner_id !== user?.id) return;
+
+  const plan = await subscriptionService.getPlan();
+  if (!plan) return;
+
+  const { count, error } = await supabase
+    .from('rooms')
+    .select('id', { count: 'exact', head: true })
+    .eq('property_id', propertyId);
+  if (error) throw error;
+  if ((count ?? 0) + adding > plan.max_rooms_per_property) throw new Error('Room limit reached');
+};
+
 export const propertyService = {
+  // Owned properties and those the user is a member of, each with the
+  // user's role. Properties a tenant can see through the portal are left out.
   async getAll() {
-    const { data, error } = await supabase
-      .from('properties')
-      .select('*')
-      .order('created_at', { ascending: false });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const [
+      { data, error },
+      { data: memberships, error: membershipsError }
+    ] = await Promise.all([
+      supabase
+        .from('properties')
+        .select('*')
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('property_members')
+        .select('property_id, role')
+        .eq('user_id', user.id)
+    ]);
     if (error) throw error;
-    return data as Property[];
+    if (membershipsError) throw membershipsError;
+
+    return (data as Property[])
+      .map(property => ({
+        ...property,
+        role: property.owner_id === user.id
+          ? 'owner'
+          : memberships.find(m => m.property_id === property.id)?.role
+      }))
+      .filter(property => property.role) as Property[];
   },
 
   async create(property: Omit<Property, 'id' | 'created_at' | 'updated_at' | 'owner_id'>) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+    await ensurePropertyCapacity(user.id);
+
     const { data, error } = await supabase
       .from('properties')
       .insert([{ 
         ...property,
-        owner_id: (await supabase.auth.getUser()).data.user?.id
+        owner_id: user.id
       }])
       .select()
       .single();
@@ -259,6 +327,159 @@ export const propertyService = {
   }
 };
 
+export const backupService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('property_backups')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as PropertyBackup[];
+  },
+
+  // Archives are built server side so they include every record of the
+  // property regardless of page size
+  async create(propertyId: string) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error('User not authenticated');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/property-backup`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ property_id: propertyId }),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to create backup');
+    }
+    return result as PropertyBackup;
+  },
+
+  async getDownloadUrl(backup: PropertyBackup) {
+    const { data, error } = await supabase.storage
+      .from('property-backups')
+      .createSignedUrl(backup.storage_path, 60, { download: true });
+    if (error) throw error;
+    return data.signedUrl;
+  },
+
+  // Restores into a new property when no target is given; returns the id of
+  // the property the archive was restored into
+  async restore(archive: PropertyBackupArchive, targetPropertyId: string | null) {
+    const { data, error } = await supabase
+      .rpc('restore_property_backup', {
+        p_archive: archive,
+        p_target_property_id: targetPropertyId
+      });
+    if (error) throw error;
+    return data as string;
+  }
+};
+
+export const memberService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('property_members')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('created_at');
+    if (error) throw error;
+    return data as PropertyMember[];
+  },
+
+  async getInvitations(propertyId: string) {
+    const { data, error } = await supabase
+      .from('property_invitations')
+      .select('*')
+      .eq('property_id', propertyId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as PropertyInvitation[];
+  },
+
+  // Sent through an edge function so people without an account get a
+  // sign-up email
+  async invite(propertyId: string, email: string, role: MemberRole) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error('User not authenticated');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/invite-property-member`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          property_id: propertyId,
+          email,
+          role,
+          redirect_to: `${window.location.origin}/properties`
+        }),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to send invitation');
+    }
+    return result as PropertyInvitation;
+  },
+
+  async revokeInvitation(id: string) {
+    const { error } = await supabase
+      .from('property_invitations')
+      .update({ status: 'revoked', responded_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async updateRole(id: string, role: MemberRole) {
+    const { data, error } = await supabase
+      .from('property_members')
+      .update({ role })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PropertyMember;
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('property_members')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async getReceivedInvitations() {
+    const { data, error } = await supabase.rpc('my_property_invitations');
+    if (error) throw error;
+    return data as ReceivedPropertyInvitation[];
+  },
+
+  async respond(invitationId: string, accept: boolean) {
+    const { data, error } = await supabase
+      .rpc('respond_to_property_invitation', {
+        p_invitation_id: invitationId,
+        p_accept: accept
+      });
+    if (error) throw error;
+    return data as PropertyInvitation;
+  }
+};
+
 export const roomService = {
   async getByPropertyId(propertyId: string) {
     const { data, error } = await supabase
@@ -271,6 +492,8 @@ export const roomService = {
   },
 
   async create(room: Omit<Room, 'id' | 'created_at' | 'updated_at'>) {
+    await ensureRoomCapacity(room.property_id, 1);
+
     const { data, error } = await supabase
       .from('rooms')
       .insert([room])
@@ -280,6 +503,22 @@ export const roomService = {
     return data as Room;
   },
 
+  // A single insert, so an import either adds every room or none
+  async createMany(rooms: Omit<Room, 'id' | 'created_at' | 'updated_at'>[]) {
+    const perProperty = new Map<string, number>();
+    rooms.forEach(room => perProperty.set(room.property_id, (perProperty.get(room.property_id) ?? 0) + 1));
+    for (const [propertyId, adding] of perProperty) {
+      await ensureRoomCapacity(propertyId, adding);
+    }
+
+    const { data, error } = await supabase
+      .from('rooms')
+      .insert(rooms)
+      .select();
+    if (error) throw error;
+    return data as Room[];
+  },
+
   async update(id: string, room: Partial<Room>) {
     const { data, error } = await supabase
       .from('rooms')
@@ -321,6 +560,14 @@ export const tenantService = {
     return data as Tenant;
   },
 
+  // Inserts the batch and occupies the assigned rooms in one transaction
+  async createMany(propertyId: string, tenants: Pick<Tenant, 'name' | 'phone' | 'email' | 'room_id' | 'start_date' | 'end_date' | 'status'>[]) {
+    const { data, error } = await supabase
+      .rpc('import_tenants', { p_property_id: propertyId, p_tenants: tenants });
+    if (error) throw error;
+    return data as Tenant[];
+  },
+
   async update(id: string, tenant: Partial<Tenant>) {
     const { data, error } = await supabase
       .from('tenants')
@@ -341,139 +588,1059 @@ export const tenantService = {
   }
 };
 
-export const paymentService = {
+export const leaseRenewalService = {
+  async getByTenantId(tenantId: string) {
+    const { data, error } = await supabase
+      .from('lease_renewals')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as LeaseRenewal[];
+  },
+
+  // Extends the lease and reactivates a tenant that was waiting to move out.
+  // A new price is applied to the room so future invoices pick it up. All of
+  // it, with the renewal record, happens in a single database transaction.
+  async renew(tenant: Tenant, newEndDate: string, room?: Room, newPrice?: number) {
+    const { data, error } = await supabase
+      .rpc('renew_tenant_lease', {
+        p_tenant_id: tenant.id,
+        p_new_end_date: newEndDate,
+        p_new_price: room ? newPrice ?? null : null
+      });
+    if (error) throw error;
+    return data as Tenant;
+  }
+};
+
+export const tenancyService = {
   async getByPropertyId(propertyId: string) {
     const { data, error } = await supabase
-      .from('payments')
+      .from('tenancy_history')
       .select('*')
       .eq('property_id', propertyId)
-      .order('created_at', { ascending: false });
+      .order('move_out_date', { ascending: false });
     if (error) throw error;
-    return data as Payment[];
+    return data as TenancyHistory[];
   },
 
-  async create(payment: Omit<Payment, 'id' | 'created_at' | 'updated_at'>) {
+  // Settles payments and the deposit, records the tenancy and frees the room
+  // in a single database transaction
+  async checkOut(checkOut: {
+    tenantId: string;
+    moveOutDate: string;
+    roomCondition: RoomConditionItem[];
+    settlement: OutstandingSettlement;
+    paymentMethod?: string;
+    damageAmount: number;
+    notes?: string;
+  }) {
     const { data, error } = await supabase
-      .from('payments')
-      .insert([payment])
-      .select()
+      .rpc('check_out_tenant', {
+        p_tenant_id: checkOut.tenantId,
+        p_move_out_date: checkOut.moveOutDate,
+        p_room_condition: checkOut.roomCondition,
+        p_settlement: checkOut.settlement,
+        p_payment_method: checkOut.paymentMethod || null,
+        p_damage_amount: checkOut.damageAmount,
+        p_notes: checkOut.notes || null
+      });
+    if (error) throw error;
+    return data as TenancyHistory;
+  }
+};
+
+export const roomTransferService = {
+  async getByTenantId(tenantId: string) {
+    const { data, error } = await supabase
+      .from('room_transfers')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('transfer_date', { ascending: false });
+    if (error) throw error;
+    return data as RoomTransfer[];
+  },
+
+  // Swaps both rooms' status and the tenant's room in a single database
+  // transaction; past bills stay on the old room
+  async transfer(transfer: {
+    tenantId: string;
+    toRoomId: string;
+    transferDate: string;
+    reason?: string;
+    adjustPayments: boolean;
+  }) {
+    const { data, error } = await supabase
+      .rpc('transfer_tenant_room', {
+        p_tenant_id: transfer.tenantId,
+        p_to_room_id: transfer.toRoomId,
+        p_transfer_date: transfer.transferDate,
+        p_reason: transfer.reason || null,
+        p_adjust_payments: transfer.adjustPayments
+      });
+    if (error) throw error;
+    return data as RoomTransfer;
+  }
+};
+
+export const depositService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('tenant_deposits')
+      .select('*, deductions:deposit_deductions (*)')
+      .eq('property_id', propertyId);
+    if (error) throw error;
+    return data as TenantDeposit[];
+  },
+
+  async getByTenantId(tenantId: string) {
+    const { data, error } = await supabase
+      .from('tenant_deposits')
+      .select('*, deductions:deposit_deductions (*)')
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) throw error;
+    return data as TenantDeposit | null;
+  },
+
+  async create(deposit: Omit<TenantDeposit, 'id' | 'status' | 'refunded_date' | 'refund_amount' | 'deductions' | 'created_at' | 'updated_at'>) {
+    const { data, error } = await supabase
+      .from('tenant_deposits')
+      .insert([deposit])
+      .select('*, deductions:deposit_deductions (*)')
       .single();
     if (error) throw error;
-    return data as Payment;
+    return data as TenantDeposit;
   },
 
-  async update(id: string, payment: Partial<Payment>) {
+  async addDeduction(deduction: Omit<DepositDeduction, 'id' | 'created_at'>) {
     const { data, error } = await supabase
-      .from('payments')
-      .update({ ...payment, updated_at: new Date().toISOString() })
-      .eq('id', id)
+      .from('deposit_deductions')
+      .insert([deduction])
       .select()
       .single();
     if (error) throw error;
-    return data as Payment;
+    return data as DepositDeduction;
   },
 
-  async delete(id: string) {
+  async deleteDeduction(id: string) {
     const { error } = await supabase
-      .from('payments')
+      .from('deposit_deductions')
       .delete()
       .eq('id', id);
     if (error) throw error;
+  },
+
+  // Settles the deposit at move-out; the refund is whatever the deductions left
+  async refund(id: string, refundAmount: number, refundedDate: string) {
+    const { data, error } = await supabase
+      .from('tenant_deposits')
+      .update({
+        status: 'refunded',
+        refund_amount: refundAmount,
+        refunded_date: refundedDate,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select('*, deductions:deposit_deductions (*)')
+      .single();
+    if (error) throw error;
+    return data as TenantDeposit;
   }
 };
 
-export const maintenanceService = {
+export const contractTemplateService = {
   async getByPropertyId(propertyId: string) {
     const { data, error } = await supabase
-      .from('maintenance_requests')
+      .from('contract_templates')
       .select('*')
       .eq('property_id', propertyId)
+      .maybeSingle();
+    if (error) throw error;
+    return data as ContractTemplate | null;
+  },
+
+  async upsert(template: Omit<ContractTemplate, 'id' | 'created_at' | 'updated_at'>) {
+    const { data, error } = await supabase
+      .from('contract_templates')
+      .upsert({ ...template, updated_at: new Date().toISOString() }, { onConflict: 'property_id' })
+      .select()
+      .single();
+    if (error) throw error;
+    return data as ContractTemplate;
+  }
+};
+
+export const leaseContractService = {
+  // A tenant keeps every contract they signed; the latest one is current
+  async getByTenantId(tenantId: string) {
+    const { data, error } = await supabase
+      .from('lease_contracts')
+      .select('*')
+      .eq('tenant_id', tenantId)
       .order('created_at', { ascending: false });
     if (error) throw error;
-    return data as MaintenanceRequest[];
+    return data as LeaseContract[];
   },
 
-  async create(request: Omit<MaintenanceRequest, 'id' | 'created_at' | 'updated_at'>) {
+  async create(contract: Omit<LeaseContract, 'id' | 'signature_path' | 'signed_at' | 'created_at' | 'updated_at'>) {
     const { data, error } = await supabase
-      .from('maintenance_requests')
-      .insert([request])
+      .from('lease_contracts')
+      .insert([contract])
       .select()
       .single();
     if (error) throw error;
-    return data as MaintenanceRequest;
+    return data as LeaseContract;
   },
 
-  async update(id: string, request: Partial<MaintenanceRequest>) {
+  async sign(contract: LeaseContract, signature: Blob) {
+    const path = `${contract.property_id}/${contract.id}.png`;
+    const { error: uploadError } = await supabase.storage
+      .from('signatures')
+      .upload(path, signature, { contentType: 'image/png', upsert: false });
+    if (uploadError) throw uploadError;
+
     const { data, error } = await supabase
-      .from('maintenance_requests')
-      .update({ ...request, updated_at: new Date().toISOString() })
-      .eq('id', id)
+      .from('lease_contracts')
+      .update({
+        signature_path: path,
+        signed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', contract.id)
       .select()
       .single();
     if (error) throw error;
-    return data as MaintenanceRequest;
+    return data as LeaseContract;
   },
 
-  async delete(id: string) {
-    const { error } = await supabase
-      .from('maintenance_requests')
-      .delete()
-      .eq('id', id);
+  async getSignatureUrl(path: string) {
+    const { data, error } = await supabase.storage
+      .from('signatures')
+      .createSignedUrl(path, 60 * 60);
     if (error) throw error;
+    return data.signedUrl;
   }
 };
 
-export const notificationService = {
-  async getAll() {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
-
+export const paymentService = {
+  async getByPropertyId(propertyId: string) {
     const { data, error } = await supabase
-      .from('notifications')
+      .from('payments')
       .select('*')
-      .or(`target_user_id.eq.${user.id},target_user_id.is.null`)
+      .eq('property_id', propertyId)
       .order('created_at', { ascending: false });
-
-    if (error) throw error;
-    return data as Notification[];
-  },
-
-  async markAsRead(id: string) {
-    const { error } = await supabase
-      .from('notifications')
-      .update({ status: 'read' })
-      .eq('id', id);
     if (error) throw error;
+    return data as Payment[];
   },
 
-  async markAllAsRead() {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
-
-    const { error } = await supabase
-      .from('notifications')
-      .update({ status: 'read' })
-      .or(`target_user_id.eq.${user.id},target_user_id.is.null`)
-      .eq('status', 'unread');
-
+  async getUnpaidByTenantId(tenantId: string) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .in('status', ['pending', 'partial', 'overdue'])
+      .order('due_date', { ascending: true });
     if (error) throw error;
+    return data as Payment[];
   },
 
-  async delete(id: string) {
-    const { error } = await supabase
-      .from('notifications')
-      .delete()
-      .eq('id', id);
+  async getById(id: string) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', id)
+      .single();
     if (error) throw error;
+    return data as Payment;
   },
 
-  async create(notification: Omit<Notification, 'id' | 'created_at' | 'status'>) {
+  async create(payment: Omit<Payment, 'id' | 'created_at' | 'updated_at'>) {
     const { data, error } = await supabase
-      .from('notifications')
-      .insert([{ ...notification, status: 'unread' }])
+      .from('payments')
+      .insert([payment])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Payment;
+  },
+
+  async update(id: string, payment: Partial<Payment>) {
+    const { data, error } = await supabase
+      .from('payments')
+      .update({ ...payment, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Payment;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+export const paymentTransactionService = {
+  async getByPaymentId(paymentId: string) {
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .select('*')
+      .eq('payment_id', paymentId)
+      // Same order as the receipts' balances, so same-day receipts stay in sequence
+      .order('date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true });
+    if (error) throw error;
+    return data as PaymentTransaction[];
+  },
+
+  // The parent payment's amount_paid, status, date and method are kept in
+  // sync by a database trigger on this table
+  async create(transaction: Omit<PaymentTransaction, 'id' | 'created_at' | 'created_by'>) {
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .insert([transaction])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PaymentTransaction;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('payment_transactions')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+export const bankReconciliationService = {
+  // Records each confirmed statement line as a receipt in one insert, so the
+  // import lands all or nothing; the receipts trigger then updates each
+  // payment's date, status and method. Each line is stored under its key so
+  // the same mutation cannot be recorded twice; keys without a bank
+  // reference are only unique within the property's statements.
+  async confirmMatches(
+    propertyId: string,
+    format: BankStatementFormat,
+    confirmations: { line: BankStatementLine; paymentId: string; amount: number }[]
+  ) {
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .insert(confirmations.map(({ line, paymentId, amount }) => ({
+        payment_id: paymentId,
+        property_id: propertyId,
+        amount,
+        date: line.date,
+        payment_method: 'transfer',
+        provider_reference: line.reference ? `${format}:${line.key}` : `${format}:${propertyId}:${line.key}`,
+        notes: `Mutasi ${format.toUpperCase()}: ${line.description}`
+      })))
+      .select();
+    if (error) throw error;
+    return data as PaymentTransaction[];
+  }
+};
+
+export const paymentGatewayService = {
+  async getByPaymentId(paymentId: string) {
+    const { data, error } = await supabase
+      .from('payment_gateway_charges')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as PaymentGatewayCharge[];
+  },
+
+  // Opens a virtual account or QRIS charge for the payment's outstanding
+  // balance, or returns the open charge already issued for it
+  async createCharge(paymentId: string, channel: PaymentChannel, bank?: string) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error('User not authenticated');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/create-payment-charge`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ payment_id: paymentId, channel, bank }),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to create payment charge');
+    }
+    return result as PaymentGatewayCharge;
+  },
+
+  // Only available with the mock provider: sends the signed webhook a real
+  // provider would send once the charge is paid
+  async simulatePayment(chargeId: string) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error('User not authenticated');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/simulate-mock-payment`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ charge_id: chargeId }),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to simulate payment');
+    }
+  }
+};
+
+export const receiptService = {
+  // Allocates the property's next receipt number on first call; later calls
+  // return the receipt the transaction was already issued
+  async issue(transactionId: string) {
+    const { data, error } = await supabase
+      .rpc('issue_transaction_receipt', { p_transaction_id: transactionId });
+    if (error) throw error;
+    return data as PaymentReceipt;
+  }
+};
+
+export const paymentFeeService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('payment_fees')
+      .select('*')
+      .eq('property_id', propertyId);
+    if (error) throw error;
+    return data as PaymentFee[];
+  },
+
+  async getByPaymentId(paymentId: string) {
+    const { data, error } = await supabase
+      .from('payment_fees')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data as PaymentFee[];
+  }
+};
+
+export const lateFeeRuleService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('late_fee_rules')
+      .select('*')
+      .eq('property_id', propertyId)
+      .maybeSingle();
+    if (error) throw error;
+    return data as LateFeeRule | null;
+  },
+
+  // Late fees are applied to overdue payments by the daily overdue job
+  async upsert(rule: Omit<LateFeeRule, 'id' | 'created_at' | 'updated_at'>) {
+    const { data, error } = await supabase
+      .from('late_fee_rules')
+      .upsert({ ...rule, updated_at: new Date().toISOString() }, { onConflict: 'property_id' })
+      .select()
+      .single();
+    if (error) throw error;
+    return data as LateFeeRule;
+  }
+};
+
+export const maintenanceService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as MaintenanceRequest[];
+  },
+
+  async getById(id: string) {
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .select('*')
+      .eq('id', id)
+      .single();
+    if (error) throw error;
+    return data as MaintenanceRequest;
+  },
+
+  async create(request: Omit<MaintenanceRequest, 'id' | 'created_at' | 'updated_at'>) {
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .insert([request])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceRequest;
+  },
+
+  async update(id: string, request: Partial<MaintenanceRequest>) {
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .update({ ...request, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceRequest;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('maintenance_requests')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+// The log itself is written by the database; only comments are added here
+export const maintenanceActivityService = {
+  async getByRequestId(requestId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_activities')
+      .select('*')
+      .eq('request_id', requestId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data as MaintenanceActivity[];
+  },
+
+  async comment(request: MaintenanceRequest, body: string, parentId?: string | null, photo?: File | null) {
+    let photoPath: string | null = null;
+    if (photo) {
+      const extension = photo.name.split('.').pop()?.toLowerCase() || 'jpg';
+      photoPath = `${request.property_id}/${request.id}/comments/${crypto.randomUUID()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from('maintenance-photos')
+        .upload(photoPath, photo, { contentType: photo.type, upsert: false });
+      if (uploadError) throw uploadError;
+    }
+
+    const { data, error } = await supabase
+      .from('maintenance_activities')
+      .insert([{
+        request_id: request.id,
+        property_id: request.property_id,
+        kind: 'comment',
+        body: body.trim() || null,
+        photo_path: photoPath,
+        parent_id: parentId || null
+      }])
+      .select()
+      .single();
+    if (error) {
+      if (photoPath) await supabase.storage.from('maintenance-photos').remove([photoPath]);
+      throw error;
+    }
+    return data as MaintenanceActivity;
+  },
+
+  async getPhotoUrls(activities: MaintenanceActivity[]) {
+    const paths = activities.map(a => a.photo_path).filter((path): path is string => !!path);
+    if (paths.length === 0) return {};
+    const { data, error } = await supabase.storage
+      .from('maintenance-photos')
+      .createSignedUrls(paths, 60 * 60);
+    if (error) throw error;
+    return Object.fromEntries(
+      data.filter(item => item.signedUrl).map(item => [item.path, item.signedUrl])
+    ) as Record<string, string>;
+  }
+};
+
+export const vendorService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('vendors')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('name');
+    if (error) throw error;
+    return data as Vendor[];
+  },
+
+  async create(vendor: Omit<Vendor, 'id' | 'created_at' | 'updated_at'>) {
+    const { data, error } = await supabase
+      .from('vendors')
+      .insert([vendor])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Vendor;
+  },
+
+  async update(id: string, vendor: Partial<Vendor>) {
+    const { data, error } = await supabase
+      .from('vendors')
+      .update({ ...vendor, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Vendor;
+  },
+
+  // Requests keep the vendor's name and phone after it is removed
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('vendors')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+export const maintenanceSlaTargetService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_sla_targets')
+      .select('*')
+      .eq('property_id', propertyId);
+    if (error) throw error;
+    return data as MaintenanceSlaTarget[];
+  },
+
+  // New targets apply to requests reported after they are saved
+  async upsert(targets: Omit<MaintenanceSlaTarget, 'id' | 'created_at' | 'updated_at'>[]) {
+    const { data, error } = await supabase
+      .from('maintenance_sla_targets')
+      .upsert(
+        targets.map(target => ({ ...target, updated_at: new Date().toISOString() })),
+        { onConflict: 'property_id,priority' }
+      )
+      .select();
+    if (error) throw error;
+    return data as MaintenanceSlaTarget[];
+  }
+};
+
+// Requests are created from these by the maintenance-schedules job
+export const maintenanceScheduleService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_schedules')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('next_due_date');
+    if (error) throw error;
+    return data as MaintenanceSchedule[];
+  },
+
+  async create(schedule: Omit<MaintenanceSchedule, 'id' | 'created_at' | 'updated_at'>) {
+    const { data, error } = await supabase
+      .from('maintenance_schedules')
+      .insert([schedule])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceSchedule;
+  },
+
+  async update(id: string, schedule: Partial<MaintenanceSchedule>) {
+    const { data, error } = await supabase
+      .from('maintenance_schedules')
+      .update({ ...schedule, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceSchedule;
+  },
+
+  // Requests already created from the schedule are kept
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('maintenance_schedules')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+// Labor and material lines; the request's total_cost follows them
+export const maintenanceCostService = {
+  async getByRequestId(requestId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_cost_items')
+      .select('*')
+      .eq('request_id', requestId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data as MaintenanceCostItem[];
+  },
+
+  async create(item: Omit<MaintenanceCostItem, 'id' | 'amount' | 'created_at'>) {
+    const { data, error } = await supabase
+      .from('maintenance_cost_items')
+      .insert([item])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceCostItem;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('maintenance_cost_items')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+export const maintenanceAttachmentService = {
+  async getByRequestId(requestId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_attachments')
+      .select('*')
+      .eq('request_id', requestId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data as MaintenanceAttachment[];
+  },
+
+  async upload(request: MaintenanceRequest, file: File) {
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+    const path = `${request.property_id}/${request.id}/${crypto.randomUUID()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from('maintenance-photos')
+      .upload(path, file, { contentType: file.type, upsert: false });
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+      .from('maintenance_attachments')
+      .insert([{
+        request_id: request.id,
+        property_id: request.property_id,
+        storage_path: path,
+        file_name: file.name,
+        content_type: file.type,
+        size_bytes: file.size
+      }])
+      .select()
+      .single();
+    if (error) {
+      await supabase.storage.from('maintenance-photos').remove([path]);
+      throw error;
+    }
+    return data as MaintenanceAttachment;
+  },
+
+  async getUrls(attachments: MaintenanceAttachment[]) {
+    if (attachments.length === 0) return {};
+    const { data, error } = await supabase.storage
+      .from('maintenance-photos')
+      .createSignedUrls(attachments.map(a => a.storage_path), 60 * 60);
+    if (error) throw error;
+    return Object.fromEntries(
+      data.filter(item => item.signedUrl).map(item => [item.path, item.signedUrl])
+    ) as Record<string, string>;
+  },
+
+  async delete(attachment: MaintenanceAttachment) {
+    const { error } = await supabase
+      .from('maintenance_attachments')
+      .delete()
+      .eq('id', attachment.id);
+    if (error) throw error;
+
+    const { error: storageError } = await supabase.storage
+      .from('maintenance-photos')
+      .remove([attachment.storage_path]);
+    if (storageError) throw storageError;
+  }
+};
+
+// Queries for the signed-in tenant; RLS limits them to the tenant's own records
+export const portalService = {
+  // Links tenant records recorded with the user's confirmed email
+  async linkAccount() {
+    const { data, error } = await supabase.rpc('link_tenant_account');
+    if (error) throw error;
+    return data as number;
+  },
+
+  async getTenancy(): Promise<TenantPortalData | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: tenants, error } = await supabase
+      .from('tenants')
+      .select('*')
+      .eq('user_id', user.id)
+      .neq('status', 'inactive')
+      .order('start_date', { ascending: false })
+      .limit(1);
+    if (error) throw error;
+
+    const tenant = tenants?.[0] as Tenant | undefined;
+    if (!tenant) return null;
+
+    const [{ data: room, error: roomError }, { data: property, error: propertyError }] = await Promise.all([
+      tenant.room_id
+        ? supabase.from('rooms').select('*').eq('id', tenant.room_id).maybeSingle()
+        : { data: null, error: null },
+      tenant.property_id
+        ? supabase.from('properties').select('*').eq('id', tenant.property_id).maybeSingle()
+        : { data: null, error: null }
+    ]);
+    if (roomError) throw roomError;
+    if (propertyError) throw propertyError;
+
+    return {
+      tenant,
+      room: room as Room | null,
+      property: property as Property | null
+    };
+  },
+
+  async getPayments(tenantId: string) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('due_date', { ascending: false });
+    if (error) throw error;
+    return data as Payment[];
+  },
+
+  async getMaintenanceRequests(tenantId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as MaintenanceRequest[];
+  },
+
+  // tenant, room and property are taken from the tenancy so the request
+  // passes the portal insert policy
+  async submitMaintenanceRequest(
+    tenancy: TenantPortalData,
+    request: Pick<MaintenanceRequest, 'title' | 'description' | 'priority'>
+  ) {
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .insert([{
+        ...request,
+        tenant_id: tenancy.tenant.id,
+        room_id: tenancy.tenant.room_id,
+        property_id: tenancy.tenant.property_id,
+        date: new Date().toISOString().split('T')[0],
+        status: 'pending'
+      }])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceRequest;
+  }
+};
+
+export const notificationService = {
+  async getAll() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .or(`target_user_id.eq.${user.id},target_user_id.is.null`)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as Notification[];
+  },
+
+  async markAsRead(id: string) {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ status: 'read' })
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async markAllAsRead() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ status: 'read' })
+      .or(`target_user_id.eq.${user.id},target_user_id.is.null`)
+      .eq('status', 'unread');
+
+    if (error) throw error;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async create(notification: Omit<Notification, 'id' | 'created_at' | 'status'>) {
+    const { data, error } = await supabase
+      .from('notifications')
+      .insert([{ ...notification, status: 'unread' }])
       .select()
       .single();
     if (error) throw error;
     return data as Notification;
   }
-};
\ No newline at end of file
+};
+
+export interface InvoiceGenerationResult {
+  period_start: string;
+  period_end: string;
+  results: {
+    property_id: string;
+    created: number;
+    skipped: number;
+  }[];
+}
+
+export const subscriptionService = {
+  async getCurrent() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('subscriptions')
+      .select('*, plan:subscription_plans (*)')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Subscription | null;
+  },
+
+  // The plan whose limits apply: the active subscription's plan, or the
+  // cheapest plan without one. Null only when no plans are configured.
+  async getPlan() {
+    const { data, error } = await supabase
+      .rpc('current_plan')
+      .maybeSingle();
+    if (error) throw error;
+    return data as SubscriptionPlan | null;
+  },
+
+  async getPlans() {
+    const { data, error } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .order('price');
+    if (error) throw error;
+    return data as SubscriptionPlan[];
+  },
+
+  async getInvoices() {
+    const { data, error } = await supabase
+      .from('subscription_invoices')
+      .select('*, plan:subscription_plans (*), items:subscription_invoice_items (*)')
+      .order('created_at', { ascending: false })
+      .order('created_at', { referencedTable: 'subscription_invoice_items', ascending: true });
+    if (error) throw error;
+    return data as SubscriptionInvoice[];
+  },
+
+  async getUsage() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('properties')
+      .select('id, name, rooms (count)')
+      .eq('owner_id', user.id)
+      .order('name');
+    if (error) throw error;
+    return {
+      properties: (data || []).map(property => ({
+        id: property.id,
+        name: property.name,
+        rooms: (property.rooms as unknown as { count: number }[])[0]?.count ?? 0
+      }))
+    } as PlanUsage;
+  },
+
+  // Switches immediately, prorated over the rest of the period; subscribes
+  // from today when the owner has no active subscription
+  async changePlan(planId: string) {
+    const { data, error } = await supabase
+      .rpc('change_subscription_plan', { p_plan_id: planId });
+    if (error) throw error;
+    return data as SubscriptionInvoice;
+  },
+
+  async setCancelAtPeriodEnd(cancel: boolean) {
+    const { data, error } = await supabase
+      .rpc('set_subscription_cancellation', { p_cancel: cancel });
+    if (error) throw error;
+    return data as Subscription;
+  },
+
+  // True once a subscription expired unpaid; the account's data can then be
+  // viewed but not changed until the invoice is paid
+  async isReadOnly() {
+    const { data, error } = await supabase.rpc('current_account_read_only');
+    if (error) throw error;
+    return data as boolean;
+  }
+};
+
+export const billingService = {
+  /**
+   * Create the pending payments of a billing month (YYYY-MM, defaults to next
+   * month) for every active tenant of the property. Safe to run repeatedly.
+   */
+  async generateInvoices(propertyId: string, period?: string) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error('User not authenticated');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-invoices`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ property_id: propertyId, period }),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to generate invoices');
+    }
+    return result as InvoiceGenerationResult;
+  }
+};
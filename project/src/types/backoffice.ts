@@ -32,6 +32,7 @@ export interface AuditLog {
 export interface BackofficeStats {
   total_users: number;
   total_properties: number;
+  // Platform revenue: settled subscription invoices before PPN, net of credits
   total_revenue: number;
   active_tenants: number;
 }
\ No newline at end of file
@@ -8,6 +8,74 @@ export interface Property {
   created_at: string;
   updated_at: string;
   owner_id: string;
+  // The signed in user's role on the property, set by propertyService.getAll
+  role?: PropertyRole;
+}
+
+export type MemberRole = User['role'];
+
+export type PropertyRole = 'owner' | MemberRole;
+
+export interface PropertyMember {
+  id: string;
+  property_id: string;
+  user_id: string;
+  email: string;
+  role: MemberRole;
+  invited_by?: string;
+  created_at: string;
+}
+
+export interface PropertyInvitation {
+  id: string;
+  property_id: string;
+  email: string;
+  role: MemberRole;
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  invited_by?: string;
+  created_at: string;
+  expires_at: string;
+  responded_at?: string;
+}
+
+// An invitation as seen by the invited user
+export interface ReceivedPropertyInvitation {
+  id: string;
+  property_id: string;
+  property_name: string;
+  role: MemberRole;
+  created_at: string;
+  expires_at: string;
+}
+
+export type PropertyBackupTrigger = 'manual' | 'scheduled';
+
+export interface PropertyBackup {
+  id: string;
+  property_id: string;
+  storage_path: string;
+  schema_version: number;
+  trigger: PropertyBackupTrigger;
+  size_bytes: number;
+  // Records per archive section, e.g. { rooms: 12, tenants: 10 }
+  record_counts: Record<string, number>;
+  created_by?: string;
+  created_at: string;
+}
+
+// Layout of the JSON archive written by the property-backup function
+export interface PropertyBackupArchive {
+  format: string;
+  version: number;
+  exported_at: string;
+  property: Pick<Property, 'name' | 'address' | 'city' | 'phone' | 'email'>;
+  rooms: Room[];
+  tenants: Tenant[];
+  payments: Payment[];
+  payment_fees: PaymentFee[];
+  payment_transactions: PaymentTransaction[];
+  maintenance_requests: MaintenanceRequest[];
+  notifications: Notification[];
 }
 
 export interface Tenant {
@@ -18,13 +86,89 @@ export interface Tenant {
   room_id: string | null;
   start_date: string;
   end_date: string;
-  status: 'active' | 'inactive';
+  status: 'active' | 'inactive' | 'move_out_pending';
   payment_status: 'paid' | 'pending' | 'overdue';
   property_id: string | null;
+  user_id?: string | null;
   created_at: string | null;
   updated_at: string | null;
 }
 
+export interface TenantPortalData {
+  tenant: Tenant;
+  room: Room | null;
+  property: Property | null;
+}
+
+export interface TenantDeposit {
+  id: string;
+  tenant_id: string;
+  property_id: string;
+  amount: number;
+  received_date: string;
+  payment_method: string;
+  receipt_number?: string | null;
+  notes?: string | null;
+  status: 'held' | 'refunded';
+  refunded_date?: string | null;
+  refund_amount?: number | null;
+  deductions?: DepositDeduction[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DepositDeduction {
+  id: string;
+  deposit_id: string;
+  property_id: string;
+  amount: number;
+  reason: string;
+  maintenance_request_id?: string | null;
+  date: string;
+  created_at?: string;
+}
+
+export interface LeaseRenewal {
+  id: string;
+  tenant_id: string;
+  property_id: string;
+  room_id: string | null;
+  previous_end_date: string;
+  new_end_date: string;
+  previous_price?: number | null;
+  new_price?: number | null;
+  renewed_by?: string | null;
+  created_at?: string;
+}
+
+export interface ContractTemplate {
+  id: string;
+  property_id: string;
+  title: string;
+  body: string;
+  house_rules?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface LeaseContract {
+  id: string;
+  tenant_id: string;
+  property_id: string;
+  room_id: string | null;
+  title: string;
+  content: string;
+  house_rules?: string | null;
+  start_date: string;
+  end_date: string;
+  monthly_rent: number;
+  deposit_amount?: number | null;
+  signature_path?: string | null;
+  signed_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface Room {
   id: string;
   number: string;
@@ -44,10 +188,160 @@ export interface Payment {
   amount: number;
   date: string | null;
   due_date: string;
-  status: 'paid' | 'pending' | 'overdue';
+  status: PaymentStatus;
+  amount_paid?: number;
+  fee_amount?: number;
   payment_method?: string;
   notes?: string;
   property_id: string;
+  period_start?: string | null;
+  period_end?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PaymentStatus = 'paid' | 'partial' | 'pending' | 'overdue';
+
+export interface PaymentTransaction {
+  id: string;
+  payment_id: string;
+  property_id: string;
+  amount: number;
+  date: string;
+  payment_method: string;
+  provider_reference?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export type PaymentChannel = 'virtual_account' | 'qris';
+
+export interface PaymentGatewayCharge {
+  id: string;
+  payment_id: string;
+  property_id: string | null;
+  provider: string;
+  channel: PaymentChannel;
+  bank?: string | null;
+  amount: number;
+  external_id: string;
+  provider_reference?: string | null;
+  va_number?: string | null;
+  qr_string?: string | null;
+  status: 'pending' | 'paid' | 'expired' | 'failed';
+  expires_at?: string | null;
+  paid_at?: string | null;
+  created_at?: string;
+}
+
+export type BankStatementFormat = 'bca' | 'mandiri' | 'bri';
+
+// A credit line read from an uploaded bank mutation CSV
+export interface BankStatementLine {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  reference: string | null;
+  // Identifies the mutation across imports of the same statement: the bank
+  // reference, or the date, amount and description for banks without one
+  key: string;
+}
+
+export interface PaymentMatchCandidate {
+  payment: Payment;
+  tenantName: string;
+  roomNumber: string;
+  outstanding: number;
+  score: number;
+}
+
+export interface BankStatementMatch {
+  line: BankStatementLine;
+  candidates: PaymentMatchCandidate[];
+  status: 'matched' | 'ambiguous' | 'unmatched';
+}
+
+export interface RoomTransfer {
+  id: string;
+  tenant_id: string;
+  property_id: string;
+  from_room_id: string | null;
+  to_room_id: string | null;
+  transfer_date: string;
+  reason?: string | null;
+  previous_price: number | null;
+  new_price: number | null;
+  payments_adjusted: number;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface RoomConditionItem {
+  item: string;
+  condition: 'good' | 'damaged';
+  notes?: string;
+}
+
+export type OutstandingSettlement = 'deposit' | 'paid' | 'none';
+
+export interface TenancyHistory {
+  id: string;
+  tenant_id: string | null;
+  property_id: string;
+  room_id: string | null;
+  tenant_name: string;
+  room_number: string | null;
+  start_date: string;
+  move_out_date: string;
+  monthly_rent: number | null;
+  room_condition: RoomConditionItem[];
+  outstanding_amount: number;
+  outstanding_settlement: OutstandingSettlement;
+  damage_amount: number;
+  deposit_refund_amount: number | null;
+  notes?: string | null;
+  checked_out_by?: string | null;
+  created_at?: string;
+}
+
+export interface PaymentReceipt {
+  id: string;
+  payment_id: string | null;
+  transaction_id: string | null;
+  property_id: string;
+  sequence_number: number;
+  receipt_number: string;
+  // Frozen when issued, so reprints always show the same figures
+  amount: number;
+  paid_on: string | null;
+  payment_method: string | null;
+  balance_after: number | null;
+  issued_at: string;
+  issued_by?: string | null;
+}
+
+export interface PaymentFee {
+  id: string;
+  payment_id: string;
+  property_id: string;
+  type: 'late_fee';
+  amount: number;
+  description?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface LateFeeRule {
+  id: string;
+  property_id: string;
+  enabled: boolean;
+  flat_amount: number;
+  percentage: number;
+  percentage_interval: 'day' | 'week';
+  grace_period_days: number;
+  max_amount: number | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -62,10 +356,126 @@ export interface MaintenanceRequest {
   status: 'pending' | 'in-progress' | 'completed';
   priority: 'low' | 'medium' | 'high';
   property_id: string;
+  vendor_id?: string | null;
+  // Vendor or technician doing the work; copied from the vendor when one
+  // is assigned
+  assignee_name?: string | null;
+  assignee_phone?: string | null;
+  assigned_at?: string | null;
+  // Preventive maintenance schedule the request was created from
+  schedule_id?: string | null;
+  scheduled_at?: string | null;
+  // Set from the status; time to start and to complete run from created_at
+  started_at?: string | null;
+  completed_at?: string | null;
+  // SLA deadlines from the property's targets when the request was reported
+  start_due_at?: string | null;
+  resolve_due_at?: string | null;
+  start_escalated_at?: string | null;
+  resolve_escalated_at?: string | null;
+  // Sum of the cost lines, kept by the database
+  total_cost?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type VendorTrade = 'plumbing' | 'electrical' | 'ac' | 'carpentry' | 'cleaning' | 'general';
+
+export interface Vendor {
+  id: string;
+  property_id: string;
+  name: string;
+  trade: VendorTrade;
+  phone?: string | null;
+  rate?: number | null;
+  rate_unit: 'visit' | 'hour' | 'day' | 'job';
+  notes?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Derived from the requests a vendor has been assigned
+export interface VendorPerformance {
+  vendor_id: string;
+  jobs_total: number;
+  jobs_completed: number;
+  avg_turnaround_hours: number | null;
+  total_spend: number;
+}
+
+// Append-only timeline of a request. Status and priority changes are logged
+// by the database; comments may reply to another comment and carry a photo.
+export interface MaintenanceActivity {
+  id: string;
+  request_id: string;
+  property_id: string;
+  kind: 'created' | 'status' | 'priority' | 'comment';
+  from_value?: string | null;
+  to_value?: string | null;
+  body?: string | null;
+  photo_path?: string | null;
+  parent_id?: string | null;
+  // Empty for changes made by scheduled jobs
+  actor_id?: string | null;
+  actor_name?: string | null;
+  created_at: string;
+}
+
+export interface MaintenanceSlaTarget {
+  id: string;
+  property_id: string;
+  priority: MaintenanceRequest['priority'];
+  // Hours after the request is reported
+  start_hours: number;
+  resolve_hours: number;
   created_at?: string;
   updated_at?: string;
 }
 
+// Recurring preventive maintenance. Room schedules service one of the
+// room's facilities; property-wide ones have no room.
+export interface MaintenanceSchedule {
+  id: string;
+  property_id: string;
+  room_id?: string | null;
+  facility?: string | null;
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high';
+  interval_months: number;
+  next_due_date: string;
+  // Days before the due date the request is created
+  lead_days: number;
+  vendor_id?: string | null;
+  active: boolean;
+  last_generated_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface MaintenanceCostItem {
+  id: string;
+  request_id: string;
+  property_id: string;
+  kind: 'labor' | 'material';
+  description: string;
+  quantity: number;
+  unit_cost: number;
+  amount: number;
+  created_at: string;
+}
+
+export interface MaintenanceAttachment {
+  id: string;
+  request_id: string;
+  property_id: string;
+  storage_path: string;
+  file_name: string;
+  content_type?: string | null;
+  size_bytes?: number | null;
+  created_at: string;
+}
+
 export interface User {
   id: string;
   name: string;
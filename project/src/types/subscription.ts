@@ -27,7 +27,52 @@ export interface Subscription {
   current_period_start: string;
   current_period_end: string;
   cancel_at_period_end: boolean;
+  // When the subscription stopped being active
+  ended_at: string | null;
   created_at: string;
   updated_at: string;
   plan?: SubscriptionPlan;
-}
\ No newline at end of file
+}
+export interface SubscriptionInvoice {
+  id: string;
+  user_id: string;
+  subscription_id: string;
+  plan_id: string;
+  invoice_number: string;
+  kind: 'new' | 'upgrade' | 'downgrade' | 'renewal';
+  description: string;
+  // Before tax, the sum of the items; negative for the credit of a prorated
+  // downgrade
+  amount: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  status: 'unpaid' | 'paid' | 'credited';
+  period_start: string;
+  period_end: string;
+  // End of the grace period; the account turns read-only if still unpaid
+  due_at: string;
+  paid_at: string | null;
+  // Credit of a downgrade not yet deducted from a renewal, before tax
+  credit_remaining: number;
+  created_at: string;
+  plan?: SubscriptionPlan;
+  items?: SubscriptionInvoiceItem[];
+}
+
+export interface SubscriptionInvoiceItem {
+  id: string;
+  invoice_id: string;
+  plan_id: string | null;
+  description: string;
+  period_start: string;
+  period_end: string;
+  // Negative for a credit
+  amount: number;
+  created_at: string;
+}
+
+// What an owner currently uses, checked against a plan before downgrading
+export interface PlanUsage {
+  properties: { id: string; name: string; rooms: number }[];
+}
@@ -44,6 +44,199 @@ export interface Database {
           owner_id?: string
         }
       }
+      property_backups: {
+        Row: {
+          id: string
+          property_id: string
+          storage_path: string
+          schema_version: number
+          trigger: string
+          size_bytes: number
+          record_counts: Json
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          storage_path: string
+          schema_version: number
+          trigger: string
+          size_bytes?: number
+          record_counts?: Json
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          storage_path?: string
+          schema_version?: number
+          trigger?: string
+          size_bytes?: number
+          record_counts?: Json
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      subscription_invoices: {
+        Row: {
+          id: string
+          user_id: string
+          subscription_id: string
+          plan_id: string
+          invoice_number: string
+          kind: string
+          description: string
+          amount: number
+          tax_rate: number
+          tax_amount: number
+          total: number
+          status: string
+          period_start: string
+          period_end: string
+          due_at: string
+          paid_at: string | null
+          credit_remaining: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          subscription_id: string
+          plan_id: string
+          invoice_number?: string
+          kind: string
+          description: string
+          amount: number
+          tax_rate?: number
+          tax_amount?: number
+          total?: number
+          status?: string
+          period_start: string
+          period_end: string
+          due_at?: string
+          paid_at?: string | null
+          credit_remaining?: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          subscription_id?: string
+          plan_id?: string
+          invoice_number?: string
+          kind?: string
+          description?: string
+          amount?: number
+          tax_rate?: number
+          tax_amount?: number
+          total?: number
+          status?: string
+          period_start?: string
+          period_end?: string
+          due_at?: string
+          paid_at?: string | null
+          credit_remaining?: number
+          created_at?: string | null
+        }
+      }
+      subscription_invoice_items: {
+        Row: {
+          id: string
+          invoice_id: string
+          plan_id: string | null
+          description: string
+          period_start: string
+          period_end: string
+          amount: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          invoice_id: string
+          plan_id?: string | null
+          description: string
+          period_start: string
+          period_end: string
+          amount: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          invoice_id?: string
+          plan_id?: string | null
+          description?: string
+          period_start?: string
+          period_end?: string
+          amount?: number
+          created_at?: string | null
+        }
+      }
+      property_members: {
+        Row: {
+          id: string
+          property_id: string
+          user_id: string
+          email: string
+          role: string
+          invited_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          user_id: string
+          email: string
+          role: string
+          invited_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          user_id?: string
+          email?: string
+          role?: string
+          invited_by?: string | null
+          created_at?: string | null
+        }
+      }
+      property_invitations: {
+        Row: {
+          id: string
+          property_id: string
+          email: string
+          role: string
+          status: string
+          invited_by: string | null
+          created_at: string | null
+          expires_at: string
+          responded_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          email: string
+          role: string
+          status?: string
+          invited_by?: string | null
+          created_at?: string | null
+          expires_at?: string
+          responded_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          email?: string
+          role?: string
+          status?: string
+          invited_by?: string | null
+          created_at?: string | null
+          expires_at?: string
+          responded_at?: string | null
+        }
+      }
       rooms: {
         Row: {
           id: string
@@ -97,6 +290,7 @@ export interface Database {
           status: string
           payment_status: string
           property_id: string | null
+          user_id: string | null
           created_at: string | null
           updated_at: string | null
         }
@@ -111,6 +305,7 @@ export interface Database {
           status: string
           payment_status: string
           property_id?: string | null
+          user_id?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
@@ -125,22 +320,329 @@ export interface Database {
           status?: string
           payment_status?: string
           property_id?: string | null
+          user_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      contract_templates: {
+        Row: {
+          id: string
+          property_id: string
+          title: string
+          body: string
+          house_rules: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          title: string
+          body: string
+          house_rules?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          title?: string
+          body?: string
+          house_rules?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      lease_contracts: {
+        Row: {
+          id: string
+          tenant_id: string
+          property_id: string | null
+          room_id: string | null
+          title: string
+          content: string
+          house_rules: string | null
+          start_date: string
+          end_date: string
+          monthly_rent: number
+          deposit_amount: number | null
+          signature_path: string | null
+          signed_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          property_id?: string | null
+          room_id?: string | null
+          title: string
+          content: string
+          house_rules?: string | null
+          start_date: string
+          end_date: string
+          monthly_rent: number
+          deposit_amount?: number | null
+          signature_path?: string | null
+          signed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          property_id?: string | null
+          room_id?: string | null
+          title?: string
+          content?: string
+          house_rules?: string | null
+          start_date?: string
+          end_date?: string
+          monthly_rent?: number
+          deposit_amount?: number | null
+          signature_path?: string | null
+          signed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      lease_renewals: {
+        Row: {
+          id: string
+          tenant_id: string
+          property_id: string | null
+          room_id: string | null
+          previous_end_date: string
+          new_end_date: string
+          previous_price: number | null
+          new_price: number | null
+          renewed_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          property_id?: string | null
+          room_id?: string | null
+          previous_end_date: string
+          new_end_date: string
+          previous_price?: number | null
+          new_price?: number | null
+          renewed_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          property_id?: string | null
+          room_id?: string | null
+          previous_end_date?: string
+          new_end_date?: string
+          previous_price?: number | null
+          new_price?: number | null
+          renewed_by?: string | null
+          created_at?: string | null
+        }
+      }
+      tenancy_history: {
+        Row: {
+          id: string
+          tenant_id: string | null
+          property_id: string | null
+          room_id: string | null
+          tenant_name: string
+          room_number: string | null
+          start_date: string
+          move_out_date: string
+          monthly_rent: number | null
+          room_condition: Json
+          outstanding_amount: number
+          outstanding_settlement: string
+          damage_amount: number
+          deposit_refund_amount: number | null
+          notes: string | null
+          checked_out_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id?: string | null
+          property_id?: string | null
+          room_id?: string | null
+          tenant_name: string
+          room_number?: string | null
+          start_date: string
+          move_out_date: string
+          monthly_rent?: number | null
+          room_condition?: Json
+          outstanding_amount?: number
+          outstanding_settlement?: string
+          damage_amount?: number
+          deposit_refund_amount?: number | null
+          notes?: string | null
+          checked_out_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string | null
+          property_id?: string | null
+          room_id?: string | null
+          tenant_name?: string
+          room_number?: string | null
+          start_date?: string
+          move_out_date?: string
+          monthly_rent?: number | null
+          room_condition?: Json
+          outstanding_amount?: number
+          outstanding_settlement?: string
+          damage_amount?: number
+          deposit_refund_amount?: number | null
+          notes?: string | null
+          checked_out_by?: string | null
+          created_at?: string | null
+        }
+      }
+      room_transfers: {
+        Row: {
+          id: string
+          tenant_id: string
+          property_id: string | null
+          from_room_id: string | null
+          to_room_id: string | null
+          transfer_date: string
+          reason: string | null
+          previous_price: number | null
+          new_price: number | null
+          payments_adjusted: number
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          property_id?: string | null
+          from_room_id?: string | null
+          to_room_id?: string | null
+          transfer_date: string
+          reason?: string | null
+          previous_price?: number | null
+          new_price?: number | null
+          payments_adjusted?: number
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          property_id?: string | null
+          from_room_id?: string | null
+          to_room_id?: string | null
+          transfer_date?: string
+          reason?: string | null
+          previous_price?: number | null
+          new_price?: number | null
+          payments_adjusted?: number
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      tenant_deposits: {
+        Row: {
+          id: string
+          tenant_id: string
+          property_id: string | null
+          amount: number
+          received_date: string
+          payment_method: string
+          receipt_number: string | null
+          notes: string | null
+          status: string
+          refunded_date: string | null
+          refund_amount: number | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          property_id?: string | null
+          amount: number
+          received_date?: string
+          payment_method: string
+          receipt_number?: string | null
+          notes?: string | null
+          status?: string
+          refunded_date?: string | null
+          refund_amount?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          property_id?: string | null
+          amount?: number
+          received_date?: string
+          payment_method?: string
+          receipt_number?: string | null
+          notes?: string | null
+          status?: string
+          refunded_date?: string | null
+          refund_amount?: number | null
           created_at?: string | null
           updated_at?: string | null
         }
       }
+      deposit_deductions: {
+        Row: {
+          id: string
+          deposit_id: string
+          property_id: string | null
+          amount: number
+          reason: string
+          maintenance_request_id: string | null
+          date: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          deposit_id: string
+          property_id?: string | null
+          amount: number
+          reason: string
+          maintenance_request_id?: string | null
+          date?: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          deposit_id?: string
+          property_id?: string | null
+          amount?: number
+          reason?: string
+          maintenance_request_id?: string | null
+          date?: string
+          created_at?: string | null
+        }
+      }
       payments: {
         Row: {
           id: string
           tenant_id: string | null
           room_id: string | null
           amount: number
+          amount_paid: number
+          fee_amount: number
           date: string | null
           due_date: string
           status: string
           payment_method: string | null
           notes: string | null
           property_id: string | null
+          period_start: string | null
+          period_end: string | null
           created_at: string | null
           updated_at: string | null
         }
@@ -149,12 +651,16 @@ export interface Database {
           tenant_id?: string | null
           room_id?: string | null
           amount: number
+          amount_paid?: number
+          fee_amount?: number
           date?: string | null
           due_date: string
           status: string
           payment_method?: string | null
           notes?: string | null
           property_id?: string | null
+          period_start?: string | null
+          period_end?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
@@ -163,16 +669,469 @@ export interface Database {
           tenant_id?: string | null
           room_id?: string | null
           amount?: number
+          amount_paid?: number
+          fee_amount?: number
           date?: string | null
           due_date?: string
           status?: string
           payment_method?: string | null
           notes?: string | null
           property_id?: string | null
+          period_start?: string | null
+          period_end?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
       }
+      payment_transactions: {
+        Row: {
+          id: string
+          payment_id: string
+          property_id: string | null
+          amount: number
+          date: string
+          payment_method: string
+          provider_reference: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          payment_id: string
+          property_id?: string | null
+          amount: number
+          date?: string
+          payment_method: string
+          provider_reference?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          payment_id?: string
+          property_id?: string | null
+          amount?: number
+          date?: string
+          payment_method?: string
+          provider_reference?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      payment_gateway_charges: {
+        Row: {
+          id: string
+          payment_id: string
+          property_id: string | null
+          provider: string
+          channel: string
+          bank: string | null
+          amount: number
+          external_id: string
+          provider_reference: string | null
+          va_number: string | null
+          qr_string: string | null
+          status: string
+          expires_at: string | null
+          paid_at: string | null
+          raw_notification: Json | null
+          created_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          payment_id: string
+          property_id?: string | null
+          provider: string
+          channel: string
+          bank?: string | null
+          amount: number
+          external_id: string
+          provider_reference?: string | null
+          va_number?: string | null
+          qr_string?: string | null
+          status?: string
+          expires_at?: string | null
+          paid_at?: string | null
+          raw_notification?: Json | null
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          payment_id?: string
+          property_id?: string | null
+          provider?: string
+          channel?: string
+          bank?: string | null
+          amount?: number
+          external_id?: string
+          provider_reference?: string | null
+          va_number?: string | null
+          qr_string?: string | null
+          status?: string
+          expires_at?: string | null
+          paid_at?: string | null
+          raw_notification?: Json | null
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      payment_receipts: {
+        Row: {
+          id: string
+          payment_id: string | null
+          transaction_id: string | null
+          property_id: string
+          sequence_number: number
+          receipt_number: string
+          amount: number
+          paid_on: string | null
+          payment_method: string | null
+          balance_after: number | null
+          issued_at: string | null
+          issued_by: string | null
+        }
+        Insert: {
+          id?: string
+          payment_id?: string | null
+          transaction_id?: string | null
+          property_id: string
+          sequence_number: number
+          receipt_number: string
+          amount: number
+          paid_on?: string | null
+          payment_method?: string | null
+          balance_after?: number | null
+          issued_at?: string | null
+          issued_by?: string | null
+        }
+        Update: {
+          id?: string
+          payment_id?: string | null
+          transaction_id?: string | null
+          property_id?: string
+          sequence_number?: number
+          receipt_number?: string
+          amount?: number
+          paid_on?: string | null
+          payment_method?: string | null
+          balance_after?: number | null
+          issued_at?: string | null
+          issued_by?: string | null
+        }
+      }
+      payment_fees: {
+        Row: {
+          id: string
+          payment_id: string
+          property_id: string | null
+          type: string
+          amount: number
+          description: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          payment_id: string
+          property_id?: string | null
+          type?: string
+          amount: number
+          description?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          payment_id?: string
+          property_id?: string | null
+          type?: string
+          amount?: number
+          description?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      late_fee_rules: {
+        Row: {
+          id: string
+          property_id: string
+          enabled: boolean
+          flat_amount: number
+          percentage: number
+          percentage_interval: string
+          grace_period_days: number
+          max_amount: number | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          enabled?: boolean
+          flat_amount?: number
+          percentage?: number
+          percentage_interval?: string
+          grace_period_days?: number
+          max_amount?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          enabled?: boolean
+          flat_amount?: number
+          percentage?: number
+          percentage_interval?: string
+          grace_period_days?: number
+          max_amount?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      maintenance_cost_items: {
+        Row: {
+          id: string
+          request_id: string
+          property_id: string
+          kind: string
+          description: string
+          quantity: number
+          unit_cost: number
+          amount: number
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          property_id: string
+          kind: string
+          description: string
+          quantity?: number
+          unit_cost: number
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          property_id?: string
+          kind?: string
+          description?: string
+          quantity?: number
+          unit_cost?: number
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      maintenance_attachments: {
+        Row: {
+          id: string
+          request_id: string
+          property_id: string
+          storage_path: string
+          file_name: string
+          content_type: string | null
+          size_bytes: number | null
+          uploaded_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          property_id: string
+          storage_path: string
+          file_name: string
+          content_type?: string | null
+          size_bytes?: number | null
+          uploaded_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          property_id?: string
+          storage_path?: string
+          file_name?: string
+          content_type?: string | null
+          size_bytes?: number | null
+          uploaded_by?: string | null
+          created_at?: string | null
+        }
+      }
+      vendors: {
+        Row: {
+          id: string
+          property_id: string
+          name: string
+          trade: string
+          phone: string | null
+          rate: number | null
+          rate_unit: string
+          notes: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          name: string
+          trade: string
+          phone?: string | null
+          rate?: number | null
+          rate_unit?: string
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          name?: string
+          trade?: string
+          phone?: string | null
+          rate?: number | null
+          rate_unit?: string
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      maintenance_sla_targets: {
+        Row: {
+          id: string
+          property_id: string
+          priority: string
+          start_hours: number
+          resolve_hours: number
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          priority: string
+          start_hours: number
+          resolve_hours: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          priority?: string
+          start_hours?: number
+          resolve_hours?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      maintenance_schedules: {
+        Row: {
+          id: string
+          property_id: string
+          room_id: string | null
+          facility: string | null
+          title: string
+          description: string
+          priority: string
+          interval_months: number
+          next_due_date: string
+          lead_days: number
+          vendor_id: string | null
+          active: boolean
+          last_generated_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          room_id?: string | null
+          facility?: string | null
+          title: string
+          description?: string
+          priority?: string
+          interval_months: number
+          next_due_date: string
+          lead_days?: number
+          vendor_id?: string | null
+          active?: boolean
+          last_generated_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          room_id?: string | null
+          facility?: string | null
+          title?: string
+          description?: string
+          priority?: string
+          interval_months?: number
+          next_due_date?: string
+          lead_days?: number
+          vendor_id?: string | null
+          active?: boolean
+          last_generated_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      maintenance_activities: {
+        Row: {
+          id: string
+          request_id: string
+          property_id: string
+          kind: string
+          from_value: string | null
+          to_value: string | null
+          body: string | null
+          photo_path: string | null
+          parent_id: string | null
+          actor_id: string | null
+          actor_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          property_id: string
+          kind: string
+          from_value?: string | null
+          to_value?: string | null
+          body?: string | null
+          photo_path?: string | null
+          parent_id?: string | null
+          actor_id?: string | null
+          actor_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          property_id?: string
+          kind?: string
+          from_value?: string | null
+          to_value?: string | null
+          body?: string | null
+          photo_path?: string | null
+          parent_id?: string | null
+          actor_id?: string | null
+          actor_name?: string | null
+          created_at?: string
+        }
+      }
       maintenance_requests: {
         Row: {
           id: string
@@ -184,6 +1143,19 @@ export interface Database {
           status: string
           priority: string
           property_id: string | null
+          assignee_name: string | null
+          assignee_phone: string | null
+          scheduled_at: string | null
+          completed_at: string | null
+          total_cost: number
+          vendor_id: string | null
+          assigned_at: string | null
+          schedule_id: string | null
+          started_at: string | null
+          start_due_at: string | null
+          resolve_due_at: string | null
+          start_escalated_at: string | null
+          resolve_escalated_at: string | null
           created_at: string | null
           updated_at: string | null
         }
@@ -197,6 +1169,19 @@ export interface Database {
           status: string
           priority: string
           property_id?: string | null
+          assignee_name?: string | null
+          assignee_phone?: string | null
+          scheduled_at?: string | null
+          completed_at?: string | null
+          total_cost?: number
+          vendor_id?: string | null
+          assigned_at?: string | null
+          schedule_id?: string | null
+          started_at?: string | null
+          start_due_at?: string | null
+          resolve_due_at?: string | null
+          start_escalated_at?: string | null
+          resolve_escalated_at?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
@@ -210,6 +1195,19 @@ export interface Database {
           status?: string
           priority?: string
           property_id?: string | null
+          assignee_name?: string | null
+          assignee_phone?: string | null
+          scheduled_at?: string | null
+          completed_at?: string | null
+          total_cost?: number
+          vendor_id?: string | null
+          assigned_at?: string | null
+          schedule_id?: string | null
+          started_at?: string | null
+          start_due_at?: string | null
+          resolve_due_at?: string | null
+          start_escalated_at?: string | null
+          resolve_escalated_at?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
@@ -219,7 +1217,160 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      issue_transaction_receipt: {
+        Args: {
+          p_transaction_id: string
+        }
+        Returns: Database['public']['Tables']['payment_receipts']['Row']
+      }
+      check_out_tenant: {
+        Args: {
+          p_tenant_id: string
+          p_move_out_date: string
+          p_room_condition: Json
+          p_settlement: string
+          p_payment_method?: string | null
+          p_damage_amount?: number
+          p_notes?: string | null
+        }
+        Returns: Database['public']['Tables']['tenancy_history']['Row']
+      }
+      renew_tenant_lease: {
+        Args: {
+          p_tenant_id: string
+          p_new_end_date: string
+          p_new_price?: number | null
+        }
+        Returns: Database['public']['Tables']['tenants']['Row']
+      }
+      transfer_tenant_room: {
+        Args: {
+          p_tenant_id: string
+          p_to_room_id: string
+          p_transfer_date: string
+          p_reason?: string | null
+          p_adjust_payments?: boolean
+        }
+        Returns: Database['public']['Tables']['room_transfers']['Row']
+      }
+      link_tenant_account: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      import_tenants: {
+        Args: {
+          p_property_id: string
+          p_tenants: Json
+        }
+        Returns: Database['public']['Tables']['tenants']['Row'][]
+      }
+      current_plan: {
+        Args: Record<PropertyKey, never>
+        Returns: Json[]
+      }
+      change_subscription_plan: {
+        Args: {
+          p_plan_id: string
+        }
+        Returns: Database['public']['Tables']['subscription_invoices']['Row']
+      }
+      set_subscription_cancellation: {
+        Args: {
+          p_cancel: boolean
+        }
+        Returns: Json
+      }
+      current_account_read_only: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      property_role: {
+        Args: {
+          p_property_id: string
+        }
+        Returns: string | null
+      }
+      member_property_ids: {
+        Args: {
+          p_roles: string[]
+        }
+        Returns: string[]
+      }
+      create_property_invitation: {
+        Args: {
+          p_property_id: string
+          p_email: string
+          p_role: string
+        }
+        Returns: Database['public']['Tables']['property_invitations']['Row']
+      }
+      my_property_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          property_id: string
+          property_name: string
+          role: string
+          created_at: string
+          expires_at: string
+        }[]
+      }
+      respond_to_property_invitation: {
+        Args: {
+          p_invitation_id: string
+          p_accept: boolean
+        }
+        Returns: Database['public']['Tables']['property_invitations']['Row']
+      }
+      restore_property_backup: {
+        Args: {
+          p_archive: Json
+          p_target_property_id?: string | null
+        }
+        Returns: string
+      }
+      mark_subscription_invoice_paid: {
+        Args: {
+          p_invoice_id: string
+        }
+        Returns: Database['public']['Tables']['subscription_invoices']['Row']
+      }
+      subscription_kpis: {
+        Args: {
+          p_window_days: number
+        }
+        Returns: {
+          total: number
+          active: number
+          cancelled: number
+          mrr: number
+          previous_mrr: number
+          active_at_window_start: number
+          churned: number
+        }[]
+      }
+      upcoming_subscription_renewals: {
+        Args: {
+          p_days: number
+        }
+        Returns: {
+          id: string
+          user_email: string | null
+          plan_name: string | null
+          amount: number
+          renews_at: string
+        }[]
+      }
+      subscription_revenue_by_month: {
+        Args: {
+          p_start: string
+          p_end: string
+        }
+        Returns: {
+          month: string
+          revenue: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
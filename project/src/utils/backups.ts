@@ -0,0 +1,74 @@
+import { PropertyBackupArchive, PropertyBackupTrigger } from '../types';
+
+export const BACKUP_FORMAT = 'kostmanager-property-backup';
+
+// Must match the version written by the property-backup function and
+// accepted by restore_property_backup
+export const BACKUP_SCHEMA_VERSION = 1;
+
+const ARCHIVE_SECTIONS = [
+  'rooms',
+  'tenants',
+  'payments',
+  'payment_fees',
+  'payment_transactions',
+  'maintenance_requests',
+  'notifications'
+] as const;
+
+export const BACKUP_SECTION_LABELS: Record<string, string> = {
+  rooms: 'Kamar',
+  tenants: 'Penyewa',
+  payments: 'Pembayaran',
+  payment_fees: 'Biaya Tambahan',
+  payment_transactions: 'Transaksi',
+  maintenance_requests: 'Pemeliharaan',
+  notifications: 'Notifikasi'
+};
+
+export const BACKUP_TRIGGER_LABELS: Record<PropertyBackupTrigger, string> = {
+  manual: 'Manual',
+  scheduled: 'Terjadwal'
+};
+
+export const BACKUP_FREQUENCY_LABELS: Record<string, string> = {
+  weekly: 'Mingguan',
+  daily: 'Harian',
+  realtime: 'Setiap jam'
+};
+
+/**
+ * Parse and check a backup archive before it is sent for restore, so an
+ * unrelated or newer file is rejected without a round trip
+ */
+export const parseBackupArchive = (text: string): PropertyBackupArchive => {
+  let archive: Partial<PropertyBackupArchive>;
+  try {
+    archive = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!archive || archive.format !== BACKUP_FORMAT) {
+    throw new Error('Not a property backup archive');
+  }
+  if (archive.version !== BACKUP_SCHEMA_VERSION) {
+    throw new Error(`Unsupported backup version ${archive.version}`);
+  }
+  if (!archive.property?.name) {
+    throw new Error('Backup archive has no property');
+  }
+  for (const section of ARCHIVE_SECTIONS) {
+    if (archive[section] !== undefined && !Array.isArray(archive[section])) {
+      throw new Error(`Backup section ${section} is malformed`);
+    }
+  }
+
+  return archive as PropertyBackupArchive;
+};
+
+export const formatBackupSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
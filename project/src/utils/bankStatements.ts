@@ -0,0 +1,202 @@
+import {
+  BankStatementFormat,
+  BankStatementLine,
+  BankStatementMatch,
+  PaymentMatchCandidate
+} from '../types';
+import { parseAmount, parseCsv, parseDate } from './csv';
+
+/**
+ * Lines scoring at least this much against a single bill are matched without review
+ */
+export const AUTO_MATCH_SCORE = 75;
+
+/**
+ * How far the best candidate must lead the runner-up to be matched automatically
+ */
+const AUTO_MATCH_LEAD = 15;
+
+// Transfers are looked for from two weeks before the due date to well after
+// it, since late payers still settle their oldest bill
+const DATE_WINDOW_BEFORE_DAYS = 14;
+const DATE_WINDOW_AFTER_DAYS = 45;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface StatementColumns {
+  date: string[];
+  description: string[];
+  amount: string[];
+  reference: string[];
+  // BCA exports a single amount column followed by a CR/DB marker
+  creditMarker: boolean;
+}
+
+const COLUMNS: Record<BankStatementFormat, StatementColumns> = {
+  bca: {
+    date: ['tanggal transaksi', 'tanggal'],
+    description: ['keterangan'],
+    amount: ['jumlah'],
+    reference: [],
+    creditMarker: true
+  },
+  mandiri: {
+    date: ['posting date', 'date', 'tanggal'],
+    description: ['description', 'description 1', 'description 2', 'keterangan', 'remarks'],
+    amount: ['credit', 'kredit'],
+    reference: ['reference no.', 'reference no', 'no. referensi', 'referensi'],
+    creditMarker: false
+  },
+  bri: {
+    date: ['tgl_tran', 'tanggal transaksi', 'tanggal'],
+    description: ['desk_tran', 'uraian transaksi', 'keterangan', 'remark'],
+    amount: ['mutasi_kredit', 'kredit', 'credit'],
+    reference: ['no_ref', 'no. referensi', 'referensi'],
+    creditMarker: false
+  }
+};
+
+const findColumns = (header: string[], names: string[]): number[] => {
+  const normalized = header.map(h => h.toLowerCase().trim());
+  return normalized
+    .map((h, index) => (names.includes(h) ? index : -1))
+    .filter(index => index >= 0);
+};
+
+/**
+ * Read the incoming transfers from a bank mutation CSV. Debits, pending
+ * lines and the export's summary rows are skipped.
+ */
+export const parseBankStatement = (text: string, format: BankStatementFormat): BankStatementLine[] => {
+  const columns = COLUMNS[format];
+  const periodYear = text.match(/periode\s*:?\s*\d{1,2}\/\d{1,2}\/(\d{4})/i);
+  const fallbackYear = periodYear ? Number(periodYear[1]) : new Date().getFullYear();
+
+  for (const delimiter of [',', ';', '\t']) {
+    const rows = parseCsv(text.replace(/^\uFEFF/, ''), delimiter);
+    const headerIndex = rows.findIndex(row =>
+      findColumns(row, columns.date).length > 0 && findColumns(row, columns.amount).length > 0
+    );
+    if (headerIndex < 0) continue;
+
+    const header = rows[headerIndex];
+    const dateColumn = findColumns(header, columns.date)[0];
+    const amountColumn = findColumns(header, columns.amount)[0];
+    const descriptionColumns = findColumns(header, columns.description);
+    const referenceColumn = findColumns(header, columns.reference)[0];
+
+    const lines: BankStatementLine[] = [];
+    // Identical lines without a reference are told apart by their order
+    const occurrences = new Map<string, number>();
+    rows.slice(headerIndex + 1).forEach((row, index) => {
+      const date = parseDate(row[dateColumn] ?? '', fallbackYear);
+      const rawAmount = row[amountColumn] ?? '';
+      if (!date || !rawAmount) return;
+
+      if (columns.creditMarker) {
+        const marker = `${rawAmount} ${row[amountColumn + 1] ?? ''}`.toUpperCase();
+        if (!/\bCR\b/.test(marker)) return;
+      }
+
+      const amount = parseAmount(rawAmount.replace(/\b(CR|DB)\b/gi, ''));
+      if (!(amount > 0)) return;
+
+      const description = descriptionColumns.map(c => row[c]).filter(Boolean).join(' ');
+      const reference = referenceColumn !== undefined ? row[referenceColumn] || null : null;
+      const contentKey = `${date}:${amount}:${normalizeText(description)}`;
+      const occurrence = (occurrences.get(contentKey) ?? 0) + 1;
+      occurrences.set(contentKey, occurrence);
+
+      lines.push({
+        id: `${headerIndex + 1 + index}`,
+        date,
+        description,
+        amount,
+        reference,
+        key: reference ?? `${contentKey}:${occurrence}`
+      });
+    });
+    return lines;
+  }
+
+  throw new Error('Unrecognized bank statement format');
+};
+
+const normalizeText = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+
+const scoreCandidate = (
+  line: BankStatementLine,
+  candidate: Omit<PaymentMatchCandidate, 'score'>
+): number => {
+  // The amount must match either the full balance or the rent alone
+  let score: number;
+  if (Math.abs(line.amount - candidate.outstanding) < 1) {
+    score = 50;
+  } else if (Math.abs(line.amount - Number(candidate.payment.amount)) < 1) {
+    score = 35;
+  } else {
+    return 0;
+  }
+
+  const days = (Date.parse(line.date) - Date.parse(candidate.payment.due_date)) / MS_PER_DAY;
+  if (days < -DATE_WINDOW_BEFORE_DAYS || days > DATE_WINDOW_AFTER_DAYS) return 0;
+  score += Math.abs(days) <= 3 ? 25 : Math.abs(days) <= 10 ? 15 : 5;
+
+  const text = ` ${normalizeText(`${line.description} ${line.reference ?? ''}`)} `;
+  const nameTokens = normalizeText(candidate.tenantName).split(' ').filter(token => token.length >= 3);
+  const found = nameTokens.filter(token => text.includes(` ${token} `));
+  if (nameTokens.length > 0 && found.length === nameTokens.length) {
+    score += 25;
+  } else if (found.length > 0) {
+    score += 15;
+  }
+
+  const roomPattern = new RegExp(`\\b(KMR|KAMAR|KM|ROOM|NO)\\s*0*${normalizeText(candidate.roomNumber)}\\b`);
+  if (candidate.roomNumber && roomPattern.test(text)) {
+    score += 15;
+  }
+
+  return Math.min(100, score);
+};
+
+/**
+ * Score every statement line against the unpaid bills. A line is matched
+ * when one bill clearly wins, ambiguous when it needs review and unmatched
+ * when no bill fits its amount and date. A bill claimed by several lines is
+ * only kept for the strongest one.
+ */
+export const matchStatementLines = (
+  lines: BankStatementLine[],
+  bills: Omit<PaymentMatchCandidate, 'score'>[]
+): BankStatementMatch[] => {
+  const matches: BankStatementMatch[] = lines.map(line => {
+    const candidates = bills
+      .map(bill => ({ ...bill, score: scoreCandidate(line, bill) }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = candidates;
+    let status: BankStatementMatch['status'] = 'unmatched';
+    if (best) {
+      status = best.score >= AUTO_MATCH_SCORE && (!runnerUp || best.score - runnerUp.score >= AUTO_MATCH_LEAD)
+        ? 'matched'
+        : 'ambiguous';
+    }
+    return { line, candidates, status };
+  });
+
+  const claimed = new Map<string, BankStatementMatch>();
+  matches
+    .filter(match => match.status === 'matched')
+    .sort((a, b) => b.candidates[0].score - a.candidates[0].score)
+    .forEach(match => {
+      const paymentId = match.candidates[0].payment.id;
+      if (claimed.has(paymentId)) {
+        match.status = 'ambiguous';
+      } else {
+        claimed.set(paymentId, match);
+      }
+    });
+
+  return matches;
+};
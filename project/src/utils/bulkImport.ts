@@ -0,0 +1,259 @@
+import { readSheet } from 'read-excel-file/browser';
+import { Room, Tenant } from '../types';
+import { detectDelimiter, parseAmount, parseCsv, parseDate } from './csv';
+
+export type ImportEntity = 'rooms' | 'tenants';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Header names recognised when guessing the column mapping
+  aliases: string[];
+}
+
+// Field key to spreadsheet column index
+export type ColumnMapping = Record<string, number | null>;
+
+export interface ImportRowResult<T> {
+  rowNumber: number;
+  values: T | null;
+  errors: string[];
+}
+
+export type RoomImport = Omit<Room, 'id'>;
+
+export type TenantImport = Pick<Tenant, 'name' | 'phone' | 'email' | 'room_id' | 'start_date' | 'end_date' | 'status'>;
+
+export const ROOM_IMPORT_FIELDS: ImportField[] = [
+  { key: 'number', label: 'Nomor Kamar', required: true, aliases: ['nomor kamar', 'no kamar', 'no. kamar', 'nomor', 'kamar', 'room number', 'number'] },
+  { key: 'floor', label: 'Lantai', required: true, aliases: ['lantai', 'floor'] },
+  { key: 'type', label: 'Tipe', required: true, aliases: ['tipe', 'tipe kamar', 'jenis', 'type'] },
+  { key: 'price', label: 'Harga Sewa', required: true, aliases: ['harga sewa', 'harga', 'sewa', 'price'] },
+  { key: 'status', label: 'Status', required: false, aliases: ['status'] },
+  { key: 'facilities', label: 'Fasilitas', required: false, aliases: ['fasilitas', 'facilities'] }
+];
+
+export const TENANT_IMPORT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Nama', required: true, aliases: ['nama', 'nama penyewa', 'name'] },
+  { key: 'phone', label: 'Telepon', required: true, aliases: ['telepon', 'no telepon', 'no hp', 'no. hp', 'hp', 'whatsapp', 'phone'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail'] },
+  { key: 'room_number', label: 'Nomor Kamar', required: false, aliases: ['nomor kamar', 'no kamar', 'no. kamar', 'kamar', 'room number', 'room'] },
+  { key: 'start_date', label: 'Tanggal Mulai', required: true, aliases: ['tanggal mulai', 'tanggal masuk', 'mulai', 'start date'] },
+  { key: 'end_date', label: 'Tanggal Selesai', required: true, aliases: ['tanggal selesai', 'tanggal keluar', 'selesai', 'end date'] },
+  { key: 'status', label: 'Status', required: false, aliases: ['status'] }
+];
+
+const ROOM_TYPES: Record<string, Room['type']> = {
+  single: 'single',
+  double: 'double',
+  deluxe: 'deluxe'
+};
+
+const ROOM_STATUSES: Record<string, Room['status']> = {
+  vacant: 'vacant',
+  kosong: 'vacant',
+  tersedia: 'vacant',
+  maintenance: 'maintenance',
+  perbaikan: 'maintenance',
+  'dalam perbaikan': 'maintenance'
+};
+
+const TENANT_STATUSES: Record<string, Tenant['status']> = {
+  active: 'active',
+  aktif: 'active',
+  move_out_pending: 'move_out_pending',
+  'menunggu keluar': 'move_out_pending'
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const toCellString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  return String(value).trim();
+};
+
+/**
+ * Read the first sheet of an XLSX file, or a CSV file, as rows of strings.
+ * Blank rows are dropped.
+ */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  let rows: string[][];
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    const data = await readSheet(file);
+    rows = data.map(row => row.map(toCellString));
+  } else {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    rows = parseCsv(text, detectDelimiter(text));
+  }
+  return rows.filter(row => row.some(cell => cell !== ''));
+};
+
+/**
+ * Map each field to the first unclaimed column whose header is one of its aliases
+ */
+export const guessColumnMapping = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const normalized = headers.map(h => h.toLowerCase().trim());
+  const claimed = new Set<number>();
+
+  return Object.fromEntries(fields.map(field => {
+    const index = normalized.findIndex((h, i) => !claimed.has(i) && field.aliases.includes(h));
+    if (index >= 0) claimed.add(index);
+    return [field.key, index >= 0 ? index : null];
+  }));
+};
+
+const cellFor = (row: string[], mapping: ColumnMapping, key: string): string => {
+  const index = mapping[key];
+  return index === null || index === undefined ? '' : (row[index] ?? '').trim();
+};
+
+const normalizeKey = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Check each data row against the room fields. Room numbers must be unique
+ * within the file and must not already exist in the property.
+ */
+export const validateRoomRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  propertyId: string,
+  existingRooms: Room[]
+): ImportRowResult<RoomImport>[] => {
+  const existingNumbers = new Set(existingRooms.map(room => normalizeKey(room.number)));
+  const seenNumbers = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+
+    const number = cellFor(row, mapping, 'number');
+    const numberKey = normalizeKey(number);
+    if (!number) {
+      errors.push('Nomor kamar wajib diisi');
+    } else if (existingNumbers.has(numberKey)) {
+      errors.push(`Kamar ${number} sudah ada di properti ini`);
+    } else if (seenNumbers.has(numberKey)) {
+      errors.push(`Nomor kamar ${number} sama dengan baris ${seenNumbers.get(numberKey)}`);
+    } else {
+      seenNumbers.set(numberKey, rowNumber);
+    }
+
+    const floor = cellFor(row, mapping, 'floor');
+    if (!floor) errors.push('Lantai wajib diisi');
+
+    const type = ROOM_TYPES[normalizeKey(cellFor(row, mapping, 'type'))];
+    if (!type) errors.push('Tipe harus single, double, atau deluxe');
+
+    const price = parseAmount(cellFor(row, mapping, 'price'));
+    if (!(price > 0)) errors.push('Harga sewa harus berupa angka lebih dari 0');
+
+    const rawStatus = cellFor(row, mapping, 'status');
+    const status = rawStatus ? ROOM_STATUSES[normalizeKey(rawStatus)] : 'vacant';
+    if (!status) errors.push('Status harus kosong atau perbaikan; kamar terisi saat penyewa diimpor');
+
+    const facilities = cellFor(row, mapping, 'facilities')
+      .split(/[;,]/)
+      .map(f => f.trim())
+      .filter(Boolean);
+
+    return {
+      rowNumber,
+      errors,
+      values: errors.length > 0 ? null : {
+        number,
+        floor,
+        type,
+        price,
+        status,
+        facilities,
+        property_id: propertyId
+      }
+    };
+  });
+};
+
+/**
+ * Check each data row against the tenant fields. A room, when given, must be
+ * a vacant room of the property that no other row claims.
+ */
+export const validateTenantRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  rooms: Room[],
+  existingTenants: Tenant[]
+): ImportRowResult<TenantImport>[] => {
+  const existingEmails = new Set(
+    existingTenants.filter(t => t.status !== 'inactive').map(t => normalizeKey(t.email))
+  );
+  const seenEmails = new Map<string, number>();
+  const claimedRooms = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+
+    const name = cellFor(row, mapping, 'name');
+    if (!name) errors.push('Nama wajib diisi');
+
+    // Spreadsheets drop the leading zero of numbers typed as 08...
+    let phone = cellFor(row, mapping, 'phone').replace(/[\s-]/g, '');
+    if (/^8\d+$/.test(phone)) phone = `0${phone}`;
+    if (!/^\+?\d{8,15}$/.test(phone)) errors.push('Nomor telepon tidak valid');
+
+    const email = cellFor(row, mapping, 'email');
+    const emailKey = normalizeKey(email);
+    if (!EMAIL_PATTERN.test(email)) {
+      errors.push('Email tidak valid');
+    } else if (existingEmails.has(emailKey)) {
+      errors.push(`Penyewa dengan email ${email} sudah terdaftar`);
+    } else if (seenEmails.has(emailKey)) {
+      errors.push(`Email sama dengan baris ${seenEmails.get(emailKey)}`);
+    } else {
+      seenEmails.set(emailKey, rowNumber);
+    }
+
+    let roomId: string | null = null;
+    const roomNumber = cellFor(row, mapping, 'room_number');
+    if (roomNumber) {
+      const room = rooms.find(r => normalizeKey(r.number) === normalizeKey(roomNumber));
+      if (!room) {
+        errors.push(`Kamar ${roomNumber} tidak ditemukan`);
+      } else if (room.status !== 'vacant') {
+        errors.push(`Kamar ${roomNumber} tidak kosong`);
+      } else if (claimedRooms.has(room.id)) {
+        errors.push(`Kamar ${roomNumber} sudah dipakai baris ${claimedRooms.get(room.id)}`);
+      } else {
+        claimedRooms.set(room.id, rowNumber);
+        roomId = room.id;
+      }
+    }
+
+    const startDate = parseDate(cellFor(row, mapping, 'start_date'));
+    const endDate = parseDate(cellFor(row, mapping, 'end_date'));
+    if (!startDate) errors.push('Tanggal mulai tidak valid');
+    if (!endDate) errors.push('Tanggal selesai tidak valid');
+    if (startDate && endDate && endDate < startDate) {
+      errors.push('Tanggal selesai harus setelah tanggal mulai');
+    }
+
+    const rawStatus = cellFor(row, mapping, 'status');
+    const status = rawStatus ? TENANT_STATUSES[normalizeKey(rawStatus)] : 'active';
+    if (!status) errors.push('Status harus aktif atau menunggu keluar');
+
+    return {
+      rowNumber,
+      errors,
+      values: errors.length > 0 || !startDate || !endDate ? null : {
+        name,
+        phone,
+        email,
+        room_id: roomId,
+        start_date: startDate,
+        end_date: endDate,
+        status
+      }
+    };
+  });
+};
@@ -0,0 +1,171 @@
+import jsPDF from 'jspdf';
+import { LeaseContract, Property, Room, Tenant } from '../types';
+import { formatCurrency, formatCurrencyInWords, formatDate } from './formatters';
+
+export const DEFAULT_CONTRACT_TITLE = 'Perjanjian Sewa Kamar Kost';
+
+export const DEFAULT_CONTRACT_BODY = `Pada tanggal {{tanggal_hari_ini}}, yang bertanda tangan di bawah ini:
+
+1. Pengelola {{nama_properti}}, beralamat di {{alamat_properti}}, {{kota_properti}}, selanjutnya disebut PIHAK PERTAMA.
+2. {{nama_penyewa}}, nomor telepon {{telepon_penyewa}}, email {{email_penyewa}}, selanjutnya disebut PIHAK KEDUA.
+
+Kedua belah pihak sepakat untuk mengadakan perjanjian sewa dengan ketentuan sebagai berikut:
+
+Pasal 1 - Objek Sewa
+PIHAK PERTAMA menyewakan Kamar {{nomor_kamar}} ({{tipe_kamar}}) di {{nama_properti}} kepada PIHAK KEDUA.
+
+Pasal 2 - Jangka Waktu
+Sewa berlaku sejak {{tanggal_mulai}} sampai dengan {{tanggal_selesai}}.
+
+Pasal 3 - Harga Sewa
+Harga sewa adalah {{harga_sewa}} ({{harga_sewa_terbilang}}) per bulan, dibayarkan paling lambat pada tanggal jatuh tempo setiap bulan.
+
+Pasal 4 - Deposit
+PIHAK KEDUA menyerahkan deposit sebesar {{deposit}} yang akan dikembalikan pada akhir masa sewa setelah dikurangi biaya kerusakan, jika ada.
+
+Pasal 5 - Peraturan
+PIHAK KEDUA wajib mematuhi peraturan kost yang tercantum dalam perjanjian ini.`;
+
+export const DEFAULT_HOUSE_RULES = `1. Tamu wajib melapor kepada pengelola dan tidak diperkenankan menginap.
+2. Jam malam pukul 22.00.
+3. Dilarang membawa hewan peliharaan.
+4. Menjaga kebersihan kamar dan fasilitas bersama.`;
+
+/**
+ * Placeholders available in contract templates
+ */
+export const CONTRACT_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: 'nama_penyewa', label: 'Nama penyewa' },
+  { key: 'telepon_penyewa', label: 'Telepon penyewa' },
+  { key: 'email_penyewa', label: 'Email penyewa' },
+  { key: 'nomor_kamar', label: 'Nomor kamar' },
+  { key: 'tipe_kamar', label: 'Tipe kamar' },
+  { key: 'nama_properti', label: 'Nama properti' },
+  { key: 'alamat_properti', label: 'Alamat properti' },
+  { key: 'kota_properti', label: 'Kota properti' },
+  { key: 'harga_sewa', label: 'Harga sewa per bulan' },
+  { key: 'harga_sewa_terbilang', label: 'Harga sewa dalam huruf' },
+  { key: 'deposit', label: 'Jumlah deposit' },
+  { key: 'tanggal_mulai', label: 'Tanggal mulai sewa' },
+  { key: 'tanggal_selesai', label: 'Tanggal berakhir sewa' },
+  { key: 'tanggal_hari_ini', label: 'Tanggal hari ini' }
+];
+
+const ROOM_TYPE_LABELS: Record<Room['type'], string> = {
+  single: 'Single',
+  double: 'Double',
+  deluxe: 'Deluxe'
+};
+
+/**
+ * Build the placeholder values for a tenant's contract
+ */
+export const buildContractValues = (
+  tenant: Tenant,
+  room: Room | undefined,
+  property: Property,
+  depositAmount: number | null
+): Record<string, string> => ({
+  nama_penyewa: tenant.name,
+  telepon_penyewa: tenant.phone,
+  email_penyewa: tenant.email,
+  nomor_kamar: room?.number || '-',
+  tipe_kamar: room ? ROOM_TYPE_LABELS[room.type] || room.type : '-',
+  nama_properti: property.name,
+  alamat_properti: property.address,
+  kota_properti: property.city,
+  harga_sewa: room ? formatCurrency(room.price) : '-',
+  harga_sewa_terbilang: room ? formatCurrencyInWords(room.price) : '-',
+  deposit: depositAmount ? formatCurrency(depositAmount) : '-',
+  tanggal_mulai: formatDate(tenant.start_date),
+  tanggal_selesai: formatDate(tenant.end_date),
+  tanggal_hari_ini: formatDate(new Date().toISOString())
+});
+
+/**
+ * Replace {{placeholder}} fields in a template; unknown fields are left as-is
+ */
+export const fillContractTemplate = (template: string, values: Record<string, string>): string => {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+};
+
+/**
+ * Read an image URL into a data URL that jsPDF can embed
+ */
+export const loadImageAsDataUrl = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Generate and download a lease contract PDF, with the tenant's signature when signed
+ */
+export const generateContractPDF = (
+  contract: Pick<LeaseContract, 'title' | 'content' | 'house_rules' | 'start_date' | 'signed_at'>,
+  property: Property,
+  tenantName: string,
+  signatureDataUrl?: string | null
+) => {
+  const doc = new jsPDF();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const marginX = 20;
+  const maxWidth = 170;
+  let y = 20;
+
+  const writeLines = (text: string, lineHeight = 6) => {
+    const lines: string[] = doc.splitTextToSize(text, maxWidth);
+    lines.forEach(line => {
+      if (y > pageHeight - 20) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.text(line, marginX, y);
+      y += lineHeight;
+    });
+  };
+
+  doc.setFontSize(14);
+  doc.text(contract.title.toUpperCase(), 105, y, { align: 'center' });
+  y += 8;
+  doc.setFontSize(10);
+  doc.text(property.name, 105, y, { align: 'center' });
+  y += 12;
+
+  doc.setFontSize(11);
+  writeLines(contract.content);
+
+  if (contract.house_rules) {
+    y += 6;
+    writeLines('Peraturan Kost');
+    writeLines(contract.house_rules);
+  }
+
+  // Keep the signature block together on one page
+  if (y > pageHeight - 70) {
+    doc.addPage();
+    y = 20;
+  }
+  y += 12;
+  doc.text('PIHAK PERTAMA', 40, y, { align: 'center' });
+  doc.text('PIHAK KEDUA', 150, y, { align: 'center' });
+
+  if (signatureDataUrl) {
+    doc.addImage(signatureDataUrl, 'PNG', 125, y + 4, 50, 25);
+  }
+
+  y += 36;
+  doc.text(`( Pengelola ${property.name} )`, 40, y, { align: 'center' });
+  doc.text(`( ${tenantName} )`, 150, y, { align: 'center' });
+  if (contract.signed_at) {
+    doc.setFontSize(9);
+    doc.text(`Ditandatangani ${formatDate(contract.signed_at)}`, 150, y + 6, { align: 'center' });
+  }
+
+  doc.save(`kontrak_${tenantName.replace(/\s+/g, '_').toLowerCase()}_${contract.start_date}.pdf`);
+};
@@ -0,0 +1,110 @@
+/**
+ * Split CSV text into rows of trimmed cells. Quoted cells may contain the
+ * delimiter, line breaks and doubled quotes.
+ */
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Guess the delimiter from whichever of comma, semicolon or tab splits the
+ * first line into the most cells
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/)[0] ?? '';
+  return [',', ';', '\t']
+    .map(delimiter => ({ delimiter, cells: parseCsv(firstLine, delimiter)[0]?.length ?? 0 }))
+    .sort((a, b) => b.cells - a.cells)[0].delimiter;
+};
+
+const toDateString = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Read a date as YYYY-MM-DD. Day-first dates without a year (as in BCA
+ * statements) take the fallback year.
+ */
+export const parseDate = (value: string, fallbackYear = new Date().getFullYear()): string | null => {
+  const token = value.replace(/^'/, '').trim().split(/\s+/)[0];
+
+  const iso = token.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return toDateString(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const dayFirst = token.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?$/);
+  if (!dayFirst) return null;
+
+  let year = dayFirst[3] ? Number(dayFirst[3]) : fallbackYear;
+  if (year < 100) year += 2000;
+  return toDateString(year, Number(dayFirst[2]), Number(dayFirst[1]));
+};
+
+/**
+ * Read an amount written with either Indonesian (1.500.000,00) or English
+ * (1,500,000.00) separators
+ */
+export const parseAmount = (value: string): number => {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return NaN;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  let decimal: string | null = null;
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimal = lastComma > lastDot ? ',' : '.';
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    // A lone separator followed by exactly two digits is a decimal point;
+    // anything else groups thousands
+    const separator = lastComma >= 0 ? ',' : '.';
+    const occurrences = cleaned.split(separator).length - 1;
+    const digitsAfter = cleaned.length - cleaned.lastIndexOf(separator) - 1;
+    if (occurrences === 1 && digitsAfter === 2) decimal = separator;
+  }
+
+  const thousands = decimal === ',' ? '.' : ',';
+  let normalized = cleaned.split(thousands).join('');
+  if (decimal === null) {
+    normalized = normalized.replace(/[.,]/g, '');
+  } else if (decimal === ',') {
+    normalized = normalized.replace(',', '.');
+  }
+  return Number(normalized);
+};
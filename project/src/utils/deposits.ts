@@ -0,0 +1,19 @@
+import { TenantDeposit } from '../types';
+
+/**
+ * Total withheld from a deposit by its deductions
+ */
+export const getDepositDeductionTotal = (deposit: TenantDeposit): number => {
+  return (deposit.deductions || []).reduce((sum, d) => sum + Number(d.amount), 0);
+};
+
+/**
+ * Amount to return to the tenant: the recorded refund once settled, otherwise
+ * the deposit less its deductions
+ */
+export const getDepositRefund = (deposit: TenantDeposit): number => {
+  if (deposit.status === 'refunded' && deposit.refund_amount != null) {
+    return Number(deposit.refund_amount);
+  }
+  return Math.max(0, Number(deposit.amount) - getDepositDeductionTotal(deposit));
+};
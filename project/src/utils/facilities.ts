@@ -0,0 +1,15 @@
+// Facilities a room can have. Preventive maintenance schedules for a room
+// are limited to the facilities it has.
+export const AVAILABLE_FACILITIES = [
+  'AC',
+  'Kamar Mandi',
+  'Wifi',
+  'TV',
+  'Kulkas',
+  'Tempat Tidur',
+  'Meja',
+  'Lemari',
+  'Pemanas Air',
+  'Dapur',
+  'Parkir'
+];
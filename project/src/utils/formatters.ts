@@ -10,6 +10,33 @@ export const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
+const NUMBER_WORDS = [
+  '', 'satu', 'dua', 'tiga', 'empat', 'lima',
+  'enam', 'tujuh', 'delapan', 'sembilan', 'sepuluh', 'sebelas'
+];
+
+const spellNumber = (n: number): string => {
+  if (n < 12) return NUMBER_WORDS[n];
+  if (n < 20) return `${spellNumber(n - 10)} belas`;
+  if (n < 100) return `${spellNumber(Math.floor(n / 10))} puluh ${spellNumber(n % 10)}`;
+  if (n < 200) return `seratus ${spellNumber(n - 100)}`;
+  if (n < 1000) return `${spellNumber(Math.floor(n / 100))} ratus ${spellNumber(n % 100)}`;
+  if (n < 2000) return `seribu ${spellNumber(n - 1000)}`;
+  if (n < 1e6) return `${spellNumber(Math.floor(n / 1e3))} ribu ${spellNumber(n % 1e3)}`;
+  if (n < 1e9) return `${spellNumber(Math.floor(n / 1e6))} juta ${spellNumber(n % 1e6)}`;
+  if (n < 1e12) return `${spellNumber(Math.floor(n / 1e9))} miliar ${spellNumber(n % 1e9)}`;
+  return `${spellNumber(Math.floor(n / 1e12))} triliun ${spellNumber(n % 1e12)}`;
+};
+
+/**
+ * Spell out a Rupiah amount in Indonesian words (terbilang)
+ */
+export const formatCurrencyInWords = (amount: number): string => {
+  const rounded = Math.round(Math.abs(amount));
+  const words = rounded === 0 ? 'nol' : spellNumber(rounded).replace(/\s+/g, ' ').trim();
+  return `${words.charAt(0).toUpperCase()}${words.slice(1)} rupiah`;
+};
+
 /**
  * Format date to locale string
  */
@@ -23,13 +50,21 @@ export const formatDate = (dateString: string): string => {
   });
 };
 
+/**
+ * Format a timestamp as its date and local time
+ */
+export const formatDateTime = (value: string): string =>
+  `${formatDate(value)} ${new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}`;
+
 /**
  * Get status color based on payment status
  */
-export const getPaymentStatusColor = (status: 'paid' | 'pending' | 'overdue'): string => {
+export const getPaymentStatusColor = (status: 'paid' | 'partial' | 'pending' | 'overdue'): string => {
   switch (status) {
     case 'paid':
       return 'bg-green-100 text-green-800';
+    case 'partial':
+      return 'bg-blue-100 text-blue-800';
     case 'pending':
       return 'bg-yellow-100 text-yellow-800';
     case 'overdue':
@@ -55,6 +90,20 @@ export const getRoomStatusColor = (status: 'occupied' | 'vacant' | 'maintenance'
   }
 };
 
+/**
+ * Get status color based on tenant status
+ */
+export const getTenantStatusColor = (status: 'active' | 'inactive' | 'move_out_pending'): string => {
+  switch (status) {
+    case 'active':
+      return 'bg-green-100 text-green-800';
+    case 'move_out_pending':
+      return 'bg-orange-100 text-orange-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
 /**
  * Get status color based on maintenance request priority
  */
@@ -90,10 +139,12 @@ export const getMaintenanceStatusColor = (status: 'pending' | 'in-progress' | 'c
 /**
  * Translate payment status to Indonesian
  */
-export const translatePaymentStatus = (status: 'paid' | 'pending' | 'overdue'): string => {
+export const translatePaymentStatus = (status: 'paid' | 'partial' | 'pending' | 'overdue'): string => {
   switch (status) {
     case 'paid':
       return 'Lunas';
+    case 'partial':
+      return 'Dibayar Sebagian';
     case 'pending':
       return 'Menunggu';
     case 'overdue':
@@ -103,6 +154,30 @@ export const translatePaymentStatus = (status: 'paid' | 'pending' | 'overdue'):
   }
 };
 
+/**
+ * Translate payment method to Indonesian
+ */
+export const translatePaymentMethod = (method: string): string => {
+  switch (method) {
+    case 'transfer':
+      return 'Transfer Bank';
+    case 'cash':
+      return 'Tunai';
+    case 'card':
+      return 'Kartu Kredit/Debit';
+    case 'ewallet':
+      return 'E-Wallet';
+    case 'deposit':
+      return 'Potong Deposit';
+    case 'virtual_account':
+      return 'Virtual Account';
+    case 'qris':
+      return 'QRIS';
+    default:
+      return method;
+  }
+};
+
 /**
  * Translate room status to Indonesian
  */
@@ -119,6 +194,22 @@ export const translateRoomStatus = (status: 'occupied' | 'vacant' | 'maintenance
   }
 };
 
+/**
+ * Translate tenant status to Indonesian
+ */
+export const translateTenantStatus = (status: 'active' | 'inactive' | 'move_out_pending'): string => {
+  switch (status) {
+    case 'active':
+      return 'Aktif';
+    case 'move_out_pending':
+      return 'Menunggu Keluar';
+    case 'inactive':
+      return 'Tidak Aktif';
+    default:
+      return status;
+  }
+};
+
 /**
  * Translate maintenance priority to Indonesian
  */
@@ -0,0 +1,51 @@
+import { Tenant } from '../types';
+
+/**
+ * Leases ending within this many days are shown as expiring soon
+ */
+export const LEASE_EXPIRY_WINDOW_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toLocalDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Days from today until the lease ends; negative once it has ended
+ */
+export const getLeaseDaysRemaining = (endDate: string, today: Date = new Date()): number => {
+  return Math.round((Date.parse(endDate) - Date.parse(toLocalDateString(today))) / MS_PER_DAY);
+};
+
+/**
+ * Tenants whose lease has ended or ends within the window, soonest first
+ */
+export const getExpiringLeases = (tenants: Tenant[], windowDays = LEASE_EXPIRY_WINDOW_DAYS): Tenant[] => {
+  return tenants
+    .filter(tenant => tenant.status === 'active' || tenant.status === 'move_out_pending')
+    .filter(tenant => getLeaseDaysRemaining(tenant.end_date) <= windowDays)
+    .sort((a, b) => a.end_date.localeCompare(b.end_date));
+};
+
+/**
+ * Add whole months to a date string, clamping to the last day of the month
+ */
+export const addMonthsToDate = (dateString: string, months: number): string => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const target = new Date(year, month - 1 + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return toLocalDateString(target);
+};
+
+/**
+ * Describe the time left on a lease in Indonesian
+ */
+export const describeLeaseDaysRemaining = (daysRemaining: number): string => {
+  if (daysRemaining < 0) return `Berakhir ${Math.abs(daysRemaining)} hari lalu`;
+  if (daysRemaining === 0) return 'Berakhir hari ini';
+  return `${daysRemaining} hari lagi`;
+};
@@ -0,0 +1,130 @@
+import { MaintenanceSchedule, Room } from '../types';
+import { AVAILABLE_FACILITIES } from './facilities';
+
+export interface MaintenanceScheduleTemplate {
+  key: string;
+  // Room facility the task services; property-wide tasks have none
+  facility: string | null;
+  title: string;
+  description: string;
+  interval_months: number;
+  priority: MaintenanceSchedule['priority'];
+}
+
+export const MAINTENANCE_SCHEDULE_TEMPLATES: MaintenanceScheduleTemplate[] = [
+  {
+    key: 'ac_service',
+    facility: 'AC',
+    title: 'Servis AC',
+    description: 'Cuci filter dan evaporator, cek freon dan saluran pembuangan air.',
+    interval_months: 3,
+    priority: 'medium'
+  },
+  {
+    key: 'bathroom_drain',
+    facility: 'Kamar Mandi',
+    title: 'Pemeriksaan Kamar Mandi',
+    description: 'Bersihkan saluran air, cek kebocoran kran, closet dan shower.',
+    interval_months: 6,
+    priority: 'low'
+  },
+  {
+    key: 'water_heater',
+    facility: 'Pemanas Air',
+    title: 'Servis Pemanas Air',
+    description: 'Cek elemen pemanas, kabel dan sambungan pipa.',
+    interval_months: 12,
+    priority: 'medium'
+  },
+  {
+    key: 'fridge_cleaning',
+    facility: 'Kulkas',
+    title: 'Pembersihan Kulkas',
+    description: 'Bersihkan kondensor dan cek karet pintu.',
+    interval_months: 6,
+    priority: 'low'
+  },
+  {
+    key: 'water_tank',
+    facility: null,
+    title: 'Kuras Tandon Air',
+    description: 'Kuras dan bersihkan tandon air, cek pompa.',
+    interval_months: 6,
+    priority: 'medium'
+  },
+  {
+    key: 'fire_extinguisher',
+    facility: null,
+    title: 'Pemeriksaan APAR',
+    description: 'Cek tekanan dan masa berlaku alat pemadam api ringan.',
+    interval_months: 12,
+    priority: 'high'
+  },
+  {
+    key: 'pest_control',
+    facility: null,
+    title: 'Pengendalian Hama',
+    description: 'Penyemprotan rayap, kecoa dan nyamuk di area bersama.',
+    interval_months: 6,
+    priority: 'low'
+  }
+];
+
+/**
+ * Facilities of a room that a schedule can service, in the room form's order
+ */
+export const getSchedulableFacilities = (room: Room) =>
+  AVAILABLE_FACILITIES.filter(facility => room.facilities?.includes(facility));
+
+// Room templates need the room to have their facility
+export const getScheduleTemplates = (room?: Room) =>
+  MAINTENANCE_SCHEDULE_TEMPLATES.filter(template =>
+    room
+      ? template.facility !== null && getSchedulableFacilities(room).includes(template.facility)
+      : template.facility === null
+  );
+
+export const MAINTENANCE_INTERVAL_OPTIONS = [1, 2, 3, 6, 12];
+
+export const formatMaintenanceInterval = (months: number) =>
+  months === 12 ? 'Setiap tahun' : months === 1 ? 'Setiap bulan' : `Setiap ${months} bulan`;
+
+/**
+ * Adds months to a yyyy-mm-dd date. The day is kept where the month has it,
+ * otherwise the month's last day is used (31 Jan + 1 month = 28/29 Feb).
+ * The maintenance-schedules edge function uses the same rule.
+ */
+export const addMonths = (date: string, months: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+};
+
+export interface ScheduledOccurrence {
+  schedule: MaintenanceSchedule;
+  date: string;
+}
+
+/**
+ * Due dates of active schedules between two yyyy-mm-dd dates (inclusive),
+ * projected forward from each schedule's next due date
+ */
+export const projectScheduleOccurrences = (
+  schedules: MaintenanceSchedule[],
+  from: string,
+  to: string
+): ScheduledOccurrence[] =>
+  schedules
+    .filter(schedule => schedule.active)
+    .flatMap(schedule => {
+      const occurrences: ScheduledOccurrence[] = [];
+      let date = schedule.next_due_date;
+      while (date <= to) {
+        if (date >= from) occurrences.push({ schedule, date });
+        date = addMonths(date, schedule.interval_months);
+      }
+      return occurrences;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
@@ -0,0 +1,136 @@
+import { MaintenanceRequest, MaintenanceSlaTarget } from '../types';
+
+type Priority = MaintenanceRequest['priority'];
+type SlaHours = Pick<MaintenanceSlaTarget, 'start_hours' | 'resolve_hours'>;
+
+export const SLA_PRIORITIES: Priority[] = ['high', 'medium', 'low'];
+
+// Same defaults as maintenance_sla_hours in the database
+export const DEFAULT_SLA_TARGETS: Record<Priority, SlaHours> = {
+  high: { start_hours: 4, resolve_hours: 24 },
+  medium: { start_hours: 24, resolve_hours: 72 },
+  low: { start_hours: 72, resolve_hours: 168 }
+};
+
+/**
+ * The property's targets per priority, with defaults for the ones not set
+ */
+export const resolveSlaTargets = (targets: MaintenanceSlaTarget[]): Record<Priority, SlaHours> =>
+  Object.fromEntries(SLA_PRIORITIES.map(priority => {
+    const target = targets.find(t => t.priority === priority);
+    return [priority, target
+      ? { start_hours: target.start_hours, resolve_hours: target.resolve_hours }
+      : DEFAULT_SLA_TARGETS[priority]];
+  })) as Record<Priority, SlaHours>;
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached' | 'met' | 'missed';
+
+export interface SlaStatus {
+  state: SlaState;
+  // Deadline that applies now: starting while pending, resolving after
+  due_at: string;
+}
+
+const hoursBetween = (from: string, to: string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / 3600000;
+
+const isOnTime = (at: string | null | undefined, dueAt: string) =>
+  !!at && new Date(at) <= new Date(dueAt);
+
+// Deadlines count from the scheduled time of planned work, like
+// set_maintenance_sla_deadlines in the database
+const reportedAt = (request: MaintenanceRequest) =>
+  request.scheduled_at || request.created_at || request.date;
+
+/**
+ * Where a request stands against its deadlines. Open requests are at risk in
+ * the last fifth of the time they were given.
+ */
+export const getSlaStatus = (request: MaintenanceRequest, now = new Date()): SlaStatus | null => {
+  if (!request.start_due_at || !request.resolve_due_at) return null;
+
+  if (request.status === 'completed') {
+    const met = isOnTime(request.completed_at, request.resolve_due_at);
+    return { state: met ? 'met' : 'missed', due_at: request.resolve_due_at };
+  }
+
+  const resolveMissed = new Date(request.resolve_due_at) <= now;
+  const due_at = request.status === 'pending' && !resolveMissed ? request.start_due_at : request.resolve_due_at;
+  const remaining = hoursBetween(now.toISOString(), due_at);
+
+  if (remaining <= 0) return { state: 'breached', due_at };
+  if (remaining <= hoursBetween(reportedAt(request), due_at) / 5) return { state: 'at_risk', due_at };
+  return { state: 'on_track', due_at };
+};
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  on_track: 'Sesuai SLA',
+  at_risk: 'Mendekati batas SLA',
+  breached: 'Melewati SLA',
+  met: 'Selesai tepat waktu',
+  missed: 'Selesai terlambat'
+};
+
+export const getSlaStateColor = (state: SlaState) => {
+  switch (state) {
+    case 'on_track':
+    case 'met':
+      return 'bg-green-100 text-green-800';
+    case 'at_risk':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-red-100 text-red-800';
+  }
+};
+
+export interface SlaCompliance {
+  priority: Priority | 'all';
+  total: number;
+  // Requests whose deadline has been decided: met, or passed
+  start_measured: number;
+  started_on_time: number;
+  resolve_measured: number;
+  resolved_on_time: number;
+  avg_start_hours: number | null;
+  avg_resolve_hours: number | null;
+  open_breaches: number;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const summarize = (priority: SlaCompliance['priority'], requests: MaintenanceRequest[], now: Date): SlaCompliance => {
+  const tracked = requests.filter(r => r.start_due_at && r.resolve_due_at);
+  const isPast = (date: string) => new Date(date) <= now;
+
+  const startMeasured = tracked.filter(r => r.started_at || isPast(r.start_due_at as string));
+  const resolveMeasured = tracked.filter(r => r.completed_at || isPast(r.resolve_due_at as string));
+
+  return {
+    priority,
+    total: tracked.length,
+    start_measured: startMeasured.length,
+    started_on_time: startMeasured.filter(r => isOnTime(r.started_at, r.start_due_at as string)).length,
+    resolve_measured: resolveMeasured.length,
+    resolved_on_time: resolveMeasured.filter(r => isOnTime(r.completed_at, r.resolve_due_at as string)).length,
+    avg_start_hours: average(tracked
+      .filter(r => r.started_at)
+      .map(r => hoursBetween(reportedAt(r), r.started_at as string))),
+    avg_resolve_hours: average(tracked
+      .filter(r => r.completed_at)
+      .map(r => hoursBetween(reportedAt(r), r.completed_at as string))),
+    open_breaches: tracked.filter(r => getSlaStatus(r, now)?.state === 'breached').length
+  };
+};
+
+/**
+ * Time to start and to complete against the deadlines, per priority and in
+ * total
+ */
+export const calculateSlaCompliance = (requests: MaintenanceRequest[], now = new Date()): SlaCompliance[] => [
+  ...SLA_PRIORITIES.map(priority => summarize(priority, requests.filter(r => r.priority === priority), now)),
+  summarize('all', requests, now)
+];
+
+export const formatComplianceRate = (onTime: number, measured: number) =>
+  measured > 0 ? `${Math.round((onTime / measured) * 100)}%` : '-';
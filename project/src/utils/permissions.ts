@@ -0,0 +1,79 @@
+import { PropertyRole } from '../types';
+
+export type PropertyPermission =
+  | 'manage_property'
+  | 'manage_members'
+  | 'manage_rooms'
+  | 'manage_tenants'
+  | 'manage_leases'
+  | 'delete_records'
+  | 'log_payments'
+  | 'manage_maintenance'
+  | 'delete_maintenance'
+  | 'manage_vendors'
+  | 'manage_maintenance_schedules'
+  | 'view_reports'
+  | 'manage_settings'
+  | 'manage_backups';
+
+// Mirrors the member policies in the database, which have the final say.
+// Contracts, deposits, transfers and check-outs stay with the owner.
+const ROLE_PERMISSIONS: Record<PropertyRole, PropertyPermission[]> = {
+  owner: [
+    'manage_property',
+    'manage_members',
+    'manage_rooms',
+    'manage_tenants',
+    'manage_leases',
+    'delete_records',
+    'log_payments',
+    'manage_maintenance',
+    'delete_maintenance',
+    'manage_vendors',
+    'manage_maintenance_schedules',
+    'view_reports',
+    'manage_settings',
+    'manage_backups'
+  ],
+  admin: [
+    'manage_property',
+    'manage_members',
+    'manage_rooms',
+    'manage_tenants',
+    'delete_records',
+    'log_payments',
+    'manage_maintenance',
+    'delete_maintenance',
+    'manage_vendors',
+    'manage_maintenance_schedules',
+    'view_reports',
+    'manage_settings'
+  ],
+  manager: [
+    'manage_rooms',
+    'manage_tenants',
+    'log_payments',
+    'manage_maintenance',
+    'delete_maintenance',
+    'manage_vendors',
+    'manage_maintenance_schedules',
+    'view_reports'
+  ],
+  staff: ['log_payments', 'manage_maintenance']
+};
+
+export const ROLE_LABELS: Record<PropertyRole, string> = {
+  owner: 'Pemilik',
+  admin: 'Admin',
+  manager: 'Manajer',
+  staff: 'Staf'
+};
+
+export const ROLE_DESCRIPTIONS: Record<Exclude<PropertyRole, 'owner'>, string> = {
+  admin: 'Akses penuh termasuk mengelola anggota, kecuali menghapus properti dan langganan',
+  manager: 'Mengelola kamar, penyewa, pembayaran, pemeliharaan dan melihat laporan',
+  staff: 'Mencatat pembayaran dan pemeliharaan'
+};
+
+export const roleHasPermission = (role: PropertyRole | undefined, permission: PropertyPermission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
@@ -0,0 +1,103 @@
+import { PlanUsage, Subscription, SubscriptionPlan } from '../types/subscription';
+
+export type PlanLimit = 'properties' | 'rooms';
+
+export type PlanFeature = keyof SubscriptionPlan['features'];
+
+const REPORT_LEVELS: SubscriptionPlan['features']['financial_reports'][] = ['basic', 'advanced', 'predictive'];
+
+/**
+ * Which plan limit an error from a create call hit, if any. Matches both the
+ * service checks and the database triggers.
+ */
+export const getPlanLimitError = (err: unknown): PlanLimit | null => {
+  const message = (err as { message?: string } | null)?.message ?? '';
+  if (message.includes('Property limit reached')) return 'properties';
+  if (message.includes('Room limit reached')) return 'rooms';
+  return null;
+};
+
+// Without a configured plan nothing is gated, matching the database triggers
+export const planHasFeature = (plan: SubscriptionPlan | null, feature: PlanFeature) =>
+  !plan || Boolean(plan.features[feature]);
+
+export const planAllowsReportLevel = (
+  plan: SubscriptionPlan | null,
+  level: SubscriptionPlan['features']['financial_reports']
+) => !plan || REPORT_LEVELS.indexOf(plan.features.financial_reports) >= REPORT_LEVELS.indexOf(level);
+
+export const planLimitMessage = (limit: PlanLimit, plan: SubscriptionPlan | null) =>
+  limit === 'properties'
+    ? `Paket ${plan?.name ?? 'Anda'} hanya mengizinkan ${plan?.max_properties ?? '-'} properti.`
+    : `Paket ${plan?.name ?? 'Anda'} hanya mengizinkan ${plan?.max_rooms_per_property ?? '-'} kamar per properti.`;
+
+/**
+ * What has to be removed before the owner can move to a plan, one message per
+ * problem. Empty when the plan fits the current usage.
+ */
+export const getDowngradeBlockers = (plan: SubscriptionPlan, usage: PlanUsage): string[] => {
+  const blockers: string[] = [];
+
+  const extraProperties = usage.properties.length - plan.max_properties;
+  if (extraProperties > 0) {
+    blockers.push(
+      `Anda memiliki ${usage.properties.length} properti, sedangkan paket ${plan.name} hanya mengizinkan ${plan.max_properties}. Hapus ${extraProperties} properti terlebih dahulu.`
+    );
+  }
+
+  usage.properties
+    .filter(property => property.rooms > plan.max_rooms_per_property)
+    .forEach(property => {
+      blockers.push(
+        `${property.name} memiliki ${property.rooms} kamar, sedangkan paket ${plan.name} hanya mengizinkan ${plan.max_rooms_per_property} kamar per properti. Hapus ${property.rooms - plan.max_rooms_per_property} kamar terlebih dahulu.`
+      );
+    });
+
+  return blockers;
+};
+
+/**
+ * Preview of the invoice amount for switching plans now; mirrors
+ * change_subscription_plan. Negative amounts are credited.
+ */
+export const prorateChange = (
+  subscription: Subscription | null,
+  currentPlan: SubscriptionPlan | null,
+  nextPlan: SubscriptionPlan,
+  now: Date = new Date()
+) => {
+  if (!subscription) return nextPlan.price;
+
+  const start = new Date(subscription.current_period_start).getTime();
+  const end = new Date(subscription.current_period_end).getTime();
+  const remaining = end > start
+    ? Math.min(1, Math.max(0, (end - now.getTime()) / (end - start)))
+    : 0;
+
+  return Math.round((nextPlan.price - (currentPlan?.price ?? 0)) * remaining);
+};
+
+export const PLAN_FEATURE_LABELS: Record<PlanFeature, string> = {
+  tenant_data: 'Data penyewa',
+  auto_billing: 'Tagihan otomatis',
+  billing_notifications: 'Notifikasi tagihan',
+  financial_reports: 'Laporan keuangan',
+  data_backup: 'Cadangan data otomatis',
+  multi_user: 'Multi pengguna',
+  analytics: 'Analitik',
+  support: 'Dukungan'
+};
+
+const PLAN_FEATURE_VALUES: Record<string, string> = {
+  basic: 'Dasar',
+  advanced: 'Lanjutan',
+  predictive: 'Prediktif',
+  weekly: 'Mingguan',
+  daily: 'Harian',
+  realtime: 'Setiap jam',
+  priority: 'Prioritas',
+  '24/7': '24/7'
+};
+
+export const formatPlanFeatureValue = (value: SubscriptionPlan['features'][PlanFeature]) =>
+  typeof value === 'string' ? PLAN_FEATURE_VALUES[value] ?? value : null;
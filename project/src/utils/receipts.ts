@@ -0,0 +1,76 @@
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { Payment, PaymentReceipt, Property } from '../types';
+import { formatCurrency, formatCurrencyInWords, formatDate, translatePaymentMethod } from './formatters';
+
+// jspdf-autotable patches these onto the document without declaring them
+type AutoTableDocument = jsPDF & {
+  autoTable: (options: object) => void;
+  lastAutoTable: { finalY: number };
+};
+
+interface ReceiptData {
+  receipt: PaymentReceipt;
+  property: Property;
+  payment: Payment;
+  tenantName: string;
+  roomNumber: string;
+}
+
+/**
+ * Billing period label, falling back to the due date's month for payments
+ * recorded before billing periods existed
+ */
+const getPeriodLabel = (payment: Payment): string => {
+  if (payment.period_start && payment.period_end) {
+    return `${formatDate(payment.period_start)} - ${formatDate(payment.period_end)}`;
+  }
+  return new Date(payment.due_date).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+};
+
+/**
+ * Generate and download a kwitansi (receipt) PDF for one amount received on a
+ * payment, with the figures frozen on the receipt when it was issued
+ */
+export const generatePaymentReceiptPDF = ({ receipt, property, payment, tenantName, roomNumber }: ReceiptData) => {
+  const doc = new jsPDF() as AutoTableDocument;
+  const amountReceived = Number(receipt.amount);
+  const balance = Number(receipt.balance_after || 0);
+
+  // Property header
+  doc.setFontSize(16);
+  doc.text(property.name, 15, 18);
+  doc.setFontSize(10);
+  doc.text(`${property.address}, ${property.city}`, 15, 25);
+  doc.text(`Telp. ${property.phone}`, 15, 30);
+  doc.line(15, 34, 195, 34);
+
+  doc.setFontSize(14);
+  doc.text('KWITANSI PEMBAYARAN', 105, 45, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(`No. ${receipt.receipt_number}`, 105, 51, { align: 'center' });
+
+  doc.autoTable({
+    startY: 58,
+    theme: 'plain',
+    styles: { fontSize: 11 },
+    columnStyles: { 0: { cellWidth: 50 } },
+    body: [
+      ['Telah terima dari', `: ${tenantName}`],
+      ['Kamar', `: Kamar ${roomNumber}`],
+      ['Untuk pembayaran', `: Sewa kamar periode ${getPeriodLabel(payment)}`],
+      ['Jumlah', `: ${formatCurrency(amountReceived)}`],
+      ['Terbilang', `: ${formatCurrencyInWords(amountReceived)}`],
+      ['Metode pembayaran', `: ${receipt.payment_method ? translatePaymentMethod(receipt.payment_method) : '-'}`],
+      ['Tanggal pembayaran', `: ${receipt.paid_on ? formatDate(receipt.paid_on) : '-'}`],
+      ['Status', `: ${balance > 0 ? `Sebagian, sisa ${formatCurrency(balance)}` : 'Lunas'}`]
+    ]
+  });
+
+  const finalY = doc.lastAutoTable.finalY + 20;
+  doc.text(`${property.city}, ${formatDate(receipt.issued_at)}`, 140, finalY);
+  doc.text('Penerima,', 140, finalY + 7);
+  doc.text(`( ${property.name} )`, 140, finalY + 35);
+
+  doc.save(`kwitansi_${receipt.receipt_number}.pdf`);
+};
@@ -0,0 +1,91 @@
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { SubscriptionInvoice } from '../types/subscription';
+import { formatCurrency, formatDate } from './formatters';
+
+// jspdf-autotable patches these onto the document without declaring them
+type AutoTableDocument = jsPDF & {
+  autoTable: (options: object) => void;
+  lastAutoTable: { finalY: number };
+};
+
+const INVOICE_STATUS_LABELS: Record<SubscriptionInvoice['status'], string> = {
+  unpaid: 'BELUM DIBAYAR',
+  paid: 'LUNAS',
+  credited: 'KREDIT'
+};
+
+/**
+ * Tax rate as shown on invoices, e.g. 0.11 becomes "11%"
+ */
+export const formatTaxRate = (rate: number): string =>
+  `${Math.round(rate * 10000) / 100}%`;
+
+/**
+ * Generate and download the PDF of a subscription invoice. The invoice must
+ * be loaded with its items.
+ */
+export const generateSubscriptionInvoicePDF = (invoice: SubscriptionInvoice, customerEmail: string) => {
+  const doc = new jsPDF() as AutoTableDocument;
+
+  doc.setFontSize(16);
+  doc.text('KostManager', 15, 18);
+  doc.setFontSize(10);
+  doc.text('Layanan manajemen kost', 15, 25);
+  doc.line(15, 29, 195, 29);
+
+  doc.setFontSize(14);
+  doc.text('INVOICE', 195, 40, { align: 'right' });
+  doc.setFontSize(10);
+  doc.text(`No. ${invoice.invoice_number}`, 195, 46, { align: 'right' });
+  doc.text(INVOICE_STATUS_LABELS[invoice.status], 195, 52, { align: 'right' });
+
+  doc.autoTable({
+    startY: 36,
+    theme: 'plain',
+    tableWidth: 110,
+    styles: { fontSize: 10, cellPadding: 1 },
+    columnStyles: { 0: { cellWidth: 35 } },
+    body: [
+      ['Ditagihkan kepada', `: ${customerEmail}`],
+      ['Tanggal invoice', `: ${formatDate(invoice.created_at)}`],
+      ['Jatuh tempo', `: ${invoice.status === 'unpaid' ? formatDate(invoice.due_at) : '-'}`],
+      ['Tanggal bayar', `: ${invoice.paid_at ? formatDate(invoice.paid_at) : '-'}`]
+    ]
+  });
+
+  doc.autoTable({
+    startY: doc.lastAutoTable.finalY + 8,
+    head: [['Deskripsi', 'Periode', 'Jumlah']],
+    body: (invoice.items || []).map(item => [
+      item.description,
+      `${formatDate(item.period_start)} - ${formatDate(item.period_end)}`,
+      formatCurrency(item.amount)
+    ]),
+    columnStyles: { 2: { halign: 'right' } }
+  });
+
+  doc.autoTable({
+    startY: doc.lastAutoTable.finalY + 4,
+    theme: 'plain',
+    margin: { left: 115 },
+    styles: { fontSize: 10 },
+    columnStyles: { 1: { halign: 'right' } },
+    body: [
+      ['Subtotal', formatCurrency(invoice.amount)],
+      [`PPN ${formatTaxRate(invoice.tax_rate)}`, formatCurrency(invoice.tax_amount)],
+      [{ content: 'Total', styles: { fontStyle: 'bold' } }, { content: formatCurrency(invoice.total), styles: { fontStyle: 'bold' } }]
+    ]
+  });
+
+  if (invoice.total < 0) {
+    doc.setFontSize(9);
+    doc.text(
+      'Nilai negatif merupakan kredit atas sisa periode paket sebelumnya.',
+      15,
+      doc.lastAutoTable.finalY + 10
+    );
+  }
+
+  doc.save(`invoice_${invoice.invoice_number}.pdf`);
+};
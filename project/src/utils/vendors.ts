@@ -0,0 +1,78 @@
+import { MaintenanceRequest, Vendor, VendorPerformance, VendorTrade } from '../types';
+import { formatCurrency, translateMaintenancePriority } from './formatters';
+
+export const VENDOR_TRADE_LABELS: Record<VendorTrade, string> = {
+  plumbing: 'Pipa & Air',
+  electrical: 'Listrik',
+  ac: 'AC',
+  carpentry: 'Kayu & Bangunan',
+  cleaning: 'Kebersihan',
+  general: 'Umum'
+};
+
+export const VENDOR_RATE_UNIT_LABELS: Record<Vendor['rate_unit'], string> = {
+  visit: 'kunjungan',
+  hour: 'jam',
+  day: 'hari',
+  job: 'pekerjaan'
+};
+
+export const formatVendorRate = (vendor: Vendor) =>
+  vendor.rate != null ? `${formatCurrency(vendor.rate)}/${VENDOR_RATE_UNIT_LABELS[vendor.rate_unit]}` : '-';
+
+/**
+ * Turnaround as shown in the directory, e.g. "5 jam" or "2,5 hari"
+ */
+export const formatTurnaround = (hours: number | null) => {
+  if (hours == null) return '-';
+  if (hours < 24) return `${Math.max(1, Math.round(hours))} jam`;
+  return `${(Math.round(hours / 2.4) / 10).toLocaleString('id-ID')} hari`;
+};
+
+/**
+ * Job count, average turnaround and spend per vendor. Turnaround runs from
+ * assignment (or the request, for older ones) to completion.
+ */
+export const calculateVendorPerformance = (
+  vendors: Vendor[],
+  requests: MaintenanceRequest[]
+): Record<string, VendorPerformance> =>
+  Object.fromEntries(vendors.map(vendor => {
+    const jobs = requests.filter(request => request.vendor_id === vendor.id);
+    const turnarounds = jobs
+      .filter(job => job.status === 'completed' && job.completed_at)
+      .map(job => (
+        new Date(job.completed_at as string).getTime() -
+        new Date(job.assigned_at || job.created_at || job.date).getTime()
+      ) / 3600000)
+      .filter(hours => hours >= 0);
+
+    return [vendor.id, {
+      vendor_id: vendor.id,
+      jobs_total: jobs.length,
+      jobs_completed: turnarounds.length,
+      avg_turnaround_hours: turnarounds.length > 0
+        ? turnarounds.reduce((sum, hours) => sum + hours, 0) / turnarounds.length
+        : null,
+      total_spend: jobs.reduce((sum, job) => sum + Number(job.total_cost || 0), 0)
+    }];
+  }));
+
+/**
+ * wa.me link that sends a vendor the details of the job they were assigned
+ */
+export const buildVendorAssignmentLink = (
+  vendor: Vendor,
+  request: Pick<MaintenanceRequest, 'title' | 'description' | 'priority' | 'scheduled_at'>,
+  propertyName: string,
+  roomNumber?: string
+) => {
+  const schedule = request.scheduled_at
+    ? `\nJadwal: ${new Date(request.scheduled_at).toLocaleString('id-ID', { dateStyle: 'long', timeStyle: 'short' })}`
+    : '';
+  const message = `Halo ${vendor.name},\n\nAda pekerjaan untuk Anda di ${propertyName}${roomNumber ? `, Kamar ${roomNumber}` : ''}.\n\n${request.title}\n${request.description}\n\nPrioritas: ${translateMaintenancePriority(request.priority)}${schedule}\n\nMohon konfirmasi ketersediaan Anda. Terima kasih.`;
+  const phone = vendor.phone || '';
+  const phoneNumber = phone.startsWith('0') ? '62' + phone.slice(1) : phone;
+
+  return `https://wa.me/${phoneNumber}?text=${encodeURIComponent(message)}`;
+};
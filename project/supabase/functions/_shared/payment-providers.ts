@@ -0,0 +1,233 @@
+// Payment provider adapters used by the create-payment-charge, payment-webhook
+// and simulate-mock-payment functions. The provider is chosen with the
+// PAYMENT_PROVIDER secret: `midtrans`, or `mock` to run the whole flow locally.
+// The mock provider marks bills paid without any money moving, so it is only
+// available where the ENABLE_MOCK_PAYMENTS secret is set to `true`.
+
+export type PaymentChannel = 'virtual_account' | 'qris';
+
+export type ChargeStatus = 'pending' | 'paid' | 'expired' | 'failed';
+
+export interface ChargeRequest {
+  externalId: string;
+  amount: number;
+  channel: PaymentChannel;
+  bank?: string;
+  customer: {
+    name: string;
+    email: string;
+    phone: string;
+  };
+  expiresInMinutes: number;
+}
+
+export interface ChargeResult {
+  providerReference: string | null;
+  vaNumber: string | null;
+  qrString: string | null;
+  expiresAt: string | null;
+}
+
+export interface WebhookEvent {
+  externalId: string;
+  providerReference: string;
+  status: ChargeStatus;
+  amount: number;
+  raw: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createCharge(request: ChargeRequest): Promise<ChargeResult>;
+  // Throws when the notification's signature does not verify
+  parseWebhook(req: Request): Promise<WebhookEvent>;
+}
+
+export const VA_BANKS = ['bca', 'bni', 'bri', 'permata'];
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Constant-time comparison so signatures cannot be guessed byte by byte
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+const sha512 = async (value: string) =>
+  toHex(await crypto.subtle.digest('SHA-512', encoder.encode(value)));
+
+const hmacSha256 = async (value: string, secret: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+};
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
+
+// Midtrans Core API: bank transfer virtual accounts and QRIS
+const createMidtransProvider = (): PaymentProvider => {
+  const serverKey = requireEnv('MIDTRANS_SERVER_KEY');
+  const baseUrl = Deno.env.get('MIDTRANS_IS_PRODUCTION') === 'true'
+    ? 'https://api.midtrans.com'
+    : 'https://api.sandbox.midtrans.com';
+
+  const statusMap: Record<string, ChargeStatus> = {
+    settlement: 'paid',
+    capture: 'paid',
+    pending: 'pending',
+    expire: 'expired',
+    cancel: 'failed',
+    deny: 'failed',
+    failure: 'failed',
+  };
+
+  return {
+    name: 'midtrans',
+
+    async createCharge(request) {
+      const body: Record<string, unknown> = {
+        transaction_details: {
+          order_id: request.externalId,
+          gross_amount: Math.round(request.amount),
+        },
+        customer_details: {
+          first_name: request.customer.name,
+          email: request.customer.email,
+          phone: request.customer.phone,
+        },
+        custom_expiry: {
+          expiry_duration: request.expiresInMinutes,
+          unit: 'minute',
+        },
+      };
+
+      if (request.channel === 'qris') {
+        body.payment_type = 'qris';
+      } else if (request.bank === 'permata') {
+        body.payment_type = 'permata';
+      } else {
+        body.payment_type = 'bank_transfer';
+        body.bank_transfer = { bank: request.bank ?? 'bca' };
+      }
+
+      const response = await fetch(`${baseUrl}/v2/charge`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${serverKey}:`)}`,
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !['200', '201'].includes(String(result.status_code))) {
+        throw new Error(result.status_message || 'Midtrans charge failed');
+      }
+
+      // Midtrans reports expiry in WIB without an offset
+      const expiresAt = result.expiry_time
+        ? new Date(`${result.expiry_time.replace(' ', 'T')}+07:00`).toISOString()
+        : null;
+
+      return {
+        providerReference: result.transaction_id ?? null,
+        vaNumber: result.va_numbers?.[0]?.va_number ?? result.permata_va_number ?? null,
+        qrString: result.qr_string ?? null,
+        expiresAt,
+      };
+    },
+
+    async parseWebhook(req) {
+      const payload = await req.json();
+      const expected = await sha512(
+        `${payload.order_id}${payload.status_code}${payload.gross_amount}${serverKey}`,
+      );
+      if (typeof payload.signature_key !== 'string' || !safeEqual(payload.signature_key, expected)) {
+        throw new Error('Invalid signature');
+      }
+
+      return {
+        externalId: payload.order_id,
+        providerReference: payload.transaction_id,
+        status: statusMap[payload.transaction_status] ?? 'pending',
+        amount: Number(payload.gross_amount),
+        raw: payload,
+      };
+    },
+  };
+};
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+export const signMockNotification = (body: string) =>
+  hmacSha256(body, requireEnv('MOCK_PAYMENT_SECRET'));
+
+// Offline provider: issues fake VA numbers and QR strings and accepts
+// notifications signed with MOCK_PAYMENT_SECRET
+const createMockProvider = (): PaymentProvider => ({
+  name: 'mock',
+
+  async createCharge(request) {
+    const digits = BigInt(`0x${(await sha512(request.externalId)).slice(0, 12)}`).toString().slice(0, 10).padStart(10, '0');
+
+    return {
+      providerReference: `mock-${crypto.randomUUID()}`,
+      vaNumber: request.channel === 'virtual_account' ? `8808${digits}` : null,
+      qrString: request.channel === 'qris' ? `MOCKQRIS|${request.externalId}|${Math.round(request.amount)}` : null,
+      expiresAt: new Date(Date.now() + request.expiresInMinutes * 60 * 1000).toISOString(),
+    };
+  },
+
+  async parseWebhook(req) {
+    const body = await req.text();
+    const signature = req.headers.get(MOCK_SIGNATURE_HEADER) ?? '';
+    if (!safeEqual(signature, await signMockNotification(body))) {
+      throw new Error('Invalid signature');
+    }
+
+    const payload = JSON.parse(body);
+    return {
+      externalId: payload.external_id,
+      providerReference: payload.reference,
+      status: payload.status,
+      amount: Number(payload.amount),
+      raw: payload,
+    };
+  },
+});
+
+export const mockPaymentsEnabled = () => Deno.env.get('ENABLE_MOCK_PAYMENTS') === 'true';
+
+export const getPaymentProvider = (name = Deno.env.get('PAYMENT_PROVIDER')): PaymentProvider => {
+  switch (name) {
+    case 'midtrans':
+      return createMidtransProvider();
+    case 'mock':
+      if (!mockPaymentsEnabled()) {
+        throw new Error('Mock payments are disabled');
+      }
+      return createMockProvider();
+    case undefined:
+    case '':
+      throw new Error('No payment provider is configured');
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+};
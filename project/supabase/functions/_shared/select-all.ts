@@ -0,0 +1,52 @@
+// Selects are capped at the API's max rows, so jobs that read more than a
+// handful of rows page through them here. Queries must be selected with
+// `{ count: 'exact' }` and ordered on a unique column so pages do not overlap.
+
+const PAGE_SIZE = 1000;
+const IN_CHUNK_SIZE = 200;
+
+type Page<T> = PromiseLike<{ data: T[] | null; error: unknown; count: number | null }>;
+
+export const selectAll = async <T>(page: (from: number, to: number) => Page<T>): Promise<T[]> => {
+  const rows: T[] = [];
+  let total: number | null = null;
+
+  for (;;) {
+    const { data, error, count } = await page(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw error;
+    if (count === null) throw new Error('selectAll needs a query selected with an exact count');
+
+    total = count;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // A lower server cap, or rows changing while reading, would silently drop rows
+  if (rows.length !== total) {
+    throw new Error(`Expected ${total} rows but read ${rows.length}`);
+  }
+
+  return rows;
+};
+
+// Splits ids for `.in()` filters, which are sent in the URL
+export const chunkIds = (ids: string[]): string[][] => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+    chunks.push(ids.slice(i, i + IN_CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+// Reads the rows matching a list of ids of any length, a chunk of ids at a
+// time
+export const selectAllIn = async <T>(
+  ids: string[],
+  page: (ids: string[], from: number, to: number) => Page<T>,
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (const chunk of chunkIds(ids)) {
+    rows.push(...await selectAll((from, to) => page(chunk, from, to)));
+  }
+  return rows;
+};
@@ -0,0 +1,145 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { VA_BANKS, getPaymentProvider } from '../_shared/payment-providers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const CHARGE_EXPIRY_MINUTES = 24 * 60;
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // Reading the payment as the caller lets RLS decide access: owners see
+    // their properties' payments and tenants their own
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { payment_id: paymentId, channel, bank } = await req.json();
+    if (!['virtual_account', 'qris'].includes(channel)) {
+      throw new Error('Invalid payment channel');
+    }
+    if (channel === 'virtual_account' && !VA_BANKS.includes(bank)) {
+      throw new Error('Invalid bank');
+    }
+
+    const { data: payment, error: paymentError } = await userClient
+      .from('payments')
+      .select('id, tenant_id, property_id, amount, fee_amount, amount_paid, status')
+      .eq('id', paymentId)
+      .maybeSingle();
+    if (paymentError) throw paymentError;
+    if (!payment) throw new Error('Payment not found');
+
+    const outstanding = Number(payment.amount) + Number(payment.fee_amount ?? 0) - Number(payment.amount_paid ?? 0);
+    if (payment.status === 'paid' || outstanding <= 0) {
+      throw new Error('Payment is already settled');
+    }
+
+    const provider = getPaymentProvider();
+
+    // Hand back an open charge for the same balance instead of opening another
+    const { data: openCharges, error: openError } = await supabase
+      .from('payment_gateway_charges')
+      .select('*')
+      .eq('payment_id', payment.id)
+      .eq('provider', provider.name)
+      .eq('channel', channel)
+      .eq('status', 'pending')
+      .eq('amount', outstanding)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1);
+    if (openError) throw openError;
+
+    const reusable = openCharges.find(c => channel === 'qris' || c.bank === bank);
+    if (reusable) {
+      return new Response(JSON.stringify(reusable), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: tenant, error: tenantError } = await supabase
+      .from('tenants')
+      .select('name, email, phone')
+      .eq('id', payment.tenant_id)
+      .single();
+    if (tenantError) throw tenantError;
+
+    const externalId = `PAY-${payment.id.slice(0, 8)}-${Date.now()}`;
+    const result = await provider.createCharge({
+      externalId,
+      amount: outstanding,
+      channel,
+      bank: channel === 'virtual_account' ? bank : undefined,
+      customer: tenant,
+      expiresInMinutes: CHARGE_EXPIRY_MINUTES,
+    });
+
+    const { data: charge, error: chargeError } = await supabase
+      .from('payment_gateway_charges')
+      .insert([{
+        payment_id: payment.id,
+        property_id: payment.property_id,
+        provider: provider.name,
+        channel,
+        bank: channel === 'virtual_account' ? bank : null,
+        amount: outstanding,
+        external_id: externalId,
+        provider_reference: result.providerReference,
+        va_number: result.vaNumber,
+        qr_string: result.qrString,
+        expires_at: result.expiresAt,
+        created_by: user.id,
+      }])
+      .select()
+      .single();
+    if (chargeError) throw chargeError;
+
+    return new Response(JSON.stringify(charge), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,200 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { selectAll, selectAllIn } from '../_shared/select-all.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+// Parse a YYYY-MM-DD string as a UTC date so day arithmetic ignores timezones
+const parseDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Resolve the billing month, defaulting to the month after the current one
+const getPeriod = (period?: string) => {
+  const now = new Date();
+  const [year, month] = period
+    ? period.split('-').map(Number)
+    : [now.getUTCFullYear(), now.getUTCMonth() + 2];
+
+  const start = new Date(Date.UTC(year, month - 1, 1));
+  const end = new Date(Date.UTC(year, month, 0));
+  return { start, end };
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    const { property_id: propertyId, period } = await req.json().catch(() => ({}));
+
+    // Scheduled runs authenticate with the service role key and bill every
+    // property. Owners may only trigger billing for their own properties.
+    let ownerId: string | null = null;
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      const userClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+          global: {
+            headers: {
+              Authorization: authHeader,
+            },
+          },
+        }
+      );
+
+      const { data: { user }, error: userError } = await userClient.auth.getUser();
+      if (userError || !user) {
+        throw new Error('Unauthorized');
+      }
+      ownerId = user.id;
+    }
+
+    const properties = await selectAll((from, to) => {
+      let query = supabase
+        .from('properties')
+        .select('id, owner_id', { count: 'exact' });
+      if (propertyId) query = query.eq('id', propertyId);
+      if (ownerId) query = query.eq('owner_id', ownerId);
+      return query.order('id').range(from, to);
+    });
+
+    // Only owners whose active plan includes auto billing are processed
+    const ownerIds = [...new Set(properties.map(p => p.owner_id))];
+    const subscriptions = await selectAllIn(ownerIds, (ids, from, to) => supabase
+      .from('subscriptions')
+      .select('id, user_id, subscription_plans (features)', { count: 'exact' })
+      .in('user_id', ids)
+      .eq('status', 'active')
+      .order('id')
+      .range(from, to));
+
+    const billableOwners = new Set(
+      subscriptions
+        .filter(s => s.subscription_plans?.features?.auto_billing)
+        .map(s => s.user_id)
+    );
+
+    if (ownerId && !billableOwners.has(ownerId)) {
+      throw new Error('Auto billing is not included in your subscription plan');
+    }
+
+    const { start: periodStart, end: periodEnd } = getPeriod(period);
+    const daysInPeriod = periodEnd.getUTCDate();
+    const results: { property_id: string; created: number; skipped: number }[] = [];
+
+    for (const property of properties.filter(p => billableOwners.has(p.owner_id))) {
+      const [tenants, rooms] = await Promise.all([
+        selectAll((from, to) => supabase
+          .from('tenants')
+          .select('id, room_id, start_date, end_date', { count: 'exact' })
+          .eq('property_id', property.id)
+          .eq('status', 'active')
+          .not('room_id', 'is', null)
+          .order('id')
+          .range(from, to)),
+        selectAll((from, to) => supabase
+          .from('rooms')
+          .select('id, price', { count: 'exact' })
+          .eq('property_id', property.id)
+          .order('id')
+          .range(from, to)),
+      ]);
+
+      const newPayments = [];
+      let skipped = 0;
+
+      for (const tenant of tenants) {
+        const room = rooms.find(r => r.id === tenant.room_id);
+        const leaseStart = parseDate(tenant.start_date);
+        const leaseEnd = parseDate(tenant.end_date);
+
+        // Skip periods that fall outside the lease
+        if (!room || leaseStart > periodEnd || leaseEnd < periodStart) {
+          skipped++;
+          continue;
+        }
+
+        // Pro-rate the first and last month of the lease by occupied days
+        const billedStart = leaseStart > periodStart ? leaseStart : periodStart;
+        const billedEnd = leaseEnd < periodEnd ? leaseEnd : periodEnd;
+        const billedDays = Math.round((billedEnd.getTime() - billedStart.getTime()) / MS_PER_DAY) + 1;
+        const amount = Math.round((Number(room.price) * billedDays) / daysInPeriod);
+
+        newPayments.push({
+          tenant_id: tenant.id,
+          room_id: room.id,
+          property_id: property.id,
+          amount,
+          date: null,
+          due_date: toDateString(billedStart),
+          status: 'pending',
+          period_start: toDateString(periodStart),
+          period_end: toDateString(periodEnd),
+          notes: billedDays < daysInPeriod
+            ? `Tagihan prorata ${billedDays}/${daysInPeriod} hari`
+            : null,
+        });
+      }
+
+      let created = 0;
+      if (newPayments.length > 0) {
+        // The unique (tenant_id, period_start) constraint makes re-runs a no-op
+        const { data: inserted, error: insertError } = await supabase
+          .from('payments')
+          .upsert(newPayments, { onConflict: 'tenant_id,period_start', ignoreDuplicates: true })
+          .select('id');
+        if (insertError) throw insertError;
+        created = inserted?.length ?? 0;
+      }
+
+      results.push({
+        property_id: property.id,
+        created,
+        skipped: skipped + newPayments.length - created,
+      });
+    }
+
+    return new Response(JSON.stringify({
+      period_start: toDateString(periodStart),
+      period_end: toDateString(periodEnd),
+      results,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
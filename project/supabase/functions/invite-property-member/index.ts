@@ -0,0 +1,83 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const ROLES = ['admin', 'manager', 'staff'];
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // The invitation is created as the caller, so the function decides
+    // whether they may invite to the property
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { property_id: propertyId, email, role, redirect_to: redirectTo } = await req.json();
+    if (!ROLES.includes(role)) {
+      throw new Error('Invalid role');
+    }
+    if (typeof email !== 'string' || !email.includes('@')) {
+      throw new Error('Invalid email');
+    }
+
+    const { data: invitation, error: invitationError } = await userClient
+      .rpc('create_property_invitation', { p_property_id: propertyId, p_email: email, p_role: role })
+      .single();
+    if (invitationError) throw invitationError;
+
+    // Existing users were notified in the app; anyone else gets a sign-up
+    // email and finds the invitation once their address is confirmed
+    const { error: inviteError } = await supabase.auth.admin.inviteUserByEmail(invitation.email, {
+      redirectTo,
+    });
+    if (inviteError && inviteError.status !== 422) throw inviteError;
+
+    return new Response(JSON.stringify(invitation), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,152 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { selectAll } from '../_shared/select-all.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const DEFAULT_REMINDER_DAYS = [30, 14, 7];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Only the scheduler, which uses the service role key, may run this job
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    // Lease dates are calendar dates in the properties' local timezone
+    const today = new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Jakarta' });
+
+    // Reminders already sent for leases that have ended are never needed again
+    const [tenants, settings, notices] = await Promise.all([
+      selectAll((from, to) => supabase
+        .from('tenants')
+        .select('id, name, property_id, end_date, property:properties (owner_id)', { count: 'exact' })
+        .eq('status', 'active')
+        .order('id')
+        .range(from, to)),
+      selectAll((from, to) => supabase
+        .from('user_settings')
+        .select('user_id, lease_expiry_reminder_days', { count: 'exact' })
+        .order('user_id')
+        .range(from, to)),
+      selectAll((from, to) => supabase
+        .from('lease_expiry_notices')
+        .select('id, tenant_id, end_date, offset_days', { count: 'exact' })
+        .gte('end_date', today)
+        .order('id')
+        .range(from, to)),
+    ]);
+
+    const reminderDaysOf = (ownerId: string | null) => {
+      const days = settings.find(s => s.user_id === ownerId)?.lease_expiry_reminder_days;
+      return days?.length ? days : DEFAULT_REMINDER_DAYS;
+    };
+
+    const notifications = [];
+    const newNotices = [];
+    const expiredTenantIds: string[] = [];
+
+    for (const tenant of tenants) {
+      const ownerId = tenant.property?.owner_id ?? null;
+      const daysLeft = daysBetween(today, tenant.end_date);
+
+      // Leases that ended without a renewal wait for the move-out
+      if (daysLeft < 0) {
+        expiredTenantIds.push(tenant.id);
+        notifications.push({
+          title: 'Masa Sewa Berakhir',
+          message: `Masa sewa ${tenant.name} telah berakhir pada ${tenant.end_date} dan belum diperpanjang. Status penyewa diubah menjadi menunggu keluar.`,
+          type: 'property',
+          status: 'unread',
+          target_user_id: ownerId,
+          target_property_id: tenant.property_id,
+        });
+        continue;
+      }
+
+      // Only the closest reached offset is notified; skipped larger offsets
+      // are recorded too so they do not fire late
+      const reached = reminderDaysOf(ownerId).filter((d: number) => daysLeft <= d);
+      if (reached.length === 0) continue;
+
+      const closest = Math.min(...reached);
+      const alreadySent = notices.some(n =>
+        n.tenant_id === tenant.id && n.end_date === tenant.end_date && n.offset_days === closest
+      );
+      if (alreadySent) continue;
+
+      notifications.push({
+        title: 'Masa Sewa Akan Berakhir',
+        message: daysLeft === 0
+          ? `Masa sewa ${tenant.name} berakhir hari ini.`
+          : `Masa sewa ${tenant.name} akan berakhir dalam ${daysLeft} hari (${tenant.end_date}).`,
+        type: 'property',
+        status: 'unread',
+        target_user_id: ownerId,
+        target_property_id: tenant.property_id,
+      });
+      newNotices.push(...reached.map((offset: number) => ({
+        tenant_id: tenant.id,
+        end_date: tenant.end_date,
+        offset_days: offset,
+      })));
+    }
+
+    // Notices and statuses are only recorded once the owners are notified,
+    // so a failure here is retried on the next run instead of never notifying
+    if (notifications.length > 0) {
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+      if (notificationError) throw notificationError;
+    }
+
+    if (expiredTenantIds.length > 0) {
+      const { error: updateError } = await supabase
+        .from('tenants')
+        .update({ status: 'move_out_pending', updated_at: new Date().toISOString() })
+        .in('id', expiredTenantIds);
+      if (updateError) throw updateError;
+    }
+
+    if (newNotices.length > 0) {
+      const { error: noticeError } = await supabase
+        .from('lease_expiry_notices')
+        .upsert(newNotices, { onConflict: 'tenant_id,end_date,offset_days', ignoreDuplicates: true });
+      if (noticeError) throw noticeError;
+    }
+
+    return new Response(JSON.stringify({
+      leases_expired: expiredTenantIds.length,
+      notifications_created: notifications.length,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,152 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { selectAll } from '../_shared/select-all.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+// Same month arithmetic as the app's calendar: the day is kept where the
+// month has it, otherwise the month's last day is used
+const addMonths = (date: string, months: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Only the scheduler, which uses the service role key, may run this job
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    // Due dates are calendar dates in the properties' local timezone
+    const today = new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Jakarta' });
+
+    const schedules = (await selectAll((from, to) => supabase
+      .from('maintenance_schedules')
+      .select('id, property_id, room_id, facility, title, next_due_date, lead_days', { count: 'exact' })
+      .eq('active', true)
+      .lte('next_due_date', addMonths(today, 12))
+      .order('id')
+      .range(from, to)))
+      .filter(schedule => daysBetween(today, schedule.next_due_date) <= schedule.lead_days);
+
+    // Only the properties and rooms of due schedules are needed
+    const propertyIds = [...new Set(schedules.map(s => s.property_id))];
+    const roomIds = [...new Set(schedules.map(s => s.room_id).filter(Boolean))];
+
+    const [properties, rooms] = await Promise.all([
+      propertyIds.length > 0
+        ? selectAll((from, to) => supabase
+          .from('properties')
+          .select('id, owner_id', { count: 'exact' })
+          .in('id', propertyIds)
+          .order('id')
+          .range(from, to))
+        : [],
+      roomIds.length > 0
+        ? selectAll((from, to) => supabase
+          .from('rooms')
+          .select('id, number, facilities', { count: 'exact' })
+          .in('id', roomIds)
+          .order('id')
+          .range(from, to))
+        : [],
+    ]);
+
+    const ownerOf = (propertyId: string) =>
+      properties.find(p => p.id === propertyId)?.owner_id ?? null;
+
+    const notifications = [];
+    const paused: string[] = [];
+    let created = 0;
+
+    for (const schedule of schedules) {
+      const room = schedule.room_id ? rooms.find(r => r.id === schedule.room_id) : null;
+
+      // A room that lost the facility no longer needs its schedule
+      if (room && !(room.facilities ?? []).includes(schedule.facility)) {
+        paused.push(schedule.id);
+        notifications.push({
+          title: 'Jadwal Pemeliharaan Dihentikan',
+          message: `Jadwal "${schedule.title}" untuk Kamar ${room.number} dihentikan karena kamar tidak lagi memiliki fasilitas ${schedule.facility}.`,
+          type: 'property',
+          status: 'unread',
+          target_user_id: ownerOf(schedule.property_id),
+          target_property_id: schedule.property_id,
+        });
+        continue;
+      }
+
+      // The request is created and the schedule moved to its next due date
+      // together; a schedule another run already generated returns nothing
+      const { data: request, error: requestError } = await supabase
+        .rpc('generate_maintenance_schedule_request', { p_schedule_id: schedule.id, p_today: today })
+        .maybeSingle();
+      if (requestError) throw requestError;
+      if (!request?.id) continue;
+      created++;
+
+      notifications.push({
+        title: 'Pemeliharaan Terjadwal',
+        message: `${schedule.title}${room ? ` untuk Kamar ${room.number}` : ''} jatuh tempo pada ${schedule.next_due_date}. Permintaan pemeliharaan telah dibuat.`,
+        type: 'property',
+        status: 'unread',
+        target_user_id: ownerOf(schedule.property_id),
+        target_property_id: schedule.property_id,
+      });
+    }
+
+    if (paused.length > 0) {
+      const { error: pauseError } = await supabase
+        .from('maintenance_schedules')
+        .update({ active: false, updated_at: new Date().toISOString() })
+        .in('id', paused);
+      if (pauseError) throw pauseError;
+    }
+
+    if (notifications.length > 0) {
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+      if (notificationError) throw notificationError;
+    }
+
+    return new Response(JSON.stringify({
+      requests_created: created,
+      schedules_paused: paused.length,
+      notifications_created: notifications.length,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,154 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { chunkIds, selectAll, selectAllIn } from '../_shared/select-all.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const PRIORITY_LABELS: Record<string, string> = {
+  high: 'Tinggi',
+  medium: 'Sedang',
+  low: 'Rendah',
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Only the scheduler, which uses the service role key, may run this job
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    const now = new Date().toISOString();
+
+    // Deadlines are kept on the requests, so only missed ones are loaded
+    const requests = await selectAll((from, to) => supabase
+      .from('maintenance_requests')
+      .select('id, property_id, room_id, title, priority, status, start_due_at, resolve_due_at, start_escalated_at, resolve_escalated_at', { count: 'exact' })
+      .neq('status', 'completed')
+      .or(`and(status.eq.pending,start_escalated_at.is.null,start_due_at.lte.${now}),and(resolve_escalated_at.is.null,resolve_due_at.lte.${now})`)
+      .order('id')
+      .range(from, to));
+
+    if (requests.length === 0) {
+      return new Response(JSON.stringify({ escalated: 0, notifications_created: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const propertyIds = [...new Set(requests.map(r => r.property_id))];
+    const roomIds = [...new Set(requests.map(r => r.room_id).filter(Boolean))];
+
+    const [properties, members, rooms] = await Promise.all([
+      selectAllIn(propertyIds, (ids, from, to) => supabase
+        .from('properties')
+        .select('id, owner_id', { count: 'exact' })
+        .in('id', ids)
+        .order('id')
+        .range(from, to)),
+      selectAllIn(propertyIds, (ids, from, to) => supabase
+        .from('property_members')
+        .select('id, property_id, user_id', { count: 'exact' })
+        .in('property_id', ids)
+        .in('role', ['admin', 'manager'])
+        .order('id')
+        .range(from, to)),
+      selectAllIn(roomIds, (ids, from, to) => supabase
+        .from('rooms')
+        .select('id, number', { count: 'exact' })
+        .in('id', ids)
+        .order('id')
+        .range(from, to)),
+    ]);
+
+    // The owner, admins and managers are the escalation contacts
+    const recipientsOf = (propertyId: string) => [
+      ...properties.filter(p => p.id === propertyId).map(p => p.owner_id),
+      ...members.filter(m => m.property_id === propertyId).map(m => m.user_id),
+    ];
+
+    const notifications = [];
+    const startEscalated: string[] = [];
+    const resolveEscalated: string[] = [];
+
+    for (const request of requests) {
+      const room = rooms.find(r => r.id === request.room_id);
+      const subject = `"${request.title}"${room ? ` (Kamar ${room.number})` : ''}, prioritas ${PRIORITY_LABELS[request.priority] ?? request.priority}`;
+      const messages = [];
+
+      if (request.status === 'pending' && !request.start_escalated_at && Date.parse(request.start_due_at) <= Date.parse(now)) {
+        startEscalated.push(request.id);
+        messages.push(`Permintaan ${subject} belum mulai dikerjakan melewati batas waktu SLA.`);
+      }
+      if (!request.resolve_escalated_at && Date.parse(request.resolve_due_at) <= Date.parse(now)) {
+        resolveEscalated.push(request.id);
+        messages.push(`Permintaan ${subject} belum selesai melewati batas waktu SLA.`);
+      }
+
+      // A request that missed both deadlines at once notifies once
+      if (messages.length === 0) continue;
+      for (const userId of recipientsOf(request.property_id)) {
+        notifications.push({
+          title: 'Eskalasi SLA Pemeliharaan',
+          message: messages.join(' '),
+          type: 'property',
+          status: 'unread',
+          target_user_id: userId,
+          target_property_id: request.property_id,
+        });
+      }
+    }
+
+    // Requests are only marked escalated once their notifications exist, so
+    // a failure here is retried on the next run instead of never notifying
+    if (notifications.length > 0) {
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+      if (notificationError) throw notificationError;
+    }
+
+    for (const ids of chunkIds(startEscalated)) {
+      const { error } = await supabase
+        .from('maintenance_requests')
+        .update({ start_escalated_at: now })
+        .in('id', ids);
+      if (error) throw error;
+    }
+
+    for (const ids of chunkIds(resolveEscalated)) {
+      const { error } = await supabase
+        .from('maintenance_requests')
+        .update({ resolve_escalated_at: now })
+        .in('id', ids);
+      if (error) throw error;
+    }
+
+    return new Response(JSON.stringify({
+      escalated: new Set([...startEscalated, ...resolveEscalated]).size,
+      notifications_created: notifications.length,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,129 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { getPaymentProvider } from '../_shared/payment-providers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const UNIQUE_VIOLATION = '23505';
+
+const formatRupiah = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+// Called by the payment provider, so there is no user session. The
+// notification is trusted only once its signature verifies.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const providerName = new URL(req.url).searchParams.get('provider') ?? undefined;
+    const provider = getPaymentProvider(providerName);
+
+    let event;
+    try {
+      event = await provider.parseWebhook(req);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { data: charge, error: chargeError } = await supabase
+      .from('payment_gateway_charges')
+      .select('*')
+      .eq('external_id', event.externalId)
+      .eq('provider', provider.name)
+      .maybeSingle();
+    if (chargeError) throw chargeError;
+    if (!charge) throw new Error('Charge not found');
+
+    // A settled charge stays settled whatever arrives after it
+    if (charge.status === 'paid') {
+      return new Response(JSON.stringify({ status: 'already_paid' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (event.status === 'paid' && event.amount < Number(charge.amount)) {
+      throw new Error('Paid amount does not match the charge');
+    }
+
+    if (event.status === 'paid') {
+      // The receipt trigger recomputes the payment's status from its receipts.
+      // A retry finds the receipt already recorded by its provider reference.
+      const today = new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Jakarta' });
+      const channelLabel = charge.channel === 'qris' ? 'QRIS' : `VA ${String(charge.bank).toUpperCase()}`;
+      const { error: transactionError } = await supabase
+        .from('payment_transactions')
+        .insert([{
+          payment_id: charge.payment_id,
+          property_id: charge.property_id,
+          amount: charge.amount,
+          date: today,
+          payment_method: charge.channel,
+          provider_reference: event.providerReference ?? charge.external_id,
+          notes: `${channelLabel} via ${provider.name} (${charge.external_id})`,
+        }]);
+      if (transactionError && transactionError.code !== UNIQUE_VIOLATION) throw transactionError;
+
+      const { data: property } = await supabase
+        .from('properties')
+        .select('owner_id')
+        .eq('id', charge.property_id)
+        .maybeSingle();
+
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert([{
+          title: 'Pembayaran Online Diterima',
+          message: `Pembayaran ${formatRupiah(Number(charge.amount))} melalui ${channelLabel} telah diterima.`,
+          type: 'payment',
+          status: 'unread',
+          target_user_id: property?.owner_id ?? null,
+          target_property_id: charge.property_id,
+        }]);
+      if (notificationError) throw notificationError;
+    }
+
+    // The charge is marked last: a failure before this point is retried by
+    // the provider, and a retry of a settled charge returns early
+    const { error: updateError } = await supabase
+      .from('payment_gateway_charges')
+      .update({
+        status: event.status,
+        provider_reference: event.providerReference ?? charge.provider_reference,
+        paid_at: event.status === 'paid' ? new Date().toISOString() : null,
+        raw_notification: event.raw,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', charge.id);
+    if (updateError) throw updateError;
+
+    return new Response(JSON.stringify({ status: event.status }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,285 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { selectAll } from '../_shared/select-all.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Bump the version, and teach restore_property_backup to read the old one,
+// whenever the archive layout changes
+const ARCHIVE_FORMAT = 'kostmanager-property-backup';
+const ARCHIVE_VERSION = 1;
+const BUCKET = 'property-backups';
+
+// Scheduled archives kept per property; manual exports are never pruned
+const RETENTION = Number(Deno.env.get('BACKUP_RETENTION') ?? 10);
+
+// The job runs hourly, so realtime backups are taken every hour
+const BACKUP_INTERVAL_HOURS: Record<string, number> = {
+  weekly: 24 * 7,
+  daily: 24,
+  realtime: 1,
+};
+
+// A run that starts a little early must not skip its slot
+const SCHEDULE_SLACK_MS = 5 * 60 * 1000;
+
+const buildArchive = async (supabase: SupabaseClient, propertyId: string) => {
+  const { data: property, error: propertyError } = await supabase
+    .from('properties')
+    .select('id, name, address, city, phone, email')
+    .eq('id', propertyId)
+    .single();
+  if (propertyError) throw propertyError;
+
+  const [rooms, tenants, payments, paymentFees, paymentTransactions, maintenanceRequests, notifications] = await Promise.all([
+    selectAll((from, to) => supabase.from('rooms')
+      .select('id, number, floor, type, price, status, facilities, tenant_id', { count: 'exact' })
+      .eq('property_id', propertyId)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabase.from('tenants')
+      .select('id, name, phone, email, room_id, start_date, end_date, status, payment_status', { count: 'exact' })
+      .eq('property_id', propertyId)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabase.from('payments')
+      .select('id, tenant_id, room_id, amount, amount_paid, fee_amount, date, due_date, status, payment_method, notes, period_start, period_end', { count: 'exact' })
+      .eq('property_id', propertyId)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabase.from('payment_fees')
+      .select('id, payment_id, type, amount, description', { count: 'exact' })
+      .eq('property_id', propertyId)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabase.from('payment_transactions')
+      .select('id, payment_id, amount, date, payment_method, notes', { count: 'exact' })
+      .eq('property_id', propertyId)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabase.from('maintenance_requests')
+      .select('id, room_id, tenant_id, title, description, date, status, priority', { count: 'exact' })
+      .eq('property_id', propertyId)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabase.from('notifications')
+      .select('id, title, message, type, status, created_at', { count: 'exact' })
+      .eq('target_property_id', propertyId)
+      .order('id')
+      .range(from, to)),
+  ]);
+
+  const records = {
+    rooms,
+    tenants,
+    payments,
+    payment_fees: paymentFees,
+    payment_transactions: paymentTransactions,
+    maintenance_requests: maintenanceRequests,
+    notifications,
+  };
+
+  return {
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exported_at: new Date().toISOString(),
+      property,
+      ...records,
+    },
+    counts: Object.fromEntries(Object.entries(records).map(([key, rows]) => [key, rows.length])),
+  };
+};
+
+const writeBackup = async (
+  supabase: SupabaseClient,
+  propertyId: string,
+  trigger: 'manual' | 'scheduled',
+  userId: string | null,
+) => {
+  const { archive, counts } = await buildArchive(supabase, propertyId);
+  const body = JSON.stringify(archive);
+  const path = `${propertyId}/${archive.exported_at.replace(/[:.]/g, '-')}.json`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, new Blob([body], { type: 'application/json' }));
+  if (uploadError) throw uploadError;
+
+  const { data: backup, error: backupError } = await supabase
+    .from('property_backups')
+    .insert([{
+      property_id: propertyId,
+      storage_path: path,
+      schema_version: ARCHIVE_VERSION,
+      trigger,
+      size_bytes: new TextEncoder().encode(body).length,
+      record_counts: counts,
+      created_by: userId,
+    }])
+    .select()
+    .single();
+  if (backupError) throw backupError;
+
+  return backup;
+};
+
+const pruneBackups = async (supabase: SupabaseClient, propertyId: string) => {
+  const { data: stale, error } = await supabase
+    .from('property_backups')
+    .select('id, storage_path')
+    .eq('property_id', propertyId)
+    .eq('trigger', 'scheduled')
+    .order('created_at', { ascending: false })
+    .range(RETENTION, RETENTION + 100);
+  if (error) throw error;
+  if (!stale || stale.length === 0) return 0;
+
+  const { error: removeError } = await supabase.storage
+    .from(BUCKET)
+    .remove(stale.map(b => b.storage_path));
+  if (removeError) throw removeError;
+
+  const { error: deleteError } = await supabase
+    .from('property_backups')
+    .delete()
+    .in('id', stale.map(b => b.id));
+  if (deleteError) throw deleteError;
+
+  return stale.length;
+};
+
+const runScheduledBackups = async (supabase: SupabaseClient) => {
+  const subscriptions = await selectAll((from, to) => supabase
+    .from('subscriptions')
+    .select('id, user_id, plan:subscription_plans (features)', { count: 'exact' })
+    .eq('status', 'active')
+    .order('id')
+    .range(from, to));
+
+  const intervalByOwner = new Map<string, number>();
+  for (const subscription of subscriptions) {
+    const plan = subscription.plan as { features?: { data_backup?: string | false } } | null;
+    const hours = BACKUP_INTERVAL_HOURS[String(plan?.features?.data_backup)];
+    if (hours) intervalByOwner.set(subscription.user_id, hours);
+  }
+  if (intervalByOwner.size === 0) return { created: 0, pruned: 0 };
+
+  const [allProperties, scheduledBackups] = await Promise.all([
+    selectAll((from, to) => supabase
+      .from('properties')
+      .select('id, owner_id', { count: 'exact' })
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabase
+      .from('property_backups')
+      .select('id, property_id, created_at', { count: 'exact' })
+      .eq('trigger', 'scheduled')
+      .order('id')
+      .range(from, to)),
+  ]);
+  const properties = allProperties.filter(p => intervalByOwner.has(p.owner_id));
+
+  const lastBackupAt = new Map<string, number>();
+  for (const backup of scheduledBackups) {
+    const createdAt = Date.parse(backup.created_at);
+    if (createdAt > (lastBackupAt.get(backup.property_id) ?? 0)) {
+      lastBackupAt.set(backup.property_id, createdAt);
+    }
+  }
+
+  let created = 0;
+  let pruned = 0;
+  for (const property of properties) {
+    const intervalMs = (intervalByOwner.get(property.owner_id) ?? 0) * 60 * 60 * 1000;
+    const last = lastBackupAt.get(property.id);
+    if (last !== undefined && Date.now() - last < intervalMs - SCHEDULE_SLACK_MS) continue;
+
+    // One failing property must not stop the others from being backed up
+    try {
+      await writeBackup(supabase, property.id, 'scheduled', null);
+      created++;
+      pruned += await pruneBackups(supabase, property.id);
+    } catch (error) {
+      console.error(`Backup failed for property ${property.id}:`, error);
+    }
+  }
+
+  return { created, pruned };
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    // The scheduler calls with the service role key; owners call with their
+    // session to export one property on demand
+    if (authHeader === `Bearer ${serviceRoleKey}`) {
+      const result = await runScheduledBackups(supabase);
+      return new Response(JSON.stringify(result), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { property_id: propertyId } = await req.json();
+    const { data: property, error: propertyError } = await supabase
+      .from('properties')
+      .select('id')
+      .eq('id', propertyId)
+      .eq('owner_id', user.id)
+      .maybeSingle();
+    if (propertyError) throw propertyError;
+    if (!property) throw new Error('Property not found');
+
+    const backup = await writeBackup(supabase, property.id, 'manual', user.id);
+    return new Response(JSON.stringify(backup), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,98 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { MOCK_SIGNATURE_HEADER, mockPaymentsEnabled, signMockNotification } from '../_shared/payment-providers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Pays a mock charge by sending payment-webhook the signed notification the
+// mock provider would send, so the real verification path is exercised. Only
+// available where mock payments are enabled, and only to the property owner.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    if (!mockPaymentsEnabled()) {
+      throw new Error('Mock payments are disabled');
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) throw new Error('Unauthorized');
+
+    const { charge_id: chargeId } = await req.json();
+
+    // RLS limits this to charges the caller can see
+    const { data: charge, error: chargeError } = await userClient
+      .from('payment_gateway_charges')
+      .select('external_id, provider_reference, amount, provider, status, property:properties (owner_id)')
+      .eq('id', chargeId)
+      .maybeSingle();
+    if (chargeError) throw chargeError;
+    if (!charge) throw new Error('Charge not found');
+    if (charge.property?.owner_id !== user.id) {
+      throw new Error('Only the property owner can simulate payments');
+    }
+    if (charge.provider !== 'mock') {
+      throw new Error('Only mock charges can be simulated');
+    }
+
+    const body = JSON.stringify({
+      external_id: charge.external_id,
+      reference: charge.provider_reference,
+      status: 'paid',
+      amount: Number(charge.amount),
+    });
+
+    const response = await fetch(
+      `${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-webhook?provider=mock`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [MOCK_SIGNATURE_HEADER]: await signMockNotification(body),
+        },
+        body,
+      }
+    );
+
+    const result = await response.json();
+    return new Response(JSON.stringify(result), {
+      status: response.status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
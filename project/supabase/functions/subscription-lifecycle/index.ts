@@ -0,0 +1,225 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { selectAll } from '../_shared/select-all.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const REMINDER_DAYS = [7, 3, 1];
+// Days a renewal invoice may stay unpaid before the account turns read-only
+const GRACE_DAYS = 7;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+// Subscription periods are timestamps, but owners think in local dates
+const toLocalDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-CA', { timeZone: 'Asia/Jakarta' });
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Only the scheduler, which uses the service role key, may run this job
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    const now = new Date().toISOString();
+    const today = toLocalDate(now);
+
+    // Reminders for periods that have ended are never needed again, and an
+    // unpaid invoice past its grace period expires its subscription
+    const [subscriptions, reminders, overdueInvoices] = await Promise.all([
+      selectAll((from, to) => supabase
+        .from('subscriptions')
+        .select('id, user_id, current_period_end, cancel_at_period_end, plan:subscription_plans (name, price)', { count: 'exact' })
+        .eq('status', 'active')
+        .order('id')
+        .range(from, to)),
+      selectAll((from, to) => supabase
+        .from('subscription_reminders')
+        .select('id, subscription_id, period_end, offset_days', { count: 'exact' })
+        .gt('period_end', now)
+        .order('id')
+        .range(from, to)),
+      selectAll((from, to) => supabase
+        .from('subscription_invoices')
+        .select('id, subscription_id', { count: 'exact' })
+        .eq('status', 'unpaid')
+        .lt('due_at', now)
+        .order('id')
+        .range(from, to)),
+    ]);
+
+    const overdueSubscriptionIds = new Set(overdueInvoices.map(i => i.subscription_id));
+
+    const notifications = [];
+    const newReminders = [];
+    const cancelledIds: string[] = [];
+    const expiredIds: string[] = [];
+    let renewed = 0;
+    let renewalNotifications = 0;
+    let failed = 0;
+
+    for (const subscription of subscriptions) {
+      const planName = subscription.plan?.name ?? '-';
+
+      // Unpaid past the grace period: the account becomes read-only until
+      // the invoice is paid
+      if (overdueSubscriptionIds.has(subscription.id)) {
+        expiredIds.push(subscription.id);
+        notifications.push({
+          title: 'Langganan Berakhir',
+          message: `Tagihan langganan paket ${planName} belum dibayar hingga masa tenggang berakhir. Akun Anda kini hanya dapat dibaca sampai tagihan dilunasi.`,
+          type: 'system',
+          status: 'unread',
+          target_user_id: subscription.user_id,
+        });
+        continue;
+      }
+
+      if (Date.parse(subscription.current_period_end) <= Date.parse(now)) {
+        if (subscription.cancel_at_period_end) {
+          cancelledIds.push(subscription.id);
+          notifications.push({
+            title: 'Langganan Dibatalkan',
+            message: `Langganan paket ${planName} telah berakhir sesuai permintaan pembatalan Anda.`,
+            type: 'system',
+            status: 'unread',
+            target_user_id: subscription.user_id,
+          });
+          continue;
+        }
+
+        // Each renewal commits on its own, so it is notified right away and
+        // one failing subscription must not stop the others from renewing
+        try {
+          const { data: invoice, error: renewError } = await supabase
+            .rpc('renew_subscription', { p_subscription_id: subscription.id, p_grace_days: GRACE_DAYS })
+            .single();
+          if (renewError) throw renewError;
+          renewed++;
+
+          const { error: notificationError } = await supabase
+            .from('notifications')
+            .insert([{
+              title: 'Langganan Diperpanjang',
+              message: invoice.status === 'unpaid'
+                ? `Langganan paket ${planName} diperpanjang hingga ${toLocalDate(invoice.period_end)}. Mohon lunasi tagihan ${invoice.invoice_number} sebesar ${formatCurrency(invoice.total)} sebelum ${toLocalDate(invoice.due_at)}.`
+                : `Langganan paket ${planName} diperpanjang hingga ${toLocalDate(invoice.period_end)}.`,
+              type: 'system',
+              status: 'unread',
+              target_user_id: subscription.user_id,
+            }]);
+          if (notificationError) throw notificationError;
+          renewalNotifications++;
+        } catch (error) {
+          console.error(`Renewal failed for subscription ${subscription.id}:`, error);
+          failed++;
+        }
+        continue;
+      }
+
+      // Only the closest reached offset is notified; skipped larger offsets
+      // are recorded too so they do not fire late
+      const daysLeft = daysBetween(today, toLocalDate(subscription.current_period_end));
+      const reached = REMINDER_DAYS.filter(d => daysLeft <= d);
+      if (reached.length === 0) continue;
+
+      const closest = Math.min(...reached);
+      const alreadySent = reminders.some(r =>
+        r.subscription_id === subscription.id
+        && Date.parse(r.period_end) === Date.parse(subscription.current_period_end)
+        && r.offset_days === closest
+      );
+      if (alreadySent) continue;
+
+      const endDate = toLocalDate(subscription.current_period_end);
+      notifications.push({
+        title: subscription.cancel_at_period_end ? 'Langganan Akan Berakhir' : 'Perpanjangan Langganan',
+        message: subscription.cancel_at_period_end
+          ? `Langganan paket ${planName} akan berakhir pada ${endDate} dan tidak diperpanjang.`
+          : `Langganan paket ${planName} akan diperpanjang otomatis pada ${endDate} sebesar ${formatCurrency(subscription.plan?.price ?? 0)} belum termasuk PPN.`,
+        type: 'system',
+        status: 'unread',
+        target_user_id: subscription.user_id,
+      });
+      newReminders.push(...reached.map(offset => ({
+        subscription_id: subscription.id,
+        period_end: subscription.current_period_end,
+        offset_days: offset,
+      })));
+    }
+
+    // Subscriptions are only marked once their owners are notified, so a
+    // failure here is retried on the next run instead of never notifying
+    if (notifications.length > 0) {
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+      if (notificationError) throw notificationError;
+    }
+
+    if (cancelledIds.length > 0) {
+      const { error: cancelError } = await supabase
+        .from('subscriptions')
+        .update({ status: 'cancelled', updated_at: now })
+        .in('id', cancelledIds);
+      if (cancelError) throw cancelError;
+    }
+
+    if (expiredIds.length > 0) {
+      const { error: expireError } = await supabase
+        .from('subscriptions')
+        .update({ status: 'expired', updated_at: now })
+        .in('id', expiredIds);
+      if (expireError) throw expireError;
+    }
+
+    if (newReminders.length > 0) {
+      const { error: reminderError } = await supabase
+        .from('subscription_reminders')
+        .upsert(newReminders, { onConflict: 'subscription_id,period_end,offset_days', ignoreDuplicates: true });
+      if (reminderError) throw reminderError;
+    }
+
+    return new Response(JSON.stringify({
+      subscriptions_renewed: renewed,
+      subscriptions_cancelled: cancelledIds.length,
+      subscriptions_expired: expiredIds.length,
+      subscriptions_failed: failed,
+      notifications_created: notifications.length + renewalNotifications,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
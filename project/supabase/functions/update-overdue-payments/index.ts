@@ -0,0 +1,186 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { selectAll } from '../_shared/select-all.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+interface LateFeeRule {
+  property_id: string;
+  flat_amount: number;
+  percentage: number;
+  percentage_interval: 'day' | 'week';
+  grace_period_days: number;
+  max_amount: number | null;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+// Late fee for a payment under a property's rule, or null while still in the
+// grace period. Percentages are charged on the rent per started day or week.
+const calculateLateFee = (rule: LateFeeRule, rent: number, dueDate: string, today: string) => {
+  const daysLate = daysBetween(dueDate, today) - rule.grace_period_days;
+  if (daysLate <= 0) return null;
+
+  const periods = rule.percentage_interval === 'week' ? Math.ceil(daysLate / 7) : daysLate;
+  const intervalLabel = rule.percentage_interval === 'week' ? 'minggu' : 'hari';
+  const parts: string[] = [];
+  let amount = 0;
+
+  if (Number(rule.flat_amount) > 0) {
+    amount += Number(rule.flat_amount);
+    parts.push(`biaya tetap ${formatCurrency(Number(rule.flat_amount))}`);
+  }
+  if (Number(rule.percentage) > 0) {
+    amount += Math.round((rent * Number(rule.percentage) / 100) * periods);
+    parts.push(`${rule.percentage}% x ${periods} ${intervalLabel}`);
+  }
+  if (rule.max_amount !== null && amount > Number(rule.max_amount)) {
+    amount = Number(rule.max_amount);
+    parts.push(`maks. ${formatCurrency(amount)}`);
+  }
+  if (amount <= 0) return null;
+
+  return {
+    amount,
+    description: `Denda keterlambatan ${daysLate} hari (${parts.join(', ')})`,
+  };
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Only the scheduler, which uses the service role key, may run this job
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    // Due dates are calendar dates in the properties' local timezone
+    const today = new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Jakarta' });
+
+    // Updates return every row they touched, so the newly overdue payments
+    // are stamped and read back page by page instead
+    const markedAt = new Date().toISOString();
+    const { error: overdueError } = await supabase
+      .from('payments')
+      .update({ status: 'overdue', updated_at: markedAt })
+      .in('status', ['pending', 'partial'])
+      .lt('due_date', today);
+    if (overdueError) throw overdueError;
+
+    const overduePayments = await selectAll((from, to) => supabase
+      .from('payments')
+      .select('id, tenant_id, property_id, amount, amount_paid, due_date, tenant:tenants (name), property:properties (owner_id)', { count: 'exact' })
+      .eq('status', 'overdue')
+      .eq('updated_at', markedAt)
+      .order('id')
+      .range(from, to));
+
+    // Accrue late fees on every overdue payment of a property with active rules
+    const [lateFeeRules, feePayments] = await Promise.all([
+      selectAll((from, to) => supabase
+        .from('late_fee_rules')
+        .select('property_id, flat_amount, percentage, percentage_interval, grace_period_days, max_amount', { count: 'exact' })
+        .eq('enabled', true)
+        .order('property_id')
+        .range(from, to)),
+      selectAll((from, to) => supabase
+        .from('payments')
+        .select('id, property_id, amount, due_date, fee_amount', { count: 'exact' })
+        .eq('status', 'overdue')
+        .order('id')
+        .range(from, to)),
+    ]);
+
+    const fees = [];
+    for (const payment of feePayments) {
+      const rule = (lateFeeRules as LateFeeRule[]).find(r => r.property_id === payment.property_id);
+      if (!rule) continue;
+
+      const fee = calculateLateFee(rule, Number(payment.amount), payment.due_date, today);
+      if (!fee || fee.amount === Number(payment.fee_amount)) continue;
+
+      fees.push({
+        payment_id: payment.id,
+        property_id: payment.property_id,
+        type: 'late_fee',
+        amount: fee.amount,
+        description: fee.description,
+        updated_at: new Date().toISOString(),
+      });
+    }
+
+    if (fees.length > 0) {
+      // Upserting keeps one growing late fee line item per payment
+      const { error: feesError } = await supabase
+        .from('payment_fees')
+        .upsert(fees, { onConflict: 'payment_id,type' });
+      if (feesError) throw feesError;
+    }
+
+    const notifications = overduePayments.map(payment => ({
+      title: 'Pembayaran Terlambat',
+      message: `Pembayaran ${payment.tenant?.name ?? 'Penyewa'} sebesar ${formatCurrency(Number(payment.amount) - Number(payment.amount_paid))} telah melewati jatuh tempo ${payment.due_date}.`,
+      type: 'payment',
+      status: 'unread',
+      target_user_id: payment.property?.owner_id ?? null,
+      target_property_id: payment.property_id,
+    }));
+
+    if (notifications.length > 0) {
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+      if (notificationError) throw notificationError;
+    }
+
+    // Tenant statuses are derived from all their payments in the database;
+    // tenants that just became overdue are already covered by the payment
+    // notification
+    const { data: refreshed, error: refreshError } = await supabase
+      .rpc('refresh_tenant_payment_statuses', {
+        p_quiet_tenant_ids: [...new Set(overduePayments.map(p => p.tenant_id).filter(Boolean))],
+      });
+    if (refreshError) throw refreshError;
+
+    return new Response(JSON.stringify({
+      payments_overdue: overduePayments.length,
+      late_fees_applied: fees.length,
+      tenants_updated: refreshed.tenants_updated,
+      notifications_created: notifications.length + refreshed.notifications_created,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
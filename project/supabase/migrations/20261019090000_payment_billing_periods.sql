@@ -0,0 +1,35 @@
+/*
+  # Billing periods on payments
+
+  1. Changes
+    - `payments.period_start` / `payments.period_end`: the rental period a payment
+      covers. Filled by the billing engine, optional for manually recorded payments.
+  2. Constraints
+    - One payment per tenant per period, so the billing engine can be re-run safely.
+*/
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS period_start date,
+  ADD COLUMN IF NOT EXISTS period_end date;
+
+-- NULL periods never conflict, so manually recorded payments are unaffected
+ALTER TABLE payments
+  ADD CONSTRAINT payments_tenant_period_key UNIQUE (tenant_id, period_start);
+
+-- Run the billing engine on the 25th of every month for the following month.
+-- Requires the pg_cron and pg_net extensions and the project URL / service role
+-- key stored in Vault.
+SELECT cron.schedule(
+  'generate-invoices',
+  '0 1 25 * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/generate-invoices',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
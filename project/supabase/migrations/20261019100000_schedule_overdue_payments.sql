@@ -0,0 +1,22 @@
+/*
+  # Scheduled overdue payment transition
+
+  Runs the `update-overdue-payments` edge function every day shortly after
+  midnight (WIB) so pending payments past their due date become overdue and
+  tenant payment statuses stay in sync without manual edits.
+*/
+
+SELECT cron.schedule(
+  'update-overdue-payments',
+  '5 17 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/update-overdue-payments',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
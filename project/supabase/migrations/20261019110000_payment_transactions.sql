@@ -0,0 +1,99 @@
+/*
+  # Payment transactions sub-ledger
+
+  1. New Tables
+    - `payment_transactions`: individual dated receipts recorded against a
+      payment, each with its own payment method and note.
+  2. Changes
+    - `payments.amount_paid`: running total of the receipts.
+    - `payments.status` gains `partial`; the status, `date` and `payment_method`
+      of a payment are now derived from its receipts by a trigger.
+  3. Security
+    - RLS restricts receipts to the owner of the payment's property.
+*/
+
+CREATE TABLE IF NOT EXISTS payment_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  payment_method text NOT NULL,
+  notes text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_transactions_payment_id_idx
+  ON payment_transactions (payment_id);
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS amount_paid numeric NOT NULL DEFAULT 0;
+
+-- Carry existing paid payments over as a single receipt each
+INSERT INTO payment_transactions (payment_id, property_id, amount, date, payment_method, notes, created_by)
+SELECT id, property_id, amount, COALESCE(date, updated_at::date, CURRENT_DATE), COALESCE(payment_method, 'cash'), notes, NULL
+FROM payments
+WHERE status = 'paid' AND amount > 0;
+
+UPDATE payments SET amount_paid = amount WHERE status = 'paid';
+
+ALTER TABLE payment_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage payment transactions"
+  ON payment_transactions
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+-- Recompute a payment's totals and status from its receipts
+CREATE OR REPLACE FUNCTION sync_payment_from_transactions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_payment_id uuid := COALESCE(NEW.payment_id, OLD.payment_id);
+  total_paid numeric;
+  last_date date;
+  last_method text;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0), MAX(date)
+  INTO total_paid, last_date
+  FROM payment_transactions
+  WHERE payment_id = target_payment_id;
+
+  SELECT payment_method INTO last_method
+  FROM payment_transactions
+  WHERE payment_id = target_payment_id
+  ORDER BY date DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE payments
+  SET
+    amount_paid = total_paid,
+    date = last_date,
+    payment_method = last_method,
+    status = CASE
+      WHEN total_paid >= amount THEN 'paid'
+      WHEN due_date < CURRENT_DATE THEN 'overdue'
+      WHEN total_paid > 0 THEN 'partial'
+      ELSE 'pending'
+    END,
+    updated_at = now()
+  WHERE id = target_payment_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER payment_transactions_sync_payment
+  AFTER INSERT OR UPDATE OR DELETE ON payment_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_payment_from_transactions();
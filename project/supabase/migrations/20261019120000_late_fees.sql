@@ -0,0 +1,122 @@
+/*
+  # Late fees and penalty rules
+
+  1. New Tables
+    - `late_fee_rules`: one rule set per property with a flat fee, a
+      percentage of the rent charged per day or week late, a grace period and
+      an optional cap.
+    - `payment_fees`: fee line items linked to a payment. Late fees are kept
+      as a single `late_fee` row per payment that grows while it stays overdue.
+  2. Changes
+    - `payments.fee_amount`: total of the payment's fee line items. A payment
+      is only settled once its receipts cover the amount plus its fees.
+  3. Security
+    - RLS restricts rules and fees to the owner of the property.
+*/
+
+CREATE TABLE IF NOT EXISTS late_fee_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL UNIQUE REFERENCES properties(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT false,
+  flat_amount numeric NOT NULL DEFAULT 0 CHECK (flat_amount >= 0),
+  percentage numeric NOT NULL DEFAULT 0 CHECK (percentage >= 0),
+  percentage_interval text NOT NULL DEFAULT 'day' CHECK (percentage_interval IN ('day', 'week')),
+  grace_period_days integer NOT NULL DEFAULT 0 CHECK (grace_period_days >= 0),
+  max_amount numeric CHECK (max_amount >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS payment_fees (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  type text NOT NULL DEFAULT 'late_fee',
+  amount numeric NOT NULL CHECK (amount >= 0),
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT payment_fees_payment_type_key UNIQUE (payment_id, type)
+);
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS fee_amount numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE late_fee_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_fees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage late fee rules"
+  ON late_fee_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can manage payment fees"
+  ON payment_fees
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+-- Recompute a payment's totals and status from its receipts and fees
+CREATE OR REPLACE FUNCTION sync_payment_from_transactions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_payment_id uuid := COALESCE(NEW.payment_id, OLD.payment_id);
+  total_paid numeric;
+  total_fees numeric;
+  last_date date;
+  last_method text;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0), MAX(date)
+  INTO total_paid, last_date
+  FROM payment_transactions
+  WHERE payment_id = target_payment_id;
+
+  SELECT COALESCE(SUM(amount), 0)
+  INTO total_fees
+  FROM payment_fees
+  WHERE payment_id = target_payment_id;
+
+  SELECT payment_method INTO last_method
+  FROM payment_transactions
+  WHERE payment_id = target_payment_id
+  ORDER BY date DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE payments
+  SET
+    amount_paid = total_paid,
+    fee_amount = total_fees,
+    date = last_date,
+    payment_method = last_method,
+    status = CASE
+      WHEN total_paid >= amount + total_fees THEN 'paid'
+      WHEN due_date < CURRENT_DATE THEN 'overdue'
+      WHEN total_paid > 0 THEN 'partial'
+      ELSE 'pending'
+    END,
+    updated_at = now()
+  WHERE id = target_payment_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER payment_fees_sync_payment
+  AFTER INSERT OR UPDATE OR DELETE ON payment_fees
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_payment_from_transactions();
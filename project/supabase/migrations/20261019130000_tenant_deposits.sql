@@ -0,0 +1,67 @@
+/*
+  # Security deposit ledger
+
+  1. New Tables
+    - `tenant_deposits`: the deposit collected from a tenant at move-in, with
+      its receipt details. A deposit is `held` until it is settled at
+      move-out, when it becomes `refunded`.
+    - `deposit_deductions`: amounts withheld from a deposit at move-out, each
+      with a reason and optionally the maintenance request for the damage.
+  2. Security
+    - RLS restricts deposits and deductions to the owner of the property.
+*/
+
+CREATE TABLE IF NOT EXISTS tenant_deposits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL UNIQUE REFERENCES tenants(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  received_date date NOT NULL DEFAULT CURRENT_DATE,
+  payment_method text NOT NULL,
+  receipt_number text,
+  notes text,
+  status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'refunded')),
+  refunded_date date,
+  refund_amount numeric,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS deposit_deductions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deposit_id uuid NOT NULL REFERENCES tenant_deposits(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  maintenance_request_id uuid REFERENCES maintenance_requests(id) ON DELETE SET NULL,
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS deposit_deductions_deposit_id_idx
+  ON deposit_deductions (deposit_id);
+
+ALTER TABLE tenant_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deposit_deductions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage tenant deposits"
+  ON tenant_deposits
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can manage deposit deductions"
+  ON deposit_deductions
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
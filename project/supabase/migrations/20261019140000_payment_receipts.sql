@@ -0,0 +1,90 @@
+/*
+  # Numbered payment receipts (kwitansi)
+
+  1. New Tables
+    - `property_receipt_sequences`: the last receipt number issued per
+      property. It only ever increases, so numbers are never reused even when
+      a payment or its receipt is deleted.
+    - `payment_receipts`: the receipt number issued for a payment. Reprinting
+      a receipt returns the number it was first issued with.
+  2. Functions
+    - `issue_payment_receipt(p_payment_id)`: returns the payment's receipt,
+      allocating the next number for its property on first use.
+  3. Security
+    - RLS restricts receipts to the owner of the property. Sequences are only
+      reachable through `issue_payment_receipt`.
+*/
+
+CREATE TABLE IF NOT EXISTS property_receipt_sequences (
+  property_id uuid PRIMARY KEY REFERENCES properties(id) ON DELETE CASCADE,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS payment_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid UNIQUE REFERENCES payments(id) ON DELETE SET NULL,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  sequence_number integer NOT NULL,
+  receipt_number text NOT NULL,
+  issued_at timestamptz DEFAULT now(),
+  issued_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  CONSTRAINT payment_receipts_property_sequence_key UNIQUE (property_id, sequence_number)
+);
+
+ALTER TABLE property_receipt_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view payment receipts"
+  ON payment_receipts
+  FOR SELECT
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION issue_payment_receipt(p_payment_id uuid)
+RETURNS payment_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_property_id uuid;
+  next_number integer;
+  receipt payment_receipts;
+BEGIN
+  SELECT p.property_id INTO target_property_id
+  FROM payments p
+  JOIN properties pr ON pr.id = p.property_id
+  WHERE p.id = p_payment_id AND pr.owner_id = auth.uid();
+
+  IF target_property_id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  SELECT * INTO receipt FROM payment_receipts WHERE payment_id = p_payment_id;
+  IF FOUND THEN
+    RETURN receipt;
+  END IF;
+
+  -- The upsert locks the property's counter row, serialising concurrent issues
+  INSERT INTO property_receipt_sequences (property_id, last_number)
+  VALUES (target_property_id, 1)
+  ON CONFLICT (property_id)
+  DO UPDATE SET last_number = property_receipt_sequences.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  INSERT INTO payment_receipts (payment_id, property_id, sequence_number, receipt_number)
+  VALUES (
+    p_payment_id,
+    target_property_id,
+    next_number,
+    'KW-' || to_char(CURRENT_DATE, 'YYYY') || '-' || lpad(next_number::text, 5, '0')
+  )
+  RETURNING * INTO receipt;
+
+  RETURN receipt;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_payment_receipt(uuid) TO authenticated;
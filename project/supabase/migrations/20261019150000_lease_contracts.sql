@@ -0,0 +1,99 @@
+/*
+  # Lease contracts and e-signatures
+
+  1. New Tables
+    - `contract_templates`: the rental agreement template of a property. The
+      body uses `{{placeholder}}` fields filled from the tenant, room and
+      property, and the house rules are printed as their own section.
+    - `lease_contracts`: the agreement generated for a tenant. The filled
+      text, rent and deposit are stored so later template or price changes
+      do not alter a contract that was already signed.
+  2. Storage
+    - Private `signatures` bucket. Objects are stored under the property id
+      as `{property_id}/{contract_id}.png`.
+  3. Security
+    - RLS restricts templates, contracts and signature files to the owner of
+      the property.
+*/
+
+CREATE TABLE IF NOT EXISTS contract_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL UNIQUE REFERENCES properties(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  body text NOT NULL,
+  house_rules text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS lease_contracts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  content text NOT NULL,
+  house_rules text,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  monthly_rent numeric NOT NULL,
+  deposit_amount numeric,
+  signature_path text,
+  signed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS lease_contracts_tenant_id_idx
+  ON lease_contracts (tenant_id);
+
+ALTER TABLE contract_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lease_contracts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage contract templates"
+  ON contract_templates
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can manage lease contracts"
+  ON lease_contracts
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('signatures', 'signatures', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can read signatures"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'signatures'
+    AND (storage.foldername(name))[1] IN (
+      SELECT id::text FROM properties WHERE owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can upload signatures"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'signatures'
+    AND (storage.foldername(name))[1] IN (
+      SELECT id::text FROM properties WHERE owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,79 @@
+/*
+  # Lease renewal and expiry workflow
+
+  1. Changes
+    - `tenants.status` gains `move_out_pending` for leases that ended without
+      being renewed.
+    - `user_settings.lease_expiry_reminder_days`: the days before a lease ends
+      at which the owner is notified, 30, 14 and 7 by default.
+  2. New Tables
+    - `lease_expiry_notices`: the reminders already sent for a lease end date,
+      so each offset is only notified once. Renewing moves the end date, which
+      starts a fresh set of reminders.
+    - `lease_renewals`: history of lease extensions with the old and new end
+      date and rent.
+  3. Scheduling
+    - The `lease-expiry` edge function runs daily after the overdue job.
+  4. Security
+    - RLS restricts renewals to the owner of the property. Notices are only
+      written by the scheduled job.
+*/
+
+ALTER TABLE tenants DROP CONSTRAINT IF EXISTS tenants_status_check;
+ALTER TABLE tenants
+  ADD CONSTRAINT tenants_status_check
+  CHECK (status IN ('active', 'inactive', 'move_out_pending'));
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS lease_expiry_reminder_days integer[] NOT NULL DEFAULT '{30,14,7}';
+
+CREATE TABLE IF NOT EXISTS lease_expiry_notices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  end_date date NOT NULL,
+  offset_days integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT lease_expiry_notices_key UNIQUE (tenant_id, end_date, offset_days)
+);
+
+CREATE TABLE IF NOT EXISTS lease_renewals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  previous_end_date date NOT NULL,
+  new_end_date date NOT NULL,
+  previous_price numeric,
+  new_price numeric,
+  renewed_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE lease_expiry_notices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lease_renewals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage lease renewals"
+  ON lease_renewals
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+SELECT cron.schedule(
+  'lease-expiry',
+  '15 17 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/lease-expiry',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
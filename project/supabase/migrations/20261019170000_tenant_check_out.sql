@@ -0,0 +1,201 @@
+/*
+  # Tenant check-out
+
+  1. New Tables
+    - `tenancy_history`: one row per completed tenancy with the move-in and
+      move-out dates, the room condition checklist taken at check-out and how
+      the outstanding balance and deposit were settled. Tenant and room names
+      are copied so the history survives their deletion.
+  2. Functions
+    - `check_out_tenant(...)`: settles the tenant's unpaid payments (from the
+      deposit, as paid at move-out, or left outstanding), deducts damage from
+      the deposit and refunds the rest, records the tenancy and releases the
+      room, all in one transaction.
+  3. Security
+    - RLS restricts history to the owner of the property. The function checks
+      ownership before touching anything.
+*/
+
+CREATE TABLE IF NOT EXISTS tenancy_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES tenants(id) ON DELETE SET NULL,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  tenant_name text NOT NULL,
+  room_number text,
+  start_date date NOT NULL,
+  move_out_date date NOT NULL,
+  monthly_rent numeric,
+  room_condition jsonb NOT NULL DEFAULT '[]',
+  outstanding_amount numeric NOT NULL DEFAULT 0,
+  outstanding_settlement text NOT NULL DEFAULT 'none'
+    CHECK (outstanding_settlement IN ('deposit', 'paid', 'none')),
+  damage_amount numeric NOT NULL DEFAULT 0,
+  deposit_refund_amount numeric,
+  notes text,
+  checked_out_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tenancy_history_property_id_idx
+  ON tenancy_history (property_id, move_out_date);
+
+ALTER TABLE tenancy_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view tenancy history"
+  ON tenancy_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION check_out_tenant(
+  p_tenant_id uuid,
+  p_move_out_date date,
+  p_room_condition jsonb,
+  p_settlement text,
+  p_payment_method text DEFAULT NULL,
+  p_damage_amount numeric DEFAULT 0,
+  p_notes text DEFAULT NULL
+)
+RETURNS tenancy_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target tenants;
+  target_room rooms;
+  deposit tenant_deposits;
+  unpaid record;
+  outstanding numeric := 0;
+  available numeric := 0;
+  applied numeric;
+  covered numeric := 0;
+  refund numeric;
+  history tenancy_history;
+BEGIN
+  SELECT t.* INTO target
+  FROM tenants t
+  JOIN properties pr ON pr.id = t.property_id
+  WHERE t.id = p_tenant_id AND pr.owner_id = auth.uid()
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tenant not found';
+  END IF;
+
+  IF target.status = 'inactive' THEN
+    RAISE EXCEPTION 'Tenant has already moved out';
+  END IF;
+
+  IF p_settlement NOT IN ('deposit', 'paid', 'none') THEN
+    RAISE EXCEPTION 'Invalid settlement %', p_settlement;
+  END IF;
+
+  IF p_settlement = 'paid' AND p_payment_method IS NULL THEN
+    RAISE EXCEPTION 'A payment method is required';
+  END IF;
+
+  SELECT * INTO target_room FROM rooms WHERE id = target.room_id FOR UPDATE;
+
+  SELECT * INTO deposit
+  FROM tenant_deposits
+  WHERE tenant_id = p_tenant_id AND status = 'held'
+  FOR UPDATE;
+
+  IF deposit.id IS NOT NULL THEN
+    IF COALESCE(p_damage_amount, 0) > 0 THEN
+      INSERT INTO deposit_deductions (deposit_id, property_id, amount, reason, date)
+      VALUES (deposit.id, deposit.property_id, p_damage_amount, 'Kerusakan kamar saat check-out', p_move_out_date);
+    END IF;
+
+    SELECT deposit.amount - COALESCE(SUM(amount), 0) INTO available
+    FROM deposit_deductions
+    WHERE deposit_id = deposit.id;
+  END IF;
+
+  -- Oldest bills are settled first so a short deposit clears the arrears
+  FOR unpaid IN
+    SELECT id, property_id, amount + fee_amount - amount_paid AS remaining
+    FROM payments
+    WHERE tenant_id = p_tenant_id
+      AND status IN ('pending', 'partial', 'overdue')
+      AND amount + fee_amount > amount_paid
+    ORDER BY due_date
+  LOOP
+    outstanding := outstanding + unpaid.remaining;
+
+    IF p_settlement = 'paid' THEN
+      applied := unpaid.remaining;
+    ELSIF p_settlement = 'deposit' THEN
+      applied := LEAST(unpaid.remaining, GREATEST(available - covered, 0));
+    ELSE
+      applied := 0;
+    END IF;
+
+    IF applied > 0 THEN
+      INSERT INTO payment_transactions (payment_id, property_id, amount, date, payment_method, notes)
+      VALUES (
+        unpaid.id,
+        unpaid.property_id,
+        applied,
+        p_move_out_date,
+        CASE WHEN p_settlement = 'deposit' THEN 'deposit' ELSE p_payment_method END,
+        'Pelunasan saat check-out'
+      );
+      covered := covered + applied;
+    END IF;
+  END LOOP;
+
+  IF deposit.id IS NOT NULL THEN
+    IF p_settlement = 'deposit' AND covered > 0 THEN
+      INSERT INTO deposit_deductions (deposit_id, property_id, amount, reason, date)
+      VALUES (deposit.id, deposit.property_id, covered, 'Pelunasan tunggakan sewa', p_move_out_date);
+    END IF;
+
+    SELECT GREATEST(deposit.amount - COALESCE(SUM(amount), 0), 0) INTO refund
+    FROM deposit_deductions
+    WHERE deposit_id = deposit.id;
+
+    UPDATE tenant_deposits
+    SET
+      status = 'refunded',
+      refunded_date = p_move_out_date,
+      refund_amount = refund,
+      updated_at = now()
+    WHERE id = deposit.id;
+  END IF;
+
+  INSERT INTO tenancy_history (
+    tenant_id, property_id, room_id, tenant_name, room_number, start_date,
+    move_out_date, monthly_rent, room_condition, outstanding_amount,
+    outstanding_settlement, damage_amount, deposit_refund_amount, notes
+  )
+  VALUES (
+    target.id, target.property_id, target.room_id, target.name, target_room.number, target.start_date,
+    p_move_out_date, target_room.price, COALESCE(p_room_condition, '[]'), outstanding,
+    p_settlement, COALESCE(p_damage_amount, 0), refund, p_notes
+  )
+  RETURNING * INTO history;
+
+  UPDATE tenants
+  SET
+    status = 'inactive',
+    room_id = NULL,
+    end_date = p_move_out_date,
+    updated_at = now()
+  WHERE id = target.id;
+
+  IF target_room.id IS NOT NULL THEN
+    UPDATE rooms
+    SET status = 'vacant', tenant_id = NULL, updated_at = now()
+    WHERE id = target_room.id;
+  END IF;
+
+  RETURN history;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_out_tenant(uuid, date, jsonb, text, text, numeric, text) TO authenticated;
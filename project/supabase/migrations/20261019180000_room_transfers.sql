@@ -0,0 +1,137 @@
+/*
+  # Room transfers
+
+  1. New Tables
+    - `room_transfers`: history of tenants moving between rooms, with the
+      transfer date, reason and both rooms' rent.
+  2. Functions
+    - `transfer_tenant_room(...)`: moves a tenant to a vacant room of the
+      same property, vacates the old room and occupies the new one in one
+      transaction. Optionally moves unpaid bills due on or after the transfer
+      to the new room at its price; earlier bills keep pointing to the old
+      room so reports stay correct.
+  3. Security
+    - RLS restricts transfers to the owner of the property. The function
+      checks ownership of the tenant and the target room.
+*/
+
+CREATE TABLE IF NOT EXISTS room_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  from_room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  to_room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  transfer_date date NOT NULL,
+  reason text,
+  previous_price numeric,
+  new_price numeric,
+  payments_adjusted integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS room_transfers_tenant_id_idx
+  ON room_transfers (tenant_id);
+
+ALTER TABLE room_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view room transfers"
+  ON room_transfers
+  FOR SELECT
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION transfer_tenant_room(
+  p_tenant_id uuid,
+  p_to_room_id uuid,
+  p_transfer_date date,
+  p_reason text DEFAULT NULL,
+  p_adjust_payments boolean DEFAULT false
+)
+RETURNS room_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target tenants;
+  from_room rooms;
+  to_room rooms;
+  adjusted integer := 0;
+  transfer room_transfers;
+BEGIN
+  SELECT t.* INTO target
+  FROM tenants t
+  JOIN properties pr ON pr.id = t.property_id
+  WHERE t.id = p_tenant_id AND pr.owner_id = auth.uid()
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tenant not found';
+  END IF;
+
+  IF target.status = 'inactive' THEN
+    RAISE EXCEPTION 'Tenant has already moved out';
+  END IF;
+
+  SELECT * INTO to_room
+  FROM rooms
+  WHERE id = p_to_room_id AND property_id = target.property_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF to_room.id = target.room_id THEN
+    RAISE EXCEPTION 'Tenant already occupies this room';
+  END IF;
+
+  IF to_room.status <> 'vacant' THEN
+    RAISE EXCEPTION 'Room is not vacant';
+  END IF;
+
+  SELECT * INTO from_room FROM rooms WHERE id = target.room_id FOR UPDATE;
+
+  IF from_room.id IS NOT NULL THEN
+    UPDATE rooms
+    SET status = 'vacant', tenant_id = NULL, updated_at = now()
+    WHERE id = from_room.id;
+  END IF;
+
+  UPDATE rooms
+  SET status = 'occupied', tenant_id = target.id, updated_at = now()
+  WHERE id = to_room.id;
+
+  UPDATE tenants
+  SET room_id = to_room.id, updated_at = now()
+  WHERE id = target.id;
+
+  -- Only bills nothing has been paid against are re-priced
+  IF p_adjust_payments THEN
+    UPDATE payments
+    SET room_id = to_room.id, amount = to_room.price, updated_at = now()
+    WHERE tenant_id = target.id
+      AND status = 'pending'
+      AND amount_paid = 0
+      AND due_date >= p_transfer_date;
+    GET DIAGNOSTICS adjusted = ROW_COUNT;
+  END IF;
+
+  INSERT INTO room_transfers (
+    tenant_id, property_id, from_room_id, to_room_id, transfer_date, reason,
+    previous_price, new_price, payments_adjusted
+  )
+  VALUES (
+    target.id, target.property_id, from_room.id, to_room.id, p_transfer_date, p_reason,
+    from_room.price, to_room.price, adjusted
+  )
+  RETURNING * INTO transfer;
+
+  RETURN transfer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transfer_tenant_room(uuid, uuid, date, text, boolean) TO authenticated;
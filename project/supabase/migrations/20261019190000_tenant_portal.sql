@@ -0,0 +1,156 @@
+/*
+  # Tenant self-service portal
+
+  1. Changes
+    - `tenants.user_id`: the portal account of the tenant. A tenant signs up
+      with the email the owner recorded for them and the account is linked by
+      `link_tenant_account()`.
+  2. Functions
+    - `link_tenant_account()`: links the signed-in user to the current tenant
+      records with their confirmed email address.
+    - `portal_tenant_ids()`, `portal_room_ids()`, `portal_property_ids()`: the
+      records the signed-in tenant may see. They bypass RLS so the tenant
+      policies do not recurse through the owner policies.
+  3. Security
+    - Tenants can read their own tenant record, room, property, payments,
+      receipts, fees and lease contracts.
+    - Tenants can read their own maintenance requests and submit new ones
+      for their room, which always start as pending.
+*/
+
+ALTER TABLE tenants
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tenants_user_id_idx ON tenants (user_id);
+
+CREATE OR REPLACE FUNCTION portal_tenant_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM tenants WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION portal_room_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT room_id FROM tenants WHERE user_id = auth.uid() AND room_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION portal_property_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT property_id FROM tenants WHERE user_id = auth.uid() AND property_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION link_tenant_account()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_email text;
+  linked integer;
+BEGIN
+  -- Only a confirmed address proves the user owns the tenant's email
+  SELECT email INTO user_email
+  FROM auth.users
+  WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+
+  IF user_email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE tenants
+  SET user_id = auth.uid(), updated_at = now()
+  WHERE lower(email) = lower(user_email)
+    AND user_id IS NULL
+    AND status <> 'inactive';
+  GET DIAGNOSTICS linked = ROW_COUNT;
+
+  RETURN linked;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION portal_tenant_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION portal_room_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION portal_property_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION link_tenant_account() TO authenticated;
+
+CREATE POLICY "Tenants can view their own record"
+  ON tenants
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Tenants can view their room"
+  ON rooms
+  FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT portal_room_ids()));
+
+CREATE POLICY "Tenants can view their property"
+  ON properties
+  FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT portal_property_ids()));
+
+CREATE POLICY "Tenants can view their payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (SELECT portal_tenant_ids()));
+
+CREATE POLICY "Tenants can view their payment transactions"
+  ON payment_transactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    payment_id IN (SELECT id FROM payments WHERE tenant_id IN (SELECT portal_tenant_ids()))
+  );
+
+CREATE POLICY "Tenants can view their payment fees"
+  ON payment_fees
+  FOR SELECT
+  TO authenticated
+  USING (
+    payment_id IN (SELECT id FROM payments WHERE tenant_id IN (SELECT portal_tenant_ids()))
+  );
+
+CREATE POLICY "Tenants can view their lease contracts"
+  ON lease_contracts
+  FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (SELECT portal_tenant_ids()));
+
+CREATE POLICY "Tenants can view their maintenance requests"
+  ON maintenance_requests
+  FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (SELECT portal_tenant_ids()));
+
+CREATE POLICY "Tenants can submit maintenance requests"
+  ON maintenance_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM tenants t
+      WHERE t.id = maintenance_requests.tenant_id
+        AND t.user_id = auth.uid()
+        AND t.property_id = maintenance_requests.property_id
+        AND t.room_id = maintenance_requests.room_id
+    )
+  );
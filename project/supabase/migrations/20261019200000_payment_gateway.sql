@@ -0,0 +1,65 @@
+/*
+  # Online payment gateway
+
+  1. New Tables
+    - `payment_gateway_charges`: a virtual account or QRIS charge opened with
+      a payment provider for a payment's outstanding balance. `external_id`
+      is the order id sent to the provider and echoed back in its webhooks.
+  2. Changes
+    - `payment_transactions.provider_reference`: the provider's transaction
+      id for receipts recorded from a webhook. It is unique so a retried
+      notification cannot record the same receipt twice.
+  3. Security
+    - RLS lets owners view charges for their properties and tenants view the
+      charges for their own payments. Charges are only written by the
+      `create-payment-charge` and `payment-webhook` edge functions.
+*/
+
+CREATE TABLE IF NOT EXISTS payment_gateway_charges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('virtual_account', 'qris')),
+  bank text,
+  amount numeric NOT NULL CHECK (amount > 0),
+  external_id text NOT NULL UNIQUE,
+  provider_reference text,
+  va_number text,
+  qr_string text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'expired', 'failed')),
+  expires_at timestamptz,
+  paid_at timestamptz,
+  raw_notification jsonb,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_gateway_charges_payment_id_idx
+  ON payment_gateway_charges (payment_id);
+
+ALTER TABLE payment_transactions
+  ADD COLUMN IF NOT EXISTS provider_reference text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payment_transactions_provider_reference_key
+  ON payment_transactions (provider_reference)
+  WHERE provider_reference IS NOT NULL;
+
+ALTER TABLE payment_gateway_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view payment gateway charges"
+  ON payment_gateway_charges
+  FOR SELECT
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Tenants can view their payment gateway charges"
+  ON payment_gateway_charges
+  FOR SELECT
+  TO authenticated
+  USING (
+    payment_id IN (SELECT id FROM payments WHERE tenant_id IN (SELECT portal_tenant_ids()))
+  );
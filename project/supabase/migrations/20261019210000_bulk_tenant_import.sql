@@ -0,0 +1,81 @@
+/*
+  # Bulk tenant import
+
+  1. Functions
+    - `import_tenants(p_property_id, p_tenants)`: inserts a batch of tenants
+      from the import wizard and occupies the rooms they are assigned to in
+      one transaction, so a failing row leaves nothing half imported.
+      `p_tenants` is a JSON array of objects with `name`, `phone`, `email`,
+      `room_id`, `start_date`, `end_date` and `status`.
+  2. Security
+    - The function checks that the caller owns the property and that every
+      assigned room belongs to it and is vacant.
+*/
+
+CREATE OR REPLACE FUNCTION import_tenants(
+  p_property_id uuid,
+  p_tenants jsonb
+)
+RETURNS SETOF tenants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item jsonb;
+  target_room rooms;
+  inserted tenants;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM properties WHERE id = p_property_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Property not found';
+  END IF;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_tenants)
+  LOOP
+    target_room := NULL;
+
+    IF item->>'room_id' IS NOT NULL THEN
+      SELECT * INTO target_room
+      FROM rooms
+      WHERE id = (item->>'room_id')::uuid AND property_id = p_property_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Room not found';
+      END IF;
+
+      IF target_room.status <> 'vacant' THEN
+        RAISE EXCEPTION 'Room % is not vacant', target_room.number;
+      END IF;
+    END IF;
+
+    INSERT INTO tenants (
+      name, phone, email, room_id, start_date, end_date, status, payment_status, property_id
+    )
+    VALUES (
+      item->>'name',
+      item->>'phone',
+      item->>'email',
+      target_room.id,
+      (item->>'start_date')::date,
+      (item->>'end_date')::date,
+      COALESCE(item->>'status', 'active'),
+      'pending',
+      p_property_id
+    )
+    RETURNING * INTO inserted;
+
+    IF target_room.id IS NOT NULL THEN
+      UPDATE rooms
+      SET status = 'occupied', tenant_id = inserted.id, updated_at = now()
+      WHERE id = target_room.id;
+    END IF;
+
+    RETURN NEXT inserted;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_tenants(uuid, jsonb) TO authenticated;
@@ -0,0 +1,269 @@
+/*
+  # Property backups
+
+  1. New Tables
+    - `property_backups`: one row per archive written to the
+      `property-backups` storage bucket, with the archive's schema version,
+      what triggered it and how many records of each kind it holds.
+  2. Storage
+    - Private `property-backups` bucket. Archives are stored under
+      `<property_id>/<timestamp>.json`.
+  3. Functions
+    - `restore_property_backup(p_archive, p_target_property_id)`: restores an
+      archive into a new property, or into an existing property that has no
+      rooms or tenants yet. Every record gets a fresh id and references
+      between rooms, tenants, payments, fees, receipts, maintenance requests
+      and notifications are re-mapped, all in one transaction.
+  4. Scheduling
+    - `property-backup` runs hourly. Each run archives the properties whose
+      owner's plan includes backups and whose last scheduled archive is older
+      than the plan's frequency (weekly, daily, or hourly for realtime), then
+      prunes old scheduled archives.
+  5. Security
+    - RLS lets owners view their properties' backup rows and read the
+      archives in storage. Archives are only written by the edge function.
+*/
+
+CREATE TABLE IF NOT EXISTS property_backups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  schema_version integer NOT NULL,
+  trigger text NOT NULL CHECK (trigger IN ('manual', 'scheduled')),
+  size_bytes integer NOT NULL DEFAULT 0,
+  record_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS property_backups_property_id_idx
+  ON property_backups (property_id, created_at DESC);
+
+ALTER TABLE property_backups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view property backups"
+  ON property_backups
+  FOR SELECT
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('property-backups', 'property-backups', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can read property backups"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'property-backups'
+    AND (storage.foldername(name))[1] IN (
+      SELECT id::text FROM properties WHERE owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION restore_property_backup(
+  p_archive jsonb,
+  p_target_property_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id uuid;
+  item jsonb;
+  new_id uuid;
+  room_map jsonb := '{}'::jsonb;
+  tenant_map jsonb := '{}'::jsonb;
+  payment_map jsonb := '{}'::jsonb;
+BEGIN
+  IF p_archive->>'format' IS DISTINCT FROM 'kostmanager-property-backup' THEN
+    RAISE EXCEPTION 'Not a property backup archive';
+  END IF;
+
+  IF (p_archive->>'version')::integer IS DISTINCT FROM 1 THEN
+    RAISE EXCEPTION 'Unsupported backup version %', p_archive->>'version';
+  END IF;
+
+  IF p_target_property_id IS NULL THEN
+    INSERT INTO properties (name, address, city, phone, email, owner_id)
+    VALUES (
+      p_archive->'property'->>'name',
+      p_archive->'property'->>'address',
+      p_archive->'property'->>'city',
+      p_archive->'property'->>'phone',
+      p_archive->'property'->>'email',
+      auth.uid()
+    )
+    RETURNING id INTO target_id;
+  ELSE
+    SELECT id INTO target_id
+    FROM properties
+    WHERE id = p_target_property_id AND owner_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Property not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM rooms WHERE property_id = target_id)
+      OR EXISTS (SELECT 1 FROM tenants WHERE property_id = target_id) THEN
+      RAISE EXCEPTION 'Target property is not empty';
+    END IF;
+  END IF;
+
+  -- Rooms first without their tenant; the link is restored once tenants exist
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_archive->'rooms', '[]'::jsonb))
+  LOOP
+    INSERT INTO rooms (number, floor, type, price, status, facilities, property_id)
+    VALUES (
+      item->>'number',
+      item->>'floor',
+      item->>'type',
+      (item->>'price')::numeric,
+      item->>'status',
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(item->'facilities', '[]'::jsonb))),
+      target_id
+    )
+    RETURNING id INTO new_id;
+    room_map := room_map || jsonb_build_object(item->>'id', new_id);
+  END LOOP;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_archive->'tenants', '[]'::jsonb))
+  LOOP
+    INSERT INTO tenants (
+      name, phone, email, room_id, start_date, end_date, status, payment_status, property_id
+    )
+    VALUES (
+      item->>'name',
+      item->>'phone',
+      item->>'email',
+      (room_map->>(item->>'room_id'))::uuid,
+      (item->>'start_date')::date,
+      (item->>'end_date')::date,
+      item->>'status',
+      item->>'payment_status',
+      target_id
+    )
+    RETURNING id INTO new_id;
+    tenant_map := tenant_map || jsonb_build_object(item->>'id', new_id);
+  END LOOP;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_archive->'rooms', '[]'::jsonb))
+  LOOP
+    IF item->>'tenant_id' IS NOT NULL THEN
+      UPDATE rooms
+      SET tenant_id = (tenant_map->>(item->>'tenant_id'))::uuid
+      WHERE id = (room_map->>(item->>'id'))::uuid;
+    END IF;
+  END LOOP;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_archive->'payments', '[]'::jsonb))
+  LOOP
+    INSERT INTO payments (
+      tenant_id, room_id, amount, date, due_date, status, payment_method, notes,
+      period_start, period_end, property_id
+    )
+    VALUES (
+      (tenant_map->>(item->>'tenant_id'))::uuid,
+      (room_map->>(item->>'room_id'))::uuid,
+      (item->>'amount')::numeric,
+      (item->>'date')::date,
+      (item->>'due_date')::date,
+      item->>'status',
+      item->>'payment_method',
+      item->>'notes',
+      (item->>'period_start')::date,
+      (item->>'period_end')::date,
+      target_id
+    )
+    RETURNING id INTO new_id;
+    payment_map := payment_map || jsonb_build_object(item->>'id', new_id);
+  END LOOP;
+
+  -- Fees and receipts go in after their payments; their triggers recompute
+  -- each payment's fee total, paid amount and status
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_archive->'payment_fees', '[]'::jsonb))
+  LOOP
+    IF payment_map ? (item->>'payment_id') THEN
+      INSERT INTO payment_fees (payment_id, property_id, type, amount, description)
+      VALUES (
+        (payment_map->>(item->>'payment_id'))::uuid,
+        target_id,
+        item->>'type',
+        (item->>'amount')::numeric,
+        item->>'description'
+      );
+    END IF;
+  END LOOP;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_archive->'payment_transactions', '[]'::jsonb))
+  LOOP
+    IF payment_map ? (item->>'payment_id') THEN
+      INSERT INTO payment_transactions (payment_id, property_id, amount, date, payment_method, notes)
+      VALUES (
+        (payment_map->>(item->>'payment_id'))::uuid,
+        target_id,
+        (item->>'amount')::numeric,
+        (item->>'date')::date,
+        item->>'payment_method',
+        item->>'notes'
+      );
+    END IF;
+  END LOOP;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_archive->'maintenance_requests', '[]'::jsonb))
+  LOOP
+    INSERT INTO maintenance_requests (
+      room_id, tenant_id, title, description, date, status, priority, property_id
+    )
+    VALUES (
+      (room_map->>(item->>'room_id'))::uuid,
+      (tenant_map->>(item->>'tenant_id'))::uuid,
+      item->>'title',
+      item->>'description',
+      (item->>'date')::date,
+      item->>'status',
+      item->>'priority',
+      target_id
+    );
+  END LOOP;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_archive->'notifications', '[]'::jsonb))
+  LOOP
+    INSERT INTO notifications (title, message, type, status, target_user_id, target_property_id, created_at)
+    VALUES (
+      item->>'title',
+      item->>'message',
+      item->>'type',
+      item->>'status',
+      auth.uid(),
+      target_id,
+      COALESCE((item->>'created_at')::timestamptz, now())
+    );
+  END LOOP;
+
+  RETURN target_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_property_backup(jsonb, uuid) TO authenticated;
+
+SELECT cron.schedule(
+  'property-backup',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/property-backup',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
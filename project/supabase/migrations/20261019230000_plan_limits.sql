@@ -0,0 +1,135 @@
+/*
+  # Subscription plan limits
+
+  1. Functions
+    - `effective_plan(p_user_id)`: the plan whose limits apply to a user. This
+      is the plan of their active subscription or, without one, the cheapest
+      plan, so cancelling a subscription never lifts the limits.
+    - `current_plan()`: `effective_plan` for the signed in user, used by the
+      app to show limits and gate features.
+  2. Triggers
+    - `properties`: inserting a property, or moving one to another owner,
+      fails with `Property limit reached` once the owner has
+      `max_properties` properties.
+    - `rooms`: inserting a room, or moving one to another property, fails
+      with `Room limit reached` once the property has
+      `max_rooms_per_property` rooms. Bulk inserts are checked row by row, so
+      an import that would cross the limit is rejected as a whole.
+  3. Security
+    - The limits are enforced for every writer, including the import and
+      restore functions. `effective_plan` is not callable by clients.
+*/
+
+CREATE OR REPLACE FUNCTION effective_plan(p_user_id uuid)
+RETURNS SETOF subscription_plans
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM subscription_plans
+  WHERE id = COALESCE(
+    (
+      SELECT plan_id
+      FROM subscriptions
+      WHERE user_id = p_user_id AND status = 'active'
+      ORDER BY created_at DESC
+      LIMIT 1
+    ),
+    (
+      SELECT id
+      FROM subscription_plans
+      ORDER BY price ASC, created_at ASC
+      LIMIT 1
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION effective_plan(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION current_plan()
+RETURNS SETOF subscription_plans
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM effective_plan(auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION current_plan() TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_property_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan subscription_plans;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.owner_id IS NOT DISTINCT FROM OLD.owner_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize inserts for the same owner so concurrent requests cannot both
+  -- pass the count
+  PERFORM pg_advisory_xact_lock(hashtext('property_limit:' || NEW.owner_id::text));
+
+  SELECT * INTO plan FROM effective_plan(NEW.owner_id);
+
+  IF FOUND AND (
+    SELECT count(*) FROM properties WHERE owner_id = NEW.owner_id
+  ) >= plan.max_properties THEN
+    RAISE EXCEPTION 'Property limit reached'
+      USING HINT = format('Plan %s allows %s properties', plan.name, plan.max_properties);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER properties_enforce_plan_limit
+  BEFORE INSERT OR UPDATE OF owner_id ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_property_limit();
+
+CREATE OR REPLACE FUNCTION enforce_room_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  property_owner uuid;
+  plan subscription_plans;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.property_id IS NOT DISTINCT FROM OLD.property_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT owner_id INTO property_owner FROM properties WHERE id = NEW.property_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('room_limit:' || NEW.property_id::text));
+
+  SELECT * INTO plan FROM effective_plan(property_owner);
+
+  IF FOUND AND (
+    SELECT count(*) FROM rooms WHERE property_id = NEW.property_id
+  ) >= plan.max_rooms_per_property THEN
+    RAISE EXCEPTION 'Room limit reached'
+      USING HINT = format('Plan %s allows %s rooms per property', plan.name, plan.max_rooms_per_property);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rooms_enforce_plan_limit
+  BEFORE INSERT OR UPDATE OF property_id ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_room_limit();
@@ -0,0 +1,188 @@
+/*
+  # Self-service subscription changes
+
+  1. New Tables
+    - `subscription_invoices`: what an owner is charged, or credited, for a
+      subscription change. A plan change is prorated over the remainder of
+      the current period; a downgrade yields a negative (credit) amount.
+  2. Functions
+    - `change_subscription_plan(p_plan_id)`: subscribes the caller to a plan,
+      or moves their active subscription to another plan immediately, and
+      records the invoice. Downgrades are refused while the caller has more
+      properties, or a property has more rooms, than the new plan allows.
+    - `set_subscription_cancellation(p_cancel)`: sets or clears
+      `cancel_at_period_end` on the caller's active subscription.
+  3. Security
+    - RLS lets owners view their own invoices. Subscriptions and invoices are
+      only changed through the functions above.
+*/
+
+CREATE TABLE IF NOT EXISTS subscription_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subscription_id uuid NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL REFERENCES subscription_plans(id),
+  kind text NOT NULL CHECK (kind IN ('new', 'upgrade', 'downgrade')),
+  description text NOT NULL,
+  amount numeric NOT NULL,
+  status text NOT NULL DEFAULT 'unpaid' CHECK (status IN ('unpaid', 'paid', 'credited')),
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS subscription_invoices_user_id_idx
+  ON subscription_invoices (user_id, created_at DESC);
+
+ALTER TABLE subscription_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their subscription invoices"
+  ON subscription_invoices
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION change_subscription_plan(p_plan_id uuid)
+RETURNS subscription_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_subscription subscriptions;
+  old_plan subscription_plans;
+  new_plan subscription_plans;
+  property_count integer;
+  largest_property record;
+  remaining numeric;
+  charge numeric;
+  invoice subscription_invoices;
+BEGIN
+  SELECT * INTO new_plan FROM subscription_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  SELECT * INTO current_subscription
+  FROM subscriptions
+  WHERE user_id = auth.uid() AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF current_subscription.plan_id = p_plan_id THEN
+    RAISE EXCEPTION 'Already subscribed to this plan';
+  END IF;
+
+  -- The plan limit triggers only guard new rows, so a downgrade must check
+  -- what already exists
+  SELECT count(*) INTO property_count FROM properties WHERE owner_id = auth.uid();
+  IF property_count > new_plan.max_properties THEN
+    RAISE EXCEPTION 'Downgrade exceeds property limit'
+      USING DETAIL = format('%s properties, plan allows %s', property_count, new_plan.max_properties);
+  END IF;
+
+  SELECT p.name, count(r.id) AS room_count INTO largest_property
+  FROM properties p
+  JOIN rooms r ON r.property_id = p.id
+  WHERE p.owner_id = auth.uid()
+  GROUP BY p.id, p.name
+  ORDER BY count(r.id) DESC
+  LIMIT 1;
+
+  IF FOUND AND largest_property.room_count > new_plan.max_rooms_per_property THEN
+    RAISE EXCEPTION 'Downgrade exceeds room limit'
+      USING DETAIL = format('%s has %s rooms, plan allows %s',
+        largest_property.name, largest_property.room_count, new_plan.max_rooms_per_property);
+  END IF;
+
+  IF current_subscription.id IS NULL THEN
+    INSERT INTO subscriptions (user_id, plan_id, status, current_period_start, current_period_end, cancel_at_period_end)
+    VALUES (auth.uid(), p_plan_id, 'active', now(), now() + interval '1 month', false)
+    RETURNING * INTO current_subscription;
+
+    INSERT INTO subscription_invoices (
+      user_id, subscription_id, plan_id, kind, description, amount, status, period_start, period_end
+    )
+    VALUES (
+      auth.uid(),
+      current_subscription.id,
+      p_plan_id,
+      'new',
+      format('Langganan paket %s', new_plan.name),
+      new_plan.price,
+      CASE WHEN new_plan.price > 0 THEN 'unpaid' ELSE 'paid' END,
+      current_subscription.current_period_start,
+      current_subscription.current_period_end
+    )
+    RETURNING * INTO invoice;
+
+    RETURN invoice;
+  END IF;
+
+  SELECT * INTO old_plan FROM subscription_plans WHERE id = current_subscription.plan_id;
+
+  -- Share of the current period still to run, between 0 and 1
+  remaining := GREATEST(0, LEAST(1,
+    EXTRACT(EPOCH FROM (current_subscription.current_period_end - now()))
+    / NULLIF(EXTRACT(EPOCH FROM (current_subscription.current_period_end - current_subscription.current_period_start)), 0)
+  ));
+  charge := round((new_plan.price - COALESCE(old_plan.price, 0)) * COALESCE(remaining, 0));
+
+  UPDATE subscriptions
+  SET plan_id = p_plan_id,
+      cancel_at_period_end = false,
+      updated_at = now()
+  WHERE id = current_subscription.id;
+
+  INSERT INTO subscription_invoices (
+    user_id, subscription_id, plan_id, kind, description, amount, status, period_start, period_end
+  )
+  VALUES (
+    auth.uid(),
+    current_subscription.id,
+    p_plan_id,
+    CASE WHEN new_plan.price >= COALESCE(old_plan.price, 0) THEN 'upgrade' ELSE 'downgrade' END,
+    format('Perubahan paket %s ke %s (prorata)', COALESCE(old_plan.name, '-'), new_plan.name),
+    charge,
+    CASE WHEN charge > 0 THEN 'unpaid' WHEN charge < 0 THEN 'credited' ELSE 'paid' END,
+    GREATEST(now(), current_subscription.current_period_start),
+    current_subscription.current_period_end
+  )
+  RETURNING * INTO invoice;
+
+  RETURN invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION change_subscription_plan(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION set_subscription_cancellation(p_cancel boolean)
+RETURNS subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated subscriptions;
+BEGIN
+  UPDATE subscriptions
+  SET cancel_at_period_end = p_cancel,
+      updated_at = now()
+  WHERE id = (
+    SELECT id FROM subscriptions
+    WHERE user_id = auth.uid() AND status = 'active'
+    ORDER BY created_at DESC
+    LIMIT 1
+  )
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_subscription_cancellation(boolean) TO authenticated;
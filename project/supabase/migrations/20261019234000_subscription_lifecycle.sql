@@ -0,0 +1,279 @@
+/*
+  # Subscription lifecycle
+
+  1. Changes
+    - `subscriptions.ended_at`: when the subscription stopped being active,
+      set automatically whenever the status leaves `active`. Churn is
+      computed from it.
+    - `subscription_invoices.kind` gains `renewal`.
+    - `subscription_invoices.due_at`: the end of the grace period. An active
+      subscription with an unpaid invoice past this date is expired.
+  2. New Tables
+    - `subscription_reminders`: the renewal reminders already sent for a
+      period end, so each offset is only notified once.
+  3. Functions
+    - `renew_subscription(p_subscription_id, p_grace_days)`: starts the next
+      monthly period of an active subscription whose period has ended and
+      issues its renewal invoice. Only the scheduled job calls it.
+    - `account_is_read_only(p_user_id)`: true when the user has no active
+      subscription and their latest one expired.
+    - `current_account_read_only()`: the same for the signed in user.
+  4. Triggers
+    - Owners of a read-only account cannot insert, update or delete their
+      properties, rooms, tenants, payments, fees, payment transactions or
+      maintenance requests. Tenants and scheduled jobs are not affected.
+    - Marking the unpaid invoices of an expired subscription as paid makes
+      it active again.
+  5. Scheduling
+    - The `subscription-lifecycle` edge function runs daily. It renews
+      subscriptions, cancels those set to end, sends reminders before the
+      period ends and expires subscriptions past their grace period.
+*/
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS ended_at timestamptz;
+
+ALTER TABLE subscription_invoices DROP CONSTRAINT IF EXISTS subscription_invoices_kind_check;
+ALTER TABLE subscription_invoices
+  ADD CONSTRAINT subscription_invoices_kind_check
+  CHECK (kind IN ('new', 'upgrade', 'downgrade', 'renewal'));
+
+ALTER TABLE subscription_invoices
+  ADD COLUMN IF NOT EXISTS due_at timestamptz NOT NULL DEFAULT (now() + interval '7 days');
+
+CREATE TABLE IF NOT EXISTS subscription_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  period_end timestamptz NOT NULL,
+  offset_days integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT subscription_reminders_key UNIQUE (subscription_id, period_end, offset_days)
+);
+
+ALTER TABLE subscription_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION track_subscription_end()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status <> 'active' AND OLD.status = 'active' THEN
+    NEW.ended_at := now();
+  ELSIF NEW.status = 'active' THEN
+    NEW.ended_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER subscriptions_track_end
+  BEFORE UPDATE OF status ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION track_subscription_end();
+
+CREATE OR REPLACE FUNCTION renew_subscription(
+  p_subscription_id uuid,
+  p_grace_days integer
+)
+RETURNS subscription_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target subscriptions;
+  plan subscription_plans;
+  new_start timestamptz;
+  new_end timestamptz;
+  invoice subscription_invoices;
+BEGIN
+  SELECT * INTO target FROM subscriptions WHERE id = p_subscription_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  IF target.status <> 'active' OR target.current_period_end > now() THEN
+    RAISE EXCEPTION 'Subscription is not due for renewal';
+  END IF;
+
+  SELECT * INTO plan FROM subscription_plans WHERE id = target.plan_id;
+
+  -- Catch up on missed runs so the new period always contains today
+  new_start := target.current_period_end;
+  new_end := new_start + interval '1 month';
+  WHILE new_end <= now() LOOP
+    new_start := new_end;
+    new_end := new_end + interval '1 month';
+  END LOOP;
+
+  UPDATE subscriptions
+  SET current_period_start = new_start,
+      current_period_end = new_end,
+      updated_at = now()
+  WHERE id = target.id;
+
+  INSERT INTO subscription_invoices (
+    user_id, subscription_id, plan_id, kind, description, amount, status,
+    period_start, period_end, due_at
+  )
+  VALUES (
+    target.user_id,
+    target.id,
+    plan.id,
+    'renewal',
+    format('Perpanjangan paket %s', plan.name),
+    plan.price,
+    CASE WHEN plan.price > 0 THEN 'unpaid' ELSE 'paid' END,
+    new_start,
+    new_end,
+    new_start + make_interval(days => p_grace_days)
+  )
+  RETURNING * INTO invoice;
+
+  RETURN invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION renew_subscription(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION renew_subscription(uuid, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION account_is_read_only(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM subscriptions WHERE user_id = p_user_id AND status = 'active'
+  )
+  AND COALESCE((
+    SELECT status = 'expired'
+    FROM subscriptions
+    WHERE user_id = p_user_id
+    ORDER BY COALESCE(ended_at, updated_at, created_at) DESC
+    LIMIT 1
+  ), false);
+$$;
+
+REVOKE EXECUTE ON FUNCTION account_is_read_only(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION current_account_read_only()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT account_is_read_only(auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION current_account_read_only() TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_account_writable()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  row_data jsonb;
+  property_owner uuid;
+BEGIN
+  -- Scheduled jobs and webhooks run without a user
+  IF auth.uid() IS NOT NULL THEN
+    row_data := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+
+    IF TG_TABLE_NAME = 'properties' THEN
+      property_owner := (row_data->>'owner_id')::uuid;
+    ELSE
+      SELECT owner_id INTO property_owner
+      FROM properties
+      WHERE id = (row_data->>'property_id')::uuid;
+    END IF;
+
+    IF property_owner = auth.uid() AND account_is_read_only(property_owner) THEN
+      RAISE EXCEPTION 'Account is read-only';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER properties_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE TRIGGER rooms_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE TRIGGER tenants_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON tenants
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE TRIGGER payments_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE TRIGGER payment_fees_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON payment_fees
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE TRIGGER payment_transactions_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON payment_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE TRIGGER maintenance_requests_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE OR REPLACE FUNCTION reactivate_paid_subscription()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status = 'unpaid' AND NOT EXISTS (
+    SELECT 1 FROM subscription_invoices
+    WHERE subscription_id = NEW.subscription_id AND status = 'unpaid' AND id <> NEW.id
+  ) THEN
+    UPDATE subscriptions
+    SET status = 'active', updated_at = now()
+    WHERE id = NEW.subscription_id AND status = 'expired';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER subscription_invoices_reactivate
+  AFTER UPDATE OF status ON subscription_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION reactivate_paid_subscription();
+
+SELECT cron.schedule(
+  'subscription-lifecycle',
+  '25 17 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/subscription-lifecycle',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
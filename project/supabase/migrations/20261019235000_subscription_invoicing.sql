@@ -0,0 +1,374 @@
+/*
+  # Subscription invoicing
+
+  1. New Tables
+    - `subscription_invoice_sequences`: the last invoice number issued per
+      year. It only ever increases, so numbers are never reused.
+    - `subscription_invoice_items`: the line items of an invoice, one per
+      plan period charged or credited. A prorated plan change has a credit
+      line for the rest of the old plan's period and a charge line for the
+      new plan's.
+  2. Changes
+    - `subscription_invoices` gains `invoice_number` (`INV-<year>-<number>`),
+      `tax_rate`, `tax_amount`, `total` and `paid_at`. `amount` stays the
+      amount before tax, the sum of the line items; PPN is added on top.
+      Invoices issued before this migration are numbered in order and keep
+      a tax rate of 0, since that is what was charged.
+  3. Functions
+    - `change_subscription_plan` and `renew_subscription` now write line
+      items.
+  4. Triggers
+    - New invoices get the next number for the year; tax and total are
+      recomputed whenever the amount or rate changes; `paid_at` is set when
+      an invoice is marked paid.
+  5. Security
+    - Owners can view the items of their own invoices.
+    - Backoffice users can view all invoices and items and mark invoices
+      paid.
+*/
+
+CREATE TABLE IF NOT EXISTS subscription_invoice_sequences (
+  year integer PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE subscription_invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS subscription_invoice_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES subscription_invoices(id) ON DELETE CASCADE,
+  plan_id uuid REFERENCES subscription_plans(id),
+  description text NOT NULL,
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  -- Negative for a credit
+  amount numeric NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS subscription_invoice_items_invoice_id_idx
+  ON subscription_invoice_items (invoice_id);
+
+ALTER TABLE subscription_invoice_items ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE subscription_invoices
+  ADD COLUMN IF NOT EXISTS invoice_number text UNIQUE,
+  ADD COLUMN IF NOT EXISTS tax_rate numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total numeric,
+  ADD COLUMN IF NOT EXISTS paid_at timestamptz;
+
+-- Backfill invoices issued before numbering and tax existed
+WITH numbered AS (
+  SELECT
+    id,
+    EXTRACT(YEAR FROM created_at)::integer AS year,
+    row_number() OVER (PARTITION BY EXTRACT(YEAR FROM created_at) ORDER BY created_at, id) AS number
+  FROM subscription_invoices
+  WHERE invoice_number IS NULL
+)
+UPDATE subscription_invoices i
+SET invoice_number = 'INV-' || numbered.year || '-' || lpad(numbered.number::text, 5, '0'),
+    total = i.amount,
+    paid_at = CASE WHEN i.status = 'paid' THEN i.created_at END
+FROM numbered
+WHERE numbered.id = i.id;
+
+INSERT INTO subscription_invoice_sequences (year, last_number)
+SELECT EXTRACT(YEAR FROM created_at)::integer, count(*)
+FROM subscription_invoices
+GROUP BY 1
+ON CONFLICT (year) DO NOTHING;
+
+INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+SELECT id, plan_id, description, period_start, period_end, amount
+FROM subscription_invoices i
+WHERE NOT EXISTS (SELECT 1 FROM subscription_invoice_items WHERE invoice_id = i.id);
+
+ALTER TABLE subscription_invoices ALTER COLUMN invoice_number SET NOT NULL;
+ALTER TABLE subscription_invoices ALTER COLUMN total SET NOT NULL;
+-- PPN on SaaS subscriptions; plan prices exclude it
+ALTER TABLE subscription_invoices ALTER COLUMN tax_rate SET DEFAULT 0.11;
+
+CREATE OR REPLACE FUNCTION prepare_subscription_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_year integer;
+  next_number integer;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    invoice_year := EXTRACT(YEAR FROM COALESCE(NEW.created_at, now()))::integer;
+
+    -- The upsert locks the year's counter row, serialising concurrent issues
+    INSERT INTO subscription_invoice_sequences (year, last_number)
+    VALUES (invoice_year, 1)
+    ON CONFLICT (year)
+    DO UPDATE SET last_number = subscription_invoice_sequences.last_number + 1
+    RETURNING last_number INTO next_number;
+
+    NEW.invoice_number := 'INV-' || invoice_year || '-' || lpad(next_number::text, 5, '0');
+  END IF;
+
+  NEW.tax_amount := round(NEW.amount * NEW.tax_rate);
+  NEW.total := NEW.amount + NEW.tax_amount;
+
+  IF NEW.status = 'paid' AND (TG_OP = 'INSERT' OR OLD.status <> 'paid') THEN
+    NEW.paid_at := COALESCE(NEW.paid_at, now());
+  ELSIF NEW.status <> 'paid' THEN
+    NEW.paid_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER subscription_invoices_prepare
+  BEFORE INSERT OR UPDATE OF amount, tax_rate, status ON subscription_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_subscription_invoice();
+
+CREATE POLICY "Users can view their subscription invoice items"
+  ON subscription_invoice_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    invoice_id IN (SELECT id FROM subscription_invoices WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Backoffice users can view subscription invoices"
+  ON subscription_invoices
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid()));
+
+CREATE POLICY "Backoffice users can update subscription invoices"
+  ON subscription_invoices
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid()));
+
+CREATE POLICY "Backoffice users can view subscription invoice items"
+  ON subscription_invoice_items
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION change_subscription_plan(p_plan_id uuid)
+RETURNS subscription_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_subscription subscriptions;
+  old_plan subscription_plans;
+  new_plan subscription_plans;
+  property_count integer;
+  largest_property record;
+  remaining numeric;
+  credit numeric;
+  charge numeric;
+  change_start timestamptz;
+  invoice subscription_invoices;
+BEGIN
+  SELECT * INTO new_plan FROM subscription_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  SELECT * INTO current_subscription
+  FROM subscriptions
+  WHERE user_id = auth.uid() AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF current_subscription.plan_id = p_plan_id THEN
+    RAISE EXCEPTION 'Already subscribed to this plan';
+  END IF;
+
+  -- The plan limit triggers only guard new rows, so a downgrade must check
+  -- what already exists
+  SELECT count(*) INTO property_count FROM properties WHERE owner_id = auth.uid();
+  IF property_count > new_plan.max_properties THEN
+    RAISE EXCEPTION 'Downgrade exceeds property limit'
+      USING DETAIL = format('%s properties, plan allows %s', property_count, new_plan.max_properties);
+  END IF;
+
+  SELECT p.name, count(r.id) AS room_count INTO largest_property
+  FROM properties p
+  JOIN rooms r ON r.property_id = p.id
+  WHERE p.owner_id = auth.uid()
+  GROUP BY p.id, p.name
+  ORDER BY count(r.id) DESC
+  LIMIT 1;
+
+  IF FOUND AND largest_property.room_count > new_plan.max_rooms_per_property THEN
+    RAISE EXCEPTION 'Downgrade exceeds room limit'
+      USING DETAIL = format('%s has %s rooms, plan allows %s',
+        largest_property.name, largest_property.room_count, new_plan.max_rooms_per_property);
+  END IF;
+
+  IF current_subscription.id IS NULL THEN
+    INSERT INTO subscriptions (user_id, plan_id, status, current_period_start, current_period_end, cancel_at_period_end)
+    VALUES (auth.uid(), p_plan_id, 'active', now(), now() + interval '1 month', false)
+    RETURNING * INTO current_subscription;
+
+    INSERT INTO subscription_invoices (
+      user_id, subscription_id, plan_id, kind, description, amount, status, period_start, period_end
+    )
+    VALUES (
+      auth.uid(),
+      current_subscription.id,
+      p_plan_id,
+      'new',
+      format('Langganan paket %s', new_plan.name),
+      new_plan.price,
+      CASE WHEN new_plan.price > 0 THEN 'unpaid' ELSE 'paid' END,
+      current_subscription.current_period_start,
+      current_subscription.current_period_end
+    )
+    RETURNING * INTO invoice;
+
+    INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+    VALUES (
+      invoice.id,
+      p_plan_id,
+      format('Paket %s', new_plan.name),
+      invoice.period_start,
+      invoice.period_end,
+      new_plan.price
+    );
+
+    RETURN invoice;
+  END IF;
+
+  SELECT * INTO old_plan FROM subscription_plans WHERE id = current_subscription.plan_id;
+
+  -- Share of the current period still to run, between 0 and 1
+  remaining := COALESCE(GREATEST(0, LEAST(1,
+    EXTRACT(EPOCH FROM (current_subscription.current_period_end - now()))
+    / NULLIF(EXTRACT(EPOCH FROM (current_subscription.current_period_end - current_subscription.current_period_start)), 0)
+  )), 0);
+  credit := round(COALESCE(old_plan.price, 0) * remaining);
+  charge := round(new_plan.price * remaining);
+  change_start := GREATEST(now(), current_subscription.current_period_start);
+
+  UPDATE subscriptions
+  SET plan_id = p_plan_id,
+      cancel_at_period_end = false,
+      updated_at = now()
+  WHERE id = current_subscription.id;
+
+  INSERT INTO subscription_invoices (
+    user_id, subscription_id, plan_id, kind, description, amount, status, period_start, period_end
+  )
+  VALUES (
+    auth.uid(),
+    current_subscription.id,
+    p_plan_id,
+    CASE WHEN new_plan.price >= COALESCE(old_plan.price, 0) THEN 'upgrade' ELSE 'downgrade' END,
+    format('Perubahan paket %s ke %s (prorata)', COALESCE(old_plan.name, '-'), new_plan.name),
+    charge - credit,
+    CASE WHEN charge - credit > 0 THEN 'unpaid' WHEN charge - credit < 0 THEN 'credited' ELSE 'paid' END,
+    change_start,
+    current_subscription.current_period_end
+  )
+  RETURNING * INTO invoice;
+
+  IF credit <> 0 THEN
+    INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+    VALUES (
+      invoice.id,
+      old_plan.id,
+      format('Kredit sisa periode paket %s', old_plan.name),
+      change_start,
+      current_subscription.current_period_end,
+      -credit
+    );
+  END IF;
+
+  INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+  VALUES (
+    invoice.id,
+    p_plan_id,
+    format('Sisa periode paket %s', new_plan.name),
+    change_start,
+    current_subscription.current_period_end,
+    charge
+  );
+
+  RETURN invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION renew_subscription(
+  p_subscription_id uuid,
+  p_grace_days integer
+)
+RETURNS subscription_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target subscriptions;
+  plan subscription_plans;
+  new_start timestamptz;
+  new_end timestamptz;
+  invoice subscription_invoices;
+BEGIN
+  SELECT * INTO target FROM subscriptions WHERE id = p_subscription_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  IF target.status <> 'active' OR target.current_period_end > now() THEN
+    RAISE EXCEPTION 'Subscription is not due for renewal';
+  END IF;
+
+  SELECT * INTO plan FROM subscription_plans WHERE id = target.plan_id;
+
+  -- Catch up on missed runs so the new period always contains today
+  new_start := target.current_period_end;
+  new_end := new_start + interval '1 month';
+  WHILE new_end <= now() LOOP
+    new_start := new_end;
+    new_end := new_end + interval '1 month';
+  END LOOP;
+
+  UPDATE subscriptions
+  SET current_period_start = new_start,
+      current_period_end = new_end,
+      updated_at = now()
+  WHERE id = target.id;
+
+  INSERT INTO subscription_invoices (
+    user_id, subscription_id, plan_id, kind, description, amount, status,
+    period_start, period_end, due_at
+  )
+  VALUES (
+    target.user_id,
+    target.id,
+    plan.id,
+    'renewal',
+    format('Perpanjangan paket %s', plan.name),
+    plan.price,
+    CASE WHEN plan.price > 0 THEN 'unpaid' ELSE 'paid' END,
+    new_start,
+    new_end,
+    new_start + make_interval(days => p_grace_days)
+  )
+  RETURNING * INTO invoice;
+
+  INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+  VALUES (invoice.id, plan.id, format('Paket %s', plan.name), new_start, new_end, plan.price);
+
+  RETURN invoice;
+END;
+$$;
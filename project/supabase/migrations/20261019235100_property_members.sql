@@ -0,0 +1,467 @@
+/*
+  # Property memberships and staff roles
+
+  1. New Tables
+    - `property_members`: users other than the owner who work on a property,
+      with a role of `admin`, `manager` or `staff`.
+    - `property_invitations`: pending invitations by email. An invitation is
+      accepted by the user who signs in with that (confirmed) address.
+  2. Functions
+    - `property_role(p_property_id)`: the signed in user's role on a
+      property: `owner`, their member role, or null.
+    - `member_property_ids(p_roles)`: the properties where the signed in user
+      is a member with one of the roles. It bypasses RLS so the member
+      policies do not recurse through `property_members`.
+    - `create_property_invitation(p_property_id, p_email, p_role)`: invites
+      an email address. Only the owner and admins may invite, and only while
+      the owner's plan includes `multi_user`. Existing users are notified.
+    - `my_property_invitations()`: pending invitations for the signed in
+      user's email, with the property name.
+    - `respond_to_property_invitation(p_invitation_id, p_accept)`: accepts
+      or declines an invitation for the signed in user's confirmed email.
+  3. Security
+    - Roles grant, on top of what the owner already has:
+      - every member: view the property, its rooms, tenants, payments, fees
+        and maintenance; log payments and maintenance;
+      - managers and admins: add and edit rooms and tenants, manage fees
+        and delete maintenance requests;
+      - admins: edit the property and its late fee rules, delete rooms,
+        tenants and payments, and manage members and invitations.
+    - Reports are hidden from staff in the app. Receipts, contracts,
+      check-out and backups stay owner-only.
+    - Members of a read-only account are blocked like its owner.
+*/
+
+CREATE TABLE IF NOT EXISTS property_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('admin', 'manager', 'staff')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT property_members_property_user_key UNIQUE (property_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS property_members_user_id_idx ON property_members (user_id);
+
+CREATE TABLE IF NOT EXISTS property_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('admin', 'manager', 'staff')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '7 days'),
+  responded_at timestamptz
+);
+
+-- One open invitation per address and property
+CREATE UNIQUE INDEX IF NOT EXISTS property_invitations_pending_key
+  ON property_invitations (property_id, lower(email))
+  WHERE status = 'pending';
+
+ALTER TABLE property_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION member_property_ids(p_roles text[])
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT property_id FROM property_members WHERE user_id = auth.uid() AND role = ANY(p_roles);
+$$;
+
+CREATE OR REPLACE FUNCTION property_role(p_property_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT 'owner' FROM properties WHERE id = p_property_id AND owner_id = auth.uid()),
+    (SELECT role FROM property_members WHERE property_id = p_property_id AND user_id = auth.uid())
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION member_property_ids(text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION property_role(uuid) TO authenticated;
+
+CREATE POLICY "Members can view their team"
+  ON property_members
+  FOR SELECT
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+    OR property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff']))
+  );
+
+CREATE POLICY "Owners and admins can change member roles"
+  ON property_members
+  FOR UPDATE
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+    OR property_id IN (SELECT member_property_ids(ARRAY['admin']))
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+    OR property_id IN (SELECT member_property_ids(ARRAY['admin']))
+  );
+
+-- Members may also leave a property themselves
+CREATE POLICY "Owners and admins can remove members"
+  ON property_members
+  FOR DELETE
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+    OR property_id IN (SELECT member_property_ids(ARRAY['admin']))
+  );
+
+CREATE POLICY "Owners and admins can view invitations"
+  ON property_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+    OR property_id IN (SELECT member_property_ids(ARRAY['admin']))
+  );
+
+CREATE POLICY "Owners and admins can revoke invitations"
+  ON property_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+    OR property_id IN (SELECT member_property_ids(ARRAY['admin']))
+  )
+  WITH CHECK (status IN ('pending', 'revoked'));
+
+CREATE POLICY "Members can view their properties"
+  ON properties
+  FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Admins can update their properties"
+  ON properties
+  FOR UPDATE
+  TO authenticated
+  USING (id IN (SELECT member_property_ids(ARRAY['admin'])))
+  WITH CHECK (id IN (SELECT member_property_ids(ARRAY['admin'])));
+
+CREATE POLICY "Admins can manage late fee rules"
+  ON late_fee_rules
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin'])));
+
+CREATE POLICY "Members can view rooms"
+  ON rooms
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Managers can add rooms"
+  ON rooms
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+CREATE POLICY "Managers can update rooms"
+  ON rooms
+  FOR UPDATE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+CREATE POLICY "Admins can delete rooms"
+  ON rooms
+  FOR DELETE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin'])));
+
+CREATE POLICY "Members can view tenants"
+  ON tenants
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Managers can add tenants"
+  ON tenants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+CREATE POLICY "Managers can update tenants"
+  ON tenants
+  FOR UPDATE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+CREATE POLICY "Admins can delete tenants"
+  ON tenants
+  FOR DELETE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin'])));
+
+CREATE POLICY "Members can view payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Members can log payments"
+  ON payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Members can update payments"
+  ON payments
+  FOR UPDATE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Admins can delete payments"
+  ON payments
+  FOR DELETE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin'])));
+
+CREATE POLICY "Members can view payment transactions"
+  ON payment_transactions
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Members can record payment transactions"
+  ON payment_transactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Admins can delete payment transactions"
+  ON payment_transactions
+  FOR DELETE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin'])));
+
+CREATE POLICY "Members can view payment fees"
+  ON payment_fees
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Managers can manage payment fees"
+  ON payment_fees
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+CREATE POLICY "Members can view maintenance requests"
+  ON maintenance_requests
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Members can log maintenance requests"
+  ON maintenance_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Members can update maintenance requests"
+  ON maintenance_requests
+  FOR UPDATE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Managers can delete maintenance requests"
+  ON maintenance_requests
+  FOR DELETE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+CREATE OR REPLACE FUNCTION create_property_invitation(
+  p_property_id uuid,
+  p_email text,
+  p_role text
+)
+RETURNS property_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target properties;
+  plan subscription_plans;
+  invited_user uuid;
+  invitation property_invitations;
+BEGIN
+  SELECT * INTO target FROM properties WHERE id = p_property_id;
+  IF NOT FOUND OR property_role(p_property_id) NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Property not found';
+  END IF;
+
+  SELECT * INTO plan FROM effective_plan(target.owner_id);
+  IF plan.id IS NOT NULL AND NOT COALESCE((plan.features->>'multi_user')::boolean, false) THEN
+    RAISE EXCEPTION 'Plan does not include multi_user';
+  END IF;
+
+  SELECT id INTO invited_user FROM auth.users WHERE lower(email) = lower(trim(p_email));
+
+  IF invited_user = target.owner_id OR EXISTS (
+    SELECT 1 FROM property_members WHERE property_id = p_property_id AND user_id = invited_user
+  ) THEN
+    RAISE EXCEPTION 'Already a member';
+  END IF;
+
+  -- Re-inviting replaces the open invitation so the role and expiry are fresh
+  UPDATE property_invitations
+  SET status = 'revoked', responded_at = now()
+  WHERE property_id = p_property_id AND lower(email) = lower(trim(p_email)) AND status = 'pending';
+
+  INSERT INTO property_invitations (property_id, email, role, invited_by)
+  VALUES (p_property_id, lower(trim(p_email)), p_role, auth.uid())
+  RETURNING * INTO invitation;
+
+  IF invited_user IS NOT NULL THEN
+    INSERT INTO notifications (title, message, type, status, target_user_id, target_property_id)
+    VALUES (
+      'Undangan Properti',
+      format('Anda diundang bergabung ke %s sebagai %s. Buka halaman Properti untuk menerimanya.', target.name, p_role),
+      'property',
+      'unread',
+      invited_user,
+      p_property_id
+    );
+  END IF;
+
+  RETURN invitation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_property_invitation(uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION my_property_invitations()
+RETURNS TABLE (
+  id uuid,
+  property_id uuid,
+  property_name text,
+  role text,
+  created_at timestamptz,
+  expires_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.property_id, p.name, i.role, i.created_at, i.expires_at
+  FROM property_invitations i
+  JOIN properties p ON p.id = i.property_id
+  JOIN auth.users u ON lower(u.email) = i.email
+  WHERE u.id = auth.uid()
+    AND u.email_confirmed_at IS NOT NULL
+    AND i.status = 'pending'
+    AND i.expires_at > now()
+  ORDER BY i.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION my_property_invitations() TO authenticated;
+
+CREATE OR REPLACE FUNCTION respond_to_property_invitation(p_invitation_id uuid, p_accept boolean)
+RETURNS property_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_email text;
+  invitation property_invitations;
+BEGIN
+  -- Only a confirmed address proves the user owns the invited email
+  SELECT email INTO user_email
+  FROM auth.users
+  WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+
+  SELECT * INTO invitation
+  FROM property_invitations
+  WHERE id = p_invitation_id
+    AND email = lower(user_email)
+    AND status = 'pending'
+    AND expires_at > now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  UPDATE property_invitations
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+      responded_at = now()
+  WHERE id = invitation.id
+  RETURNING * INTO invitation;
+
+  IF p_accept THEN
+    INSERT INTO property_members (property_id, user_id, email, role, invited_by)
+    VALUES (invitation.property_id, auth.uid(), lower(user_email), invitation.role, invitation.invited_by)
+    ON CONFLICT (property_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+  END IF;
+
+  RETURN invitation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION respond_to_property_invitation(uuid, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_account_writable()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  row_data jsonb;
+  target_property uuid;
+  property_owner uuid;
+BEGIN
+  -- Scheduled jobs and webhooks run without a user
+  IF auth.uid() IS NOT NULL THEN
+    row_data := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+
+    IF TG_TABLE_NAME = 'properties' THEN
+      target_property := (row_data->>'id')::uuid;
+      property_owner := (row_data->>'owner_id')::uuid;
+    ELSE
+      target_property := (row_data->>'property_id')::uuid;
+      SELECT owner_id INTO property_owner FROM properties WHERE id = target_property;
+    END IF;
+
+    -- Members work under the owner's subscription
+    IF (
+      property_owner = auth.uid()
+      OR EXISTS (SELECT 1 FROM property_members WHERE property_id = target_property AND user_id = auth.uid())
+    ) AND account_is_read_only(property_owner) THEN
+      RAISE EXCEPTION 'Account is read-only';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,228 @@
+/*
+  # Maintenance work orders
+
+  1. New Tables
+    - `maintenance_cost_items`: the labor and material lines of a
+      maintenance request, each with a quantity and unit cost.
+    - `maintenance_attachments`: photos of a request kept in storage.
+  2. Changes
+    - `maintenance_requests` gains `assignee_name` and `assignee_phone` for
+      the vendor or technician doing the work, `scheduled_at`,
+      `completed_at` and `total_cost`.
+    - `total_cost` is the sum of the request's cost lines, kept by a trigger.
+    - `completed_at` is set when a request is completed and cleared when it
+      is reopened. Requests completed earlier use their last update.
+  3. Storage
+    - Private `maintenance-photos` bucket. Objects are stored as
+      `{property_id}/{request_id}/{file}`.
+  4. Security
+    - Cost lines, attachments and photos follow the maintenance requests:
+      the owner and every member may add them, deleting is limited to the
+      owner, admins and managers.
+    - Read-only accounts cannot change them.
+*/
+
+ALTER TABLE maintenance_requests
+  ADD COLUMN IF NOT EXISTS assignee_name text,
+  ADD COLUMN IF NOT EXISTS assignee_phone text,
+  ADD COLUMN IF NOT EXISTS scheduled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS total_cost numeric NOT NULL DEFAULT 0;
+
+UPDATE maintenance_requests
+SET completed_at = COALESCE(updated_at, created_at, now())
+WHERE status = 'completed' AND completed_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS maintenance_cost_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES maintenance_requests(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('labor', 'material')),
+  description text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_cost numeric NOT NULL CHECK (unit_cost >= 0),
+  amount numeric GENERATED ALWAYS AS (quantity * unit_cost) STORED,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_cost_items_request_id_idx
+  ON maintenance_cost_items (request_id);
+
+CREATE TABLE IF NOT EXISTS maintenance_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES maintenance_requests(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  content_type text,
+  size_bytes bigint,
+  uploaded_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_attachments_request_id_idx
+  ON maintenance_attachments (request_id);
+
+ALTER TABLE maintenance_cost_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE maintenance_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage maintenance cost items"
+  ON maintenance_cost_items
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Members can view maintenance cost items"
+  ON maintenance_cost_items
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Members can log maintenance cost items"
+  ON maintenance_cost_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Managers can delete maintenance cost items"
+  ON maintenance_cost_items
+  FOR DELETE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+CREATE POLICY "Owners can manage maintenance attachments"
+  ON maintenance_attachments
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Members can view maintenance attachments"
+  ON maintenance_attachments
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Members can add maintenance attachments"
+  ON maintenance_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Managers can delete maintenance attachments"
+  ON maintenance_attachments
+  FOR DELETE
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('maintenance-photos', 'maintenance-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Property teams can read maintenance photos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'maintenance-photos'
+    AND (storage.foldername(name))[1] IN (
+      SELECT id::text FROM properties WHERE owner_id = auth.uid()
+      UNION
+      SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])::text
+    )
+  );
+
+CREATE POLICY "Property teams can upload maintenance photos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'maintenance-photos'
+    AND (storage.foldername(name))[1] IN (
+      SELECT id::text FROM properties WHERE owner_id = auth.uid()
+      UNION
+      SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])::text
+    )
+  );
+
+CREATE POLICY "Owners and managers can delete maintenance photos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'maintenance-photos'
+    AND (storage.foldername(name))[1] IN (
+      SELECT id::text FROM properties WHERE owner_id = auth.uid()
+      UNION
+      SELECT member_property_ids(ARRAY['admin', 'manager'])::text
+    )
+  );
+
+-- Recompute a request's total from its cost lines
+CREATE OR REPLACE FUNCTION sync_maintenance_total_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_request_id uuid := COALESCE(NEW.request_id, OLD.request_id);
+BEGIN
+  UPDATE maintenance_requests
+  SET
+    total_cost = (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM maintenance_cost_items
+      WHERE request_id = target_request_id
+    ),
+    updated_at = now()
+  WHERE id = target_request_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER maintenance_cost_items_sync_total
+  AFTER INSERT OR UPDATE OR DELETE ON maintenance_cost_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_maintenance_total_cost();
+
+CREATE OR REPLACE FUNCTION track_maintenance_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintenance_requests_track_completion
+  BEFORE INSERT OR UPDATE OF status, completed_at ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION track_maintenance_completion();
+
+CREATE TRIGGER maintenance_cost_items_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON maintenance_cost_items
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE TRIGGER maintenance_attachments_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON maintenance_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
@@ -0,0 +1,102 @@
+/*
+  # Vendor and technician directory
+
+  1. New Tables
+    - `vendors`: the people and companies a property calls for repairs,
+      with their trade, phone, rate and notes.
+  2. Changes
+    - `maintenance_requests.vendor_id`: the vendor assigned to a request.
+    - `maintenance_requests.assigned_at`: when the current vendor was
+      assigned, the start of the vendor's turnaround.
+    - Assigning a vendor copies its name and phone into the request's
+      assignee, so requests keep showing who did the work after a vendor is
+      edited or removed.
+  3. Security
+    - Every member can see the directory; the owner, admins and managers
+      maintain it.
+    - Read-only accounts cannot change it.
+*/
+
+CREATE TABLE IF NOT EXISTS vendors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  trade text NOT NULL CHECK (trade IN ('plumbing', 'electrical', 'ac', 'carpentry', 'cleaning', 'general')),
+  phone text,
+  rate numeric CHECK (rate >= 0),
+  rate_unit text NOT NULL DEFAULT 'visit' CHECK (rate_unit IN ('visit', 'hour', 'day', 'job')),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS vendors_property_id_idx
+  ON vendors (property_id);
+
+ALTER TABLE maintenance_requests
+  ADD COLUMN IF NOT EXISTS vendor_id uuid REFERENCES vendors(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS maintenance_requests_vendor_id_idx
+  ON maintenance_requests (vendor_id);
+
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage vendors"
+  ON vendors
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Members can view vendors"
+  ON vendors
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Managers can manage vendors"
+  ON vendors
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+CREATE OR REPLACE FUNCTION assign_maintenance_vendor()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  vendor vendors;
+BEGIN
+  IF NEW.vendor_id IS NULL THEN
+    NEW.assigned_at := NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.vendor_id IS DISTINCT FROM OLD.vendor_id THEN
+    SELECT * INTO vendor FROM vendors WHERE id = NEW.vendor_id;
+
+    IF vendor.property_id IS DISTINCT FROM NEW.property_id THEN
+      RAISE EXCEPTION 'Vendor not found';
+    END IF;
+
+    NEW.assignee_name := vendor.name;
+    NEW.assignee_phone := vendor.phone;
+    NEW.assigned_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintenance_requests_assign_vendor
+  BEFORE INSERT OR UPDATE OF vendor_id ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_maintenance_vendor();
+
+CREATE TRIGGER vendors_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
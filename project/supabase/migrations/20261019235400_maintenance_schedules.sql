@@ -0,0 +1,128 @@
+/*
+  # Preventive maintenance schedules
+
+  1. New Tables
+    - `maintenance_schedules`: recurring maintenance of a property or one of
+      its rooms, such as AC servicing every 3 months. Each schedule has an
+      interval in months, the next due date and how many days ahead of it
+      the request is created. A vendor can be assigned to every occurrence.
+  2. Changes
+    - `maintenance_requests.schedule_id`: the schedule a request was created
+      from. The request is scheduled for the due date.
+    - A room schedule covers one of the room's facilities, and the room must
+      have that facility.
+  3. Scheduling
+    - The `maintenance-schedules` edge function runs daily. It creates the
+      request once the lead time is reached and moves the schedule to its
+      next due date.
+  4. Security
+    - Every member can see the schedules; the owner, admins and managers
+      maintain them.
+    - Read-only accounts cannot change them.
+*/
+
+CREATE TABLE IF NOT EXISTS maintenance_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  facility text,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  interval_months integer NOT NULL CHECK (interval_months > 0),
+  next_due_date date NOT NULL,
+  lead_days integer NOT NULL DEFAULT 7 CHECK (lead_days >= 0),
+  vendor_id uuid REFERENCES vendors(id) ON DELETE SET NULL,
+  active boolean NOT NULL DEFAULT true,
+  last_generated_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (room_id IS NULL OR facility IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_schedules_property_id_idx
+  ON maintenance_schedules (property_id);
+
+CREATE INDEX IF NOT EXISTS maintenance_schedules_next_due_date_idx
+  ON maintenance_schedules (next_due_date)
+  WHERE active;
+
+ALTER TABLE maintenance_requests
+  ADD COLUMN IF NOT EXISTS schedule_id uuid REFERENCES maintenance_schedules(id) ON DELETE SET NULL;
+
+ALTER TABLE maintenance_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage maintenance schedules"
+  ON maintenance_schedules
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Members can view maintenance schedules"
+  ON maintenance_schedules
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Managers can manage maintenance schedules"
+  ON maintenance_schedules
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager'])));
+
+-- Room schedules must service a facility the room has
+CREATE OR REPLACE FUNCTION check_maintenance_schedule_room()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target rooms;
+BEGIN
+  IF NEW.room_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO target FROM rooms WHERE id = NEW.room_id;
+
+  IF target.property_id IS DISTINCT FROM NEW.property_id THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF NOT (NEW.facility = ANY (COALESCE(target.facilities, ARRAY[]::text[]))) THEN
+    RAISE EXCEPTION 'Room does not have facility %', NEW.facility;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintenance_schedules_check_room
+  BEFORE INSERT OR UPDATE OF room_id, facility ON maintenance_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION check_maintenance_schedule_room();
+
+CREATE TRIGGER maintenance_schedules_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON maintenance_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+SELECT cron.schedule(
+  'maintenance-schedules',
+  '35 17 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/maintenance-schedules',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,193 @@
+/*
+  # Maintenance SLA tracking and escalation
+
+  1. New Tables
+    - `maintenance_sla_targets`: per property and priority, the hours within
+      which a request must be started and resolved. Priorities without a
+      target use the defaults in `maintenance_sla_hours`.
+  2. Changes
+    - `maintenance_requests.started_at`: when work started, set when the
+      status moves to `in-progress`. Requests completed straight from
+      `pending` start when they complete.
+    - `maintenance_requests.start_due_at` / `resolve_due_at`: the request's
+      deadlines, counted from when it was reported. They are set on insert
+      and moved when the priority changes; later target changes only apply
+      to new requests.
+    - `maintenance_requests.start_escalated_at` / `resolve_escalated_at`:
+      when a missed deadline was escalated.
+    - Existing requests get deadlines from the defaults. Deadlines they have
+      already missed are marked as escalated so they do not notify.
+  3. Scheduling
+    - The `maintenance-sla` edge function runs every hour and notifies the
+      owner, admins and managers of newly missed deadlines.
+  4. Security
+    - Every member can see the targets; the owner and admins maintain them.
+    - Read-only accounts cannot change them.
+*/
+
+CREATE TABLE IF NOT EXISTS maintenance_sla_targets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  priority text NOT NULL CHECK (priority IN ('low', 'medium', 'high')),
+  start_hours integer NOT NULL CHECK (start_hours > 0),
+  resolve_hours integer NOT NULL CHECK (resolve_hours > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT maintenance_sla_targets_property_priority_key UNIQUE (property_id, priority),
+  CHECK (resolve_hours >= start_hours)
+);
+
+ALTER TABLE maintenance_requests
+  ADD COLUMN IF NOT EXISTS started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS start_due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolve_due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS start_escalated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolve_escalated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS maintenance_requests_resolve_due_at_idx
+  ON maintenance_requests (resolve_due_at)
+  WHERE status <> 'completed';
+
+ALTER TABLE maintenance_sla_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage maintenance SLA targets"
+  ON maintenance_sla_targets
+  FOR ALL
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Members can view maintenance SLA targets"
+  ON maintenance_sla_targets
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Admins can manage maintenance SLA targets"
+  ON maintenance_sla_targets
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin'])))
+  WITH CHECK (property_id IN (SELECT member_property_ids(ARRAY['admin'])));
+
+CREATE TRIGGER maintenance_sla_targets_enforce_writable
+  BEFORE INSERT OR UPDATE OR DELETE ON maintenance_sla_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+-- The property's target for a priority, or the default one
+CREATE OR REPLACE FUNCTION maintenance_sla_hours(
+  p_property_id uuid,
+  p_priority text,
+  OUT start_hours integer,
+  OUT resolve_hours integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT t.start_hours, t.resolve_hours
+    INTO start_hours, resolve_hours
+    FROM maintenance_sla_targets t
+   WHERE t.property_id = p_property_id
+     AND t.priority = p_priority;
+
+  IF NOT FOUND THEN
+    start_hours := CASE p_priority WHEN 'high' THEN 4 WHEN 'medium' THEN 24 ELSE 72 END;
+    resolve_hours := CASE p_priority WHEN 'high' THEN 24 WHEN 'medium' THEN 72 ELSE 168 END;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_maintenance_sla_deadlines()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target record;
+  reported_at timestamptz := COALESCE(NEW.created_at, now());
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.priority IS NOT DISTINCT FROM OLD.priority THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO target FROM maintenance_sla_hours(NEW.property_id, NEW.priority);
+  NEW.start_due_at := reported_at + make_interval(hours => target.start_hours);
+  NEW.resolve_due_at := reported_at + make_interval(hours => target.resolve_hours);
+
+  -- A new deadline that has not passed yet can be escalated again
+  IF NEW.start_due_at > now() THEN
+    NEW.start_escalated_at := NULL;
+  END IF;
+  IF NEW.resolve_due_at > now() THEN
+    NEW.resolve_escalated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintenance_requests_set_sla_deadlines
+  BEFORE INSERT OR UPDATE OF priority ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION set_maintenance_sla_deadlines();
+
+-- Now also tracks when work started
+CREATE OR REPLACE FUNCTION track_maintenance_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at := NULL;
+  END IF;
+
+  IF NEW.status = 'pending' THEN
+    NEW.started_at := NULL;
+  ELSIF NEW.started_at IS NULL THEN
+    NEW.started_at := COALESCE(NEW.completed_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE maintenance_requests
+   SET started_at = COALESCE(completed_at, updated_at, created_at)
+ WHERE status <> 'pending'
+   AND started_at IS NULL;
+
+UPDATE maintenance_requests
+   SET start_due_at = COALESCE(created_at, date::timestamptz)
+         + make_interval(hours => (maintenance_sla_hours(property_id, priority)).start_hours),
+       resolve_due_at = COALESCE(created_at, date::timestamptz)
+         + make_interval(hours => (maintenance_sla_hours(property_id, priority)).resolve_hours)
+ WHERE resolve_due_at IS NULL;
+
+UPDATE maintenance_requests
+   SET start_escalated_at = CASE WHEN status = 'pending' AND start_due_at <= now() THEN now() END,
+       resolve_escalated_at = CASE WHEN status <> 'completed' AND resolve_due_at <= now() THEN now() END
+ WHERE status <> 'completed';
+
+SELECT cron.schedule(
+  'maintenance-sla',
+  '50 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/maintenance-sla',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,179 @@
+/*
+  # Maintenance activity log and comments
+
+  1. New Tables
+    - `maintenance_activities`: append-only timeline of a request. Rows are
+      `created`, `status` and `priority` changes with the old and new value,
+      and `comment`s.
+    - Comments can reply to another comment of the same request
+      (`parent_id`) and carry a photo kept in the `maintenance-photos`
+      bucket as `{property_id}/{request_id}/comments/{file}`.
+  2. Logging
+    - Creating a request and changing its status or priority is logged by a
+      trigger, whoever makes the change. Changes made by scheduled jobs
+      have no actor.
+    - The actor and their name are taken from the signed in user, so they
+      cannot be set by the client.
+    - Existing requests get a `created` entry at their creation time.
+  3. Security
+    - The owner and every member can read the log and comment. Entries are
+      never updated, and are only deleted with their request.
+    - Read-only accounts cannot comment.
+*/
+
+CREATE TABLE IF NOT EXISTS maintenance_activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES maintenance_requests(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('created', 'status', 'priority', 'comment')),
+  from_value text,
+  to_value text,
+  body text,
+  photo_path text,
+  parent_id uuid REFERENCES maintenance_activities(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (kind = 'comment' OR (body IS NULL AND photo_path IS NULL AND parent_id IS NULL)),
+  CHECK (kind <> 'comment' OR COALESCE(btrim(body), '') <> '' OR photo_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_activities_request_id_idx
+  ON maintenance_activities (request_id, created_at);
+
+ALTER TABLE maintenance_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view maintenance activities"
+  ON maintenance_activities
+  FOR SELECT
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can comment on maintenance requests"
+  ON maintenance_activities
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    kind = 'comment'
+    AND property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Members can view maintenance activities"
+  ON maintenance_activities
+  FOR SELECT
+  TO authenticated
+  USING (property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff'])));
+
+CREATE POLICY "Members can comment on maintenance requests"
+  ON maintenance_activities
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    kind = 'comment'
+    AND property_id IN (SELECT member_property_ids(ARRAY['admin', 'manager', 'staff']))
+  );
+
+-- Fills in the actor and keeps replies on the same request
+CREATE OR REPLACE FUNCTION prepare_maintenance_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent maintenance_activities;
+BEGIN
+  NEW.actor_id := auth.uid();
+  NEW.actor_name := (
+    SELECT COALESCE(NULLIF(u.raw_user_meta_data->>'name', ''), u.email)
+    FROM auth.users u
+    WHERE u.id = NEW.actor_id
+  );
+  NEW.created_at := now();
+
+  IF NEW.property_id IS DISTINCT FROM (SELECT property_id FROM maintenance_requests WHERE id = NEW.request_id) THEN
+    RAISE EXCEPTION 'Maintenance request not found';
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO parent FROM maintenance_activities WHERE id = NEW.parent_id;
+    IF parent.request_id IS DISTINCT FROM NEW.request_id OR parent.kind <> 'comment' THEN
+      RAISE EXCEPTION 'Replies must answer a comment on the same request';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintenance_activities_prepare
+  BEFORE INSERT ON maintenance_activities
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_maintenance_activity();
+
+CREATE OR REPLACE FUNCTION prevent_maintenance_activity_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Maintenance activity is append-only';
+END;
+$$;
+
+CREATE TRIGGER maintenance_activities_append_only
+  BEFORE UPDATE ON maintenance_activities
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_maintenance_activity_update();
+
+CREATE TRIGGER maintenance_activities_enforce_writable
+  BEFORE INSERT ON maintenance_activities
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_writable();
+
+CREATE OR REPLACE FUNCTION log_maintenance_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.property_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO maintenance_activities (request_id, property_id, kind, to_value)
+    VALUES (NEW.id, NEW.property_id, 'created', NEW.status);
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO maintenance_activities (request_id, property_id, kind, from_value, to_value)
+    VALUES (NEW.id, NEW.property_id, 'status', OLD.status, NEW.status);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO maintenance_activities (request_id, property_id, kind, from_value, to_value)
+    VALUES (NEW.id, NEW.property_id, 'priority', OLD.priority, NEW.priority);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER maintenance_requests_log_activity
+  AFTER INSERT OR UPDATE OF status, priority ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION log_maintenance_activity();
+
+-- The prepare trigger stamps new rows with now(), so the backfill skips it
+ALTER TABLE maintenance_activities DISABLE TRIGGER maintenance_activities_prepare;
+
+INSERT INTO maintenance_activities (request_id, property_id, kind, to_value, created_at)
+SELECT id, property_id, 'created', status, COALESCE(created_at, date::timestamptz)
+FROM maintenance_requests
+WHERE property_id IS NOT NULL;
+
+ALTER TABLE maintenance_activities ENABLE TRIGGER maintenance_activities_prepare;
@@ -0,0 +1,83 @@
+/*
+  # Tenant payment statuses refreshed in the database
+
+  1. Changes
+    - `refresh_tenant_payment_statuses` derives the payment status of every
+      current tenant from their payments, updates the ones that changed and
+      notifies the owner of each change. The `update-overdue-payments` job
+      used to read every tenant and payment for this, which the API caps at
+      its max rows.
+    - Tenants in `p_quiet_tenant_ids` that turn overdue are not notified, as
+      the job already notified their overdue payment.
+  2. Security
+    - Only the service role can run it.
+*/
+
+CREATE OR REPLACE FUNCTION refresh_tenant_payment_statuses(
+  p_quiet_tenant_ids uuid[] DEFAULT '{}',
+  OUT tenants_updated integer,
+  OUT notifications_created integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A tenant is overdue if any payment is overdue, pending if any is still open
+  WITH derived AS (
+    SELECT t.id,
+           t.payment_status AS from_status,
+           CASE
+             WHEN bool_or(p.status = 'overdue') THEN 'overdue'
+             WHEN bool_or(p.status IN ('pending', 'partial')) THEN 'pending'
+             ELSE 'paid'
+           END AS to_status
+    FROM tenants t
+    LEFT JOIN payments p ON p.tenant_id = t.id
+    WHERE t.status IN ('active', 'move_out_pending')
+    GROUP BY t.id
+  ),
+  changed AS (
+    UPDATE tenants t
+    SET payment_status = d.to_status,
+        updated_at = now()
+    FROM derived d
+    WHERE t.id = d.id
+      AND t.payment_status IS DISTINCT FROM d.to_status
+    RETURNING t.id, t.name, t.property_id, d.from_status, d.to_status
+  ),
+  notified AS (
+    INSERT INTO notifications (title, message, type, status, target_user_id, target_property_id)
+    SELECT
+      'Status Pembayaran Penyewa Berubah',
+      format(
+        'Status pembayaran %s berubah dari %s menjadi %s.',
+        c.name,
+        CASE c.from_status
+          WHEN 'paid' THEN 'Lunas'
+          WHEN 'pending' THEN 'Menunggu'
+          WHEN 'overdue' THEN 'Terlambat'
+          ELSE COALESCE(c.from_status, '-')
+        END,
+        CASE c.to_status
+          WHEN 'paid' THEN 'Lunas'
+          WHEN 'pending' THEN 'Menunggu'
+          ELSE 'Terlambat'
+        END
+      ),
+      'payment',
+      'unread',
+      pr.owner_id,
+      c.property_id
+    FROM changed c
+    LEFT JOIN properties pr ON pr.id = c.property_id
+    WHERE NOT (c.to_status = 'overdue' AND c.id = ANY(p_quiet_tenant_ids))
+    RETURNING id
+  )
+  SELECT (SELECT count(*) FROM changed), (SELECT count(*) FROM notified)
+    INTO tenants_updated, notifications_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_tenant_payment_statuses(uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_tenant_payment_statuses(uuid[]) TO service_role;
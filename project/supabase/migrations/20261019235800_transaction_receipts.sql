@@ -0,0 +1,112 @@
+/*
+  # Receipts per recorded payment
+
+  1. Changes
+    - `payment_receipts` are now issued per receipt in
+      `payment_transactions` (`transaction_id`) instead of once per payment,
+      so each instalment of a partial payment gets its own numbered kwitansi.
+    - The amount received, date, method and the balance left on the bill
+      after it are frozen on the receipt when it is issued, so reprints and
+      later receipts on the same bill never change what an earlier one says.
+    - Receipts issued per payment keep their number and are frozen at the
+      amount paid so far.
+  2. Functions
+    - `issue_transaction_receipt(p_transaction_id)` replaces
+      `issue_payment_receipt`: it returns the transaction's receipt,
+      allocating the next number for its property on first use.
+  3. Security
+    - Unchanged: receipts are restricted to the owner of the property.
+*/
+
+ALTER TABLE payment_receipts
+  DROP CONSTRAINT IF EXISTS payment_receipts_payment_id_key,
+  ADD COLUMN IF NOT EXISTS transaction_id uuid UNIQUE REFERENCES payment_transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS amount numeric,
+  ADD COLUMN IF NOT EXISTS paid_on date,
+  ADD COLUMN IF NOT EXISTS payment_method text,
+  ADD COLUMN IF NOT EXISTS balance_after numeric;
+
+UPDATE payment_receipts r
+SET amount = p.amount_paid,
+    paid_on = p.date,
+    payment_method = p.payment_method,
+    balance_after = GREATEST(0, p.amount + COALESCE(p.fee_amount, 0) - p.amount_paid)
+FROM payments p
+WHERE p.id = r.payment_id
+  AND r.amount IS NULL;
+
+-- Receipts whose payment was already deleted have nothing left to freeze
+UPDATE payment_receipts SET amount = 0 WHERE amount IS NULL;
+
+ALTER TABLE payment_receipts ALTER COLUMN amount SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS payment_receipts_payment_id_idx
+  ON payment_receipts (payment_id);
+
+DROP FUNCTION IF EXISTS issue_payment_receipt(uuid);
+
+CREATE OR REPLACE FUNCTION issue_transaction_receipt(p_transaction_id uuid)
+RETURNS payment_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry payment_transactions;
+  bill payments;
+  received numeric;
+  next_number integer;
+  receipt payment_receipts;
+BEGIN
+  SELECT t.* INTO entry
+  FROM payment_transactions t
+  JOIN payments p ON p.id = t.payment_id
+  JOIN properties pr ON pr.id = p.property_id
+  WHERE t.id = p_transaction_id AND pr.owner_id = auth.uid();
+
+  IF entry.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  SELECT * INTO receipt FROM payment_receipts WHERE transaction_id = p_transaction_id;
+  IF FOUND THEN
+    RETURN receipt;
+  END IF;
+
+  SELECT * INTO bill FROM payments WHERE id = entry.payment_id;
+
+  -- What was received on the bill up to and including this receipt
+  SELECT COALESCE(sum(t.amount), 0) INTO received
+  FROM payment_transactions t
+  WHERE t.payment_id = entry.payment_id
+    AND (t.date, t.created_at, t.id) <= (entry.date, entry.created_at, entry.id);
+
+  -- The upsert locks the property's counter row, serialising concurrent issues
+  INSERT INTO property_receipt_sequences (property_id, last_number)
+  VALUES (bill.property_id, 1)
+  ON CONFLICT (property_id)
+  DO UPDATE SET last_number = property_receipt_sequences.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  INSERT INTO payment_receipts (
+    payment_id, transaction_id, property_id, sequence_number, receipt_number,
+    amount, paid_on, payment_method, balance_after
+  )
+  VALUES (
+    bill.id,
+    entry.id,
+    bill.property_id,
+    next_number,
+    'KW-' || to_char(CURRENT_DATE, 'YYYY') || '-' || lpad(next_number::text, 5, '0'),
+    entry.amount,
+    entry.date,
+    entry.payment_method,
+    GREATEST(0, bill.amount + COALESCE(bill.fee_amount, 0) - received)
+  )
+  RETURNING * INTO receipt;
+
+  RETURN receipt;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_transaction_receipt(uuid) TO authenticated;
@@ -0,0 +1,83 @@
+/*
+  # Atomic lease renewal
+
+  1. Functions
+    - `renew_tenant_lease(...)`: extends a tenant's lease, reactivates a
+      tenant that was waiting to move out, applies a new rent to their room
+      and records the renewal in one transaction. The client used to make
+      these writes one by one, so a failure could leave the lease extended
+      without its renewal record or new rent.
+  2. Security
+    - The function checks ownership of the tenant, like the renewals RLS.
+*/
+
+CREATE OR REPLACE FUNCTION renew_tenant_lease(
+  p_tenant_id uuid,
+  p_new_end_date date,
+  p_new_price numeric DEFAULT NULL
+)
+RETURNS tenants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target tenants;
+  room rooms;
+  renewed tenants;
+BEGIN
+  SELECT t.* INTO target
+  FROM tenants t
+  JOIN properties pr ON pr.id = t.property_id
+  WHERE t.id = p_tenant_id AND pr.owner_id = auth.uid()
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tenant not found';
+  END IF;
+
+  IF target.status = 'inactive' THEN
+    RAISE EXCEPTION 'Tenant has already moved out';
+  END IF;
+
+  IF p_new_end_date <= target.end_date THEN
+    RAISE EXCEPTION 'New end date must be after the current one';
+  END IF;
+
+  IF p_new_price IS NOT NULL AND p_new_price < 0 THEN
+    RAISE EXCEPTION 'Rent cannot be negative';
+  END IF;
+
+  SELECT * INTO room FROM rooms WHERE id = target.room_id FOR UPDATE;
+
+  -- A new rent is applied to the room so future invoices pick it up
+  IF room.id IS NOT NULL AND p_new_price IS NOT NULL AND p_new_price <> room.price THEN
+    UPDATE rooms
+    SET price = p_new_price, updated_at = now()
+    WHERE id = room.id;
+  END IF;
+
+  UPDATE tenants
+  SET end_date = p_new_end_date, status = 'active', updated_at = now()
+  WHERE id = target.id
+  RETURNING * INTO renewed;
+
+  INSERT INTO lease_renewals (
+    tenant_id, property_id, room_id, previous_end_date, new_end_date,
+    previous_price, new_price
+  )
+  VALUES (
+    target.id,
+    target.property_id,
+    room.id,
+    target.end_date,
+    p_new_end_date,
+    room.price,
+    CASE WHEN room.id IS NOT NULL THEN COALESCE(p_new_price, room.price) END
+  );
+
+  RETURN renewed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION renew_tenant_lease(uuid, date, numeric) TO authenticated;
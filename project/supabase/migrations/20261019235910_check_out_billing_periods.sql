@@ -0,0 +1,214 @@
+/*
+  # Check-out settles only the bills of the stay
+
+  1. Changes
+    - `check_out_tenant` used to settle every open bill of the tenant,
+      including periods after the move-out that were billed in advance.
+      Now:
+      - bills for periods starting after the move-out date are voided:
+        deleted when nothing was received on them, otherwise cut down to
+        what was received;
+      - the bill of the period the tenant moves out in is charged for the
+        days up to and including the move-out date, the way the billing
+        engine prorates the first month of a lease. Fees on it are kept;
+      - only the remaining bills are settled and counted as outstanding.
+    - Bills without a billing period count as starting on their due date.
+    - Rent already received beyond the prorated amount is not refunded here.
+*/
+
+CREATE OR REPLACE FUNCTION check_out_tenant(
+  p_tenant_id uuid,
+  p_move_out_date date,
+  p_room_condition jsonb,
+  p_settlement text,
+  p_payment_method text DEFAULT NULL,
+  p_damage_amount numeric DEFAULT 0,
+  p_notes text DEFAULT NULL
+)
+RETURNS tenancy_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target tenants;
+  target_room rooms;
+  deposit tenant_deposits;
+  unpaid record;
+  outstanding numeric := 0;
+  available numeric := 0;
+  applied numeric;
+  covered numeric := 0;
+  bill payments;
+  billed_start date;
+  prorated numeric;
+  refund numeric;
+  history tenancy_history;
+BEGIN
+  SELECT t.* INTO target
+  FROM tenants t
+  JOIN properties pr ON pr.id = t.property_id
+  WHERE t.id = p_tenant_id AND pr.owner_id = auth.uid()
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tenant not found';
+  END IF;
+
+  IF target.status = 'inactive' THEN
+    RAISE EXCEPTION 'Tenant has already moved out';
+  END IF;
+
+  IF p_settlement NOT IN ('deposit', 'paid', 'none') THEN
+    RAISE EXCEPTION 'Invalid settlement %', p_settlement;
+  END IF;
+
+  IF p_settlement = 'paid' AND p_payment_method IS NULL THEN
+    RAISE EXCEPTION 'A payment method is required';
+  END IF;
+
+  SELECT * INTO target_room FROM rooms WHERE id = target.room_id FOR UPDATE;
+
+  SELECT * INTO deposit
+  FROM tenant_deposits
+  WHERE tenant_id = p_tenant_id AND status = 'held'
+  FOR UPDATE;
+
+  IF deposit.id IS NOT NULL THEN
+    IF COALESCE(p_damage_amount, 0) > 0 THEN
+      INSERT INTO deposit_deductions (deposit_id, property_id, amount, reason, date)
+      VALUES (deposit.id, deposit.property_id, p_damage_amount, 'Kerusakan kamar saat check-out', p_move_out_date);
+    END IF;
+
+    SELECT deposit.amount - COALESCE(SUM(amount), 0) INTO available
+    FROM deposit_deductions
+    WHERE deposit_id = deposit.id;
+  END IF;
+
+  -- Periods after the move-out are voided; whatever was received on them
+  -- stays recorded
+  DELETE FROM payments
+  WHERE tenant_id = p_tenant_id
+    AND COALESCE(period_start, due_date) > p_move_out_date
+    AND amount_paid = 0;
+
+  UPDATE payments
+  SET amount = GREATEST(amount_paid - fee_amount, 0),
+      status = 'paid',
+      updated_at = now()
+  WHERE tenant_id = p_tenant_id
+    AND COALESCE(period_start, due_date) > p_move_out_date
+    AND amount + fee_amount > amount_paid;
+
+  -- The final period is charged up to the move-out date, counted from the
+  -- lease start for a lease that also started in it
+  FOR bill IN
+    SELECT *
+    FROM payments
+    WHERE tenant_id = p_tenant_id
+      AND period_start <= p_move_out_date
+      AND period_end > p_move_out_date
+    FOR UPDATE
+  LOOP
+    billed_start := GREATEST(bill.period_start, target.start_date);
+    prorated := GREATEST(
+      round(bill.amount * (p_move_out_date - billed_start + 1) / (bill.period_end - billed_start + 1)),
+      bill.amount_paid - bill.fee_amount,
+      0
+    );
+
+    UPDATE payments
+    SET amount = prorated,
+        status = CASE
+          WHEN amount_paid >= prorated + fee_amount THEN 'paid'
+          ELSE status
+        END,
+        notes = concat_ws(E'\n', notes, format('Tagihan prorata check-out %s/%s hari', p_move_out_date - billed_start + 1, bill.period_end - billed_start + 1)),
+        updated_at = now()
+    WHERE id = bill.id;
+  END LOOP;
+
+  -- Oldest bills are settled first so a short deposit clears the arrears
+  FOR unpaid IN
+    SELECT id, property_id, amount + fee_amount - amount_paid AS remaining
+    FROM payments
+    WHERE tenant_id = p_tenant_id
+      AND status IN ('pending', 'partial', 'overdue')
+      AND amount + fee_amount > amount_paid
+      AND COALESCE(period_start, due_date) <= p_move_out_date
+    ORDER BY due_date
+  LOOP
+    outstanding := outstanding + unpaid.remaining;
+
+    IF p_settlement = 'paid' THEN
+      applied := unpaid.remaining;
+    ELSIF p_settlement = 'deposit' THEN
+      applied := LEAST(unpaid.remaining, GREATEST(available - covered, 0));
+    ELSE
+      applied := 0;
+    END IF;
+
+    IF applied > 0 THEN
+      INSERT INTO payment_transactions (payment_id, property_id, amount, date, payment_method, notes)
+      VALUES (
+        unpaid.id,
+        unpaid.property_id,
+        applied,
+        p_move_out_date,
+        CASE WHEN p_settlement = 'deposit' THEN 'deposit' ELSE p_payment_method END,
+        'Pelunasan saat check-out'
+      );
+      covered := covered + applied;
+    END IF;
+  END LOOP;
+
+  IF deposit.id IS NOT NULL THEN
+    IF p_settlement = 'deposit' AND covered > 0 THEN
+      INSERT INTO deposit_deductions (deposit_id, property_id, amount, reason, date)
+      VALUES (deposit.id, deposit.property_id, covered, 'Pelunasan tunggakan sewa', p_move_out_date);
+    END IF;
+
+    SELECT GREATEST(deposit.amount - COALESCE(SUM(amount), 0), 0) INTO refund
+    FROM deposit_deductions
+    WHERE deposit_id = deposit.id;
+
+    UPDATE tenant_deposits
+    SET
+      status = 'refunded',
+      refunded_date = p_move_out_date,
+      refund_amount = refund,
+      updated_at = now()
+    WHERE id = deposit.id;
+  END IF;
+
+  INSERT INTO tenancy_history (
+    tenant_id, property_id, room_id, tenant_name, room_number, start_date,
+    move_out_date, monthly_rent, room_condition, outstanding_amount,
+    outstanding_settlement, damage_amount, deposit_refund_amount, notes
+  )
+  VALUES (
+    target.id, target.property_id, target.room_id, target.name, target_room.number, target.start_date,
+    p_move_out_date, target_room.price, COALESCE(p_room_condition, '[]'), outstanding,
+    p_settlement, COALESCE(p_damage_amount, 0), refund, p_notes
+  )
+  RETURNING * INTO history;
+
+  UPDATE tenants
+  SET
+    status = 'inactive',
+    room_id = NULL,
+    end_date = p_move_out_date,
+    updated_at = now()
+  WHERE id = target.id;
+
+  IF target_room.id IS NOT NULL THEN
+    UPDATE rooms
+    SET status = 'vacant', tenant_id = NULL, updated_at = now()
+    WHERE id = target_room.id;
+  END IF;
+
+  RETURN history;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_out_tenant(uuid, date, jsonb, text, text, numeric, text) TO authenticated;
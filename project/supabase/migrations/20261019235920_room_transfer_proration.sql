@@ -0,0 +1,146 @@
+/*
+  # Room transfers reprice bills by the days in each room
+
+  1. Changes
+    - `transfer_tenant_room` used to set adjusted bills to the new room's
+      full price, which dropped the prorating of a lease's first and last
+      month. Adjusting now recomputes every open bill whose period runs into
+      the transfer from its billing period, the lease dates and the transfer
+      date: days before the transfer at the old room's rent, days from the
+      transfer on at the new room's rent, over the days in the period, the
+      way the billing engine prorates.
+    - Fees stay on the bill. A bill is never lowered below what was already
+      received on it.
+    - Bills without a billing period are left as they are.
+*/
+
+CREATE OR REPLACE FUNCTION transfer_tenant_room(
+  p_tenant_id uuid,
+  p_to_room_id uuid,
+  p_transfer_date date,
+  p_reason text DEFAULT NULL,
+  p_adjust_payments boolean DEFAULT false
+)
+RETURNS room_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target tenants;
+  from_room rooms;
+  to_room rooms;
+  adjusted integer := 0;
+  bill payments;
+  billed_start date;
+  billed_end date;
+  old_days integer;
+  new_days integer;
+  repriced numeric;
+  transfer room_transfers;
+BEGIN
+  SELECT t.* INTO target
+  FROM tenants t
+  JOIN properties pr ON pr.id = t.property_id
+  WHERE t.id = p_tenant_id AND pr.owner_id = auth.uid()
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tenant not found';
+  END IF;
+
+  IF target.status = 'inactive' THEN
+    RAISE EXCEPTION 'Tenant has already moved out';
+  END IF;
+
+  SELECT * INTO to_room
+  FROM rooms
+  WHERE id = p_to_room_id AND property_id = target.property_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF to_room.id = target.room_id THEN
+    RAISE EXCEPTION 'Tenant already occupies this room';
+  END IF;
+
+  IF to_room.status <> 'vacant' THEN
+    RAISE EXCEPTION 'Room is not vacant';
+  END IF;
+
+  SELECT * INTO from_room FROM rooms WHERE id = target.room_id FOR UPDATE;
+
+  IF from_room.id IS NOT NULL THEN
+    UPDATE rooms
+    SET status = 'vacant', tenant_id = NULL, updated_at = now()
+    WHERE id = from_room.id;
+  END IF;
+
+  UPDATE rooms
+  SET status = 'occupied', tenant_id = target.id, updated_at = now()
+  WHERE id = to_room.id;
+
+  UPDATE tenants
+  SET room_id = to_room.id, updated_at = now()
+  WHERE id = target.id;
+
+  IF p_adjust_payments THEN
+    FOR bill IN
+      SELECT *
+      FROM payments
+      WHERE tenant_id = target.id
+        AND status IN ('pending', 'partial', 'overdue')
+        AND period_start IS NOT NULL
+        AND period_end >= p_transfer_date
+      FOR UPDATE
+    LOOP
+      billed_start := GREATEST(bill.period_start, target.start_date);
+      billed_end := LEAST(bill.period_end, target.end_date);
+      CONTINUE WHEN billed_end < billed_start;
+
+      old_days := GREATEST(LEAST(p_transfer_date, billed_end + 1) - billed_start, 0);
+      new_days := GREATEST(billed_end - GREATEST(p_transfer_date, billed_start) + 1, 0);
+      repriced := GREATEST(
+        round((COALESCE(from_room.price, to_room.price) * old_days + to_room.price * new_days)
+          / (bill.period_end - bill.period_start + 1)),
+        bill.amount_paid - bill.fee_amount,
+        0
+      );
+
+      UPDATE payments
+      SET room_id = to_room.id,
+          amount = repriced,
+          status = CASE
+            WHEN amount_paid >= repriced + fee_amount THEN 'paid'
+            ELSE status
+          END,
+          notes = CASE
+            WHEN old_days > 0 THEN concat_ws(E'\n', notes, format(
+              'Pindah kamar: %s hari Kamar %s, %s hari Kamar %s', old_days, COALESCE(from_room.number, '-'), new_days, to_room.number
+            ))
+            ELSE notes
+          END,
+          updated_at = now()
+      WHERE id = bill.id;
+
+      adjusted := adjusted + 1;
+    END LOOP;
+  END IF;
+
+  INSERT INTO room_transfers (
+    tenant_id, property_id, from_room_id, to_room_id, transfer_date, reason,
+    previous_price, new_price, payments_adjusted
+  )
+  VALUES (
+    target.id, target.property_id, from_room.id, to_room.id, p_transfer_date, p_reason,
+    from_room.price, to_room.price, adjusted
+  )
+  RETURNING * INTO transfer;
+
+  RETURN transfer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transfer_tenant_room(uuid, uuid, date, text, boolean) TO authenticated;
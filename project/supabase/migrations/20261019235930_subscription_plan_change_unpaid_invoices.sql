@@ -0,0 +1,169 @@
+/*
+  # Plan changes wait for overdue invoices
+
+  1. Changes
+    - `change_subscription_plan` refuses while the caller's account is
+      read-only or has an unpaid invoice past its grace period. Subscribing
+      anew used to create an active subscription next to the expired one,
+      which lifted read-only mode without paying anything; paying the
+      outstanding invoices reactivates the expired subscription instead.
+  2. Security
+    - Unchanged: the function only acts on the caller's own subscription.
+*/
+
+CREATE OR REPLACE FUNCTION change_subscription_plan(p_plan_id uuid)
+RETURNS subscription_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_subscription subscriptions;
+  old_plan subscription_plans;
+  new_plan subscription_plans;
+  property_count integer;
+  largest_property record;
+  remaining numeric;
+  credit numeric;
+  charge numeric;
+  change_start timestamptz;
+  invoice subscription_invoices;
+BEGIN
+  SELECT * INTO new_plan FROM subscription_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  -- A new subscription must not stand in for paying the overdue ones
+  IF account_is_read_only(auth.uid()) OR EXISTS (
+    SELECT 1 FROM subscription_invoices
+    WHERE user_id = auth.uid() AND status = 'unpaid' AND due_at < now()
+  ) THEN
+    RAISE EXCEPTION 'Account has overdue invoices';
+  END IF;
+
+  SELECT * INTO current_subscription
+  FROM subscriptions
+  WHERE user_id = auth.uid() AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF current_subscription.plan_id = p_plan_id THEN
+    RAISE EXCEPTION 'Already subscribed to this plan';
+  END IF;
+
+  -- The plan limit triggers only guard new rows, so a downgrade must check
+  -- what already exists
+  SELECT count(*) INTO property_count FROM properties WHERE owner_id = auth.uid();
+  IF property_count > new_plan.max_properties THEN
+    RAISE EXCEPTION 'Downgrade exceeds property limit'
+      USING DETAIL = format('%s properties, plan allows %s', property_count, new_plan.max_properties);
+  END IF;
+
+  SELECT p.name, count(r.id) AS room_count INTO largest_property
+  FROM properties p
+  JOIN rooms r ON r.property_id = p.id
+  WHERE p.owner_id = auth.uid()
+  GROUP BY p.id, p.name
+  ORDER BY count(r.id) DESC
+  LIMIT 1;
+
+  IF FOUND AND largest_property.room_count > new_plan.max_rooms_per_property THEN
+    RAISE EXCEPTION 'Downgrade exceeds room limit'
+      USING DETAIL = format('%s has %s rooms, plan allows %s',
+        largest_property.name, largest_property.room_count, new_plan.max_rooms_per_property);
+  END IF;
+
+  IF current_subscription.id IS NULL THEN
+    INSERT INTO subscriptions (user_id, plan_id, status, current_period_start, current_period_end, cancel_at_period_end)
+    VALUES (auth.uid(), p_plan_id, 'active', now(), now() + interval '1 month', false)
+    RETURNING * INTO current_subscription;
+
+    INSERT INTO subscription_invoices (
+      user_id, subscription_id, plan_id, kind, description, amount, status, period_start, period_end
+    )
+    VALUES (
+      auth.uid(),
+      current_subscription.id,
+      p_plan_id,
+      'new',
+      format('Langganan paket %s', new_plan.name),
+      new_plan.price,
+      CASE WHEN new_plan.price > 0 THEN 'unpaid' ELSE 'paid' END,
+      current_subscription.current_period_start,
+      current_subscription.current_period_end
+    )
+    RETURNING * INTO invoice;
+
+    INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+    VALUES (
+      invoice.id,
+      p_plan_id,
+      format('Paket %s', new_plan.name),
+      invoice.period_start,
+      invoice.period_end,
+      new_plan.price
+    );
+
+    RETURN invoice;
+  END IF;
+
+  SELECT * INTO old_plan FROM subscription_plans WHERE id = current_subscription.plan_id;
+
+  -- Share of the current period still to run, between 0 and 1
+  remaining := COALESCE(GREATEST(0, LEAST(1,
+    EXTRACT(EPOCH FROM (current_subscription.current_period_end - now()))
+    / NULLIF(EXTRACT(EPOCH FROM (current_subscription.current_period_end - current_subscription.current_period_start)), 0)
+  )), 0);
+  credit := round(COALESCE(old_plan.price, 0) * remaining);
+  charge := round(new_plan.price * remaining);
+  change_start := GREATEST(now(), current_subscription.current_period_start);
+
+  UPDATE subscriptions
+  SET plan_id = p_plan_id,
+      cancel_at_period_end = false,
+      updated_at = now()
+  WHERE id = current_subscription.id;
+
+  INSERT INTO subscription_invoices (
+    user_id, subscription_id, plan_id, kind, description, amount, status, period_start, period_end
+  )
+  VALUES (
+    auth.uid(),
+    current_subscription.id,
+    p_plan_id,
+    CASE WHEN new_plan.price >= COALESCE(old_plan.price, 0) THEN 'upgrade' ELSE 'downgrade' END,
+    format('Perubahan paket %s ke %s (prorata)', COALESCE(old_plan.name, '-'), new_plan.name),
+    charge - credit,
+    CASE WHEN charge - credit > 0 THEN 'unpaid' WHEN charge - credit < 0 THEN 'credited' ELSE 'paid' END,
+    change_start,
+    current_subscription.current_period_end
+  )
+  RETURNING * INTO invoice;
+
+  IF credit <> 0 THEN
+    INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+    VALUES (
+      invoice.id,
+      old_plan.id,
+      format('Kredit sisa periode paket %s', old_plan.name),
+      change_start,
+      current_subscription.current_period_end,
+      -credit
+    );
+  END IF;
+
+  INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+  VALUES (
+    invoice.id,
+    p_plan_id,
+    format('Sisa periode paket %s', new_plan.name),
+    change_start,
+    current_subscription.current_period_end,
+    charge
+  );
+
+  RETURN invoice;
+END;
+$$;
@@ -0,0 +1,34 @@
+/*
+  # Subscription revenue summed in the database
+
+  1. Functions
+    - `subscription_revenue_by_month(p_start, p_end)`: the revenue of the
+      paid and credited subscription invoices created in the range, per
+      month in Jakarta time. Revenue is counted before PPN and credits from
+      downgrades reduce it. The backoffice dashboard used to read every
+      invoice to sum them, which the API caps at its max rows.
+  2. Security
+    - Only backoffice users get rows, like the invoices RLS.
+*/
+
+CREATE OR REPLACE FUNCTION subscription_revenue_by_month(p_start timestamptz, p_end timestamptz)
+RETURNS TABLE (
+  month date,
+  revenue numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT date_trunc('month', i.created_at AT TIME ZONE 'Asia/Jakarta')::date, sum(i.amount)
+  FROM subscription_invoices i
+  WHERE EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid())
+    AND i.status IN ('paid', 'credited')
+    AND i.created_at >= p_start
+    AND i.created_at <= p_end
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION subscription_revenue_by_month(timestamptz, timestamptz) TO authenticated;
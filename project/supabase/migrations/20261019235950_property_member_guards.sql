@@ -0,0 +1,58 @@
+/*
+  # Guards on property ownership and memberships
+
+  1. Triggers
+    - Only the owner of a property can change its `owner_id`. Admins may
+      update the property, and the update policies alone would let them
+      take it over.
+    - A membership's `property_id`, `user_id` and `email` cannot change.
+      Owners and admins may change member roles, but not move a member to
+      another property or hand the membership to another user.
+    - Scheduled jobs and other service role writes, which run without a
+      user, are not affected.
+*/
+
+CREATE OR REPLACE FUNCTION guard_property_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    AND OLD.owner_id IS DISTINCT FROM auth.uid()
+  THEN
+    RAISE EXCEPTION 'Only the owner can transfer a property';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER properties_guard_owner
+  BEFORE UPDATE OF owner_id ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_property_owner();
+
+CREATE OR REPLACE FUNCTION guard_property_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND (
+    NEW.property_id IS DISTINCT FROM OLD.property_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.email IS DISTINCT FROM OLD.email
+  ) THEN
+    RAISE EXCEPTION 'Only the role of a member can be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER property_members_guard_identity
+  BEFORE UPDATE ON property_members
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_property_member();
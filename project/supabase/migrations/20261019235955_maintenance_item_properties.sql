@@ -0,0 +1,64 @@
+/*
+  # Maintenance cost lines and attachments belong to their request's property
+
+  1. Changes
+    - `maintenance_cost_items.property_id` and
+      `maintenance_attachments.property_id` are now required and must be
+      the property of their maintenance request. RLS checks `property_id`,
+      so a line or photo filed under one property could otherwise be
+      attached to a request of another.
+    - Existing rows take the property of their request. Rows whose request
+      has no property were never visible to anyone and are removed.
+  2. Triggers
+    - Inserts and updates with another property than the request's are
+      rejected, as are attachments stored outside the request's folder.
+*/
+
+UPDATE maintenance_cost_items c
+SET property_id = r.property_id
+FROM maintenance_requests r
+WHERE r.id = c.request_id
+  AND c.property_id IS DISTINCT FROM r.property_id;
+
+UPDATE maintenance_attachments a
+SET property_id = r.property_id
+FROM maintenance_requests r
+WHERE r.id = a.request_id
+  AND a.property_id IS DISTINCT FROM r.property_id;
+
+DELETE FROM maintenance_cost_items WHERE property_id IS NULL;
+DELETE FROM maintenance_attachments WHERE property_id IS NULL;
+
+ALTER TABLE maintenance_cost_items ALTER COLUMN property_id SET NOT NULL;
+ALTER TABLE maintenance_attachments ALTER COLUMN property_id SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION check_maintenance_item_property()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.property_id IS DISTINCT FROM (SELECT property_id FROM maintenance_requests WHERE id = NEW.request_id) THEN
+    RAISE EXCEPTION 'Maintenance request not found';
+  END IF;
+
+  IF TG_TABLE_NAME = 'maintenance_attachments'
+    AND NEW.storage_path NOT LIKE NEW.property_id || '/' || NEW.request_id || '/%'
+  THEN
+    RAISE EXCEPTION 'Attachment must be stored in its request folder';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintenance_cost_items_check_property
+  BEFORE INSERT OR UPDATE ON maintenance_cost_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_maintenance_item_property();
+
+CREATE TRIGGER maintenance_attachments_check_property
+  BEFORE INSERT OR UPDATE ON maintenance_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_maintenance_item_property();
@@ -0,0 +1,78 @@
+/*
+  # Scheduled maintenance requests generated atomically
+
+  1. Functions
+    - `generate_maintenance_schedule_request(p_schedule_id, p_today)`:
+      creates the maintenance request of a due schedule and moves the
+      schedule to its next due date in one transaction. The job used to
+      make these writes one by one, so a failure in between left a request
+      whose schedule would create it again on the next run. A schedule that
+      is no longer active or due, for example because another run already
+      generated it, returns null.
+    - Occurrences missed while the job did not run are skipped. Adding
+      months keeps the day where the month has it and otherwise uses the
+      month's last day, like the app's calendar.
+  2. Security
+    - Only the service role can run it.
+*/
+
+CREATE OR REPLACE FUNCTION generate_maintenance_schedule_request(
+  p_schedule_id uuid,
+  p_today date
+)
+RETURNS maintenance_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule maintenance_schedules;
+  next_due date;
+  request maintenance_requests;
+BEGIN
+  SELECT * INTO schedule
+  FROM maintenance_schedules
+  WHERE id = p_schedule_id
+    AND active
+    AND next_due_date - p_today <= lead_days
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO maintenance_requests (
+    property_id, room_id, schedule_id, vendor_id, title, description,
+    priority, status, date, scheduled_at
+  )
+  VALUES (
+    schedule.property_id,
+    schedule.room_id,
+    schedule.id,
+    schedule.vendor_id,
+    schedule.title,
+    COALESCE(NULLIF(schedule.description, ''), schedule.title),
+    schedule.priority,
+    'pending',
+    p_today,
+    (schedule.next_due_date + time '09:00') AT TIME ZONE 'Asia/Jakarta'
+  )
+  RETURNING * INTO request;
+
+  next_due := (schedule.next_due_date + make_interval(months => schedule.interval_months))::date;
+  WHILE next_due - p_today <= schedule.lead_days LOOP
+    next_due := (next_due + make_interval(months => schedule.interval_months))::date;
+  END LOOP;
+
+  UPDATE maintenance_schedules
+  SET next_due_date = next_due,
+      last_generated_at = now(),
+      updated_at = now()
+  WHERE id = schedule.id;
+
+  RETURN request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_maintenance_schedule_request(uuid, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION generate_maintenance_schedule_request(uuid, date) TO service_role;
@@ -0,0 +1,66 @@
+/*
+  # SLA deadlines of scheduled maintenance counted from the scheduled time
+
+  1. Changes
+    - A request with a `scheduled_at` has its deadlines counted from that
+      time instead of from when it was created. Preventive maintenance is
+      created days ahead of its due date, so its deadlines used to pass
+      before the work was even due.
+    - Deadlines are also moved when `scheduled_at` changes.
+    - Open scheduled requests get their deadlines recomputed.
+*/
+
+CREATE OR REPLACE FUNCTION set_maintenance_sla_deadlines()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target record;
+  reported_at timestamptz := COALESCE(NEW.scheduled_at, NEW.created_at, now());
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.priority IS NOT DISTINCT FROM OLD.priority
+    AND NEW.scheduled_at IS NOT DISTINCT FROM OLD.scheduled_at
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO target FROM maintenance_sla_hours(NEW.property_id, NEW.priority);
+  NEW.start_due_at := reported_at + make_interval(hours => target.start_hours);
+  NEW.resolve_due_at := reported_at + make_interval(hours => target.resolve_hours);
+
+  -- A new deadline that has not passed yet can be escalated again
+  IF NEW.start_due_at > now() THEN
+    NEW.start_escalated_at := NULL;
+  END IF;
+  IF NEW.resolve_due_at > now() THEN
+    NEW.resolve_escalated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS maintenance_requests_set_sla_deadlines ON maintenance_requests;
+
+CREATE TRIGGER maintenance_requests_set_sla_deadlines
+  BEFORE INSERT OR UPDATE OF priority, scheduled_at ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION set_maintenance_sla_deadlines();
+
+UPDATE maintenance_requests r
+SET start_due_at = r.scheduled_at + make_interval(hours => h.start_hours),
+    resolve_due_at = r.scheduled_at + make_interval(hours => h.resolve_hours),
+    start_escalated_at = CASE
+      WHEN r.scheduled_at + make_interval(hours => h.start_hours) > now() THEN NULL
+      ELSE r.start_escalated_at
+    END,
+    resolve_escalated_at = CASE
+      WHEN r.scheduled_at + make_interval(hours => h.resolve_hours) > now() THEN NULL
+      ELSE r.resolve_escalated_at
+    END
+FROM maintenance_requests m
+CROSS JOIN LATERAL maintenance_sla_hours(m.property_id, m.priority) h
+WHERE m.id = r.id
+  AND r.scheduled_at IS NOT NULL
+  AND r.status <> 'completed';
@@ -0,0 +1,57 @@
+/*
+  # Invitations can only be revoked
+
+  1. Security
+    - The revoke policy now also requires the invitation to stay on a
+      property the caller owns or administers, and to end up `revoked`.
+      It only checked the new status, so an invitation could be moved to
+      another owner's property and accepted there.
+  2. Triggers
+    - Only an invitation's `status` and `responded_at` can change. Its
+      property, email, role, inviter and expiry are fixed when it is
+      created.
+*/
+
+DROP POLICY IF EXISTS "Owners and admins can revoke invitations" ON property_invitations;
+
+CREATE POLICY "Owners and admins can revoke invitations"
+  ON property_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+    OR property_id IN (SELECT member_property_ids(ARRAY['admin']))
+  )
+  WITH CHECK (
+    status = 'revoked'
+    AND (
+      property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid())
+      OR property_id IN (SELECT member_property_ids(ARRAY['admin']))
+    )
+  );
+
+CREATE OR REPLACE FUNCTION guard_property_invitation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND (
+    NEW.property_id IS DISTINCT FROM OLD.property_id
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.invited_by IS DISTINCT FROM OLD.invited_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.expires_at IS DISTINCT FROM OLD.expires_at
+  ) THEN
+    RAISE EXCEPTION 'Only the status of an invitation can be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER property_invitations_guard_identity
+  BEFORE UPDATE ON property_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_property_invitation();
@@ -0,0 +1,37 @@
+/*
+  # Payment receipts belong to their payment's property
+
+  1. Changes
+    - Existing receipts take the property of their payment.
+  2. Triggers
+    - Receipts whose `property_id` is not their payment's property are
+      rejected. RLS only checks the property given, and the payment sync
+      trigger then updated whatever payment the receipt named, so an owner
+      could settle the bills of another property.
+*/
+
+UPDATE payment_transactions t
+SET property_id = p.property_id
+FROM payments p
+WHERE p.id = t.payment_id
+  AND t.property_id IS DISTINCT FROM p.property_id;
+
+CREATE OR REPLACE FUNCTION check_payment_item_property()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.property_id IS DISTINCT FROM (SELECT property_id FROM payments WHERE id = NEW.payment_id) THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payment_transactions_check_property
+  BEFORE INSERT OR UPDATE ON payment_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_payment_item_property();
@@ -0,0 +1,22 @@
+/*
+  # Payment fees belong to their payment's property
+
+  1. Changes
+    - Existing fees take the property of their payment.
+  2. Triggers
+    - Fees whose `property_id` is not their payment's property are
+      rejected, like receipts. RLS only checks the property given, and the
+      fee sync trigger then rewrote the fee total and status of whatever
+      payment the fee named.
+*/
+
+UPDATE payment_fees f
+SET property_id = p.property_id
+FROM payments p
+WHERE p.id = f.payment_id
+  AND f.property_id IS DISTINCT FROM p.property_id;
+
+CREATE TRIGGER payment_fees_check_property
+  BEFORE INSERT OR UPDATE ON payment_fees
+  FOR EACH ROW
+  EXECUTE FUNCTION check_payment_item_property();
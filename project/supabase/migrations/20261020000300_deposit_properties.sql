@@ -0,0 +1,78 @@
+/*
+  # Deposits and deductions belong to their tenant's property
+
+  1. Changes
+    - Existing deposits take the property of their tenant, and deductions
+      the property of their deposit.
+  2. Triggers
+    - Deposits whose `property_id` is not their tenant's property are
+      rejected.
+    - Deductions whose `property_id` is not their deposit's property, or
+      that link a maintenance request of another property, are rejected.
+      RLS only checks the property given, so deductions could be attached
+      to the deposits of another property.
+*/
+
+UPDATE tenant_deposits d
+SET property_id = t.property_id
+FROM tenants t
+WHERE t.id = d.tenant_id
+  AND d.property_id IS DISTINCT FROM t.property_id;
+
+UPDATE deposit_deductions x
+SET property_id = d.property_id
+FROM tenant_deposits d
+WHERE d.id = x.deposit_id
+  AND x.property_id IS DISTINCT FROM d.property_id;
+
+UPDATE deposit_deductions x
+SET maintenance_request_id = NULL
+FROM maintenance_requests r
+WHERE r.id = x.maintenance_request_id
+  AND r.property_id IS DISTINCT FROM x.property_id;
+
+CREATE OR REPLACE FUNCTION check_deposit_property()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.property_id IS DISTINCT FROM (SELECT property_id FROM tenants WHERE id = NEW.tenant_id) THEN
+    RAISE EXCEPTION 'Tenant not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER tenant_deposits_check_property
+  BEFORE INSERT OR UPDATE ON tenant_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION check_deposit_property();
+
+CREATE OR REPLACE FUNCTION check_deposit_deduction_property()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.property_id IS DISTINCT FROM (SELECT property_id FROM tenant_deposits WHERE id = NEW.deposit_id) THEN
+    RAISE EXCEPTION 'Deposit not found';
+  END IF;
+
+  IF NEW.maintenance_request_id IS NOT NULL
+    AND NEW.property_id IS DISTINCT FROM (SELECT property_id FROM maintenance_requests WHERE id = NEW.maintenance_request_id)
+  THEN
+    RAISE EXCEPTION 'Maintenance request not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER deposit_deductions_check_property
+  BEFORE INSERT OR UPDATE ON deposit_deductions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_deposit_deduction_property();
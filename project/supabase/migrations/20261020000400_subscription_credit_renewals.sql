@@ -0,0 +1,138 @@
+/*
+  # Downgrade credits are applied to renewals
+
+  1. Changes
+    - `subscription_invoices.credit_remaining`: the part of a `credited`
+      invoice's credit not used yet, before tax. A downgrade credits the
+      rest of the old plan's period, but nothing ever used that credit.
+      Existing credits are still fully open.
+  2. Functions
+    - `renew_subscription` deducts the subscription's open credits, oldest
+      first, from the renewal invoice as a credit line, up to the plan
+      price. Credit left over carries to the next renewal.
+  3. Triggers
+    - New `credited` invoices open their whole credit.
+*/
+
+ALTER TABLE subscription_invoices
+  ADD COLUMN IF NOT EXISTS credit_remaining numeric NOT NULL DEFAULT 0;
+
+UPDATE subscription_invoices
+SET credit_remaining = -amount
+WHERE status = 'credited' AND amount < 0;
+
+CREATE OR REPLACE FUNCTION open_subscription_invoice_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.credit_remaining := CASE WHEN NEW.status = 'credited' THEN GREATEST(0, -NEW.amount) ELSE 0 END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER subscription_invoices_open_credit
+  BEFORE INSERT ON subscription_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION open_subscription_invoice_credit();
+
+CREATE OR REPLACE FUNCTION renew_subscription(
+  p_subscription_id uuid,
+  p_grace_days integer
+)
+RETURNS subscription_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target subscriptions;
+  plan subscription_plans;
+  new_start timestamptz;
+  new_end timestamptz;
+  available numeric;
+  applied numeric;
+  left_to_apply numeric;
+  credit_invoice subscription_invoices;
+  used numeric;
+  invoice subscription_invoices;
+BEGIN
+  SELECT * INTO target FROM subscriptions WHERE id = p_subscription_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  IF target.status <> 'active' OR target.current_period_end > now() THEN
+    RAISE EXCEPTION 'Subscription is not due for renewal';
+  END IF;
+
+  SELECT * INTO plan FROM subscription_plans WHERE id = target.plan_id;
+
+  -- Catch up on missed runs so the new period always contains today
+  new_start := target.current_period_end;
+  new_end := new_start + interval '1 month';
+  WHILE new_end <= now() LOOP
+    new_start := new_end;
+    new_end := new_end + interval '1 month';
+  END LOOP;
+
+  SELECT COALESCE(sum(credit_remaining), 0) INTO available
+  FROM subscription_invoices
+  WHERE subscription_id = target.id AND status = 'credited' AND credit_remaining > 0;
+  applied := LEAST(available, plan.price);
+
+  UPDATE subscriptions
+  SET current_period_start = new_start,
+      current_period_end = new_end,
+      updated_at = now()
+  WHERE id = target.id;
+
+  INSERT INTO subscription_invoices (
+    user_id, subscription_id, plan_id, kind, description, amount, status,
+    period_start, period_end, due_at
+  )
+  VALUES (
+    target.user_id,
+    target.id,
+    plan.id,
+    'renewal',
+    format('Perpanjangan paket %s', plan.name),
+    plan.price - applied,
+    CASE WHEN plan.price - applied > 0 THEN 'unpaid' ELSE 'paid' END,
+    new_start,
+    new_end,
+    new_start + make_interval(days => p_grace_days)
+  )
+  RETURNING * INTO invoice;
+
+  INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+  VALUES (invoice.id, plan.id, format('Paket %s', plan.name), new_start, new_end, plan.price);
+
+  IF applied > 0 THEN
+    INSERT INTO subscription_invoice_items (invoice_id, plan_id, description, period_start, period_end, amount)
+    VALUES (invoice.id, plan.id, 'Kredit perubahan paket', new_start, new_end, -applied);
+
+    left_to_apply := applied;
+    FOR credit_invoice IN
+      SELECT * FROM subscription_invoices
+      WHERE subscription_id = target.id AND status = 'credited' AND credit_remaining > 0
+      ORDER BY created_at, id
+      FOR UPDATE
+    LOOP
+      EXIT WHEN left_to_apply <= 0;
+      used := LEAST(credit_invoice.credit_remaining, left_to_apply);
+
+      UPDATE subscription_invoices
+      SET credit_remaining = credit_remaining - used
+      WHERE id = credit_invoice.id;
+
+      left_to_apply := left_to_apply - used;
+    END LOOP;
+  END IF;
+
+  RETURN invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION renew_subscription(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION renew_subscription(uuid, integer) TO service_role;
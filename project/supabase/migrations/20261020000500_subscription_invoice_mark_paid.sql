@@ -0,0 +1,45 @@
+/*
+  # Backoffice marks invoices paid through a function
+
+  1. Functions
+    - `mark_subscription_invoice_paid(p_invoice_id)`: marks an unpaid
+      invoice paid. Only backoffice admins and superadmins may run it.
+  2. Security
+    - The backoffice update policy on `subscription_invoices` is dropped. It
+      let every backoffice role, support included, rewrite any column of
+      any invoice, such as its amount, tax or owner.
+*/
+
+DROP POLICY IF EXISTS "Backoffice users can update subscription invoices" ON subscription_invoices;
+
+CREATE OR REPLACE FUNCTION mark_subscription_invoice_paid(p_invoice_id uuid)
+RETURNS subscription_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice subscription_invoices;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM backoffice_users
+    WHERE user_id = auth.uid() AND role IN ('superadmin', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  -- Paying the last unpaid invoice reactivates an expired subscription
+  UPDATE subscription_invoices
+  SET status = 'paid'
+  WHERE id = p_invoice_id AND status = 'unpaid'
+  RETURNING * INTO invoice;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  RETURN invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_subscription_invoice_paid(uuid) TO authenticated;
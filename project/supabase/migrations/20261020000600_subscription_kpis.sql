@@ -0,0 +1,89 @@
+/*
+  # Subscription KPIs computed in the database
+
+  1. Functions
+    - `subscription_kpis(p_window_days)`: subscription counts, MRR now and
+      at the start of the window, and the subscriptions active at the
+      window start that ended within it, for churn. MRR is priced at each
+      subscription's current plan, since plan changes are not kept as
+      history. Subscriptions that ended before `ended_at` was tracked fall
+      back to their last update.
+    - `upcoming_subscription_renewals(p_days)`: active subscriptions renewing
+      within the days given, with the owner's email and plan.
+    - The backoffice dashboard used to read every subscription for these,
+      which the API caps at its max rows, and looked emails up through an
+      admin API the browser cannot call.
+  2. Security
+    - Only backoffice users get rows.
+*/
+
+CREATE OR REPLACE FUNCTION subscription_kpis(p_window_days integer)
+RETURNS TABLE (
+  total integer,
+  active integer,
+  cancelled integer,
+  mrr numeric,
+  previous_mrr numeric,
+  active_at_window_start integer,
+  churned integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH history AS (
+    SELECT
+      s.status,
+      s.created_at,
+      COALESCE(s.ended_at, CASE WHEN s.status <> 'active' THEN s.updated_at END) AS ended_at,
+      COALESCE(p.price, 0) AS price,
+      now() - make_interval(days => p_window_days) AS window_start
+    FROM subscriptions s
+    LEFT JOIN subscription_plans p ON p.id = s.plan_id
+    WHERE EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid())
+  ),
+  flagged AS (
+    SELECT *,
+      created_at <= now() AND (ended_at IS NULL OR ended_at > now()) AS active_now,
+      created_at <= window_start AND (ended_at IS NULL OR ended_at > window_start) AS active_at_start
+    FROM history
+  )
+  SELECT
+    count(*)::integer,
+    count(*) FILTER (WHERE status = 'active')::integer,
+    count(*) FILTER (WHERE status <> 'active')::integer,
+    COALESCE(sum(price) FILTER (WHERE active_now), 0),
+    COALESCE(sum(price) FILTER (WHERE active_at_start), 0),
+    count(*) FILTER (WHERE active_at_start)::integer,
+    count(*) FILTER (WHERE active_at_start AND ended_at <= now())::integer
+  FROM flagged;
+$$;
+
+GRANT EXECUTE ON FUNCTION subscription_kpis(integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION upcoming_subscription_renewals(p_days integer)
+RETURNS TABLE (
+  id uuid,
+  user_email text,
+  plan_name text,
+  amount numeric,
+  renews_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id, u.email::text, p.name, COALESCE(p.price, 0), s.current_period_end
+  FROM subscriptions s
+  LEFT JOIN subscription_plans p ON p.id = s.plan_id
+  LEFT JOIN auth.users u ON u.id = s.user_id
+  WHERE EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid())
+    AND s.status = 'active'
+    AND NOT s.cancel_at_period_end
+    AND s.current_period_end <= now() + make_interval(days => p_days)
+  ORDER BY s.current_period_end;
+$$;
+
+GRANT EXECUTE ON FUNCTION upcoming_subscription_renewals(integer) TO authenticated;